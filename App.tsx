@@ -1,5 +1,5 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { useEffect } from 'react';
 import { DashboardIcon, IntelligenceIcon, AccountsIcon, LogoIcon, OperationsIcon, AnalyticsIcon } from './components/Icons';
 import Dashboard from './components/Dashboard';
@@ -8,21 +8,42 @@ import Accounts from './components/Accounts';
 import Operations from './components/Operations';
 import Analytics from './components/Analytics';
 import Admin from './components/Admin';
-import type { Page, Account, Trade, WatchlistItem } from './types';
-import { MOCK_WATCHLIST } from './constants';
+import NotificationCenter from './components/Notifications';
+import type { NewPriceAlert } from './components/Notifications';
+import type { Page, Account, Trade, Watchlist, WatchlistItem, CashTransaction, AppNotification, PriceAlert } from './types';
 import { TradeStatus, TradeType } from './types';
-import { fetchAccounts, createAccount, deleteAccount, fetchTrades, createTrade, closeTradeInDb, fetchWatchlist, debugFetchProfiles, updateTrade } from './services/databaseService';
-import { deleteOperation, partialCloseTradeInDb } from './services/databaseService';
+import { fetchAccounts, createAccount, deleteAccount, fetchTrades, createTrade, closeTradeInDb, fetchWatchlists, debugFetchProfiles, updateTrade, updateProtectiveLevels } from './services/databaseService';
+import { deleteOperation, partialCloseTradeInDb, reverseTradeInDb, scaleInTradeInDb, importBrokerOperations } from './services/databaseService';
+import type { ImportResult } from './services/databaseService';
+import type { ImportedOperation } from './services/brokerImport';
+import { fetchCashTransactions, createCashTransaction, transferBetweenAccounts, deleteCashTransaction } from './services/databaseService';
+import { fetchFxRates, fetchUserProfile } from './services/databaseService';
+import { createWatchlist, renameWatchlist, deleteWatchlist, addWatchlistItem, updateWatchlistItem, removeWatchlistItem, reorderWatchlistItems } from './services/databaseService';
+import type { WatchlistActions } from './components/Intelligence';
+import { fetchPriceAlerts, createPriceAlert, setPriceAlertActive, deletePriceAlert, fetchNotifications, markNotificationsRead, deleteNotification } from './services/databaseService';
+import { calculateAccountMargins } from './services/accountLedger';
+import { PIVOT_CURRENCY } from './services/currency';
+import type { FxRates } from './services/currency';
+import { getCurrentUser, signOut } from './services/authService';
 
 
+const NOTIFICATION_POLL_INTERVAL_MS = 60_000;
+
 const App: React.FC = () => {
   const [activePage, setActivePage] = useState<Page>('dashboard');
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [trades, setTrades] = useState<Trade[]>([]);
-  const [watchlist, setWatchlist] = useState<WatchlistItem[]>(MOCK_WATCHLIST);
+  const [cashTransactions, setCashTransactions] = useState<CashTransaction[]>([]);
+  const [fxRates, setFxRates] = useState<FxRates>({});
+  const [baseCurrency, setBaseCurrency] = useState<string>(PIVOT_CURRENCY);
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [userEmail, setUserEmail] = useState<string | null>(null);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [priceAlerts, setPriceAlerts] = useState<PriceAlert[]>([]);
+  const [isNotificationCenterOpen, setIsNotificationCenterOpen] = useState(false);
 
   // Load data from Supabase on component mount
   useEffect(() => {
@@ -31,10 +52,14 @@ const App: React.FC = () => {
         setIsLoading(true);
         setError(null);
         
-        const [accountsData, tradesData, watchlistData] = await Promise.all([
+        const [accountsData, tradesData, watchlistsData, cashTransactionsData, fxRatesData, profileData] = await Promise.all([
           fetchAccounts(),
           fetchTrades(),
-          fetchWatchlist()
+          fetchWatchlists(),
+          fetchCashTransactions(),
+          // Without rates or a profile everything is shown unconverted in USD
+          fetchFxRates().catch(() => ({} as FxRates)),
+          fetchUserProfile().catch(() => null)
         ]);
         
         // Debug: Fetch and display profiles table
@@ -42,20 +67,102 @@ const App: React.FC = () => {
         
         setAccounts(accountsData);
         setTrades(tradesData);
-        setWatchlist(watchlistData);
+        setWatchlists(watchlistsData);
+        setCashTransactions(cashTransactionsData);
+        setFxRates(fxRatesData);
+        setBaseCurrency(profileData?.base_currency || PIVOT_CURRENCY);
       } catch (err) {
         console.error('Error loading data:', err);
         setError('Failed to load data from database');
         // Fall back to empty arrays to prevent app crash
         setAccounts([]);
         setTrades([]);
-        setWatchlist(MOCK_WATCHLIST);
+        setWatchlists([]);
+        setCashTransactions([]);
       } finally {
         setIsLoading(false);
       }
     };
 
     loadData();
+    getCurrentUser()
+      .then(user => setUserEmail(user?.email ?? null))
+      .catch(() => setUserEmail(null));
+    fetchPriceAlerts()
+      .then(setPriceAlerts)
+      .catch(err => console.error('Error loading price alerts:', err));
+  }, []);
+
+  // Alerts are evaluated by the price updater, poll for the notifications it writes
+  useEffect(() => {
+    const loadNotifications = () => {
+      fetchNotifications()
+        .then(setNotifications)
+        .catch(err => console.error('Error loading notifications:', err));
+    };
+
+    loadNotifications();
+    const interval = setInterval(loadNotifications, NOTIFICATION_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const markRead = useCallback((notificationIds: string[]) => {
+    markNotificationsRead(notificationIds)
+      .then(() => {
+        const readAt = new Date().toISOString();
+        setNotifications(prev => prev.map(n => notificationIds.includes(n.id) ? { ...n, readAt } : n));
+      })
+      .catch(err => {
+        console.error('Error marking notifications as read:', err);
+        setError('Failed to update notifications');
+      });
+  }, []);
+
+  const removeNotification = useCallback((notificationId: string) => {
+    deleteNotification(notificationId)
+      .then(() => setNotifications(prev => prev.filter(n => n.id !== notificationId)))
+      .catch(err => {
+        console.error('Error deleting notification:', err);
+        setError('Failed to delete notification');
+      });
+  }, []);
+
+  const addPriceAlert = useCallback((alert: NewPriceAlert) => {
+    createPriceAlert(alert)
+      .then(newAlert => setPriceAlerts(prev => [newAlert, ...prev]))
+      .catch(err => {
+        console.error('Error creating price alert:', err);
+        setError('Failed to create price alert');
+      });
+  }, []);
+
+  const togglePriceAlert = useCallback((alert: PriceAlert) => {
+    const isActive = !alert.isActive;
+    setPriceAlertActive(alert.id, isActive)
+      .then(() => setPriceAlerts(prev => prev.map(a => a.id === alert.id
+        ? { ...a, isActive, triggeredAt: isActive ? undefined : a.triggeredAt, triggeredPrice: isActive ? undefined : a.triggeredPrice }
+        : a)))
+      .catch(err => {
+        console.error('Error updating price alert:', err);
+        setError('Failed to update price alert');
+      });
+  }, []);
+
+  const removePriceAlert = useCallback((alertId: string) => {
+    deletePriceAlert(alertId)
+      .then(() => setPriceAlerts(prev => prev.filter(a => a.id !== alertId)))
+      .catch(err => {
+        console.error('Error deleting price alert:', err);
+        setError('Failed to delete price alert');
+      });
+  }, []);
+
+  const handleSignOut = useCallback(() => {
+    // The auth gate returns to the login screen once the session is gone
+    signOut().catch(err => {
+      console.error('Error signing out:', err);
+      setError('Failed to sign out');
+    });
   }, []);
 
   const addAccount = useCallback((account: Omit<Account, 'id' | 'createdAt' | 'status'>) => {
@@ -81,16 +188,92 @@ const App: React.FC = () => {
       });
   }, []);
   
-  const addToWatchlist = useCallback((item: WatchlistItem) => {
-    setWatchlist(prev => {
-        if (prev.some(w => w.symbol === item.symbol)) return prev;
-        return [...prev, item];
-    });
-  }, []);
+  const replaceWatchlistItems = (watchlistId: string, update: (items: WatchlistItem[]) => WatchlistItem[]) =>
+    setWatchlists(prev => prev.map(list => list.id === watchlistId ? { ...list, items: update(list.items) } : list));
 
-  const removeFromWatchlist = useCallback((symbol: string) => {
-      setWatchlist(prev => prev.filter(item => item.symbol !== symbol));
-  }, []);
+  const watchlistActions = useMemo<WatchlistActions>(() => ({
+    addList: name => {
+      createWatchlist(name, watchlists.length)
+        .then(list => setWatchlists(prev => [...prev, list]))
+        .catch(err => {
+          console.error('Error creating watchlist:', err);
+          setError('Failed to create watchlist');
+        });
+    },
+    renameList: (watchlistId, name) => {
+      renameWatchlist(watchlistId, name)
+        .then(() => setWatchlists(prev => prev.map(list => list.id === watchlistId ? { ...list, name } : list)))
+        .catch(err => {
+          console.error('Error renaming watchlist:', err);
+          setError('Failed to rename watchlist');
+        });
+    },
+    deleteList: watchlistId => {
+      deleteWatchlist(watchlistId)
+        .then(() => setWatchlists(prev => prev.filter(list => list.id !== watchlistId)))
+        .catch(err => {
+          console.error('Error deleting watchlist:', err);
+          setError('Failed to delete watchlist');
+        });
+    },
+    addItem: (watchlistId, symbol) => {
+      // The first symbol ever watched creates a default list to hold it
+      const target = watchlists.find(list => list.id === watchlistId);
+      const listPromise = target
+        ? Promise.resolve(target)
+        : createWatchlist('Watchlist', watchlists.length).then(list => {
+            setWatchlists(prev => [...prev, list]);
+            return list;
+          });
+
+      listPromise
+        .then(list => {
+          if (list.items.some(item => item.symbol === symbol)) return;
+          return addWatchlistItem(list.id, symbol, list.items.length)
+            .then(item => replaceWatchlistItems(list.id, items => [...items, item]));
+        })
+        .catch(err => {
+          console.error('Error adding to watchlist:', err);
+          setError('Failed to add to watchlist');
+        });
+    },
+    removeItem: item => {
+      removeWatchlistItem(item.id)
+        .then(() => replaceWatchlistItems(item.watchlistId, items => items.filter(i => i.id !== item.id)))
+        .catch(err => {
+          console.error('Error removing from watchlist:', err);
+          setError('Failed to remove from watchlist');
+        });
+    },
+    updateItem: (item, updates) => {
+      updateWatchlistItem(item.id, updates)
+        .then(() => replaceWatchlistItems(item.watchlistId, items => items.map(i => i.id === item.id
+          ? { ...i, notes: updates.notes ?? i.notes, targetPrice: updates.targetPrice === null ? undefined : updates.targetPrice ?? i.targetPrice }
+          : i)))
+        .catch(err => {
+          console.error('Error updating watchlist item:', err);
+          setError('Failed to update watchlist item');
+        });
+    },
+    moveItem: (item, direction) => {
+      const list = watchlists.find(l => l.id === item.watchlistId);
+      if (!list) return;
+
+      const index = list.items.findIndex(i => i.id === item.id);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= list.items.length) return;
+
+      const reordered = [...list.items];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      const items = reordered.map((i, position) => ({ ...i, position }));
+
+      replaceWatchlistItems(list.id, () => items);
+      reorderWatchlistItems(items.map(i => i.id)).catch(err => {
+        console.error('Error reordering watchlist:', err);
+        setError('Failed to reorder watchlist');
+      });
+    },
+  }), [watchlists]);
 
   const addTrade = useCallback((tradeData: Omit<Trade, 'id' | 'status' | 'openAt' | 'pnl'>) => {
     createTrade(tradeData)
@@ -118,6 +301,45 @@ const App: React.FC = () => {
       });
   }, []);
 
+  const handleScaleInTrade = useCallback((tradeId: string, fill: { quantity: number; price: number; openFee?: number; fillTimestamp?: string }) => {
+    scaleInTradeInDb(tradeId, fill)
+      .then(() => {
+        // Refresh trades data so the average open price is recomputed
+        return fetchTrades();
+      })
+      .then(updatedTrades => {
+        setTrades(updatedTrades);
+      })
+      .catch(err => {
+        console.error('Error adding to trade:', err);
+        setError('Failed to add to position');
+      });
+  }, []);
+
+  const handleReverseTrade = useCallback((tradeId: string, price: number, orderQuantity: number) => {
+    reverseTradeInDb(tradeId, price, orderQuantity)
+      .then(() => {
+        // Refresh trades data to pick up both the closed and the new position
+        return fetchTrades();
+      })
+      .then(updatedTrades => {
+        setTrades(updatedTrades);
+      })
+      .catch(err => {
+        console.error('Error reversing trade:', err);
+        setError('Failed to reverse position');
+      });
+  }, []);
+
+  const handleImportOperations = useCallback((accountId: string, operations: ImportedOperation[]): Promise<ImportResult> => {
+    return importBrokerOperations(accountId, operations)
+      .then(async result => {
+        // Refresh trades data to pick up the imported operations
+        setTrades(await fetchTrades());
+        return result;
+      });
+  }, []);
+
   const deleteTrade = useCallback((tradeId: string) => {
     deleteOperation(tradeId)
       .then(() => {
@@ -140,7 +362,21 @@ const App: React.FC = () => {
       })
       .catch(err => {
         console.error('Error updating trade:', err);
-        setError('Failed to update trade');
+        setError(err.message || 'Failed to update trade');
+      });
+  }, []);
+
+  const handleUpdateProtectiveLevels = useCallback((tradeId: string, levels: Pick<Trade, 'stopLoss' | 'takeProfit' | 'trailingStopDistance'>) => {
+    updateProtectiveLevels(tradeId, levels)
+      .then(() => {
+        return fetchTrades();
+      })
+      .then(updatedTrades => {
+        setTrades(updatedTrades);
+      })
+      .catch(err => {
+        console.error('Error updating protective levels:', err);
+        setError('Failed to update protective orders');
       });
   }, []);
 
@@ -148,8 +384,66 @@ const App: React.FC = () => {
     setAccounts(prev => prev.map(account => 
       account.id === accountId ? { ...account, ...updates } : account
     ));
+
+    // Realized P&L depends on how lots are matched, so recompute trades
+    if (updates.lotMatchingMethod) {
+      fetchTrades()
+        .then(updatedTrades => setTrades(updatedTrades))
+        .catch(err => {
+          console.error('Error refreshing trades:', err);
+          setError('Failed to refresh trades');
+        });
+    }
   }, []);
 
+  const addCashTransaction = useCallback((transaction: Parameters<typeof createCashTransaction>[0]) => {
+    createCashTransaction(transaction)
+      .then(newTransaction => {
+        setCashTransactions(prev => [newTransaction, ...prev]);
+      })
+      .catch(err => {
+        console.error('Error recording cash transaction:', err);
+        setError(err.message || 'Failed to record cash transaction');
+      });
+  }, []);
+
+  const transferCash = useCallback((transfer: Parameters<typeof transferBetweenAccounts>[0]) => {
+    transferBetweenAccounts(transfer)
+      .then(legs => {
+        setCashTransactions(prev => [...legs, ...prev]);
+      })
+      .catch(err => {
+        console.error('Error recording transfer:', err);
+        setError(err.message || 'Failed to record transfer');
+      });
+  }, []);
+
+  const removeCashTransaction = useCallback((transaction: CashTransaction) => {
+    deleteCashTransaction(transaction)
+      .then(() => {
+        setCashTransactions(prev => prev.filter(t =>
+          transaction.transferId ? t.transferId !== transaction.transferId : t.id !== transaction.id
+        ));
+      })
+      .catch(err => {
+        console.error('Error deleting cash transaction:', err);
+        setError(err.message || 'Failed to delete cash transaction');
+      });
+  }, []);
+
+  const unreadCount = notifications.filter(notification => !notification.readAt).length;
+
+  // Watched and traded symbols are offered when creating an alert
+  const alertSymbols = useMemo(() => [...new Set<string>([
+    ...watchlists.flatMap(list => list.items.map(item => item.symbol)),
+    ...trades.filter(trade => trade.status === TradeStatus.OPEN).map(trade => trade.symbol),
+  ])].sort(), [watchlists, trades]);
+
+  const accountMargins = useMemo(
+    () => calculateAccountMargins(accounts, trades, cashTransactions, fxRates),
+    [accounts, trades, cashTransactions, fxRates]
+  );
+
   // Show loading state
   if (isLoading) {
     return (
@@ -184,19 +478,19 @@ const App: React.FC = () => {
   const renderPage = () => {
     switch (activePage) {
       case 'dashboard':
-        return <Dashboard accounts={accounts} trades={trades} watchlist={watchlist} removeFromWatchlist={removeFromWatchlist} addTrade={addTrade} closeTrade={handleCloseTrade} />;
+        return <Dashboard accounts={accounts} trades={trades} cashTransactions={cashTransactions} accountMargins={accountMargins} baseCurrency={baseCurrency} fxRates={fxRates} watchlists={watchlists} watchlistActions={watchlistActions} addTrade={addTrade} closeTrade={handleCloseTrade} />;
       case 'intelligence':
-        return <Intelligence watchlist={watchlist} addToWatchlist={addToWatchlist} removeFromWatchlist={removeFromWatchlist} addTrade={addTrade} accounts={accounts} />;
+        return <Intelligence watchlists={watchlists} watchlistActions={watchlistActions} addTrade={addTrade} accounts={accounts} accountMargins={accountMargins} />;
       case 'operations':
-        return <Operations trades={trades} accounts={accounts} addTrade={addTrade} closeTrade={handleCloseTrade} deleteTrade={deleteTrade} updateTrade={handleUpdateTrade} />;
+        return <Operations trades={trades} accounts={accounts} accountMargins={accountMargins} addTrade={addTrade} closeTrade={handleCloseTrade} scaleInTrade={handleScaleInTrade} reverseTrade={handleReverseTrade} deleteTrade={deleteTrade} updateTrade={handleUpdateTrade} updateProtectiveLevels={handleUpdateProtectiveLevels} importOperations={handleImportOperations} />;
       case 'accounts':
-        return <Accounts accounts={accounts} addAccount={addAccount} removeAccount={removeAccount} updateAccount={updateAccount} trades={trades} />;
+        return <Accounts accounts={accounts} fxRates={fxRates} updateBaseCurrency={setBaseCurrency} addAccount={addAccount} removeAccount={removeAccount} updateAccount={updateAccount} trades={trades} cashTransactions={cashTransactions} addCashTransaction={addCashTransaction} transferCash={transferCash} removeCashTransaction={removeCashTransaction} />;
       case 'analytics':
-        return <Analytics trades={trades} accounts={accounts} />;
+        return <Analytics trades={trades} accounts={accounts} baseCurrency={baseCurrency} fxRates={fxRates} />;
       case 'admin':
         return <Admin />;
       default:
-        return <Dashboard accounts={accounts} trades={trades} watchlist={watchlist} removeFromWatchlist={removeFromWatchlist} addTrade={addTrade} closeTrade={handleCloseTrade} />;
+        return <Dashboard accounts={accounts} trades={trades} cashTransactions={cashTransactions} accountMargins={accountMargins} baseCurrency={baseCurrency} fxRates={fxRates} watchlists={watchlists} watchlistActions={watchlistActions} addTrade={addTrade} closeTrade={handleCloseTrade} />;
     }
   };
 
@@ -251,15 +545,52 @@ const App: React.FC = () => {
           <NavItem page="analytics" label="Analytics" icon={<AnalyticsIcon />} />
           <NavItem page="accounts" label="Accounts" icon={<AccountsIcon />} />
           <NavItem page="admin" label="Admin" icon={<i className="ri-settings-3-line text-xl"></i>} />
+          <button
+            onClick={() => {
+              setIsNotificationCenterOpen(true);
+              setIsMobileMenuOpen(false);
+            }}
+            className="flex items-center w-full px-4 py-3 text-left transition-colors duration-200 rounded-lg text-gray-400 hover:bg-gray-700 hover:text-gray-200"
+          >
+            <i className="ri-notification-3-line text-2xl"></i>
+            <span className="ml-4 font-medium">Notifications</span>
+            {unreadCount > 0 && (
+              <span className="ml-auto px-2 py-0.5 text-xs font-bold rounded-full bg-brand-red text-white">{unreadCount}</span>
+            )}
+          </button>
         </nav>
-        <div className="mt-auto text-center text-gray-600 text-xs">
-          <p>CFD Tracker Pro v1.0</p>
+        <div className="mt-auto space-y-4">
+          <div className="px-2 pt-4 border-t border-gray-700">
+            {userEmail && <p className="text-xs text-gray-400 truncate mb-2" title={userEmail}>{userEmail}</p>}
+            <button
+              onClick={handleSignOut}
+              className="flex items-center w-full text-sm text-gray-400 hover:text-gray-200 transition-colors"
+            >
+              <i className="ri-logout-box-r-line text-lg"></i>
+              <span className="ml-2">Sign out</span>
+            </button>
+          </div>
+          <p className="text-center text-gray-600 text-xs">CFD Tracker Pro v1.0</p>
         </div>
       </aside>
 
       <main className="flex-1 p-4 sm:p-6 lg:p-8 overflow-y-auto">
         {renderPage()}
       </main>
+
+      <NotificationCenter
+        isOpen={isNotificationCenterOpen}
+        onClose={() => setIsNotificationCenterOpen(false)}
+        notifications={notifications}
+        alerts={priceAlerts}
+        trades={trades}
+        symbols={alertSymbols}
+        markRead={markRead}
+        removeNotification={removeNotification}
+        createAlert={addPriceAlert}
+        toggleAlert={togglePriceAlert}
+        removeAlert={removePriceAlert}
+      />
     </div>
   );
 };
@@ -1,9 +1,11 @@
 
 import React, { useState } from 'react';
 import { useEffect } from 'react';
-import type { Account, Trade } from '../types';
-import { TradeStatus } from '../types';
-import { fetchUserProfile, updateUserProfile, deleteAccount, updateAccountCommissions } from '../services/databaseService';
+import type { Account, CashTransaction, CashTransactionType, LotMatchingMethod, Trade } from '../types';
+import { calculateAccountBalance, calculateAccountMargin } from '../services/accountLedger';
+import { fetchUserProfile, updateUserProfile, deleteAccount, updateAccountCommissions, updateAccountLotMatchingMethod, updateAccountFinancingRules, updateAccountMarginCallLevel, updateAccountCurrency } from '../services/databaseService';
+import { convertAmount, currencySymbolOf, hasFxRate, PIVOT_CURRENCY, SUPPORTED_CURRENCIES } from '../services/currency';
+import type { FxRates } from '../services/currency';
 
 interface AccountsProps {
   accounts: Account[];
@@ -11,8 +13,42 @@ interface AccountsProps {
   removeAccount: (accountId: string) => void;
   updateAccount: (accountId: string, updates: Partial<Account>) => void;
   trades: Trade[];
+  cashTransactions: CashTransaction[];
+  addCashTransaction: (transaction: NewCashTransaction) => void;
+  transferCash: (transfer: NewTransfer) => void;
+  removeCashTransaction: (transaction: CashTransaction) => void;
+  fxRates: FxRates;
+  updateBaseCurrency: (currency: string) => void;
 }
 
+type ManualCashTransactionType = Exclude<CashTransactionType, 'transfer_in' | 'transfer_out'>;
+
+interface NewCashTransaction {
+  accountId: string;
+  type: ManualCashTransactionType;
+  amount: number;
+  description?: string;
+  occurredAt?: string;
+}
+
+interface NewTransfer {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  receivedAmount?: number; // In the receiving account's currency, converted at the latest rates when omitted
+  description?: string;
+  occurredAt?: string;
+}
+
+const CASH_TRANSACTION_LABELS: Record<CashTransactionType, string> = {
+  deposit: 'Deposit',
+  withdrawal: 'Withdrawal',
+  transfer_in: 'Transfer In',
+  transfer_out: 'Transfer Out',
+  dividend: 'Dividend',
+  adjustment: 'Adjustment'
+};
+
 interface UserProfile {
   base_currency: string;
   risk_per_trade: number;
@@ -55,17 +91,237 @@ const DeleteAccountModal: React.FC<{
   );
 };
 
+const CashLedgerModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  account: Account;
+  accounts: Account[];
+  transactions: CashTransaction[];
+  onAdd: (transaction: NewCashTransaction) => void;
+  onTransfer: (transfer: NewTransfer) => void;
+  onRemove: (transaction: CashTransaction) => void;
+  fxRates: FxRates;
+}> = ({ isOpen, onClose, account, accounts, transactions, onAdd, onTransfer, onRemove, fxRates }) => {
+  const [type, setType] = useState<ManualCashTransactionType | 'transfer'>('deposit');
+  const [amount, setAmount] = useState('');
+  const [receivedAmount, setReceivedAmount] = useState('');
+  const [toAccountId, setToAccountId] = useState('');
+  const [description, setDescription] = useState('');
+  const [occurredAt, setOccurredAt] = useState(() => new Date().toISOString().slice(0, 10));
+
+  if (!isOpen) return null;
+
+  const otherAccounts = accounts.filter(acc => acc.id !== account.id);
+  const getAccountName = (id?: string) => accounts.find(acc => acc.id === id)?.name || 'Unknown';
+  const toCurrency = accounts.find(acc => acc.id === toAccountId)?.currency;
+  const isCrossCurrency = type === 'transfer' && !!toCurrency && toCurrency !== account.currency;
+  const convertedAmount = isCrossCurrency && parseFloat(amount) && hasFxRate(account.currency, toCurrency, fxRates)
+    ? convertAmount(Math.abs(parseFloat(amount)), account.currency, toCurrency, fxRates)
+    : undefined;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (!value) return;
+
+    const timestamp = new Date(`${occurredAt}T12:00:00`).toISOString();
+    if (type === 'transfer') {
+      if (!toAccountId) return;
+      const received = isCrossCurrency && receivedAmount ? Math.abs(parseFloat(receivedAmount)) : undefined;
+      onTransfer({ fromAccountId: account.id, toAccountId, amount: Math.abs(value), receivedAmount: received || undefined, description, occurredAt: timestamp });
+    } else {
+      onAdd({ accountId: account.id, type, amount: value, description, occurredAt: timestamp });
+    }
+
+    setAmount('');
+    setReceivedAmount('');
+    setDescription('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-gray-800 rounded-lg shadow-xl p-8 w-full max-w-2xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold text-gray-200">Cash Ledger - {account.name}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-200 text-2xl">×</button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          <div>
+            <label htmlFor="cashType" className="block text-sm font-medium text-gray-400 mb-1">Type</label>
+            <select
+              id="cashType"
+              value={type}
+              onChange={(e) => setType(e.target.value as ManualCashTransactionType | 'transfer')}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+            >
+              <option value="deposit">Deposit</option>
+              <option value="withdrawal">Withdrawal</option>
+              <option value="dividend">Dividend</option>
+              <option value="adjustment">Adjustment</option>
+              {otherAccounts.length > 0 && <option value="transfer">Transfer to another account</option>}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="cashAmount" className="block text-sm font-medium text-gray-400 mb-1">
+              Amount ({account.currency}){type === 'adjustment' && <span className="ml-1 text-gray-500">negative to debit</span>}
+            </label>
+            <input
+              id="cashAmount"
+              type="number"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+              required
+            />
+          </div>
+          {type === 'transfer' && (
+            <div>
+              <label htmlFor="cashToAccount" className="block text-sm font-medium text-gray-400 mb-1">To Account</label>
+              <select
+                id="cashToAccount"
+                value={toAccountId}
+                onChange={(e) => setToAccountId(e.target.value)}
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+                required
+              >
+                <option value="">Select account</option>
+                {otherAccounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+              </select>
+            </div>
+          )}
+          {isCrossCurrency && (
+            <div>
+              <label htmlFor="cashReceived" className="block text-sm font-medium text-gray-400 mb-1">
+                Received ({toCurrency})<span className="ml-1 text-gray-500">empty for the latest rate</span>
+              </label>
+              <input
+                id="cashReceived"
+                type="number"
+                step="0.01"
+                value={receivedAmount}
+                onChange={(e) => setReceivedAmount(e.target.value)}
+                placeholder={convertedAmount !== undefined ? convertedAmount.toFixed(2) : ''}
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+              />
+            </div>
+          )}
+          <div>
+            <label htmlFor="cashDate" className="block text-sm font-medium text-gray-400 mb-1">Date</label>
+            <input
+              id="cashDate"
+              type="date"
+              value={occurredAt}
+              onChange={(e) => setOccurredAt(e.target.value)}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+              required
+            />
+          </div>
+          <div className={type === 'transfer' && !isCrossCurrency ? '' : 'md:col-span-2'}>
+            <label htmlFor="cashDescription" className="block text-sm font-medium text-gray-400 mb-1">Description</label>
+            <input
+              id="cashDescription"
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+              placeholder="Optional"
+            />
+          </div>
+          <div className="md:col-span-2 flex justify-end">
+            <button type="submit" className="px-6 py-2 rounded-lg bg-brand-blue text-white font-bold hover:bg-blue-500">
+              {type === 'transfer' ? 'Record Transfer' : 'Record Transaction'}
+            </button>
+          </div>
+        </form>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left text-gray-400">
+            <thead className="text-xs text-gray-400 uppercase bg-gray-700/50">
+              <tr>
+                <th className="p-3">Date</th>
+                <th className="p-3">Type</th>
+                <th className="p-3">Description</th>
+                <th className="p-3 text-right">Amount</th>
+                <th className="p-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {transactions.length > 0 ? transactions.map(transaction => (
+                <tr key={transaction.id} className="border-b border-gray-700">
+                  <td className="p-3">{new Date(transaction.occurredAt).toLocaleDateString()}</td>
+                  <td className="p-3">{CASH_TRANSACTION_LABELS[transaction.type]}</td>
+                  <td className="p-3">
+                    {transaction.counterpartyAccountId && (
+                      <span className="text-gray-300">
+                        {transaction.type === 'transfer_out' ? 'To ' : 'From '}{getAccountName(transaction.counterpartyAccountId)}
+                        {transaction.description ? ' - ' : ''}
+                      </span>
+                    )}
+                    {transaction.description}
+                  </td>
+                  <td className={`p-3 text-right font-mono ${transaction.amount >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>
+                    {transaction.amount >= 0 ? '+' : ''}{transaction.amount.toFixed(2)}
+                  </td>
+                  <td className="p-3 text-right">
+                    <button
+                      onClick={() => onRemove(transaction)}
+                      className="text-gray-400 hover:text-brand-red transition-colors p-1"
+                      title={transaction.transferId ? 'Delete transfer (both accounts)' : 'Delete transaction'}
+                    >
+                      <i className="ri-delete-bin-line text-base"></i>
+                    </button>
+                  </td>
+                </tr>
+              )) : (
+                <tr><td colSpan={5} className="text-center p-6 text-gray-500">No cash movements recorded.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const LOT_MATCHING_LABELS: Record<LotMatchingMethod, string> = {
+  fifo: 'FIFO',
+  lifo: 'LIFO',
+  average: 'Weighted Average'
+};
+
+const WEEKDAY_LABELS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const describeFinancingRules = (account: Account): string => {
+  if (account.financingWeekends) return 'Every night';
+  if (account.financingTripleDay === null) return 'Weeknights only';
+  return `Triple ${WEEKDAY_LABELS[account.financingTripleDay - 1] ?? 'Wednesday'}`;
+};
+
 const AccountCard: React.FC<{ 
   account: Account; 
   onRemove: (accountId: string) => void;
   onUpdate: (accountId: string, updates: Partial<Account>) => void;
   trades: Trade[];
-}> = ({ account, onRemove, onUpdate, trades }) => {
+  accounts: Account[];
+  cashTransactions: CashTransaction[];
+  onAddCashTransaction: (transaction: NewCashTransaction) => void;
+  onTransferCash: (transfer: NewTransfer) => void;
+  onRemoveCashTransaction: (transaction: CashTransaction) => void;
+  fxRates: FxRates;
+}> = ({ account, onRemove, onUpdate, trades, accounts, cashTransactions, onAddCashTransaction, onTransferCash, onRemoveCashTransaction, fxRates }) => {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [showCashLedger, setShowCashLedger] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editData, setEditData] = useState({
     openCloseCommission: account.openCloseCommission,
-    nightCommission: account.nightCommission
+    nightCommission: account.nightCommission,
+    lotMatchingMethod: account.lotMatchingMethod,
+    financingTripleDay: account.financingTripleDay,
+    financingWeekends: account.financingWeekends,
+    marginCallLevel: account.marginCallLevel,
+    currency: account.currency
   });
   const [isSaving, setIsSaving] = useState(false);
   const [saveMessage, setSaveMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
@@ -97,9 +353,21 @@ const AccountCard: React.FC<{
       setSaveMessage(null);
       
       await updateAccountCommissions(account.id, editData);
+      if (editData.lotMatchingMethod !== account.lotMatchingMethod) {
+        await updateAccountLotMatchingMethod(account.id, editData.lotMatchingMethod);
+      }
+      if (editData.financingTripleDay !== account.financingTripleDay || editData.financingWeekends !== account.financingWeekends) {
+        await updateAccountFinancingRules(account.id, editData);
+      }
+      if (editData.marginCallLevel !== account.marginCallLevel) {
+        await updateAccountMarginCallLevel(account.id, editData.marginCallLevel);
+      }
+      if (editData.currency !== account.currency) {
+        await updateAccountCurrency(account.id, editData.currency);
+      }
       onUpdate(account.id, editData);
       
-      setSaveMessage({ type: 'success', text: 'Commission settings updated successfully' });
+      setSaveMessage({ type: 'success', text: 'Account settings updated successfully' });
       setIsEditing(false);
     } catch (error: any) {
       console.error('Error updating commissions:', error);
@@ -112,48 +380,45 @@ const AccountCard: React.FC<{
   const handleCancelEdit = () => {
     setEditData({
       openCloseCommission: account.openCloseCommission,
-      nightCommission: account.nightCommission
+      nightCommission: account.nightCommission,
+      lotMatchingMethod: account.lotMatchingMethod,
+      financingTripleDay: account.financingTripleDay,
+      financingWeekends: account.financingWeekends,
+      marginCallLevel: account.marginCallLevel,
+      currency: account.currency
     });
     setIsEditing(false);
     setSaveMessage(null);
   };
 
-  // Calculate current balance based on starting balance + realized P&L + unrealized P&L from trades
-  const accountTrades = trades.filter(trade => trade.accountId === account.id);
-
-  // Realized P&L: from fully closed trades + closed portion of partially closed trades
-  const realizedPnl = accountTrades.reduce((sum, trade) => {
-    if (trade.status === TradeStatus.CLOSED) {
-      return sum + (trade.pnl || 0);
-    } else if (trade.isPartiallyCloseD && trade.realizedPnl !== undefined) {
-      return sum + trade.realizedPnl;
-    }
-    return sum;
-  }, 0);
-
-  // Unrealized P&L: from fully open trades + open portion of partially closed trades
-  const unrealizedPnl = accountTrades.reduce((sum, trade) => {
-    if (trade.status === TradeStatus.OPEN && !trade.isPartiallyCloseD) {
-      return sum + (trade.pnl || 0);
-    } else if (trade.isPartiallyCloseD && trade.unrealizedPnl !== undefined) {
-      return sum + trade.unrealizedPnl;
-    }
-    return sum;
-  }, 0);
-
-  const currentBalance = account.startingBalance + realizedPnl + unrealizedPnl;
+  // Running balance: starting balance + cash ledger + realized P&L (net of fees), plus open positions for equity
+  const accountTransactions = cashTransactions.filter(transaction => transaction.accountId === account.id);
+  const { netCashFlow, realizedPnl, unrealizedPnl, balance, equity } = calculateAccountBalance(account, trades, cashTransactions, fxRates);
+  const { usedMargin, freeMargin, marginLevel, isMarginCall } = calculateAccountMargin(account, trades, cashTransactions, fxRates);
+  const currencySymbol = currencySymbolOf(account.currency);
+  const unconvertedCurrencies = [...new Set<string>(trades
+    .filter(trade => trade.accountId === account.id)
+    .map(trade => trade.currency || PIVOT_CURRENCY))]
+    .filter(currency => !hasFxRate(currency, account.currency, fxRates));
   return (
     <>
       <div className="bg-gray-800 p-6 rounded-lg shadow-lg border border-gray-700 transition-all hover:border-brand-blue hover:shadow-2xl">
     <div className="flex justify-between items-start">
       <div>
         <h3 className="text-xl font-bold text-gray-200">{account.name}</h3>
-        <p className="text-sm text-gray-400">Created: {new Date(account.createdAt).toLocaleDateString()}</p>
+        <p className="text-sm text-gray-400">Created: {new Date(account.createdAt).toLocaleDateString()} · {account.currency}</p>
       </div>
       <div className="flex items-center space-x-2">
         <span className={`px-3 py-1 text-xs font-semibold rounded-full ${account.status === 'active' ? 'bg-green-500/20 text-brand-green' : 'bg-gray-600 text-gray-300'}`}>
           {account.status}
         </span>
+        <button
+          onClick={() => setShowCashLedger(true)}
+          className="text-gray-400 hover:text-brand-blue transition-colors p-1"
+          title="Cash ledger"
+        >
+          <i className="ri-exchange-dollar-line text-lg"></i>
+        </button>
         <button
           onClick={() => setIsEditing(!isEditing)}
           className="text-gray-400 hover:text-brand-blue transition-colors p-1"
@@ -172,29 +437,75 @@ const AccountCard: React.FC<{
     </div>
     <div className="mt-6">
       <p className="text-gray-400">Starting Balance</p>
-      <p className="text-3xl font-mono font-bold text-brand-blue">${account.startingBalance.toLocaleString()}</p>
+      <p className="text-3xl font-mono font-bold text-brand-blue">{currencySymbol}{account.startingBalance.toLocaleString()}</p>
     </div>
+    {unconvertedCurrencies.length > 0 && (
+      <p className="mt-2 text-xs text-yellow-400">
+        <i className="ri-exchange-line mr-1"></i>
+        No FX rate for {unconvertedCurrencies.join(', ')}, P&L in these currencies is not converted
+      </p>
+    )}
     
+    <div className="mt-4 grid grid-cols-2 gap-4">
+      <div>
+        <p className="text-gray-400">Balance</p>
+        <p className="text-2xl font-mono font-bold text-gray-200">{currencySymbol}{balance.toLocaleString(undefined, { maximumFractionDigits: 2 })}</p>
+      </div>
+      <div>
+        <p className="text-gray-400">Equity</p>
+        <p className="text-2xl font-mono font-bold text-gray-200">{currencySymbol}{equity.toLocaleString(undefined, { maximumFractionDigits: 2 })}</p>
+      </div>
+    </div>
+
     <div className="mt-4">
-      <p className="text-gray-400">Current Balance</p>
-      <p className="text-2xl font-mono font-bold text-gray-200">${currentBalance.toLocaleString()}</p>
+      <p className="text-gray-400 text-sm">Net Cash Flow</p>
+      <p className={`text-lg font-mono font-bold ${netCashFlow >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>
+        {netCashFlow >= 0 ? '+' : ''}{currencySymbol}{netCashFlow.toFixed(2)}
+        <span className="ml-2 text-xs font-normal text-gray-500">{accountTransactions.length} movements</span>
+      </p>
     </div>
 
     <div className="mt-4 grid grid-cols-2 gap-4">
       <div>
         <p className="text-gray-400 text-sm">Realized P&L</p>
         <p className={`text-lg font-mono font-bold ${realizedPnl >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>
-          ${realizedPnl.toFixed(2)}
+          {currencySymbol}{realizedPnl.toFixed(2)}
         </p>
       </div>
       <div>
         <p className="text-gray-400 text-sm">Unrealized P&L</p>
         <p className={`text-lg font-mono font-bold ${unrealizedPnl >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>
-          ${unrealizedPnl.toFixed(2)}
+          {currencySymbol}{unrealizedPnl.toFixed(2)}
         </p>
       </div>
     </div>
 
+    {/* Margin Section */}
+    <div className="mt-6 pt-4 border-t border-gray-700">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-sm font-semibold text-gray-300">Margin</h4>
+        {isMarginCall && (
+          <span className="text-xs px-2 py-0.5 bg-red-500/20 text-brand-red rounded">Margin Call</span>
+        )}
+      </div>
+      <div className="grid grid-cols-3 gap-4 text-sm">
+        <div>
+          <p className="text-gray-400">Used</p>
+          <p className="font-mono font-semibold text-gray-200">{currencySymbol}{usedMargin.toFixed(2)}</p>
+        </div>
+        <div>
+          <p className="text-gray-400">Free</p>
+          <p className={`font-mono font-semibold ${freeMargin >= 0 ? 'text-gray-200' : 'text-brand-red'}`}>{currencySymbol}{freeMargin.toFixed(2)}</p>
+        </div>
+        <div>
+          <p className="text-gray-400">Level</p>
+          <p className={`font-mono font-semibold ${isMarginCall ? 'text-brand-red' : 'text-gray-200'}`}>
+            {marginLevel !== null ? `${marginLevel.toFixed(1)}%` : '-'}
+          </p>
+        </div>
+      </div>
+    </div>
+
     {/* Commission Settings Section */}
     <div className="mt-6 pt-4 border-t border-gray-700">
       <div className="flex justify-between items-center mb-3">
@@ -243,6 +554,76 @@ const AccountCard: React.FC<{
               className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-1 text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-brand-blue"
             />
           </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Lot Matching
+              <span className="ml-1 text-gray-500" title="Which opening lots a partial close consumes when computing realized P&L">ⓘ</span>
+            </label>
+            <select
+              value={editData.lotMatchingMethod}
+              onChange={(e) => setEditData(prev => ({ ...prev, lotMatchingMethod: e.target.value as LotMatchingMethod }))}
+              className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-1 text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-brand-blue"
+            >
+              {(Object.keys(LOT_MATCHING_LABELS) as LotMatchingMethod[]).map(method => (
+                <option key={method} value={method}>{LOT_MATCHING_LABELS[method]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Triple Charge Day
+              <span className="ml-1 text-gray-500" title="Day on which three nights of financing are charged to cover the weekend">ⓘ</span>
+            </label>
+            <select
+              value={editData.financingTripleDay ?? ''}
+              onChange={(e) => setEditData(prev => ({ ...prev, financingTripleDay: e.target.value ? parseInt(e.target.value, 10) : null }))}
+              disabled={editData.financingWeekends}
+              className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-1 text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-brand-blue disabled:opacity-50"
+            >
+              <option value="">None</option>
+              {WEEKDAY_LABELS.slice(0, 5).map((label, index) => (
+                <option key={label} value={index + 1}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center text-xs text-gray-400">
+            <input
+              type="checkbox"
+              checked={editData.financingWeekends}
+              onChange={(e) => setEditData(prev => ({ ...prev, financingWeekends: e.target.checked }))}
+              className="mr-2"
+            />
+            Charge weekend nights individually
+          </label>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Account Currency
+              <span className="ml-1 text-gray-500" title="Currency the balance, cash movements and P&L of this account are kept in">ⓘ</span>
+            </label>
+            <select
+              value={editData.currency}
+              onChange={(e) => setEditData(prev => ({ ...prev, currency: e.target.value }))}
+              disabled={accountTransactions.length > 0}
+              title={accountTransactions.length > 0 ? 'Cash movements are booked in the current currency' : undefined}
+              className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-1 text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-brand-blue disabled:opacity-50"
+            >
+              {SUPPORTED_CURRENCIES.map(currency => <option key={currency} value={currency}>{currency}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Margin Call Level (%)
+              <span className="ml-1 text-gray-500" title="Margin level (equity / used margin) at or below which the account is in margin call">ⓘ</span>
+            </label>
+            <input
+              type="number"
+              step="1"
+              min="0"
+              value={editData.marginCallLevel}
+              onChange={(e) => setEditData(prev => ({ ...prev, marginCallLevel: parseFloat(e.target.value) || 0 }))}
+              className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-1 text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-brand-blue"
+            />
+          </div>
           <div className="flex justify-end space-x-2 pt-2">
             <button
               onClick={handleCancelEdit}
@@ -274,6 +655,18 @@ const AccountCard: React.FC<{
             <p className="text-gray-400">Night (per day)</p>
             <p className="font-semibold text-gray-200">{account.nightCommission}%</p>
           </div>
+          <div>
+            <p className="text-gray-400">Lot Matching</p>
+            <p className="font-semibold text-gray-200">{LOT_MATCHING_LABELS[account.lotMatchingMethod] ?? 'FIFO'}</p>
+          </div>
+          <div>
+            <p className="text-gray-400">Financing</p>
+            <p className="font-semibold text-gray-200">{describeFinancingRules(account)}</p>
+          </div>
+          <div>
+            <p className="text-gray-400">Margin Call</p>
+            <p className="font-semibold text-gray-200">{account.marginCallLevel}%</p>
+          </div>
         </div>
       )}
     </div>
@@ -284,22 +677,35 @@ const AccountCard: React.FC<{
         onConfirm={handleDelete}
         accountName={account.name}
       />
+      <CashLedgerModal
+        isOpen={showCashLedger}
+        onClose={() => setShowCashLedger(false)}
+        account={account}
+        accounts={accounts}
+        transactions={accountTransactions}
+        onAdd={onAddCashTransaction}
+        onTransfer={onTransferCash}
+        onRemove={onRemoveCashTransaction}
+        fxRates={fxRates}
+      />
     </>
   );
 };
 
-const AddAccountModal: React.FC<{ isOpen: boolean; onClose: () => void; onAdd: (account: { name: string; startingBalance: number }) => void }> = ({ isOpen, onClose, onAdd }) => {
+const AddAccountModal: React.FC<{ isOpen: boolean; onClose: () => void; onAdd: (account: { name: string; startingBalance: number; currency: string }) => void }> = ({ isOpen, onClose, onAdd }) => {
   const [name, setName] = useState('');
   const [balance, setBalance] = useState('');
+  const [currency, setCurrency] = useState(PIVOT_CURRENCY);
 
   if (!isOpen) return null;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (name && balance) {
-      onAdd({ name, startingBalance: parseFloat(balance) });
+      onAdd({ name, startingBalance: parseFloat(balance), currency });
       setName('');
       setBalance('');
+      setCurrency(PIVOT_CURRENCY);
       onClose();
     }
   };
@@ -322,7 +728,18 @@ const AddAccountModal: React.FC<{ isOpen: boolean; onClose: () => void; onAdd: (
             />
           </div>
           <div>
-            <label htmlFor="balance" className="block text-sm font-medium text-gray-400 mb-1">Starting Balance (USD)</label>
+            <label htmlFor="currency" className="block text-sm font-medium text-gray-400 mb-1">Currency</label>
+            <select
+              id="currency"
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+            >
+              {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="balance" className="block text-sm font-medium text-gray-400 mb-1">Starting Balance ({currency})</label>
             <input
               id="balance"
               type="number"
@@ -344,7 +761,7 @@ const AddAccountModal: React.FC<{ isOpen: boolean; onClose: () => void; onAdd: (
 };
 
 
-const Accounts: React.FC<AccountsProps> = ({ accounts, addAccount, removeAccount, updateAccount, trades }) => {
+const Accounts: React.FC<AccountsProps> = ({ accounts, addAccount, removeAccount, updateAccount, trades, cashTransactions, addCashTransaction, transferCash, removeCashTransaction, fxRates, updateBaseCurrency }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [settings, setSettings] = useState<UserProfile>({
     base_currency: 'USD',
@@ -412,6 +829,9 @@ const Accounts: React.FC<AccountsProps> = ({ accounts, addAccount, removeAccount
 
       await updateUserProfile(newSettings);
       setOriginalSettings(newSettings);
+      if (newSettings.base_currency !== originalSettings.base_currency) {
+        updateBaseCurrency(newSettings.base_currency);
+      }
       setSaveMessage({ type: 'success', text: 'Profile updated successfully' });
     } catch (error) {
       console.error('Error updating user profile:', error);
@@ -437,7 +857,21 @@ const Accounts: React.FC<AccountsProps> = ({ accounts, addAccount, removeAccount
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {accounts.map(acc => <AccountCard key={acc.id} account={acc} onRemove={removeAccount} onUpdate={updateAccount} trades={trades} />)}
+        {accounts.map(acc => (
+          <AccountCard
+            key={acc.id}
+            account={acc}
+            onRemove={removeAccount}
+            onUpdate={updateAccount}
+            trades={trades}
+            accounts={accounts}
+            cashTransactions={cashTransactions}
+            onAddCashTransaction={addCashTransaction}
+            onTransferCash={transferCash}
+            onRemoveCashTransaction={removeCashTransaction}
+            fxRates={fxRates}
+          />
+        ))}
       </div>
 
       <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
@@ -467,9 +901,7 @@ const Accounts: React.FC<AccountsProps> = ({ accounts, addAccount, removeAccount
               <div>
                   <label htmlFor="base_currency" className="block text-sm font-medium text-gray-400 mb-1">Base Currency</label>
                   <select id="base_currency" name="base_currency" value={settings.base_currency} onChange={handleSettingsChange} className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue">
-                      <option>USD</option>
-                      <option>EUR</option>
-                      <option>GBP</option>
+                      {SUPPORTED_CURRENCIES.map(currency => <option key={currency}>{currency}</option>)}
                   </select>
               </div>
               <div>
@@ -1,5 +1,38 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { supabase } from '../lib/supabase';
+import { BACKUP_TABLES, createBackup, restoreBackup, validateBackup } from '../services/backupService';
+import type { BackupValidationReport, RestoreResult } from '../services/backupService';
+import {
+  deleteScheduledJob,
+  fetchPriceCheckSettings,
+  fetchPriceUpdateHealth,
+  fetchScheduledJobs,
+  fetchScheduledTasks,
+  reviewQuote,
+  saveScheduledJob,
+  setScheduledJobActive,
+  updatePriceCheckSettings,
+} from '../services/databaseService';
+import { getSession } from '../services/authService';
+import { downloadFile } from '../services/exportService';
+import { nextCronRuns, validateCronExpression } from '../services/cronSchedule';
+import { DEFAULT_CALENDAR_BY_CURRENCY } from '../services/marketHours';
+import { calculateDailySuccessRates, calculateFailureStreaks, calculateProviderUsage } from '../services/priceUpdateHealth';
+import type { PriceUpdateHealthData } from '../services/priceUpdateHealth';
+import type { ScheduledJob, ScheduledTask } from '../types';
+
+// The price functions run with the service role and only accept the session of an admin
+const adminFunctionHeaders = async (): Promise<Record<string, string>> => {
+  const session = await getSession();
+  if (!session) {
+    throw new Error('Your session has expired, sign in again');
+  }
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session.access_token}`,
+  };
+};
 
 interface PriceUpdateLog {
   id: string;
@@ -10,6 +43,13 @@ interface PriceUpdateLog {
   triggered_by: string;
   status: string;
   error_message: string | null;
+  operation_group_id: string | null;
+  trigger_type: 'stop_loss' | 'take_profit' | 'trailing_stop' | null;
+  rejected_rules: string[] | null;
+  quote_time: string | null;
+  previous_close: number | null;
+  review_status: 'pending' | 'accepted' | 'discarded' | null;
+  reviewed_at: string | null;
   created_at: string;
   symbols?: {
     ticker: string;
@@ -33,12 +73,25 @@ interface Symbol {
   currency: string;
   latest_price: number | null;
   is_active: boolean;
+  data_provider: string | null;
+  exchange_calendar: string | null;
   created_at: string;
   updated_at: string;
   has_open_positions?: boolean;
 }
 
-type AdminTab = 'price-updates' | 'symbols';
+// Market data providers a symbol can be pinned to, the global one is set in cron_config
+const DATA_PROVIDER_LABELS: Record<string, string> = {
+  finnhub: 'Finnhub',
+  alpha_vantage: 'Alpha Vantage',
+  yahoo: 'Yahoo Finance',
+  mock: 'Mock (local)',
+};
+
+type AdminTab = 'price-updates' | 'symbols' | 'schedules' | 'backup';
+
+// Daily history requested by the "Backfill" action of a symbol
+const BACKFILL_DAYS = 365 * 5;
 
 const Admin: React.FC = () => {
   const [activeTab, setActiveTab] = useState<AdminTab>('price-updates');
@@ -49,6 +102,7 @@ const Admin: React.FC = () => {
   const [updateResults, setUpdateResults] = useState<UpdateResult[] | null>(null);
   const [selectedDate, setSelectedDate] = useState<string>('');
   const [latestUpdate, setLatestUpdate] = useState<{ date: string; count: number; successCount: number } | null>(null);
+  const [healthRefreshKey, setHealthRefreshKey] = useState(0);
 
   useEffect(() => {
     fetchLogs();
@@ -94,8 +148,9 @@ const Admin: React.FC = () => {
       if (!filterDate && data && data.length > 0) {
         const latest = data[0];
         const latestDate = new Date(latest.created_at).toISOString().split('T')[0];
+        // Protective order closes are not price fetches, keep them out of the success ratio
         const logsFromLatest = data.filter(log =>
-          new Date(log.created_at).toISOString().split('T')[0] === latestDate
+          new Date(log.created_at).toISOString().split('T')[0] === latestDate && log.source !== 'protective_order'
         );
         const successCount = logsFromLatest.filter(log => log.status === 'success').length;
 
@@ -121,15 +176,14 @@ const Admin: React.FC = () => {
       const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/update-stock-prices`;
       const response = await fetch(apiUrl, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-        },
+        headers: await adminFunctionHeaders(),
         body: JSON.stringify({ triggered_by: 'manual' }),
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        // Error responses, such as a run already in progress (409), explain themselves
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `HTTP error! status: ${response.status}`);
       }
 
       const result = await response.json();
@@ -146,11 +200,19 @@ const Admin: React.FC = () => {
       setUpdateResults(result.results || []);
       setUpdateMessage({
         type: 'success',
-        text: `Price update completed! ${result.summary.success} succeeded, ${result.summary.failed} failed.`,
+        text: (result.status === 'running'
+          ? `Updated ${result.summary.processed} of ${result.summary.total} symbols, the rest continue in the background.`
+          : 'Price update completed!')
+          + ` ${result.summary.success} succeeded, ${result.summary.failed} failed.`
+          + (result.summary.skipped ? ` ${result.summary.skipped} skipped (market closed).` : '')
+          + (result.summary.rejected ? ` ${result.summary.rejected} quote(s) held for review.` : '')
+          + (result.summary.triggered ? ` ${result.summary.triggered} protective order(s) triggered.` : '')
+          + (result.summary.alerts ? ` ${result.summary.alerts} price alert(s) fired.` : ''),
       });
 
       // Refresh logs after update
       await fetchLogs();
+      setHealthRefreshKey(key => key + 1);
     } catch (error) {
       console.error('Error updating prices:', error);
       setUpdateMessage({
@@ -187,6 +249,26 @@ const Admin: React.FC = () => {
         >
           Symbol Management
         </button>
+        <button
+          onClick={() => setActiveTab('schedules')}
+          className={`px-6 py-2 rounded-md font-medium transition-all ${
+            activeTab === 'schedules'
+              ? 'bg-brand-blue text-white shadow-lg'
+              : 'text-gray-400 hover:text-gray-200'
+          }`}
+        >
+          Schedules
+        </button>
+        <button
+          onClick={() => setActiveTab('backup')}
+          className={`px-6 py-2 rounded-md font-medium transition-all ${
+            activeTab === 'backup'
+              ? 'bg-brand-blue text-white shadow-lg'
+              : 'text-gray-400 hover:text-gray-200'
+          }`}
+        >
+          Backup & Restore
+        </button>
       </div>
 
       {activeTab === 'price-updates' && (
@@ -194,7 +276,7 @@ const Admin: React.FC = () => {
           <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
         <h2 className="text-xl font-semibold mb-4 text-gray-200">Stock Price Updates</h2>
         <p className="text-gray-400 mb-4">
-          Manually trigger stock price updates from Finnhub API. Prices are automatically updated daily at midnight CET.
+          Manually trigger stock price updates from the configured market data provider. Prices are automatically updated daily at midnight CET; symbols whose market has not traded since their last update are skipped.
         </p>
 
         {updateMessage && (
@@ -272,6 +354,14 @@ const Admin: React.FC = () => {
                           <span className="px-2 py-1 text-xs font-semibold rounded-full bg-green-500/20 text-brand-green">
                             Success
                           </span>
+                        ) : result.status === 'rejected' ? (
+                          <span className="px-2 py-1 text-xs font-semibold rounded-full bg-orange-500/20 text-orange-400">
+                            Rejected
+                          </span>
+                        ) : result.status === 'skipped' ? (
+                          <span className="px-2 py-1 text-xs font-semibold rounded-full bg-gray-600/50 text-gray-300" title="Market closed since the last update">
+                            Skipped
+                          </span>
                         ) : (
                           <span className="px-2 py-1 text-xs font-semibold rounded-full bg-red-500/20 text-brand-red">
                             Failed
@@ -290,9 +380,13 @@ const Admin: React.FC = () => {
         )}
       </div>
 
+      <QuoteReview onReviewed={() => fetchLogs(selectedDate || undefined)} />
+
+      <PriceUpdateHealth refreshKey={healthRefreshKey} />
+
       <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
         <div className="flex justify-between items-center mb-4">
-          <h2 className="text-xl font-semibold text-gray-200">Price Update History</h2>
+          <h2 className="text-xl font-semibold text-gray-200">Price Update Log</h2>
           <button
             onClick={() => fetchLogs()}
             disabled={isLoadingLogs}
@@ -402,6 +496,20 @@ const Admin: React.FC = () => {
                         <span className="px-2 py-1 text-xs font-semibold rounded-full bg-green-500/20 text-brand-green">
                           Success
                         </span>
+                      ) : log.status === 'rejected' ? (
+                        <span
+                          className="px-2 py-1 text-xs font-semibold rounded-full bg-orange-500/20 text-orange-400 cursor-help"
+                          title={`${log.error_message || 'Rejected'}${log.review_status ? ` (${log.review_status})` : ''}`}
+                        >
+                          Rejected
+                        </span>
+                      ) : log.status === 'triggered' ? (
+                        <span
+                          className="px-2 py-1 text-xs font-semibold rounded-full bg-yellow-500/20 text-yellow-400 cursor-help"
+                          title={`${(log.trigger_type || '').replace('_', ' ')} at $${log.old_price?.toFixed(2)} closed operation ${log.operation_group_id}`}
+                        >
+                          Triggered
+                        </span>
                       ) : (
                         <span
                           className="px-2 py-1 text-xs font-semibold rounded-full bg-red-500/20 text-brand-red cursor-help"
@@ -422,6 +530,569 @@ const Admin: React.FC = () => {
       )}
 
       {activeTab === 'symbols' && <SymbolManagement />}
+
+      {activeTab === 'schedules' && <ScheduledJobs />}
+
+      {activeTab === 'backup' && <BackupRestore />}
+    </div>
+  );
+};
+
+const RULE_LABELS: Record<string, string> = {
+  max_jump: 'Price jump',
+  stale_quote: 'Stale quote',
+  zero_volume: 'No volume',
+};
+
+// Sanity check settings and the queue of quotes the price updater held back
+const QuoteReview: React.FC<{ onReviewed: () => void }> = ({ onReviewed }) => {
+  const [pending, setPending] = useState<PriceUpdateLog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [settings, setSettings] = useState({ maxJumpPercent: '', maxQuoteAgeMinutes: '', rejectZeroVolume: true });
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchPending();
+    fetchPriceCheckSettings()
+      .then(current => current && setSettings({
+        maxJumpPercent: current.maxJumpPercent?.toString() ?? '',
+        maxQuoteAgeMinutes: current.maxQuoteAgeMinutes?.toString() ?? '',
+        rejectZeroVolume: current.rejectZeroVolume,
+      }))
+      .catch(() => setMessage({ type: 'error', text: 'Failed to load price check settings' }));
+  }, []);
+
+  const fetchPending = async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('price_update_log')
+        .select('*, symbols (ticker, name)')
+        .eq('review_status', 'pending')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setPending(data || []);
+    } catch (error) {
+      console.error('Error fetching quotes to review:', error);
+      setMessage({ type: 'error', text: 'Failed to load quotes to review' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    const maxJumpPercent = settings.maxJumpPercent.trim() ? parseFloat(settings.maxJumpPercent) : null;
+    const maxQuoteAgeMinutes = settings.maxQuoteAgeMinutes.trim() ? parseInt(settings.maxQuoteAgeMinutes, 10) : null;
+    if ((maxJumpPercent !== null && !(maxJumpPercent > 0)) || (maxQuoteAgeMinutes !== null && !(maxQuoteAgeMinutes > 0))) {
+      setMessage({ type: 'error', text: 'Limits must be positive numbers, leave a field empty to disable its rule' });
+      return;
+    }
+
+    setIsSavingSettings(true);
+    try {
+      await updatePriceCheckSettings({ maxJumpPercent, maxQuoteAgeMinutes, rejectZeroVolume: settings.rejectZeroVolume });
+      setMessage({ type: 'success', text: 'Price check settings saved' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save price check settings' });
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  // Accepting applies the quoted price and previous close unless a newer quote landed since,
+  // stops and alerts see it on the next price update
+  const handleReview = async (entry: PriceUpdateLog, action: 'accepted' | 'discarded') => {
+    setReviewingId(entry.id);
+    setMessage(null);
+    try {
+      const status = await reviewQuote(entry.id, action);
+
+      setMessage({
+        type: 'success',
+        text: status === 'accepted'
+          ? `${entry.symbols?.ticker} is now priced at $${entry.new_price?.toFixed(2)}`
+          : action === 'accepted'
+            ? `${entry.symbols?.ticker} was priced from a newer quote since, discarded this one`
+            : `Discarded the quote for ${entry.symbols?.ticker}`,
+      });
+      await fetchPending();
+      onReviewed();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to review quote' });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-200">Quote Review</h2>
+          <p className="text-gray-400 text-sm mt-1">
+            Quotes that break a sanity check are held here instead of changing prices, P&L, stops and alerts.
+          </p>
+        </div>
+        <button
+          onClick={fetchPending}
+          disabled={isLoading}
+          className="text-gray-400 hover:text-brand-blue transition-colors"
+          title="Refresh queue"
+        >
+          <i className={`ri-refresh-line text-lg ${isLoading ? 'animate-spin' : ''}`}></i>
+        </button>
+      </div>
+
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-lg mb-4 ${
+            message.type === 'success'
+              ? 'bg-green-500/20 text-brand-green border border-green-500/50'
+              : 'bg-red-500/20 text-brand-red border border-red-500/50'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end mb-6 p-4 bg-gray-700/50 rounded-lg border border-gray-600">
+        <div>
+          <label className="block text-sm font-medium text-gray-400 mb-2">Max jump vs previous close (%)</label>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={settings.maxJumpPercent}
+            onChange={(e) => setSettings({ ...settings, maxJumpPercent: e.target.value })}
+            placeholder="Off"
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-400 mb-2">Max quote age (minutes)</label>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={settings.maxQuoteAgeMinutes}
+            onChange={(e) => setSettings({ ...settings, maxQuoteAgeMinutes: e.target.value })}
+            placeholder="Off"
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-300 pb-2">
+          <input
+            type="checkbox"
+            checked={settings.rejectZeroVolume}
+            onChange={(e) => setSettings({ ...settings, rejectZeroVolume: e.target.checked })}
+            className="rounded bg-gray-700 border-gray-600"
+          />
+          Reject quotes with zero volume
+        </label>
+        <button
+          onClick={handleSaveSettings}
+          disabled={isSavingSettings}
+          className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+            isSavingSettings
+              ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
+              : 'bg-brand-blue text-white hover:bg-blue-600'
+          }`}
+        >
+          {isSavingSettings ? 'Saving...' : 'Save Checks'}
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">Loading quotes...</div>
+      ) : pending.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">No quotes waiting for review</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left text-gray-400">
+            <thead className="text-xs text-gray-400 uppercase bg-gray-700/50">
+              <tr>
+                <th className="p-3">Received</th>
+                <th className="p-3">Symbol</th>
+                <th className="p-3">Current Price</th>
+                <th className="p-3">Quoted Price</th>
+                <th className="p-3">Last Trade</th>
+                <th className="p-3">Checks Failed</th>
+                <th className="p-3">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pending.map((entry) => (
+                <tr key={entry.id} className="border-b border-gray-700 hover:bg-gray-700/50">
+                  <td className="p-3 font-mono text-xs">{new Date(entry.created_at).toLocaleString()}</td>
+                  <td className="p-3 font-bold">{entry.symbols?.ticker || 'Unknown'}</td>
+                  <td className="p-3 font-mono">
+                    {entry.old_price !== null ? `$${entry.old_price.toFixed(2)}` : '-'}
+                  </td>
+                  <td className="p-3 font-mono">
+                    {entry.new_price !== null ? `$${entry.new_price.toFixed(2)}` : '-'}
+                  </td>
+                  <td className="p-3 font-mono text-xs">
+                    {entry.quote_time ? new Date(entry.quote_time).toLocaleString() : '-'}
+                  </td>
+                  <td className="p-3">
+                    <div className="flex flex-wrap gap-1" title={entry.error_message || undefined}>
+                      {(entry.rejected_rules || []).map(rule => (
+                        <span key={rule} className="px-2 py-1 text-xs font-semibold rounded-full bg-orange-500/20 text-orange-400 cursor-help">
+                          {RULE_LABELS[rule] || rule}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="p-3 space-x-2 whitespace-nowrap">
+                    <button
+                      onClick={() => handleReview(entry, 'accepted')}
+                      disabled={reviewingId !== null}
+                      className="px-3 py-1 text-xs font-medium rounded-lg bg-green-500/20 text-brand-green hover:bg-green-500/30 border border-green-500/50 transition-colors disabled:opacity-50"
+                    >
+                      Accept
+                    </button>
+                    <button
+                      onClick={() => handleReview(entry, 'discarded')}
+                      disabled={reviewingId !== null}
+                      className="px-3 py-1 text-xs font-medium rounded-lg bg-red-500/20 text-brand-red hover:bg-red-500/30 border border-red-500/50 transition-colors disabled:opacity-50"
+                    >
+                      Discard
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Days of history the health view loads
+const HEALTH_RANGES = [7, 30, 90];
+
+// Line colours of the success rate chart
+const PROVIDER_COLORS: Record<string, string> = {
+  finnhub: '#3B82F6',
+  alpha_vantage: '#A855F7',
+  yahoo: '#F59E0B',
+  mock: '#9CA3AF',
+};
+
+const RUN_STATUS_STYLES: Record<string, string> = {
+  running: 'bg-blue-500/20 text-blue-400',
+  completed: 'bg-green-500/20 text-brand-green',
+  failed: 'bg-red-500/20 text-brand-red',
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const sumApiCalls = (apiCalls: Record<string, number>) => {
+  let total = 0;
+  for (const provider in apiCalls) total += apiCalls[provider];
+  return total;
+};
+
+// Runs grouped by invocation, per-symbol failure streaks, API quota usage and daily success
+// rates, to spot a failing API key or a delisted ticker
+const PriceUpdateHealth: React.FC<{ refreshKey: number }> = ({ refreshKey }) => {
+  const [days, setDays] = useState(30);
+  const [health, setHealth] = useState<PriceUpdateHealthData>({ runs: [], attempts: [] });
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchHealth();
+  }, [days, refreshKey]);
+
+  const since = useMemo(() => {
+    const start = new Date();
+    start.setUTCDate(start.getUTCDate() - (days - 1));
+    start.setUTCHours(0, 0, 0, 0);
+    return start;
+  }, [days, refreshKey]);
+
+  const fetchHealth = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setHealth(await fetchPriceUpdateHealth(since.toISOString()));
+    } catch (error) {
+      console.error('Error fetching price update health:', error);
+      setError('Failed to load price update history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const usage = useMemo(() => calculateProviderUsage(health.runs), [health.runs]);
+  const streaks = useMemo(() => calculateFailureStreaks(health.attempts), [health.attempts]);
+  const dailyRates = useMemo(() => calculateDailySuccessRates(health.attempts, since), [health.attempts, since]);
+
+  const chartProviders = useMemo(
+    () => [...new Set(dailyRates.flatMap(day => Object.keys(day.byProvider)))].sort(),
+    [dailyRates]
+  );
+  const chartData = useMemo(
+    () => dailyRates.map(day => ({ date: day.date.slice(5), overall: day.successRate, attempts: day.attempts, ...day.byProvider })),
+    [dailyRates]
+  );
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-200">Price Update Health</h2>
+          <p className="text-gray-400 text-sm mt-1">
+            Runs, API usage and failing symbols of the price updater.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value, 10))}
+            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+          >
+            {HEALTH_RANGES.map(range => (
+              <option key={range} value={range}>Last {range} days</option>
+            ))}
+          </select>
+          <button
+            onClick={fetchHealth}
+            disabled={isLoading}
+            className="text-gray-400 hover:text-brand-blue transition-colors"
+            title="Refresh history"
+          >
+            <i className={`ri-refresh-line text-lg ${isLoading ? 'animate-spin' : ''}`}></i>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="px-4 py-3 rounded-lg mb-4 bg-red-500/20 text-brand-red border border-red-500/50">
+          {error}
+        </div>
+      )}
+
+      <h3 className="text-sm font-semibold text-gray-300 mb-3">API Usage</h3>
+      {usage.length === 0 ? (
+        <div className="text-center py-4 mb-6 text-gray-500 text-sm">No API calls recorded in this period</div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+          {usage.map(provider => {
+            const dailyShare = provider.limits.perDay ? Math.min(provider.today / provider.limits.perDay, 1) * 100 : null;
+            return (
+              <div key={provider.provider} className="p-4 bg-gray-700/50 rounded-lg border border-gray-600">
+                <p className="text-sm font-semibold text-gray-300">
+                  {DATA_PROVIDER_LABELS[provider.provider] || provider.provider}
+                </p>
+                <p className="text-2xl font-bold text-gray-200 mt-1">
+                  {provider.today}
+                  {provider.limits.perDay && (
+                    <span className="text-sm font-normal text-gray-400"> / {provider.limits.perDay}</span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-400">calls today</p>
+                {dailyShare !== null && (
+                  <div className="w-full bg-gray-600 rounded-full h-1.5 mt-2">
+                    <div
+                      className={`h-1.5 rounded-full ${dailyShare >= 90 ? 'bg-brand-red' : dailyShare >= 70 ? 'bg-yellow-400' : 'bg-brand-green'}`}
+                      style={{ width: `${dailyShare}%` }}
+                    ></div>
+                  </div>
+                )}
+                <div className="text-xs text-gray-400 mt-2 space-y-0.5">
+                  <p>{provider.last7Days} in the last 7 days</p>
+                  {provider.peakDay && <p>Peak {provider.peakDay.calls} on {provider.peakDay.date}</p>}
+                  {provider.limits.perMinute && <p>Limit {provider.limits.perMinute} per minute</p>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <h3 className="text-sm font-semibold text-gray-300 mb-3">Fetch Success Rate</h3>
+      {health.attempts.length === 0 ? (
+        <div className="text-center py-4 mb-6 text-gray-500 text-sm">No price fetches in this period</div>
+      ) : (
+        <div className="mb-6">
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="date" stroke="#9CA3AF" fontSize={11} />
+              <YAxis stroke="#9CA3AF" fontSize={12} domain={[0, 100]} unit="%" />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: '#1F2937',
+                  border: '1px solid #374151',
+                  borderRadius: '8px',
+                  color: '#E5E7EB',
+                }}
+                formatter={(value: any, name: string) => [
+                  `${Number(value).toFixed(1)}%`,
+                  name === 'overall' ? 'All providers' : DATA_PROVIDER_LABELS[name] || name,
+                ]}
+              />
+              <Legend formatter={(name: string) => (name === 'overall' ? 'All providers' : DATA_PROVIDER_LABELS[name] || name)} />
+              <Line type="monotone" dataKey="overall" stroke="#22C55E" strokeWidth={2} dot={false} />
+              {chartProviders.length > 1 && chartProviders.map(provider => (
+                <Line
+                  key={provider}
+                  type="monotone"
+                  dataKey={provider}
+                  stroke={PROVIDER_COLORS[provider] || '#E5E7EB'}
+                  strokeDasharray="4 4"
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+          <p className="text-xs text-gray-500 mt-1">
+            Share of fetches the provider answered. Quotes held for review count as answered.
+          </p>
+        </div>
+      )}
+
+      <h3 className="text-sm font-semibold text-gray-300 mb-3">Failing Symbols</h3>
+      {streaks.length === 0 ? (
+        <div className="text-center py-4 mb-6 text-gray-500 text-sm">No symbol failed more than once in a row</div>
+      ) : (
+        <div className="overflow-x-auto mb-6">
+          <table className="w-full text-sm text-left text-gray-400">
+            <thead className="text-xs text-gray-400 uppercase bg-gray-700/50">
+              <tr>
+                <th className="p-3">Symbol</th>
+                <th className="p-3">Provider</th>
+                <th className="p-3">Failures in a Row</th>
+                <th className="p-3">Failing Since</th>
+                <th className="p-3">Last Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {streaks.map(streak => (
+                <tr key={streak.symbol} className="border-b border-gray-700 hover:bg-gray-700/50">
+                  <td className="p-3 font-bold">{streak.symbol}</td>
+                  <td className="p-3 text-xs">{DATA_PROVIDER_LABELS[streak.provider] || streak.provider}</td>
+                  <td className="p-3 font-mono text-brand-red">{streak.count}</td>
+                  <td className="p-3 font-mono text-xs">{new Date(streak.since).toLocaleString()}</td>
+                  <td className="p-3 text-xs max-w-md truncate" title={streak.lastError}>{streak.lastError || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <h3 className="text-sm font-semibold text-gray-300 mb-3">Run History</h3>
+      {isLoading ? (
+        <div className="text-center py-8 text-gray-500">Loading runs...</div>
+      ) : health.runs.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">No price update runs in this period</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left text-gray-400">
+            <thead className="text-xs text-gray-400 uppercase bg-gray-700/50">
+              <tr>
+                <th className="p-3">Started</th>
+                <th className="p-3">Trigger</th>
+                <th className="p-3">Status</th>
+                <th className="p-3">Symbols</th>
+                <th className="p-3">Succeeded</th>
+                <th className="p-3">Failed</th>
+                <th className="p-3">Skipped</th>
+                <th className="p-3">Rejected</th>
+                <th className="p-3">API Calls</th>
+                <th className="p-3">Duration</th>
+              </tr>
+            </thead>
+            <tbody>
+              {health.runs.map(run => {
+                const isExpanded = expandedRunId === run.id;
+                const problems = isExpanded
+                  ? health.attempts.filter(attempt => attempt.runId === run.id && attempt.status !== 'success')
+                  : [];
+                return (
+                  <React.Fragment key={run.id}>
+                    <tr
+                      onClick={() => setExpandedRunId(isExpanded ? null : run.id)}
+                      className="border-b border-gray-700 hover:bg-gray-700/50 cursor-pointer"
+                    >
+                      <td className="p-3 font-mono text-xs whitespace-nowrap">
+                        <i className={`${isExpanded ? 'ri-arrow-down-s-line' : 'ri-arrow-right-s-line'} mr-1`}></i>
+                        {new Date(run.startedAt).toLocaleString()}
+                      </td>
+                      <td className="p-3 text-xs">
+                        <span className={`px-2 py-1 rounded-full ${
+                          run.triggeredBy === 'manual'
+                            ? 'bg-purple-500/20 text-purple-400'
+                            : 'bg-gray-600 text-gray-300'
+                        }`}>
+                          {run.triggeredBy}
+                        </span>
+                      </td>
+                      <td className="p-3 text-xs">
+                        <span className={`px-2 py-1 font-semibold rounded-full ${RUN_STATUS_STYLES[run.status]}`}>
+                          {run.status}
+                        </span>
+                      </td>
+                      <td className="p-3 font-mono">{run.processed}/{run.totalSymbols}</td>
+                      <td className="p-3 font-mono text-brand-green">{run.succeeded}</td>
+                      <td className={`p-3 font-mono ${run.failed > 0 ? 'text-brand-red' : ''}`}>{run.failed}</td>
+                      <td className="p-3 font-mono">{run.skipped}</td>
+                      <td className={`p-3 font-mono ${run.rejected > 0 ? 'text-orange-400' : ''}`}>{run.rejected}</td>
+                      <td className="p-3 font-mono" title={run.retries ? `${run.retries} retries` : undefined}>
+                        {sumApiCalls(run.apiCalls)}
+                      </td>
+                      <td className="p-3 font-mono text-xs">
+                        {run.durationMs !== undefined ? formatDuration(run.durationMs) : '-'}
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="border-b border-gray-700 bg-gray-900/40">
+                        <td colSpan={10} className="p-4 text-xs">
+                          <div className="flex flex-wrap gap-x-6 gap-y-1 mb-3 text-gray-400">
+                            <span>Provider: {run.provider ? DATA_PROVIDER_LABELS[run.provider] || run.provider : '-'}</span>
+                            <span>Retries: {run.retries}</span>
+                            <span>Orders triggered: {run.triggeredOrders}</span>
+                            <span>Alerts fired: {run.alerts}</span>
+                            {run.finishedAt && <span>Finished: {new Date(run.finishedAt).toLocaleString()}</span>}
+                          </div>
+                          {problems.length === 0 ? (
+                            <p className="text-gray-500">Every fetch of this run succeeded.</p>
+                          ) : (
+                            <ul className="space-y-1">
+                              {problems.map((attempt, index) => (
+                                <li key={`${attempt.symbol}-${index}`} className="flex gap-3">
+                                  <span className="font-bold text-gray-300 w-20 shrink-0">{attempt.symbol}</span>
+                                  <span className={attempt.status === 'rejected' ? 'text-orange-400' : 'text-brand-red'}>
+                                    {attempt.status === 'rejected' ? 'Rejected' : 'Failed'}
+                                  </span>
+                                  <span className="text-gray-400 truncate" title={attempt.errorMessage}>
+                                    {attempt.errorMessage || '-'}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 };
@@ -434,6 +1105,8 @@ const SymbolManagement: React.FC<SymbolManagementProps> = () => {
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [isAddingSymbol, setIsAddingSymbol] = useState(false);
   const [newSymbol, setNewSymbol] = useState({ ticker: '', name: '', currency: 'USD' });
+  const [backfillingId, setBackfillingId] = useState<string | null>(null);
+  const [calendars, setCalendars] = useState<{ code: string; name: string }[]>([]);
 
   useEffect(() => {
     fetchSymbols();
@@ -456,6 +1129,14 @@ const SymbolManagement: React.FC<SymbolManagementProps> = () => {
 
       if (positionsError) throw positionsError;
 
+      const { data: calendarsData, error: calendarsError } = await supabase
+        .from('exchange_calendars')
+        .select('code, name')
+        .order('code');
+
+      if (calendarsError) throw calendarsError;
+      setCalendars(calendarsData);
+
       const openSymbolIds = new Set(openPositionsData.map(p => p.symbol_id));
 
       const enrichedSymbols = symbolsData.map(symbol => ({
@@ -500,6 +1181,88 @@ const SymbolManagement: React.FC<SymbolManagementProps> = () => {
     }
   };
 
+  const handleProviderChange = async (symbol: Symbol, dataProvider: string) => {
+    try {
+      const { error } = await supabase
+        .from('symbols')
+        .update({ data_provider: dataProvider || null, updated_at: new Date().toISOString() })
+        .eq('id', symbol.id);
+
+      if (error) throw error;
+
+      setMessage({
+        type: 'success',
+        text: `${symbol.ticker} now uses ${dataProvider ? DATA_PROVIDER_LABELS[dataProvider] : 'the global provider'}`,
+      });
+      await fetchSymbols();
+    } catch (error) {
+      console.error('Error updating symbol provider:', error);
+      setMessage({ type: 'error', text: 'Failed to update symbol provider' });
+    }
+  };
+
+  const handleCalendarChange = async (symbol: Symbol, calendarCode: string) => {
+    try {
+      const { error } = await supabase
+        .from('symbols')
+        .update({ exchange_calendar: calendarCode || null, updated_at: new Date().toISOString() })
+        .eq('id', symbol.id);
+
+      if (error) throw error;
+
+      setMessage({
+        type: 'success',
+        text: calendarCode
+          ? `${symbol.ticker} now follows the ${calendars.find(c => c.code === calendarCode)?.name ?? calendarCode} calendar`
+          : `${symbol.ticker} is now updated on every run`,
+      });
+      await fetchSymbols();
+    } catch (error) {
+      console.error('Error updating symbol calendar:', error);
+      setMessage({ type: 'error', text: 'Failed to update symbol market' });
+    }
+  };
+
+  const handleBackfill = async (symbol: Symbol) => {
+    setBackfillingId(symbol.id);
+    setMessage(null);
+
+    try {
+      const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ingest-price-bars`;
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: await adminFunctionHeaders(),
+        body: JSON.stringify({ triggered_by: 'manual', symbol: symbol.ticker, interval: '1d', days: BACKFILL_DAYS }),
+      });
+
+      if (!response.ok) {
+        // Error responses, such as a caller that is not an admin (403), explain themselves
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+
+      if (result.error) {
+        setMessage({ type: 'error', text: result.error + (result.instruction ? ` ${result.instruction}` : '') });
+        return;
+      }
+
+      const symbolResult = result.results?.[0];
+      if (!symbolResult || symbolResult.status !== 'success') {
+        setMessage({ type: 'error', text: `Backfill of ${symbol.ticker} failed: ${symbolResult?.error || result.message}` });
+        return;
+      }
+
+      setMessage({ type: 'success', text: `Stored ${symbolResult.bars} daily bars for ${symbol.ticker}` });
+    } catch (error) {
+      console.error('Error backfilling price history:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to backfill price history' });
+    } finally {
+      setBackfillingId(null);
+    }
+  };
+
   const handleAddSymbol = async () => {
     if (!newSymbol.ticker.trim() || !newSymbol.name.trim()) {
       setMessage({ type: 'error', text: 'Ticker and name are required' });
@@ -513,6 +1276,7 @@ const SymbolManagement: React.FC<SymbolManagementProps> = () => {
           ticker: newSymbol.ticker.toUpperCase(),
           name: newSymbol.name,
           currency: newSymbol.currency,
+          exchange_calendar: DEFAULT_CALENDAR_BY_CURRENCY[newSymbol.currency] ?? null,
           is_active: true,
         });
 
@@ -539,7 +1303,7 @@ const SymbolManagement: React.FC<SymbolManagementProps> = () => {
           <div>
             <h2 className="text-xl font-semibold text-gray-200">Symbol Management</h2>
             <p className="text-gray-400 text-sm mt-1">
-              Manage symbols tracked for price updates. Symbols with open positions are automatically tracked.
+              Manage symbols tracked for price updates. Symbols with open positions are automatically tracked. Daily bars of active symbols are ingested after the US close; use Backfill to load their history.
             </p>
           </div>
           <button
@@ -643,6 +1407,8 @@ const SymbolManagement: React.FC<SymbolManagementProps> = () => {
                       <th className="p-3">Name</th>
                       <th className="p-3">Currency</th>
                       <th className="p-3">Latest Price</th>
+                      <th className="p-3">Provider</th>
+                      <th className="p-3">Market</th>
                       <th className="p-3">Status</th>
                       <th className="p-3">Actions</th>
                     </tr>
@@ -656,6 +1422,31 @@ const SymbolManagement: React.FC<SymbolManagementProps> = () => {
                         <td className="p-3 font-mono">
                           {symbol.latest_price ? `$${symbol.latest_price.toFixed(2)}` : '-'}
                         </td>
+                        <td className="p-3">
+                          <select
+                            value={symbol.data_provider || ''}
+                            onChange={(e) => handleProviderChange(symbol, e.target.value)}
+                            className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:ring-1 focus:ring-brand-blue"
+                          >
+                            <option value="">Global default</option>
+                            {Object.entries(DATA_PROVIDER_LABELS).map(([id, label]) => (
+                              <option key={id} value={id}>{label}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="p-3">
+                          <select
+                            value={symbol.exchange_calendar || ''}
+                            onChange={(e) => handleCalendarChange(symbol, e.target.value)}
+                            className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:ring-1 focus:ring-brand-blue"
+                            title="Prices are only fetched while this market is open and once after its close"
+                          >
+                            <option value="">Always open</option>
+                            {calendars.map(calendar => (
+                              <option key={calendar.code} value={calendar.code}>{calendar.name}</option>
+                            ))}
+                          </select>
+                        </td>
                         <td className="p-3">
                           {symbol.has_open_positions && (
                             <span className="px-2 py-1 text-xs font-semibold rounded-full bg-blue-500/20 text-blue-400">
@@ -663,7 +1454,23 @@ const SymbolManagement: React.FC<SymbolManagementProps> = () => {
                             </span>
                           )}
                         </td>
-                        <td className="p-3">
+                        <td className="p-3 space-x-2 whitespace-nowrap">
+                          <button
+                            onClick={() => handleBackfill(symbol)}
+                            disabled={backfillingId !== null}
+                            className={`px-3 py-1 text-xs font-medium rounded-lg transition-colors ${
+                              backfillingId !== null
+                                ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                                : 'bg-blue-500/20 text-blue-400 hover:bg-blue-500/30 border border-blue-500/50'
+                            }`}
+                            title="Fetch five years of daily bars"
+                          >
+                            {backfillingId === symbol.id ? (
+                              <i className="ri-loader-4-line animate-spin"></i>
+                            ) : (
+                              'Backfill'
+                            )}
+                          </button>
                           <button
                             onClick={() => handleToggleActive(symbol)}
                             disabled={symbol.has_open_positions}
@@ -731,4 +1538,522 @@ const SymbolManagement: React.FC<SymbolManagementProps> = () => {
   );
 };
 
+// Same rule as save_scheduled_job, checked before the request
+const JOB_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{2,62}$/;
+
+const LAST_RUN_STYLES: Record<string, string> = {
+  succeeded: 'bg-green-500/20 text-brand-green',
+  failed: 'bg-red-500/20 text-brand-red',
+};
+
+const EMPTY_JOB_FORM = { name: '', task: '', schedule: '', isActive: true };
+
+const formatUtc = (at: Date) => `${at.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+// pg_cron jobs of the app's scheduled tasks, edited through RPCs instead of migrations
+const ScheduledJobs: React.FC = () => {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [tasks, setTasks] = useState<ScheduledTask[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState(EMPTY_JOB_FORM);
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyJob, setBusyJob] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchJobs();
+    fetchScheduledTasks()
+      .then(setTasks)
+      .catch(() => setMessage({ type: 'error', text: 'Failed to load schedulable tasks' }));
+  }, []);
+
+  const fetchJobs = async () => {
+    setIsLoading(true);
+    try {
+      setJobs(await fetchScheduledJobs());
+    } catch (error) {
+      console.error('Error fetching scheduled jobs:', error);
+      setMessage({ type: 'error', text: 'Failed to load scheduled jobs' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const taskLabel = (task: string) => tasks.find(candidate => candidate.task === task)?.label || task;
+
+  const scheduleError = form.schedule.trim() ? validateCronExpression(form.schedule) : null;
+  const nameError = form.name && !JOB_NAME_PATTERN.test(form.name)
+    ? 'Use 3 to 63 lowercase letters, digits and dashes'
+    : null;
+  const previewRuns = useMemo(
+    () => (form.schedule.trim() && !scheduleError ? nextCronRuns(form.schedule, 5) : []),
+    [form.schedule, scheduleError]
+  );
+
+  const resetForm = () => {
+    setForm(EMPTY_JOB_FORM);
+    setEditingName(null);
+  };
+
+  const handleEdit = (job: ScheduledJob) => {
+    setForm({ name: job.name, task: job.task, schedule: job.schedule, isActive: job.isActive });
+    setEditingName(job.name);
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    if (!form.name || !form.task || !form.schedule.trim() || nameError || scheduleError) {
+      setMessage({ type: 'error', text: nameError || scheduleError || 'Name, task and schedule are required' });
+      return;
+    }
+    if (!editingName && jobs.some(job => job.name === form.name)) {
+      setMessage({ type: 'error', text: `A job named ${form.name} already exists, edit it instead` });
+      return;
+    }
+
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await saveScheduledJob({ ...form, schedule: form.schedule.trim() });
+      setMessage({ type: 'success', text: `${editingName ? 'Updated' : 'Created'} ${form.name}` });
+      resetForm();
+      await fetchJobs();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save scheduled job' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (job: ScheduledJob) => {
+    setBusyJob(job.name);
+    setMessage(null);
+    try {
+      await setScheduledJobActive(job.name, !job.isActive);
+      await fetchJobs();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to update scheduled job' });
+    } finally {
+      setBusyJob(null);
+    }
+  };
+
+  const handleDelete = async (job: ScheduledJob) => {
+    if (!confirm(`Delete the scheduled job ${job.name}? ${taskLabel(job.task)} will no longer run on its own.`)) return;
+
+    setBusyJob(job.name);
+    setMessage(null);
+    try {
+      await deleteScheduledJob(job.name);
+      if (editingName === job.name) resetForm();
+      setMessage({ type: 'success', text: `Deleted ${job.name}` });
+      await fetchJobs();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete scheduled job' });
+    } finally {
+      setBusyJob(null);
+    }
+  };
+
+  const nextRunOf = (job: ScheduledJob) => {
+    if (!job.isActive || validateCronExpression(job.schedule)) return null;
+    return nextCronRuns(job.schedule, 1)[0] ?? null;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+        <h2 className="text-xl font-semibold text-gray-200">{editingName ? `Edit ${editingName}` : 'New Scheduled Job'}</h2>
+        <p className="text-gray-400 text-sm mt-1 mb-4">
+          Schedules are cron expressions (minute hour day-of-month month day-of-week) evaluated in UTC.
+        </p>
+
+        {message && (
+          <div
+            className={`px-4 py-3 rounded-lg mb-4 ${
+              message.type === 'success'
+                ? 'bg-green-500/20 text-brand-green border border-green-500/50'
+                : 'bg-red-500/20 text-brand-red border border-red-500/50'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">Name</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value.toLowerCase() })}
+              disabled={editingName !== null}
+              placeholder="e.g. intraday-price-update"
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue disabled:opacity-60"
+            />
+            {nameError && <p className="text-xs text-brand-red mt-1">{nameError}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">Task</label>
+            <select
+              value={form.task}
+              onChange={(e) => setForm({ ...form, task: e.target.value })}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+            >
+              <option value="">Select a task</option>
+              {tasks.map(task => (
+                <option key={task.task} value={task.task}>{task.label}</option>
+              ))}
+            </select>
+            {form.task && (
+              <p className="text-xs text-gray-500 mt-1">{tasks.find(task => task.task === form.task)?.description}</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">Schedule</label>
+            <input
+              type="text"
+              value={form.schedule}
+              onChange={(e) => setForm({ ...form, schedule: e.target.value })}
+              placeholder="*/15 13-21 * * 1-5"
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 font-mono text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+            />
+            {scheduleError && <p className="text-xs text-brand-red mt-1">{scheduleError}</p>}
+          </div>
+        </div>
+
+        {previewRuns.length > 0 && (
+          <div className="mt-4 p-4 bg-gray-700/50 rounded-lg border border-gray-600">
+            <h3 className="text-sm font-semibold text-gray-300 mb-2">Next Runs</h3>
+            <ul className="text-xs text-gray-400 space-y-1 font-mono">
+              {previewRuns.map(run => (
+                <li key={run.toISOString()}>
+                  {formatUtc(run)} <span className="text-gray-500">({run.toLocaleString()} local)</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between mt-4">
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={form.isActive}
+              onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+              className="rounded bg-gray-700 border-gray-600"
+            />
+            Active
+          </label>
+          <div className="flex gap-2">
+            {editingName && (
+              <button
+                onClick={resetForm}
+                className="px-4 py-2 bg-gray-700 text-gray-300 rounded-lg hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                isSaving
+                  ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                  : 'bg-brand-blue text-white hover:bg-blue-600'
+              }`}
+            >
+              {isSaving ? 'Saving...' : editingName ? 'Save Changes' : 'Create Job'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-200">Scheduled Jobs</h2>
+          <button
+            onClick={fetchJobs}
+            disabled={isLoading}
+            className="text-gray-400 hover:text-brand-blue transition-colors"
+            title="Refresh jobs"
+          >
+            <i className={`ri-refresh-line text-lg ${isLoading ? 'animate-spin' : ''}`}></i>
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-500">Loading jobs...</div>
+        ) : jobs.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No scheduled jobs</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-400">
+              <thead className="text-xs text-gray-400 uppercase bg-gray-700/50">
+                <tr>
+                  <th className="p-3">Name</th>
+                  <th className="p-3">Task</th>
+                  <th className="p-3">Schedule</th>
+                  <th className="p-3">Next Run</th>
+                  <th className="p-3">Last Run</th>
+                  <th className="p-3">Status</th>
+                  <th className="p-3">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.map(job => {
+                  const nextRun = nextRunOf(job);
+                  return (
+                    <tr key={job.id} className="border-b border-gray-700 hover:bg-gray-700/50">
+                      <td className="p-3 font-bold">{job.name}</td>
+                      <td className="p-3">{taskLabel(job.task)}</td>
+                      <td className="p-3 font-mono text-xs">{job.schedule}</td>
+                      <td className="p-3 font-mono text-xs" title={nextRun?.toLocaleString()}>
+                        {nextRun ? formatUtc(nextRun) : '-'}
+                      </td>
+                      <td className="p-3 text-xs">
+                        {job.lastRun ? (
+                          <div className="flex items-center gap-2" title={job.lastRun.message}>
+                            <span className={`px-2 py-1 font-semibold rounded-full ${
+                              LAST_RUN_STYLES[job.lastRun.status] || 'bg-gray-600 text-gray-300'
+                            }`}>
+                              {job.lastRun.status}
+                            </span>
+                            <span className="font-mono">
+                              {job.lastRun.startedAt ? new Date(job.lastRun.startedAt).toLocaleString() : ''}
+                            </span>
+                          </div>
+                        ) : (
+                          <span className="text-gray-500">Never</span>
+                        )}
+                      </td>
+                      <td className="p-3 text-xs">
+                        <span className={`px-2 py-1 font-semibold rounded-full ${
+                          job.isActive ? 'bg-green-500/20 text-brand-green' : 'bg-gray-600 text-gray-300'
+                        }`}>
+                          {job.isActive ? 'Active' : 'Paused'}
+                        </span>
+                      </td>
+                      <td className="p-3 space-x-3 whitespace-nowrap">
+                        <button
+                          onClick={() => handleEdit(job)}
+                          disabled={busyJob !== null}
+                          className="text-gray-400 hover:text-brand-blue transition-colors disabled:opacity-50"
+                          title="Edit"
+                        >
+                          <i className="ri-edit-line"></i>
+                        </button>
+                        <button
+                          onClick={() => handleToggleActive(job)}
+                          disabled={busyJob !== null}
+                          className="text-gray-400 hover:text-yellow-400 transition-colors disabled:opacity-50"
+                          title={job.isActive ? 'Pause' : 'Resume'}
+                        >
+                          <i className={job.isActive ? 'ri-pause-circle-line' : 'ri-play-circle-line'}></i>
+                        </button>
+                        <button
+                          onClick={() => handleDelete(job)}
+                          disabled={busyJob !== null}
+                          className="text-gray-400 hover:text-brand-red transition-colors disabled:opacity-50"
+                          title="Delete"
+                        >
+                          <i className="ri-delete-bin-line"></i>
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const BackupRestore: React.FC = () => {
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [archive, setArchive] = useState<unknown>(null);
+  const [archiveName, setArchiveName] = useState('');
+  const [report, setReport] = useState<BackupValidationReport | null>(null);
+  const [restoreResult, setRestoreResult] = useState<RestoreResult | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      const backup = await createBackup();
+      const totalRows = BACKUP_TABLES.reduce((sum, table) => sum + backup.tables[table].length, 0);
+      downloadFile(
+        JSON.stringify(backup, null, 2),
+        `cfd-tracker-backup-${backup.createdAt.split('T')[0]}.json`,
+        'application/json'
+      );
+      setMessage({ type: 'success', text: `Backup downloaded: ${totalRows} rows from ${BACKUP_TABLES.length} tables` });
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      setMessage({ type: 'error', text: 'Failed to create backup' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileSelected = async (file: File | undefined) => {
+    setArchive(null);
+    setReport(null);
+    setRestoreResult(null);
+    setMessage(null);
+    if (!file) return;
+
+    try {
+      const parsed = JSON.parse(await file.text());
+      setArchive(parsed);
+      setArchiveName(file.name);
+      setReport(validateBackup(parsed));
+    } catch (error) {
+      console.error('Error reading backup file:', error);
+      setMessage({ type: 'error', text: 'The selected file is not valid JSON' });
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive || !report?.valid) return;
+    if (!confirm('Restore this backup into your book? Your accounts and operations must be empty.')) return;
+
+    setIsRestoring(true);
+    setMessage(null);
+    try {
+      const result = await restoreBackup(archive);
+      setRestoreResult(result);
+      setMessage({ type: 'success', text: 'Backup restored. Reload the app to see the restored data.' });
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to restore backup' });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <div
+          className={`px-4 py-3 rounded-lg ${
+            message.type === 'success'
+              ? 'bg-green-500/20 text-brand-green border border-green-500/50'
+              : 'bg-red-500/20 text-brand-red border border-red-500/50'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+        <h2 className="text-xl font-semibold mb-2 text-gray-200">Export Backup</h2>
+        <p className="text-gray-400 text-sm mb-4">
+          Download a versioned JSON archive of accounts, symbols, operations, fills, lot matches, financing,
+          cash transactions, profiles, watchlists, price alerts and notifications.
+        </p>
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className={`px-6 py-3 rounded-lg font-bold transition-all ${
+            isExporting ? 'bg-gray-600 text-gray-400 cursor-not-allowed' : 'bg-brand-blue text-white hover:bg-blue-600'
+          }`}
+        >
+          <span className="flex items-center gap-2">
+            <i className={isExporting ? 'ri-loader-4-line animate-spin' : 'ri-download-2-line'}></i>
+            {isExporting ? 'Exporting...' : 'Download Backup'}
+          </span>
+        </button>
+      </div>
+
+      <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+        <h2 className="text-xl font-semibold mb-2 text-gray-200">Restore Backup</h2>
+        <p className="text-gray-400 text-sm mb-4">
+          Restore an archive into an empty book. Every record gets a new ID, all references are remapped and symbols that already exist are reused.
+        </p>
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => handleFileSelected(e.target.files?.[0])}
+          className="w-full text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600"
+        />
+
+        {report && (
+          <div className="mt-6 space-y-4">
+            <div className="flex items-center gap-3">
+              <span className={`px-2 py-1 text-xs font-semibold rounded-full ${
+                report.valid ? 'bg-green-500/20 text-brand-green' : 'bg-red-500/20 text-brand-red'
+              }`}>
+                {report.valid ? 'Valid' : 'Invalid'}
+              </span>
+              <span className="text-sm text-gray-400">
+                {archiveName}
+                {report.version !== null && ` · version ${report.version}`}
+                {report.createdAt && ` · created ${new Date(report.createdAt).toLocaleString()}`}
+              </span>
+            </div>
+
+            {report.errors.length > 0 && (
+              <ul className="text-sm text-brand-red space-y-1">
+                {report.errors.map(error => <li key={error}><i className="ri-error-warning-line mr-1"></i>{error}</li>)}
+              </ul>
+            )}
+            {report.warnings.length > 0 && (
+              <ul className="text-sm text-yellow-400 space-y-1">
+                {report.warnings.map(warning => <li key={warning}><i className="ri-alert-line mr-1"></i>{warning}</li>)}
+              </ul>
+            )}
+
+            <table className="w-full text-sm text-left text-gray-400">
+              <thead className="text-xs text-gray-400 uppercase bg-gray-700/50">
+                <tr>
+                  <th className="p-3">Table</th>
+                  <th className="p-3 text-right">Rows to Restore</th>
+                  {restoreResult && <th className="p-3 text-right">Restored</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {BACKUP_TABLES.map(table => (
+                  <tr key={table} className="border-b border-gray-700">
+                    <td className="p-3 font-mono text-gray-200">{table}</td>
+                    <td className="p-3 text-right font-mono">{report.rowCounts[table]}</td>
+                    {restoreResult && (
+                      <td className={`p-3 text-right font-mono ${
+                        restoreResult.inserted[table] === report.rowCounts[table] ? 'text-brand-green' : 'text-brand-red'
+                      }`}>
+                        {restoreResult.inserted[table]}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <button
+              onClick={handleRestore}
+              disabled={!report.valid || isRestoring || !!restoreResult}
+              className={`px-6 py-3 rounded-lg font-bold transition-all ${
+                !report.valid || isRestoring || restoreResult
+                  ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                  : 'bg-brand-blue text-white hover:bg-blue-600'
+              }`}
+            >
+              <span className="flex items-center gap-2">
+                <i className={isRestoring ? 'ri-loader-4-line animate-spin' : 'ri-upload-2-line'}></i>
+                {isRestoring ? 'Restoring...' : 'Restore Backup'}
+              </span>
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
 export default Admin;
@@ -1,5 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import type { Trade, Account } from '../types';
+import { convertTrades, currencySymbolOf } from '../services/currency';
+import type { FxRates } from '../services/currency';
 import {
   calculatePerformanceMetrics,
   getMonthCalendarData,
@@ -8,6 +10,10 @@ import {
   getMonthlyPnlData,
   getSymbolDistribution,
 } from '../services/analyticsService';
+import { buildTradeRows, DEFAULT_TRADE_FILTERS, exportMonthlySummary, exportRows, filterTrades } from '../services/exportService';
+import type { TradeFilters } from '../services/exportService';
+import { ExportMenu, TradeFiltersBar } from './DataExport';
+import type { ExportDataset } from './DataExport';
 import {
   BarChart,
   Bar,
@@ -28,12 +34,20 @@ import {
 interface AnalyticsProps {
   trades: Trade[];
   accounts: Account[];
+  baseCurrency: string;
+  fxRates: FxRates;
 }
 
 type TabType = 'calendar' | 'reports';
 
-const Analytics: React.FC<AnalyticsProps> = ({ trades, accounts }) => {
+const Analytics: React.FC<AnalyticsProps> = ({ trades: instrumentTrades, accounts, baseCurrency, fxRates }) => {
   const [activeTab, setActiveTab] = useState<TabType>('calendar');
+  const [filters, setFilters] = useState<TradeFilters>(DEFAULT_TRADE_FILTERS);
+
+  // Reports are in the profile base currency, P&L is converted from each instrument's currency
+  const allTrades = useMemo(() => convertTrades(instrumentTrades, baseCurrency, fxRates), [instrumentTrades, baseCurrency, fxRates]);
+  const trades = useMemo(() => filterTrades(allTrades, filters), [allTrades, filters]);
+  const currencySymbol = currencySymbolOf(baseCurrency);
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [calendarView, setCalendarView] = useState<'month' | 'year'>('month');
 
@@ -71,6 +85,17 @@ const Analytics: React.FC<AnalyticsProps> = ({ trades, accounts }) => {
     setSelectedDate(new Date(currentYear + 1, currentMonth, 1));
   };
 
+  const exportDatasets: ExportDataset[] = [
+    {
+      label: 'Trade History',
+      onExport: format => exportRows('trades', buildTradeRows(trades, accounts), filters, format),
+    },
+    {
+      label: 'Monthly Summary',
+      onExport: format => exportMonthlySummary(monthlyPnlData, performanceMetrics, filters, format),
+    },
+  ];
+
   const monthName = selectedDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
 
   const firstDayOfMonth = new Date(currentYear, currentMonth, 1).getDay();
@@ -82,7 +107,12 @@ const Analytics: React.FC<AnalyticsProps> = ({ trades, accounts }) => {
 
   return (
     <div className="space-y-6">
-      <h1 className="text-3xl font-bold text-gray-200">Analytics</h1>
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold text-gray-200">Analytics</h1>
+        <ExportMenu datasets={exportDatasets} />
+      </div>
+
+      <TradeFiltersBar accounts={accounts} filters={filters} onChange={setFilters} />
 
       <div className="flex space-x-1 bg-gray-800 p-1 rounded-lg w-fit">
         <button
@@ -122,6 +152,7 @@ const Analytics: React.FC<AnalyticsProps> = ({ trades, accounts }) => {
           monthlyTotalTrades={monthlyTotalTrades}
           monthlyWinRate={monthlyWinRate}
           calendarView={calendarView}
+          currencySymbol={currencySymbol}
           setCalendarView={setCalendarView}
           onMonthClick={(month: number) => {
             setSelectedDate(new Date(currentYear, month, 1));
@@ -136,6 +167,7 @@ const Analytics: React.FC<AnalyticsProps> = ({ trades, accounts }) => {
           timeBasedMetrics={timeBasedMetrics}
           monthlyPnlData={monthlyPnlData}
           symbolDistribution={symbolDistribution}
+          currencySymbol={currencySymbol}
         />
       )}
     </div>
@@ -156,6 +188,7 @@ interface CalendarTabProps {
   monthlyTotalTrades: number;
   monthlyWinRate: number;
   calendarView: 'month' | 'year';
+  currencySymbol: string;
   setCalendarView: (view: 'month' | 'year') => void;
   onMonthClick: (month: number) => void;
 }
@@ -174,6 +207,7 @@ const CalendarTab: React.FC<CalendarTabProps> = ({
   monthlyTotalTrades,
   monthlyWinRate,
   calendarView,
+  currencySymbol,
   setCalendarView,
   onMonthClick,
 }) => {
@@ -246,7 +280,7 @@ const CalendarTab: React.FC<CalendarTabProps> = ({
               <div className="bg-gray-700/50 px-4 py-2 rounded-lg border border-gray-600">
                 <p className="text-xs text-gray-400 uppercase mb-1">Yearly Total</p>
                 <p className={`text-xl font-bold ${yearlyTotalPnl >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>
-                  ${yearlyTotalPnl.toFixed(2)}
+                  {currencySymbol}{yearlyTotalPnl.toFixed(2)}
                 </p>
               </div>
             </div>
@@ -284,7 +318,7 @@ const CalendarTab: React.FC<CalendarTabProps> = ({
                       <div>
                         <p className="text-xs text-gray-400 uppercase mb-1">P&L</p>
                         <p className={`text-2xl font-bold ${isProfit ? 'text-brand-green' : 'text-brand-red'}`}>
-                          ${monthData.pnl.toFixed(2)}
+                          {currencySymbol}{monthData.pnl.toFixed(2)}
                         </p>
                       </div>
                       <div className="grid grid-cols-2 gap-3 pt-2 border-t border-gray-600/50">
@@ -312,7 +346,7 @@ const CalendarTab: React.FC<CalendarTabProps> = ({
             <div className="bg-gray-700/50 p-6 rounded-lg">
               <h3 className="text-gray-400 text-sm font-medium uppercase mb-2">Yearly P&L</h3>
               <p className={`text-3xl font-bold ${yearlyTotalPnl >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>
-                ${yearlyTotalPnl.toFixed(2)}
+                {currencySymbol}{yearlyTotalPnl.toFixed(2)}
               </p>
             </div>
             <div className="bg-gray-700/50 p-6 rounded-lg">
@@ -344,7 +378,7 @@ const CalendarTab: React.FC<CalendarTabProps> = ({
                 <div className="bg-gray-700/50 px-4 py-2 rounded-lg border border-gray-600">
                   <p className="text-xs text-gray-400 uppercase mb-1">Monthly Total</p>
                   <p className={`text-xl font-bold ${monthlyTotalPnl >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>
-                    ${monthlyTotalPnl.toFixed(2)}
+                    {currencySymbol}{monthlyTotalPnl.toFixed(2)}
                   </p>
                 </div>
               </div>
@@ -405,12 +439,12 @@ const CalendarTab: React.FC<CalendarTabProps> = ({
                     <div
                       key={`day-${dayNumber}`}
                       className={`aspect-square ${bgColor} border rounded-lg p-1 sm:p-2 flex flex-col hover:shadow-lg transition-shadow cursor-pointer group relative`}
-                      title={`${dayData.tradeCount} trades | Win Rate: ${dayData.winRate.toFixed(1)}% | P&L: $${dayData.pnl.toFixed(2)}`}
+                      title={`${dayData.tradeCount} trades | Win Rate: ${dayData.winRate.toFixed(1)}% | P&L: ${currencySymbol}${dayData.pnl.toFixed(2)}`}
                     >
                       <span className="text-gray-200 text-xs sm:text-sm font-medium">{dayNumber}</span>
                       <div className="flex-1 flex flex-col justify-center">
                         <p className={`text-xs font-bold ${isProfit ? 'text-brand-green' : 'text-brand-red'}`}>
-                          ${dayData.pnl.toFixed(0)}
+                          {currencySymbol}{dayData.pnl.toFixed(0)}
                         </p>
                         <p className="text-[10px] sm:text-xs text-gray-400">{dayData.tradeCount}</p>
                       </div>
@@ -425,11 +459,11 @@ const CalendarTab: React.FC<CalendarTabProps> = ({
                         <p className="text-xs text-gray-400 mb-1">
                           P&L:{' '}
                           <span className={`font-semibold ${isProfit ? 'text-brand-green' : 'text-brand-red'}`}>
-                            ${dayData.pnl.toFixed(2)}
+                            {currencySymbol}{dayData.pnl.toFixed(2)}
                           </span>
                         </p>
                         <p className="text-xs text-gray-400">
-                          Fees: <span className="text-gray-200 font-semibold">${dayData.fees.toFixed(2)}</span>
+                          Fees: <span className="text-gray-200 font-semibold">{currencySymbol}{dayData.fees.toFixed(2)}</span>
                         </p>
                       </div>
                     </div>
@@ -440,10 +474,10 @@ const CalendarTab: React.FC<CalendarTabProps> = ({
                   className={`aspect-square ${
                     isWeekProfit ? 'bg-green-500/10 border-green-500/30' : 'bg-red-500/10 border-red-500/30'
                   } border-2 rounded-lg p-2 flex flex-col justify-center items-center`}
-                  title={`Weekly Total: ${weekTotal.tradeCount} trades | P&L: $${weekTotal.pnl.toFixed(2)}`}
+                  title={`Weekly Total: ${weekTotal.tradeCount} trades | P&L: ${currencySymbol}${weekTotal.pnl.toFixed(2)}`}
                 >
                   <p className={`text-sm font-bold ${isWeekProfit ? 'text-brand-green' : 'text-brand-red'}`}>
-                    ${weekTotal.pnl.toFixed(0)}
+                    {currencySymbol}{weekTotal.pnl.toFixed(0)}
                   </p>
                   <p className="text-xs text-gray-400">{weekTotal.tradeCount}</p>
                 </div>
@@ -457,7 +491,7 @@ const CalendarTab: React.FC<CalendarTabProps> = ({
             <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
               <h3 className="text-gray-400 text-sm font-medium uppercase mb-2">Monthly P&L</h3>
               <p className={`text-3xl font-bold ${monthlyTotalPnl >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>
-                ${monthlyTotalPnl.toFixed(2)}
+                {currencySymbol}{monthlyTotalPnl.toFixed(2)}
               </p>
             </div>
             <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
@@ -482,6 +516,7 @@ interface ReportsTabProps {
   timeBasedMetrics: ReturnType<typeof calculateTimeBasedMetrics>;
   monthlyPnlData: ReturnType<typeof getMonthlyPnlData>;
   symbolDistribution: ReturnType<typeof getSymbolDistribution>;
+  currencySymbol: string;
 }
 
 const ReportsTab: React.FC<ReportsTabProps> = ({
@@ -489,6 +524,7 @@ const ReportsTab: React.FC<ReportsTabProps> = ({
   timeBasedMetrics,
   monthlyPnlData,
   symbolDistribution,
+  currencySymbol,
 }) => {
   const COLORS = ['#3B82F6', '#22C55E', '#EF4444', '#F59E0B', '#8B5CF6', '#EC4899'];
 
@@ -503,7 +539,7 @@ const ReportsTab: React.FC<ReportsTabProps> = ({
         />
         <MetricCard
           title="Total P&L"
-          value={`$${performanceMetrics.totalPnl.toFixed(2)}`}
+          value={`${currencySymbol}${performanceMetrics.totalPnl.toFixed(2)}`}
           colorClass={performanceMetrics.totalPnl >= 0 ? 'text-brand-green' : 'text-brand-red'}
         />
         <MetricCard
@@ -516,22 +552,22 @@ const ReportsTab: React.FC<ReportsTabProps> = ({
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <MetricCard
           title="Average Win"
-          value={`$${performanceMetrics.averageWin.toFixed(2)}`}
+          value={`${currencySymbol}${performanceMetrics.averageWin.toFixed(2)}`}
           colorClass="text-brand-green"
         />
         <MetricCard
           title="Average Loss"
-          value={`$${performanceMetrics.averageLoss.toFixed(2)}`}
+          value={`${currencySymbol}${performanceMetrics.averageLoss.toFixed(2)}`}
           colorClass="text-brand-red"
         />
         <MetricCard
           title="Largest Win"
-          value={`$${performanceMetrics.largestWin.toFixed(2)}`}
+          value={`${currencySymbol}${performanceMetrics.largestWin.toFixed(2)}`}
           colorClass="text-brand-green"
         />
         <MetricCard
           title="Largest Loss"
-          value={`$${performanceMetrics.largestLoss.toFixed(2)}`}
+          value={`${currencySymbol}${performanceMetrics.largestLoss.toFixed(2)}`}
           colorClass="text-brand-red"
         />
       </div>
@@ -539,17 +575,17 @@ const ReportsTab: React.FC<ReportsTabProps> = ({
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <MetricCard
           title="Expectancy"
-          value={`$${performanceMetrics.expectancy.toFixed(2)}`}
+          value={`${currencySymbol}${performanceMetrics.expectancy.toFixed(2)}`}
           colorClass={performanceMetrics.expectancy >= 0 ? 'text-brand-green' : 'text-brand-red'}
         />
         <MetricCard
           title="Max Drawdown"
-          value={`$${performanceMetrics.maxDrawdown.toFixed(2)}`}
+          value={`${currencySymbol}${performanceMetrics.maxDrawdown.toFixed(2)}`}
           colorClass="text-brand-red"
         />
         <MetricCard
           title="Total Fees"
-          value={`$${performanceMetrics.totalFees.toFixed(2)}`}
+          value={`${currencySymbol}${performanceMetrics.totalFees.toFixed(2)}`}
           colorClass="text-gray-400"
         />
       </div>
@@ -570,7 +606,7 @@ const ReportsTab: React.FC<ReportsTabProps> = ({
                 color: '#E5E7EB',
               }}
               formatter={(value: any, name: string) => {
-                if (name === 'pnl') return [`$${Number(value).toFixed(2)}`, 'P&L'];
+                if (name === 'pnl') return [`${currencySymbol}${Number(value).toFixed(2)}`, 'P&L'];
                 if (name === 'winRate') return [`${Number(value).toFixed(1)}%`, 'Win Rate'];
                 return [value, name];
               }}
@@ -604,7 +640,7 @@ const ReportsTab: React.FC<ReportsTabProps> = ({
                   borderRadius: '8px',
                   color: '#E5E7EB',
                 }}
-                formatter={(value: any) => `$${Number(value).toFixed(2)}`}
+                formatter={(value: any) => `${currencySymbol}${Number(value).toFixed(2)}`}
               />
               <Bar dataKey="pnl" fill="#3B82F6" radius={[4, 4, 0, 0]} />
             </BarChart>
@@ -667,7 +703,7 @@ const ReportsTab: React.FC<ReportsTabProps> = ({
                     </span>
                   </td>
                   <td className={`p-4 text-right font-mono ${symbol.pnl >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>
-                    ${symbol.pnl.toFixed(2)}
+                    {currencySymbol}{symbol.pnl.toFixed(2)}
                   </td>
                 </tr>
               ))}
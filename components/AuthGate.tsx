@@ -0,0 +1,36 @@
+import React, { useEffect, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import Login from './Login';
+import { getSession, onSessionChange } from '../services/authService';
+
+// Shows the login screen until there is a session. Children are keyed by user so that
+// signing in as someone else remounts the app and reloads their own book.
+const AuthGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    getSession()
+      .then(setSession)
+      .catch(() => setSession(null))
+      .finally(() => setIsLoading(false));
+
+    return onSessionChange(setSession);
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen bg-gray-900 items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-blue"></div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Login />;
+  }
+
+  return <React.Fragment key={session.user.id}>{children}</React.Fragment>;
+};
+
+export default AuthGate;
@@ -1,20 +1,74 @@
 
-import React, { useState } from 'react';
-import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import type { Trade, Account, WatchlistItem } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { Trade, Account, Watchlist, CashTransaction } from '../types';
 import { TradeStatus } from '../types';
-import { TrashIcon, AddIcon } from './Icons';
+import { calculateTotalBalance } from '../services/accountLedger';
+import type { AccountMargin } from '../services/accountLedger';
+import { convertAmount, convertTrades, currencySymbolOf, hasFxRate, PIVOT_CURRENCY } from '../services/currency';
+import type { FxRates } from '../services/currency';
+import { fetchEquityHistory, fetchMarketCalendars, fetchPriceCheckSettings } from '../services/databaseService';
+import { buildEquitySeries, calculateMaxDrawdown } from '../services/equityCurve';
+import type { EquityHistory } from '../services/equityCurve';
+import { getMarketStatus, isQuoteStale } from '../services/marketHours';
+import type { MarketCalendar, MarketStatus } from '../services/marketHours';
 import { OpenOperationModal, CloseOperationModal } from './Operations';
+import { WatchlistCard } from './Intelligence';
+import type { WatchlistActions } from './Intelligence';
 
 interface DashboardProps {
   accounts: Account[];
   trades: Trade[];
-  watchlist: WatchlistItem[];
-  removeFromWatchlist: (symbol: string) => void;
+  cashTransactions: CashTransaction[];
+  accountMargins: Record<string, AccountMargin>;
+  baseCurrency: string;
+  fxRates: FxRates;
+  watchlists: Watchlist[];
+  watchlistActions: WatchlistActions;
   addTrade: (tradeData: Omit<Trade, 'id' | 'status' | 'openAt' | 'pnl'>) => void;
   closeTrade: (tradeId: string, closePrice: number, closePercentage?: number) => void;
 }
 
+const EMPTY_EQUITY_HISTORY: EquityHistory = { fills: [], financing: [], dailyBars: {} };
+
+const formatChartDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit', timeZone: 'UTC' });
+
+const MARKET_CLOCK_INTERVAL_MS = 60 * 1000;
+
+const MARKET_STATUS_BADGES: Record<MarketStatus['reason'], { label: string; className: string }> = {
+  open: { label: 'Open', className: 'bg-green-500/20 text-brand-green' },
+  pre_market: { label: 'Pre-market', className: 'bg-yellow-500/20 text-yellow-400' },
+  after_hours: { label: 'Closed', className: 'bg-gray-600/50 text-gray-300' },
+  weekend: { label: 'Closed', className: 'bg-gray-600/50 text-gray-300' },
+  holiday: { label: 'Holiday', className: 'bg-blue-500/20 text-blue-400' },
+};
+
+// Today's times show without the date
+const formatMarketTime = (date: Date, now: Date) =>
+  date.toDateString() === now.toDateString()
+    ? date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const MarketStatusBadge: React.FC<{ calendar?: MarketCalendar; now: Date }> = ({ calendar, now }) => {
+  if (!calendar) return <span className="text-gray-500 text-xs">—</span>;
+
+  const status = getMarketStatus(calendar, now);
+  const badge = MARKET_STATUS_BADGES[status.reason];
+  const details = status.isOpen
+    ? `Closes ${formatMarketTime(status.session!.close, now)}${status.session!.earlyClose ? ' (early close)' : ''}`
+    : status.nextOpen ? `Opens ${formatMarketTime(status.nextOpen, now)}` : '';
+
+  return (
+    <span
+      className={`px-2 py-1 text-xs font-semibold rounded-full whitespace-nowrap ${badge.className}`}
+      title={[calendar.name, status.holiday, details].filter(Boolean).join(' · ')}
+    >
+      {badge.label}
+    </span>
+  );
+};
+
 const KpiCard: React.FC<{ title: string; value: string | number; change?: string; colorClass?: string }> = ({ title, value, change, colorClass = 'text-gray-200' }) => (
   <div className="bg-gray-800 p-6 rounded-lg shadow-lg flex flex-col justify-between">
     <h3 className="text-gray-400 text-sm font-medium uppercase">{title}</h3>
@@ -23,7 +77,7 @@ const KpiCard: React.FC<{ title: string; value: string | number; change?: string
   </div>
 );
 
-const RecentTradeRow: React.FC<{ trade: Trade }> = ({ trade }) => {
+const RecentTradeRow: React.FC<{ trade: Trade; currency: string }> = ({ trade, currency }) => {
     const isWin = trade.pnl! >= 0;
     const pnlColor = isWin ? 'text-brand-green' : 'text-brand-red';
 
@@ -35,7 +89,7 @@ const RecentTradeRow: React.FC<{ trade: Trade }> = ({ trade }) => {
                     {isWin ? 'Win' : 'Loss'}
                 </span>
             </td>
-            <td className={`p-4 font-mono text-right ${pnlColor}`}>{trade.pnl?.toFixed(2)} USD</td>
+            <td className={`p-4 font-mono text-right ${pnlColor}`}>{trade.pnl?.toFixed(2)} {currency}</td>
         </tr>
     );
 };
@@ -59,10 +113,53 @@ const TableCard: React.FC<{ title: string, children: React.ReactNode, headers: s
 );
 
 
-const Dashboard: React.FC<DashboardProps> = ({ accounts, trades, watchlist, removeFromWatchlist, addTrade, closeTrade }) => {
+const Dashboard: React.FC<DashboardProps> = ({ accounts, trades: instrumentTrades, cashTransactions, accountMargins, baseCurrency, fxRates, watchlists, watchlistActions, addTrade, closeTrade }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [modalInitialData, setModalInitialData] = useState<{ symbol: string; price: number } | undefined>(undefined);
   const [tradeToClose, setTradeToClose] = useState<Trade | null>(null);
+  const [activeWatchlistId, setActiveWatchlistId] = useState<string | null>(watchlists[0]?.id ?? null);
+  const [equityHistory, setEquityHistory] = useState<EquityHistory | null>(null);
+  const [marketCalendars, setMarketCalendars] = useState<Map<string, MarketCalendar>>(new Map());
+  const [now, setNow] = useState(() => new Date());
+  const [maxQuoteAgeMinutes, setMaxQuoteAgeMinutes] = useState<number | null>(null);
+
+  // Market status follows the clock, calendars are loaded once
+  useEffect(() => {
+    let cancelled = false;
+    fetchMarketCalendars()
+      .then(calendars => !cancelled && setMarketCalendars(calendars))
+      .catch(err => console.error('Error loading exchange calendars:', err));
+    fetchPriceCheckSettings()
+      .then(settings => !cancelled && setMaxQuoteAgeMinutes(settings?.maxQuoteAgeMinutes ?? null))
+      .catch(err => console.error('Error loading price check settings:', err));
+    const timer = setInterval(() => setNow(new Date()), MARKET_CLOCK_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  // Fills and price history are reloaded whenever the operations change
+  useEffect(() => {
+    let cancelled = false;
+    fetchEquityHistory()
+      .then(history => !cancelled && setEquityHistory(history))
+      .catch(err => {
+        console.error('Error loading equity history:', err);
+        if (!cancelled) setEquityHistory(EMPTY_EQUITY_HISTORY);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [instrumentTrades]);
+
+  // All figures on the Dashboard are in the profile base currency
+  const trades = convertTrades(instrumentTrades, baseCurrency, fxRates);
+  const currencySymbol = currencySymbolOf(baseCurrency);
+  const missingRateCurrencies = [...new Set([
+    ...instrumentTrades.map(trade => trade.currency || PIVOT_CURRENCY),
+    ...accounts.map(account => account.currency),
+  ])].filter(currency => !hasFxRate(currency, baseCurrency, fxRates));
 
   const closedTrades = trades.filter(t => t.status === TradeStatus.CLOSED);
   const openTrades = trades.filter(t => t.status === TradeStatus.OPEN);
@@ -71,28 +168,18 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, trades, watchlist, remo
   const winningTrades = closedTrades.filter(t => t.pnl! > 0).length;
   const winRate = totalTrades > 0 ? ((winningTrades / totalTrades) * 100).toFixed(1) + '%' : 'N/A';
 
-  // Realized P&L: from fully closed trades + closed portion of partially closed trades
-  const realizedPnl = trades.reduce((sum, trade) => {
-    if (trade.status === TradeStatus.CLOSED) {
-      return sum + (trade.pnl || 0);
-    } else if (trade.isPartiallyCloseD && trade.realizedPnl !== undefined) {
-      return sum + trade.realizedPnl;
-    }
-    return sum;
-  }, 0);
-
-  // Unrealized P&L: from fully open trades + open portion of partially closed trades
-  const unrealizedPnl = trades.reduce((sum, trade) => {
-    if (trade.status === TradeStatus.OPEN && !trade.isPartiallyCloseD) {
-      return sum + (trade.pnl || 0);
-    } else if (trade.isPartiallyCloseD && trade.unrealizedPnl !== undefined) {
-      return sum + trade.unrealizedPnl;
-    }
-    return sum;
-  }, 0);
-
-  const startingBalance = accounts.reduce((sum, acc) => sum + acc.startingBalance, 0);
-  const currentEquity = startingBalance + realizedPnl + unrealizedPnl;
+  const {
+    netCashFlow,
+    realizedPnl,
+    equity: currentEquity,
+  } = calculateTotalBalance(accounts, instrumentTrades, cashTransactions, fxRates, baseCurrency);
+
+  // Account margins are in the account currency
+  const toBase = (amount: number, account: Account) => convertAmount(amount, account.currency, baseCurrency, fxRates);
+  const usedMargin = accounts.reduce((sum, account) => sum + toBase(accountMargins[account.id]?.usedMargin || 0, account), 0);
+  const freeMargin = accounts.reduce((sum, account) => sum + toBase(accountMargins[account.id]?.freeMargin || 0, account), 0);
+  const marginLevel = usedMargin > 0 ? (currentEquity / usedMargin) * 100 : null;
+  const marginCallAccounts = accounts.filter(account => accountMargins[account.id]?.isMarginCall);
   
   const recentTrades = [...closedTrades].sort((a, b) => new Date(b.closedAt!).getTime() - new Date(a.closedAt!).getTime()).slice(0, 5);
   
@@ -105,135 +192,111 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, trades, watchlist, remo
     setTradeToClose(trade);
   };
 
-  // Generate monthly equity and trade count data
-  const generateMonthlyData = () => {
-    const monthlyData = new Map();
-
-    // If no trades, show starting balance for account creation month
-    if (closedTrades.length === 0 && openTrades.length === 0) {
-      const earliestAccountDate = accounts.length > 0
-        ? new Date(Math.min(...accounts.map(acc => new Date(acc.createdAt).getTime())))
-        : new Date();
-
-      const monthKey = earliestAccountDate.toISOString().slice(0, 7);
-      const monthName = earliestAccountDate.toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
-
-      monthlyData.set(monthKey, {
-        month: monthName,
-        equity: startingBalance,
-        winRate: 0,
-        realizedPnl: 0
-      });
-
-      return Array.from(monthlyData.values());
-    }
-
-    // Find the earliest and latest trade dates
-    const allTradeDates: Date[] = [];
-    [...closedTrades, ...openTrades].forEach(trade => {
-      allTradeDates.push(new Date(trade.openAt));
-      if (trade.closedAt) {
-        allTradeDates.push(new Date(trade.closedAt));
-      }
+  // Daily mark-to-market equity with the cumulative win rate of the trades closed so far
+  const equitySeries = useMemo(() => {
+    const latestPrices: Record<string, number> = {};
+    instrumentTrades.forEach(trade => {
+      if (trade.latestPrice) latestPrices[trade.symbol] = trade.latestPrice;
     });
-
-    const earliestTradeDate = new Date(Math.min(...allTradeDates.map(d => d.getTime())));
-    const latestTradeDate = new Date(Math.max(...allTradeDates.map(d => d.getTime())));
-
-    const startDate = new Date(earliestTradeDate.getFullYear(), earliestTradeDate.getMonth(), 1);
-    const endDate = new Date(latestTradeDate.getFullYear(), latestTradeDate.getMonth(), 1);
-
-    // Calculate months from earliest trade to latest trade
-    const monthsDiff = (endDate.getFullYear() - startDate.getFullYear()) * 12 +
-                      (endDate.getMonth() - startDate.getMonth()) + 1;
-
-    // Initialize all months from earliest trade to latest trade
-    for (let i = 0; i < monthsDiff; i++) {
-      const date = new Date(startDate.getFullYear(), startDate.getMonth() + i, 1);
-      const monthKey = date.toISOString().slice(0, 7); // YYYY-MM format
-      const monthName = date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
-
-      monthlyData.set(monthKey, {
-        month: monthName,
-        equity: startingBalance,
-        winRate: 0,
-        realizedPnl: 0
-      });
-    }
-
-    // Process closed trades to calculate monthly equity progression and trade counts
-    const sortedClosedTrades = [...closedTrades].sort((a, b) => 
-      new Date(a.closedAt!).getTime() - new Date(b.closedAt!).getTime()
-    );
-
-    let runningEquity = startingBalance;
-    let cumulativeWins = 0;
-    let cumulativeTotalTrades = 0;
-    
-    sortedClosedTrades.forEach(trade => {
-      const tradeDate = new Date(trade.closedAt!);
-      const monthKey = tradeDate.toISOString().slice(0, 7);
-      
-      if (monthlyData.has(monthKey)) {
-        cumulativeTotalTrades += 1;
-        if (trade.pnl! > 0) {
-          cumulativeWins += 1;
-        }
-        runningEquity += trade.pnl!;
-        const currentWinRate = cumulativeTotalTrades > 0 ? (cumulativeWins / cumulativeTotalTrades) * 100 : 0;
-        
-        const monthData = monthlyData.get(monthKey);
-        monthData.equity = runningEquity;
-        monthData.winRate = currentWinRate;
-        
-        // Update all subsequent months with the new equity level and win rate
-        const currentMonthIndex = Array.from(monthlyData.keys()).indexOf(monthKey);
-        const monthKeys = Array.from(monthlyData.keys());
-        
-        for (let i = currentMonthIndex + 1; i < monthKeys.length; i++) {
-          const futureMonthData = monthlyData.get(monthKeys[i]);
-          futureMonthData.equity = runningEquity;
-          futureMonthData.winRate = currentWinRate;
-        }
+    return buildEquitySeries(accounts, equityHistory ?? EMPTY_EQUITY_HISTORY, cashTransactions, fxRates, baseCurrency, latestPrices);
+  }, [accounts, equityHistory, cashTransactions, fxRates, baseCurrency, instrumentTrades]);
+
+  const maxDrawdown = useMemo(() => calculateMaxDrawdown(equitySeries), [equitySeries]);
+
+  const equityChartData = useMemo(() => {
+    const closeDates = closedTrades
+      .map(trade => ({ date: new Date(trade.closedAt!).toISOString().slice(0, 10), isWin: trade.pnl! > 0 }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    let index = 0;
+    let wins = 0;
+    return equitySeries.map(point => {
+      while (index < closeDates.length && closeDates[index].date <= point.date) {
+        if (closeDates[index].isWin) wins++;
+        index++;
       }
+      return {
+        date: point.date,
+        equity: point.equity,
+        winRate: index > 0 ? (wins / index) * 100 : 0,
+      };
     });
-
-    // Add unrealized P&L to the last month with trades
-    const monthlyArray = Array.from(monthlyData.values());
-    if (monthlyArray.length > 0 && openTrades.length > 0) {
-      monthlyArray[monthlyArray.length - 1].equity += unrealizedPnl;
-    }
-
-    return monthlyArray;
-  };
-
-  const monthlyData = generateMonthlyData();
+  }, [equitySeries, closedTrades]);
 
   return (
     <div className="space-y-8">
       <h1 className="text-3xl font-bold text-gray-200">Dashboard</h1>
       
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      {missingRateCurrencies.length > 0 && (
+        <div className="bg-yellow-500/20 border border-yellow-500/50 text-yellow-400 px-4 py-3 rounded-lg">
+          <i className="ri-exchange-line mr-2"></i>
+          No FX rate for {missingRateCurrencies.join(', ')}, amounts in these currencies are shown unconverted in {baseCurrency}.
+        </div>
+      )}
+
+      {marginCallAccounts.length > 0 && (
+        <div className="bg-red-500/20 border border-red-500/50 text-brand-red px-4 py-3 rounded-lg">
+          <i className="ri-alarm-warning-line mr-2"></i>
+          Margin call: {marginCallAccounts.map(account =>
+            `${account.name} (${accountMargins[account.id].marginLevel?.toFixed(1)}%)`
+          ).join(', ')}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
         <KpiCard title="Total Trades" value={totalTrades} change={`${winningTrades} wins`} />
         <KpiCard title="Win Rate" value={winRate} colorClass={winningTrades/totalTrades >= 0.5 ? 'text-brand-green' : 'text-brand-red'} />
         <KpiCard 
             title="Realized P&L" 
-            value={`${realizedPnl.toFixed(2)} USD`} 
+            value={`${realizedPnl.toFixed(2)} ${baseCurrency}`} 
             colorClass={realizedPnl >= 0 ? 'text-brand-green' : 'text-brand-red'}
         />
-        <KpiCard title="Current Equity" value={`${currentEquity.toFixed(2)} USD`} />
+        <KpiCard
+            title="Current Equity"
+            value={`${currentEquity.toFixed(2)} ${baseCurrency}`}
+            change={netCashFlow !== 0 ? `incl. ${netCashFlow >= 0 ? '+' : ''}${netCashFlow.toFixed(2)} ${baseCurrency} net cash flow` : undefined}
+        />
+        <KpiCard
+            title="Free Margin"
+            value={`${freeMargin.toFixed(2)} ${baseCurrency}`}
+            change={marginLevel !== null
+              ? `Used ${usedMargin.toFixed(2)} ${baseCurrency} · Level ${marginLevel.toFixed(1)}%`
+              : 'No margin in use'}
+            colorClass={freeMargin >= 0 && marginCallAccounts.length === 0 ? 'text-gray-200' : 'text-brand-red'}
+        />
       </div>
 
       <div className="space-y-8">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-            <TableCard title="Open Positions" headers={['Symbol', 'Quantity', 'Unrealized P&L', 'Actions']}>
+            <TableCard title="Open Positions" headers={['Symbol', 'Quantity', 'Market', 'Unrealized P&L', 'Actions']}>
               {openTrades.length > 0 ? openTrades.map(trade => {
                 const displayPnl = trade.isPartiallyCloseD ? trade.unrealizedPnl : trade.pnl;
+                const calendar = trade.exchangeCalendar ? marketCalendars.get(trade.exchangeCalendar) : undefined;
+                const isStale = !!trade.priceAsOf && maxQuoteAgeMinutes !== null
+                  && isQuoteStale(new Date(trade.priceAsOf), calendar, maxQuoteAgeMinutes * 60 * 1000, now);
                 return (
                   <tr key={trade.id} className="border-b border-gray-700 hover:bg-gray-700/50">
-                    <td className="p-4 font-bold">{trade.symbol}</td>
+                    <td className="p-4">
+                      <div className="font-bold">{trade.symbol}</div>
+                      {trade.priceAsOf && (
+                        <div className="text-xs text-gray-500 whitespace-nowrap">
+                          as of {formatMarketTime(new Date(trade.priceAsOf), now)}
+                          {isStale && (
+                            <span
+                              className="ml-2 px-1.5 py-0.5 rounded bg-yellow-500/20 text-yellow-400"
+                              title={`The price is more than ${maxQuoteAgeMinutes} minutes behind the market, P&L may be out of date`}
+                            >
+                              <i className="ri-time-line mr-1"></i>Stale
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </td>
                     <td className="p-4">{trade.quantity}</td>
-                    <td className={`p-4 font-mono text-right ${displayPnl !== undefined && displayPnl >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>{displayPnl?.toFixed(2)} USD</td>
+                    <td className="p-4">
+                      <MarketStatusBadge calendar={calendar} now={now} />
+                    </td>
+                    <td className={`p-4 font-mono text-right ${displayPnl !== undefined && displayPnl >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>{displayPnl?.toFixed(2)} {baseCurrency}</td>
                     <td className="p-4 text-center">
                         <button onClick={() => handleClosePosition(trade)} className="text-gray-400 hover:text-brand-red" title="Close position">
                           <i className="ri-close-line"></i>
@@ -242,58 +305,59 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, trades, watchlist, remo
                   </tr>
                 );
               })
-              : <tr><td colSpan={4} className="text-center p-8 text-gray-500">No open positions.</td></tr>}
+              : <tr><td colSpan={5} className="text-center p-8 text-gray-500">No open positions.</td></tr>}
             </TableCard>
-            <TableCard title="Watchlist" headers={['Symbol', 'Company Name', 'Price', 'Actions']}>
-            {watchlist.length > 0 ? (
-              watchlist.map(item => (
-                <tr key={item.symbol} className="border-b border-gray-700 hover:bg-gray-700/50">
-                  <td className="p-4 font-bold">{item.symbol}</td>
-                  <td className="p-4">{item.companyName}</td>
-                  <td className="p-4 font-mono text-right">${item.currentPrice.toFixed(2)}</td>
-                  <td className="p-4">
-                    <div className="flex justify-center items-center space-x-4">
-                        <button onClick={() => handleAddOperation(item.symbol, item.currentPrice)} className="text-gray-400 hover:text-brand-blue" title="Open new operation">
-                            <AddIcon />
-                        </button>
-                        <button onClick={() => removeFromWatchlist(item.symbol)} className="text-gray-400 hover:text-brand-red" title="Remove from watchlist">
-                            <TrashIcon />
-                        </button>
-                    </div>
-                  </td>
-                </tr>
-              ))
-            ) : (
-              <tr>
-                <td colSpan={4} className="text-center p-8 text-gray-500">
-                  Your watchlist is empty.
-                </td>
-              </tr>
-            )}
-          </TableCard>
+            <WatchlistCard
+              watchlists={watchlists}
+              activeWatchlistId={activeWatchlistId}
+              onSelectWatchlist={setActiveWatchlistId}
+              actions={watchlistActions}
+              onAddOperation={handleAddOperation}
+            />
         </div>
         <TableCard title="Recent Trades" headers={['Symbol', 'Result', 'Profit/Loss']}>
-            {recentTrades.length > 0 ? recentTrades.map(trade => <RecentTradeRow key={trade.id} trade={trade} />)
+            {recentTrades.length > 0 ? recentTrades.map(trade => <RecentTradeRow key={trade.id} trade={trade} currency={baseCurrency} />)
             : <tr><td colSpan={3} className="text-center p-8 text-gray-500">No recent trades.</td></tr>}
         </TableCard>
         
         {/* Equity and Trades Chart */}
         <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
-          <h3 className="text-lg font-semibold mb-4 text-gray-200">Equity Progression & Win Rate</h3>
+          <div className="flex flex-wrap justify-between items-baseline gap-2 mb-4">
+            <h3 className="text-lg font-semibold text-gray-200">Equity Progression & Win Rate</h3>
+            {maxDrawdown.amount > 0 && (
+              <p className="text-sm text-gray-400">
+                Max drawdown{' '}
+                <span className="font-mono text-brand-red">
+                  {currencySymbol}{maxDrawdown.amount.toFixed(2)} ({maxDrawdown.percent.toFixed(1)}%)
+                </span>
+                {maxDrawdown.peakDate && maxDrawdown.troughDate && (
+                  <span className="text-gray-500"> · {formatChartDate(maxDrawdown.peakDate)} → {formatChartDate(maxDrawdown.troughDate)}</span>
+                )}
+              </p>
+            )}
+          </div>
           <div style={{ width: '100%', height: 300 }}>
+            {equityHistory === null ? (
+              <div className="h-full flex items-center justify-center text-gray-500">
+                <i className="ri-loader-4-line animate-spin mr-2"></i>
+                Loading equity history...
+              </div>
+            ) : (
             <ResponsiveContainer>
-              <ComposedChart data={monthlyData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+              <ComposedChart data={equityChartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
                 <XAxis 
-                  dataKey="month" 
+                  dataKey="date" 
                   stroke="#9CA3AF"
                   fontSize={12}
+                  tickFormatter={formatChartDate}
+                  minTickGap={40}
                 />
                 <YAxis 
                   yAxisId="equity"
                   stroke="#3B82F6"
                   fontSize={12}
-                  tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+                  tickFormatter={(value) => `${currencySymbol}${(value / 1000).toFixed(0)}k`}
                 />
                 <YAxis 
                   yAxisId="winRate"
@@ -310,9 +374,10 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, trades, watchlist, remo
                     borderRadius: '8px',
                     color: '#E5E7EB'
                   }}
+                  labelFormatter={(label) => formatChartDate(String(label))}
                   formatter={(value, name) => {
                     if (name === 'equity') {
-                      return [`$${Number(value).toLocaleString()}`, 'Equity'];
+                      return [`${currencySymbol}${Number(value).toLocaleString('en-US', { maximumFractionDigits: 2 })}`, 'Equity'];
                     }
                     if (name === 'winRate') {
                       return [`${Number(value).toFixed(1)}%`, 'Win Rate'];
@@ -323,26 +388,30 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, trades, watchlist, remo
                 <Legend 
                   wrapperStyle={{ color: '#E5E7EB' }}
                 />
-                <Bar 
+                <Area
                   yAxisId="equity"
-                  dataKey="equity" 
-                  fill="#3B82F6" 
+                  type="monotone"
+                  dataKey="equity"
+                  stroke="#3B82F6"
+                  fill="#3B82F6"
+                  fillOpacity={0.2}
+                  strokeWidth={2}
                   name="equity"
-                  opacity={0.8}
-                  radius={[2, 2, 0, 0]}
+                  dot={false}
                 />
                 <Line 
                   yAxisId="winRate"
-                  type="monotone" 
+                  type="stepAfter" 
                   dataKey="winRate" 
                   stroke="#22C55E" 
-                  strokeWidth={3}
+                  strokeWidth={2}
                   name="winRate"
-                  dot={{ fill: '#22C55E', strokeWidth: 2, r: 4 }}
-                  activeDot={{ r: 6, stroke: '#22C55E', strokeWidth: 2 }}
+                  dot={false}
+                  activeDot={{ r: 4, stroke: '#22C55E', strokeWidth: 2 }}
                 />
               </ComposedChart>
             </ResponsiveContainer>
+            )}
           </div>
         </div>
       </div>
@@ -353,6 +422,7 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, trades, watchlist, remo
             onClose={() => setIsModalOpen(false)}
             onAdd={addTrade}
             accounts={accounts}
+            accountMargins={accountMargins}
             initialData={modalInitialData}
           />
         )}
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import type { Account } from '../types';
+import { DEFAULT_TRADE_FILTERS, hasActiveFilters } from '../services/exportService';
+import type { ExportFormat, TradeFilters } from '../services/exportService';
+
+interface TradeFiltersBarProps {
+  accounts: Account[];
+  filters: TradeFilters;
+  onChange: (filters: TradeFilters) => void;
+}
+
+export const TradeFiltersBar: React.FC<TradeFiltersBarProps> = ({ accounts, filters, onChange }) => (
+  <div className="flex flex-wrap items-end gap-3">
+    <div>
+      <label htmlFor="filter-account" className="block text-xs text-gray-500 mb-1">Account</label>
+      <select
+        id="filter-account"
+        value={filters.accountId}
+        onChange={(e) => onChange({ ...filters, accountId: e.target.value })}
+        className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+      >
+        <option value="all">All Accounts</option>
+        {accounts.map(account => (
+          <option key={account.id} value={account.id}>{account.name}</option>
+        ))}
+      </select>
+    </div>
+    <div>
+      <label htmlFor="filter-from" className="block text-xs text-gray-500 mb-1">From</label>
+      <input
+        id="filter-from"
+        type="date"
+        value={filters.from}
+        onChange={(e) => onChange({ ...filters, from: e.target.value })}
+        className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+      />
+    </div>
+    <div>
+      <label htmlFor="filter-to" className="block text-xs text-gray-500 mb-1">To</label>
+      <input
+        id="filter-to"
+        type="date"
+        value={filters.to}
+        onChange={(e) => onChange({ ...filters, to: e.target.value })}
+        className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+      />
+    </div>
+    {hasActiveFilters(filters) && (
+      <button
+        onClick={() => onChange(DEFAULT_TRADE_FILTERS)}
+        className="px-3 py-2 rounded-lg text-sm text-gray-400 hover:text-gray-200 hover:bg-gray-700"
+      >
+        <i className="ri-close-line mr-1"></i>Clear
+      </button>
+    )}
+  </div>
+);
+
+export interface ExportDataset {
+  label: string;
+  onExport: (format: ExportFormat) => void | Promise<void>;
+}
+
+export const ExportMenu: React.FC<{ datasets: ExportDataset[] }> = ({ datasets }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (dataset: ExportDataset, format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      await dataset.onExport(format);
+      setIsOpen(false);
+    } catch (error) {
+      console.error(`Error exporting ${dataset.label}:`, error);
+      alert(`Failed to export ${dataset.label.toLowerCase()}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isExporting}
+        className="bg-gray-700 text-gray-200 font-bold py-2 px-6 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+      >
+        <i className="ri-download-2-line mr-2"></i>{isExporting ? 'Exporting...' : 'Export'}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-40 p-2">
+          {datasets.map(dataset => (
+            <div key={dataset.label} className="flex items-center justify-between px-2 py-2 text-sm">
+              <span className="text-gray-300">{dataset.label}</span>
+              <div className="flex gap-1">
+                {(['csv', 'json'] as ExportFormat[]).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => handleExport(dataset, format)}
+                    disabled={isExporting}
+                    className="px-2 py-1 rounded text-xs font-semibold uppercase bg-blue-500/20 text-brand-blue hover:bg-blue-500/40 disabled:opacity-50"
+                  >
+                    {format}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,10 +2,12 @@
 import React, { useState, useCallback } from 'react';
 import { RadialBarChart, RadialBar, ResponsiveContainer, PolarAngleAxis } from 'recharts';
 import { fetchStockAnalysis } from '../services/geminiService';
-import type { StockAnalysis, WatchlistItem, Account, Trade } from '../types';
+import type { StockAnalysis, Watchlist, WatchlistItem, Account, Trade } from '../types';
 import { AnalystRating } from '../types';
 import { ArrowUpIcon, ArrowDownIcon, TrashIcon, StarIcon, StarFillIcon, AddIcon } from './Icons';
 import { OpenOperationModal } from './Operations';
+import type { AccountMargin } from '../services/accountLedger';
+import { currencySymbolOf } from '../services/currency';
 
 const ratingColors: Record<AnalystRating, string> = {
     [AnalystRating.STRONG_BUY]: 'bg-green-500',
@@ -58,62 +60,253 @@ const RsiGauge: React.FC<{ value: number }> = ({ value }) => {
 };
 
 
-const WatchlistCard: React.FC<{ watchlist: WatchlistItem[]; removeFromWatchlist: (symbol: string) => void; onAddOperation: (symbol: string, price: number) => void; }> = ({ watchlist, removeFromWatchlist, onAddOperation }) => (
-    <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
-        <h3 className="text-lg font-semibold mb-4 text-gray-200">Watchlist</h3>
-        <div className="overflow-x-auto">
-            <table className="w-full text-sm text-left text-gray-400">
-                <thead className="text-xs text-gray-400 uppercase bg-gray-700/50">
-                    <tr>
-                        <th scope="col" className="p-3">Symbol</th>
-                        <th scope="col" className="p-3 text-right">Price</th>
-                        <th scope="col" className="p-3 text-center">Actions</th>
-                    </tr>
-                </thead>
-                <tbody>
-                    {watchlist.length > 0 ? (
-                        watchlist.map(item => (
-                            <tr key={item.symbol} className="border-b border-gray-700 last:border-b-0 hover:bg-gray-700/50">
-                                <td className="p-3 font-bold">{item.symbol}</td>
-                                <td className="p-3 font-mono text-right">${item.currentPrice.toFixed(2)}</td>
-                                <td className="p-3">
-                                    <div className="flex justify-center items-center space-x-3">
-                                        <button onClick={() => onAddOperation(item.symbol, item.currentPrice)} className="text-gray-400 hover:text-brand-blue" title="Open new operation">
-                                            <AddIcon className="text-base" />
-                                        </button>
-                                        <button onClick={() => removeFromWatchlist(item.symbol)} className="text-gray-400 hover:text-brand-red" title="Remove from watchlist">
-                                            <TrashIcon className="text-base" />
-                                        </button>
-                                    </div>
-                                </td>
-                            </tr>
-                        ))
+export interface WatchlistActions {
+    addList: (name: string) => void;
+    renameList: (watchlistId: string, name: string) => void;
+    deleteList: (watchlistId: string) => void;
+    addItem: (watchlistId: string | null, symbol: string) => void; // Without a list a default one is created
+    removeItem: (item: WatchlistItem) => void;
+    updateItem: (item: WatchlistItem, updates: { notes?: string; targetPrice?: number | null }) => void;
+    moveItem: (item: WatchlistItem, direction: -1 | 1) => void;
+}
+
+// Change since the previous close, null until the price updater has stored one
+const dailyChange = (item: WatchlistItem): { amount: number; percent: number } | null => {
+    if (!item.previousClose || !item.currentPrice) return null;
+    const amount = item.currentPrice - item.previousClose;
+    return { amount, percent: (amount / item.previousClose) * 100 };
+};
+
+const WatchlistItemEditor: React.FC<{ item: WatchlistItem; onSave: (updates: { notes: string; targetPrice: number | null }) => void; onCancel: () => void; }> = ({ item, onSave, onCancel }) => {
+    const [notes, setNotes] = useState(item.notes || '');
+    const [targetPrice, setTargetPrice] = useState(item.targetPrice?.toString() || '');
+
+    return (
+        <tr className="border-b border-gray-700 bg-gray-700/30">
+            <td colSpan={6} className="p-3">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                    <div>
+                        <label className="block text-xs text-gray-400 mb-1">Target Price</label>
+                        <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={targetPrice}
+                            onChange={(e) => setTargetPrice(e.target.value)}
+                            className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-1 text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-brand-blue"
+                            placeholder="None"
+                        />
+                    </div>
+                    <div className="md:col-span-2">
+                        <label className="block text-xs text-gray-400 mb-1">Notes</label>
+                        <input
+                            type="text"
+                            value={notes}
+                            onChange={(e) => setNotes(e.target.value)}
+                            className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-1 text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-brand-blue"
+                            placeholder="Why are you watching it?"
+                        />
+                    </div>
+                    <div className="flex justify-end space-x-2">
+                        <button onClick={onCancel} className="px-3 py-1 text-xs rounded text-gray-300 hover:bg-gray-700 transition-colors">Cancel</button>
+                        <button
+                            onClick={() => onSave({ notes, targetPrice: parseFloat(targetPrice) > 0 ? parseFloat(targetPrice) : null })}
+                            className="px-3 py-1 text-xs rounded font-semibold bg-brand-blue text-white hover:bg-blue-500 transition-colors"
+                        >
+                            Save
+                        </button>
+                    </div>
+                </div>
+            </td>
+        </tr>
+    );
+};
+
+export const WatchlistCard: React.FC<{
+    watchlists: Watchlist[];
+    activeWatchlistId: string | null;
+    onSelectWatchlist: (watchlistId: string) => void;
+    actions: WatchlistActions;
+    onAddOperation: (symbol: string, price: number) => void;
+}> = ({ watchlists, activeWatchlistId, onSelectWatchlist, actions, onAddOperation }) => {
+    const [editingItemId, setEditingItemId] = useState<string | null>(null);
+    const [newListName, setNewListName] = useState<string | null>(null);
+
+    const activeList = watchlists.find(list => list.id === activeWatchlistId) || watchlists[0];
+    const items = activeList?.items || [];
+
+    const handleCreateList = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newListName?.trim()) return;
+        actions.addList(newListName.trim());
+        setNewListName(null);
+    };
+
+    const handleRenameList = () => {
+        if (!activeList) return;
+        const name = prompt('Rename watchlist', activeList.name);
+        if (name?.trim() && name.trim() !== activeList.name) actions.renameList(activeList.id, name.trim());
+    };
+
+    const handleDeleteList = () => {
+        if (!activeList) return;
+        if (confirm(`Delete the watchlist "${activeList.name}" and its ${activeList.items.length} symbol(s)?`)) {
+            actions.deleteList(activeList.id);
+        }
+    };
+
+    return (
+        <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                <div className="flex flex-wrap items-center gap-1">
+                    {watchlists.length > 0 ? watchlists.map(list => (
+                        <button
+                            key={list.id}
+                            onClick={() => onSelectWatchlist(list.id)}
+                            className={`px-3 py-1 rounded-md text-sm font-medium transition-all ${
+                                list.id === activeList?.id ? 'bg-brand-blue text-white shadow-lg' : 'text-gray-400 hover:text-gray-200 hover:bg-gray-700'
+                            }`}
+                        >
+                            {list.name}
+                            <span className="ml-1 text-xs opacity-70">{list.items.length}</span>
+                        </button>
+                    )) : <h3 className="text-lg font-semibold text-gray-200">Watchlist</h3>}
+                </div>
+                <div className="flex items-center space-x-2">
+                    {newListName !== null ? (
+                        <form onSubmit={handleCreateList} className="flex items-center space-x-1">
+                            <input
+                                type="text"
+                                value={newListName}
+                                onChange={(e) => setNewListName(e.target.value)}
+                                className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-brand-blue"
+                                placeholder="List name"
+                                autoFocus
+                            />
+                            <button type="submit" className="text-gray-400 hover:text-brand-green p-1" title="Create list"><i className="ri-check-line"></i></button>
+                            <button type="button" onClick={() => setNewListName(null)} className="text-gray-400 hover:text-brand-red p-1" title="Cancel"><i className="ri-close-line"></i></button>
+                        </form>
                     ) : (
-                        <tr><td colSpan={3} className="text-center p-8 text-gray-500">Your watchlist is empty.</td></tr>
+                        <button onClick={() => setNewListName('')} className="text-gray-400 hover:text-brand-blue p-1" title="New watchlist">
+                            <i className="ri-folder-add-line text-lg"></i>
+                        </button>
+                    )}
+                    {activeList && (
+                        <>
+                            <button onClick={handleRenameList} className="text-gray-400 hover:text-brand-blue p-1" title="Rename watchlist">
+                                <i className="ri-edit-line text-lg"></i>
+                            </button>
+                            <button onClick={handleDeleteList} className="text-gray-400 hover:text-brand-red p-1" title="Delete watchlist">
+                                <TrashIcon className="text-lg" />
+                            </button>
+                        </>
                     )}
-                </tbody>
-            </table>
+                </div>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left text-gray-400">
+                    <thead className="text-xs text-gray-400 uppercase bg-gray-700/50">
+                        <tr>
+                            <th scope="col" className="p-3">Symbol</th>
+                            <th scope="col" className="p-3 text-right">Price</th>
+                            <th scope="col" className="p-3 text-right">Day</th>
+                            <th scope="col" className="p-3 text-right">Target</th>
+                            <th scope="col" className="p-3">Notes</th>
+                            <th scope="col" className="p-3 text-center">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {items.length > 0 ? (
+                            items.map((item, index) => {
+                                if (item.id === editingItemId) {
+                                    return (
+                                        <WatchlistItemEditor
+                                            key={item.id}
+                                            item={item}
+                                            onCancel={() => setEditingItemId(null)}
+                                            onSave={(updates) => {
+                                                actions.updateItem(item, updates);
+                                                setEditingItemId(null);
+                                            }}
+                                        />
+                                    );
+                                }
+
+                                const change = dailyChange(item);
+                                const toTarget = item.targetPrice && item.currentPrice
+                                    ? ((item.targetPrice - item.currentPrice) / item.currentPrice) * 100
+                                    : null;
+
+                                return (
+                                    <tr key={item.id} className="border-b border-gray-700 last:border-b-0 hover:bg-gray-700/50">
+                                        <td className="p-3">
+                                            <p className="font-bold text-gray-200">{item.symbol}</p>
+                                            <p className="text-xs text-gray-500 truncate max-w-[10rem]">{item.companyName}</p>
+                                        </td>
+                                        <td className="p-3 font-mono text-right">{currencySymbolOf(item.currency || 'USD')}{item.currentPrice.toFixed(2)}</td>
+                                        <td className={`p-3 font-mono text-right ${change === null ? 'text-gray-500' : change.amount >= 0 ? 'text-brand-green' : 'text-brand-red'}`}>
+                                            {change === null ? '-' : `${change.amount >= 0 ? '+' : ''}${change.amount.toFixed(2)} (${change.percent >= 0 ? '+' : ''}${change.percent.toFixed(2)}%)`}
+                                        </td>
+                                        <td className="p-3 font-mono text-right">
+                                            {item.targetPrice ? (
+                                                <>
+                                                    <span className="text-gray-200">{item.targetPrice.toFixed(2)}</span>
+                                                    {toTarget !== null && <span className="block text-xs text-gray-500">{toTarget >= 0 ? '+' : ''}{toTarget.toFixed(1)}%</span>}
+                                                </>
+                                            ) : '-'}
+                                        </td>
+                                        <td className="p-3 text-xs max-w-[12rem] truncate" title={item.notes}>{item.notes || ''}</td>
+                                        <td className="p-3">
+                                            <div className="flex justify-center items-center space-x-2">
+                                                <button onClick={() => actions.moveItem(item, -1)} disabled={index === 0} className="text-gray-400 hover:text-gray-200 disabled:opacity-30" title="Move up">
+                                                    <ArrowUpIcon className="text-base" />
+                                                </button>
+                                                <button onClick={() => actions.moveItem(item, 1)} disabled={index === items.length - 1} className="text-gray-400 hover:text-gray-200 disabled:opacity-30" title="Move down">
+                                                    <ArrowDownIcon className="text-base" />
+                                                </button>
+                                                <button onClick={() => setEditingItemId(item.id)} className="text-gray-400 hover:text-brand-blue" title="Edit notes and target">
+                                                    <i className="ri-edit-line text-base"></i>
+                                                </button>
+                                                <button onClick={() => onAddOperation(item.symbol, item.currentPrice)} className="text-gray-400 hover:text-brand-blue" title="Open new operation">
+                                                    <AddIcon className="text-base" />
+                                                </button>
+                                                <button onClick={() => actions.removeItem(item)} className="text-gray-400 hover:text-brand-red" title="Remove from watchlist">
+                                                    <TrashIcon className="text-base" />
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })
+                        ) : (
+                            <tr><td colSpan={6} className="text-center p-8 text-gray-500">{activeList ? 'This watchlist is empty.' : 'Your watchlist is empty.'}</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
         </div>
-    </div>
-);
+    );
+};
 
 
 interface IntelligenceProps {
-  watchlist: WatchlistItem[];
-  addToWatchlist: (item: WatchlistItem) => void;
-  removeFromWatchlist: (symbol: string) => void;
+  watchlists: Watchlist[];
+  watchlistActions: WatchlistActions;
   addTrade: (tradeData: Omit<Trade, 'id' | 'status' | 'openAt' | 'pnl'>) => void;
   accounts: Account[];
+  accountMargins: Record<string, AccountMargin>;
 }
 
 
-const Intelligence: React.FC<IntelligenceProps> = ({ watchlist, addToWatchlist, removeFromWatchlist, addTrade, accounts }) => {
+const Intelligence: React.FC<IntelligenceProps> = ({ watchlists, watchlistActions, addTrade, accounts, accountMargins }) => {
     const [ticker, setTicker] = useState<string>('');
     const [analysis, setAnalysis] = useState<StockAnalysis | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [modalInitialData, setModalInitialData] = useState<{ symbol: string; price: number } | undefined>(undefined);
+    const [activeWatchlistId, setActiveWatchlistId] = useState<string | null>(watchlists[0]?.id ?? null);
+    const activeWatchlist = watchlists.find(list => list.id === activeWatchlistId) || watchlists[0];
 
     const openTradeModal = (symbol: string, price: number) => {
         setModalInitialData({ symbol, price });
@@ -136,18 +329,15 @@ const Intelligence: React.FC<IntelligenceProps> = ({ watchlist, addToWatchlist,
     }, [ticker]);
     
     const upside = analysis ? ((analysis.analystConsensus.priceTargets.mean - analysis.currentPrice) / analysis.currentPrice) * 100 : 0;
-    const isInWatchlist = analysis ? watchlist.some(item => item.symbol === analysis.symbol) : false;
+    const watchedItem = analysis ? activeWatchlist?.items.find(item => item.symbol === analysis.symbol) : undefined;
+    const isInWatchlist = !!watchedItem;
 
     const handleWatchlistToggle = () => {
         if (!analysis) return;
-        if (isInWatchlist) {
-            removeFromWatchlist(analysis.symbol);
+        if (watchedItem) {
+            watchlistActions.removeItem(watchedItem);
         } else {
-            addToWatchlist({
-                symbol: analysis.symbol,
-                companyName: analysis.companyName,
-                currentPrice: analysis.currentPrice,
-            });
+            watchlistActions.addItem(activeWatchlist?.id ?? null, analysis.symbol);
         }
     };
 
@@ -200,7 +390,7 @@ const Intelligence: React.FC<IntelligenceProps> = ({ watchlist, addToWatchlist,
                                     }`}
                                 >
                                     {isInWatchlist ? <StarFillIcon /> : <StarIcon />}
-                                    <span>{isInWatchlist ? 'On Watchlist' : 'Add to Watchlist'}</span>
+                                    <span>{isInWatchlist ? `On ${activeWatchlist?.name || 'Watchlist'}` : `Add to ${activeWatchlist?.name || 'Watchlist'}`}</span>
                                 </button>
                                 <button onClick={() => openTradeModal(analysis.symbol, analysis.currentPrice)} className="bg-brand-green text-white font-bold py-2 px-6 rounded-lg hover:bg-green-500 transition-colors">
                                     Start Operation
@@ -261,7 +451,13 @@ const Intelligence: React.FC<IntelligenceProps> = ({ watchlist, addToWatchlist,
                     </div>
                 )}
             
-            <WatchlistCard watchlist={watchlist} removeFromWatchlist={removeFromWatchlist} onAddOperation={openTradeModal} />
+            <WatchlistCard
+                watchlists={watchlists}
+                activeWatchlistId={activeWatchlist?.id ?? null}
+                onSelectWatchlist={setActiveWatchlistId}
+                actions={watchlistActions}
+                onAddOperation={openTradeModal}
+            />
         </div>
         {isModalOpen && (
           <OpenOperationModal
@@ -269,6 +465,7 @@ const Intelligence: React.FC<IntelligenceProps> = ({ watchlist, addToWatchlist,
             onClose={() => setIsModalOpen(false)}
             onAdd={addTrade}
             accounts={accounts}
+            accountMargins={accountMargins}
             initialData={modalInitialData}
           />
         )}
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { LogoIcon } from './Icons';
+import { sendMagicLink, signInWithPassword, signUpWithPassword } from '../services/authService';
+
+type LoginMode = 'password' | 'magic-link';
+
+const Login: React.FC = () => {
+  const [mode, setMode] = useState<LoginMode>('password');
+  const [isSignUp, setIsSignUp] = useState(false);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const switchMode = (nextMode: LoginMode) => {
+    setMode(nextMode);
+    setIsSignUp(false);
+    setMessage(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      setMessage(null);
+
+      if (mode === 'magic-link') {
+        await sendMagicLink(email);
+        setMessage({ type: 'success', text: `Check ${email} for a sign-in link` });
+      } else if (isSignUp) {
+        const needsConfirmation = await signUpWithPassword(email, password);
+        if (needsConfirmation) {
+          setMessage({ type: 'success', text: `Check ${email} to confirm your address, then sign in` });
+          setIsSignUp(false);
+        }
+      } else {
+        // A successful sign-in swaps this screen for the app through the session listener
+        await signInWithPassword(email, password);
+      }
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message || 'Authentication failed' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen bg-gray-900 items-center justify-center p-4 font-sans">
+      <div className="bg-gray-800 rounded-lg shadow-xl p-8 w-full max-w-md border border-gray-700">
+        <div className="flex items-center justify-center mb-8">
+          <LogoIcon />
+          <h1 className="text-2xl font-bold ml-2 text-gray-200">CFD Tracker</h1>
+        </div>
+
+        <div className="flex space-x-1 bg-gray-900 p-1 rounded-lg mb-6">
+          <button
+            type="button"
+            onClick={() => switchMode('password')}
+            className={`flex-1 px-4 py-2 rounded-md font-medium transition-all ${
+              mode === 'password' ? 'bg-brand-blue text-white shadow-lg' : 'text-gray-400 hover:text-gray-200'
+            }`}
+          >
+            Password
+          </button>
+          <button
+            type="button"
+            onClick={() => switchMode('magic-link')}
+            className={`flex-1 px-4 py-2 rounded-md font-medium transition-all ${
+              mode === 'magic-link' ? 'bg-brand-blue text-white shadow-lg' : 'text-gray-400 hover:text-gray-200'
+            }`}
+          >
+            Magic Link
+          </button>
+        </div>
+
+        {message && (
+          <div className={`px-4 py-3 rounded-lg mb-4 text-sm ${
+            message.type === 'success'
+              ? 'bg-green-100 border border-green-400 text-green-700'
+              : 'bg-red-100 border border-red-400 text-red-700'
+          }`}>
+            {message.text}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-400 mb-1">Email</label>
+            <input
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+              autoComplete="email"
+              required
+            />
+          </div>
+          {mode === 'password' && (
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-400 mb-1">Password</label>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+                autoComplete={isSignUp ? 'new-password' : 'current-password'}
+                minLength={6}
+                required
+              />
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className={`w-full py-2 rounded-lg font-bold transition-colors ${
+              isSubmitting ? 'bg-gray-600 text-gray-400 cursor-not-allowed' : 'bg-brand-blue text-white hover:bg-blue-500'
+            }`}
+          >
+            {isSubmitting
+              ? 'Please wait...'
+              : mode === 'magic-link' ? 'Send Magic Link' : isSignUp ? 'Create Account' : 'Sign In'}
+          </button>
+        </form>
+
+        {mode === 'password' && (
+          <p className="mt-6 text-center text-sm text-gray-400">
+            {isSignUp ? 'Already have an account?' : 'New to the team?'}
+            <button
+              type="button"
+              onClick={() => {
+                setIsSignUp(!isSignUp);
+                setMessage(null);
+              }}
+              className="ml-1 text-brand-blue hover:underline"
+            >
+              {isSignUp ? 'Sign in' : 'Create an account'}
+            </button>
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Login;
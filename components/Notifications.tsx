@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import type { AppNotification, PriceAlert, PriceAlertType, Trade } from '../types';
+import { TradeStatus, TradeType } from '../types';
+import { TrashIcon } from './Icons';
+
+export interface NewPriceAlert {
+  symbol: string;
+  alertType: PriceAlertType;
+  threshold: number;
+  operationId?: string;
+  note?: string;
+}
+
+const ALERT_TYPE_LABELS: Record<PriceAlertType, string> = {
+  price_above: 'Price above',
+  price_below: 'Price below',
+  percent_move: 'Daily move of at least',
+  stop_distance: 'Within % of stop',
+};
+
+const describeAlert = (alert: PriceAlert): string => {
+  switch (alert.alertType) {
+    case 'price_above': return `Above ${alert.threshold.toFixed(2)}`;
+    case 'price_below': return `Below ${alert.threshold.toFixed(2)}`;
+    case 'percent_move': return `Moves ±${alert.threshold}% on the day`;
+    case 'stop_distance': return `Within ${alert.threshold}% of the stop`;
+  }
+};
+
+const NewAlertForm: React.FC<{ trades: Trade[]; symbols: string[]; onCreate: (alert: NewPriceAlert) => void }> = ({ trades, symbols, onCreate }) => {
+  const [alertType, setAlertType] = useState<PriceAlertType>('price_above');
+  const [symbol, setSymbol] = useState('');
+  const [operationId, setOperationId] = useState('');
+  const [threshold, setThreshold] = useState('');
+  const [note, setNote] = useState('');
+
+  // Only open operations with a stop can be watched for distance to stop
+  const stoppedTrades = trades.filter(trade => trade.status === TradeStatus.OPEN && (trade.stopLoss || trade.trailingStopPrice));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(threshold);
+    if (!value || value <= 0) return;
+
+    if (alertType === 'stop_distance') {
+      const trade = stoppedTrades.find(t => t.id === operationId);
+      if (!trade) return;
+      onCreate({ symbol: trade.symbol, alertType, threshold: value, operationId: trade.id, note });
+    } else {
+      if (!symbol) return;
+      onCreate({ symbol: symbol.toUpperCase(), alertType, threshold: value, note });
+    }
+
+    setThreshold('');
+    setNote('');
+  };
+
+  const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded px-3 py-1 text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-brand-blue';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 bg-gray-900/50 p-4 rounded-lg mb-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Condition</label>
+          <select value={alertType} onChange={(e) => setAlertType(e.target.value as PriceAlertType)} className={inputClass}>
+            {(Object.keys(ALERT_TYPE_LABELS) as PriceAlertType[]).map(type => (
+              <option key={type} value={type}>{ALERT_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">
+            {alertType === 'price_above' || alertType === 'price_below' ? 'Price' : 'Percent'}
+          </label>
+          <input type="number" step="0.01" min="0" value={threshold} onChange={(e) => setThreshold(e.target.value)} className={inputClass} required />
+        </div>
+      </div>
+      {alertType === 'stop_distance' ? (
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Operation</label>
+          <select value={operationId} onChange={(e) => setOperationId(e.target.value)} className={inputClass} required>
+            <option value="">{stoppedTrades.length > 0 ? 'Select operation' : 'No open operation has a stop'}</option>
+            {stoppedTrades.map(trade => (
+              <option key={trade.id} value={trade.id}>
+                {trade.symbol} {trade.tradeType === TradeType.LONG ? 'Long' : 'Short'} {trade.quantity} · stop {(trade.trailingStopPrice ?? trade.stopLoss)?.toFixed(2)}
+              </option>
+            ))}
+          </select>
+        </div>
+      ) : (
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Symbol</label>
+          <input
+            type="text"
+            list="alert-symbols"
+            value={symbol}
+            onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+            className={inputClass}
+            placeholder="e.g. AAPL"
+            required
+          />
+          <datalist id="alert-symbols">
+            {symbols.map(s => <option key={s} value={s} />)}
+          </datalist>
+        </div>
+      )}
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Note</label>
+        <input type="text" value={note} onChange={(e) => setNote(e.target.value)} className={inputClass} placeholder="Optional" />
+      </div>
+      <div className="flex justify-end">
+        <button type="submit" className="px-4 py-1 text-sm rounded font-semibold bg-brand-blue text-white hover:bg-blue-500 transition-colors">
+          Create Alert
+        </button>
+      </div>
+    </form>
+  );
+};
+
+interface NotificationCenterProps {
+  isOpen: boolean;
+  onClose: () => void;
+  notifications: AppNotification[];
+  alerts: PriceAlert[];
+  trades: Trade[];
+  symbols: string[]; // Suggestions for new alerts
+  markRead: (notificationIds: string[]) => void;
+  removeNotification: (notificationId: string) => void;
+  createAlert: (alert: NewPriceAlert) => void;
+  toggleAlert: (alert: PriceAlert) => void;
+  removeAlert: (alertId: string) => void;
+}
+
+const NotificationCenter: React.FC<NotificationCenterProps> = ({
+  isOpen,
+  onClose,
+  notifications,
+  alerts,
+  trades,
+  symbols,
+  markRead,
+  removeNotification,
+  createAlert,
+  toggleAlert,
+  removeAlert,
+}) => {
+  const [activeTab, setActiveTab] = useState<'notifications' | 'alerts'>('notifications');
+
+  if (!isOpen) return null;
+
+  const unreadIds = notifications.filter(notification => !notification.readAt).map(notification => notification.id);
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-50 z-50 flex justify-end" onClick={onClose}>
+      <div className="bg-gray-800 w-full max-w-md h-full shadow-xl border-l border-gray-700 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center p-6 pb-4">
+          <h2 className="text-2xl font-bold text-gray-200">Notifications</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-200 text-2xl">×</button>
+        </div>
+
+        <div className="flex space-x-1 bg-gray-900 p-1 rounded-lg mx-6 mb-4">
+          {(['notifications', 'alerts'] as const).map(tab => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`flex-1 px-4 py-2 rounded-md font-medium transition-all ${
+                activeTab === tab ? 'bg-brand-blue text-white shadow-lg' : 'text-gray-400 hover:text-gray-200'
+              }`}
+            >
+              {tab === 'notifications' ? `Inbox${unreadIds.length > 0 ? ` (${unreadIds.length})` : ''}` : `Alerts (${alerts.filter(a => a.isActive).length})`}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-6">
+          {activeTab === 'notifications' ? (
+            <>
+              {unreadIds.length > 0 && (
+                <div className="flex justify-end mb-2">
+                  <button onClick={() => markRead(unreadIds)} className="text-xs text-brand-blue hover:underline">Mark all as read</button>
+                </div>
+              )}
+              {notifications.length > 0 ? (
+                <ul className="space-y-2">
+                  {notifications.map(notification => (
+                    <li
+                      key={notification.id}
+                      onClick={() => !notification.readAt && markRead([notification.id])}
+                      className={`p-3 rounded-lg border transition-colors ${
+                        notification.readAt
+                          ? 'border-gray-700 bg-gray-800'
+                          : 'border-brand-blue/50 bg-blue-500/10 cursor-pointer hover:bg-blue-500/20'
+                      }`}
+                    >
+                      <div className="flex justify-between items-start">
+                        <p className={`font-semibold ${notification.readAt ? 'text-gray-400' : 'text-gray-200'}`}>
+                          {!notification.readAt && <span className="inline-block w-2 h-2 rounded-full bg-brand-blue mr-2 align-middle"></span>}
+                          {notification.title}
+                        </p>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            removeNotification(notification.id);
+                          }}
+                          className="text-gray-500 hover:text-brand-red p-1"
+                          title="Delete notification"
+                        >
+                          <TrashIcon className="text-sm" />
+                        </button>
+                      </div>
+                      <p className="text-sm text-gray-400 mt-1">{notification.message}</p>
+                      <p className="text-xs text-gray-500 mt-1">{new Date(notification.createdAt).toLocaleString()}</p>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-center p-8 text-gray-500">No notifications yet.</p>
+              )}
+            </>
+          ) : (
+            <>
+              <NewAlertForm trades={trades} symbols={symbols} onCreate={createAlert} />
+              {alerts.length > 0 ? (
+                <ul className="space-y-2">
+                  {alerts.map(alert => (
+                    <li key={alert.id} className={`p-3 rounded-lg border border-gray-700 ${alert.isActive ? '' : 'opacity-60'}`}>
+                      <div className="flex justify-between items-center">
+                        <div>
+                          <p className="font-semibold text-gray-200">{alert.symbol} <span className="font-normal text-gray-400">· {describeAlert(alert)}</span></p>
+                          {alert.note && <p className="text-xs text-gray-400">{alert.note}</p>}
+                          {alert.triggeredAt && (
+                            <p className="text-xs text-gray-500">
+                              Fired {new Date(alert.triggeredAt).toLocaleString()}{alert.triggeredPrice !== undefined ? ` at ${alert.triggeredPrice.toFixed(2)}` : ''}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => toggleAlert(alert)}
+                            className={`text-xs px-2 py-0.5 rounded ${alert.isActive ? 'bg-green-500/20 text-brand-green' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                            title={alert.isActive ? 'Pause alert' : 'Re-arm alert'}
+                          >
+                            {alert.isActive ? 'Active' : 'Re-arm'}
+                          </button>
+                          <button onClick={() => removeAlert(alert.id)} className="text-gray-500 hover:text-brand-red p-1" title="Delete alert">
+                            <TrashIcon className="text-sm" />
+                          </button>
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-center p-8 text-gray-500">No alerts defined.</p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationCenter;
@@ -1,7 +1,20 @@
 
 import React, { useState } from 'react';
-import type { Trade, Account } from '../types';
+import type { Trade, Account, PriceBar, PriceBarInterval } from '../types';
 import { TradeStatus, TradeType } from '../types';
+import { calculateGrossPnl, calculateBreakevenPrice, calculateRiskBasedSize, describeFills, DEFAULT_LEVERAGE } from '../services/positionEngine';
+import type { FillAction } from '../services/positionEngine';
+import { projectMarginLevel } from '../services/accountLedger';
+import type { AccountMargin } from '../services/accountLedger';
+import { BROKER_LABELS, groupFillsIntoOperations, parseBrokerStatement } from '../services/brokerImport';
+import type { BrokerId, BrokerStatement, ImportedOperation } from '../services/brokerImport';
+import type { ImportResult } from '../services/databaseService';
+import { buildFillRows, buildTradeRows, DEFAULT_TRADE_FILTERS, exportRows, filterTrades } from '../services/exportService';
+import type { TradeFilters } from '../services/exportService';
+import { ExportMenu, TradeFiltersBar } from './DataExport';
+import type { ExportDataset } from './DataExport';
+import { CandlestickChart } from './PriceChart';
+import type { ChartFill, ChartLevel } from './PriceChart';
 
 // ============================
 // MODALS
@@ -11,10 +24,11 @@ interface OpenOperationModalProps {
   onClose: () => void;
   onAdd: (tradeData: Omit<Trade, 'id' | 'status' | 'openAt' | 'pnl'>) => void;
   accounts: Account[];
+  accountMargins?: Record<string, AccountMargin>;
   initialData?: { symbol: string; price: number };
 }
 
-export const OpenOperationModal: React.FC<OpenOperationModalProps> = ({ isOpen, onClose, onAdd, accounts, initialData }) => {
+export const OpenOperationModal: React.FC<OpenOperationModalProps> = ({ isOpen, onClose, onAdd, accounts, accountMargins, initialData }) => {
   const [symbol, setSymbol] = useState(initialData?.symbol || '');
   const [tradeType, setTradeType] = useState<TradeType>(TradeType.LONG);
   const [quantity, setQuantity] = useState('');
@@ -22,6 +36,22 @@ export const OpenOperationModal: React.FC<OpenOperationModalProps> = ({ isOpen,
   const [accountId, setAccountId] = useState(accounts.length > 0 ? accounts[0].id : '');
   const [leverage, setLeverage] = useState('5');
   const [estimatedDays, setEstimatedDays] = useState('7');
+  const [stopLoss, setStopLoss] = useState('');
+  const [riskSettings, setRiskSettings] = useState<{ riskPerTrade: number; defaultLeverage: number } | null>(null);
+
+  // Load the risk settings from the user profile each time the modal opens
+  React.useEffect(() => {
+    if (!isOpen) return;
+    import('../services/databaseService').then(({ fetchUserProfile }) => {
+      fetchUserProfile()
+        .then(profile => {
+          const defaultLeverage = profile.default_leverage || DEFAULT_LEVERAGE;
+          setRiskSettings({ riskPerTrade: profile.risk_per_trade, defaultLeverage });
+          setLeverage(defaultLeverage.toString());
+        })
+        .catch(console.error);
+    });
+  }, [isOpen]);
   
   // Get selected account's commission settings
   const selectedAccount = accounts.find(acc => acc.id === accountId);
@@ -51,6 +81,35 @@ export const OpenOperationModal: React.FC<OpenOperationModalProps> = ({ isOpen,
   const nightCommissionPerDay = (positionValue * parseFloat(nightCommission || '0')) / 100 / 365;
   const estimatedNightCommissions = nightCommissionPerDay * parseFloat(estimatedDays || '0');
   const totalEstimatedCosts = totalCommissions + estimatedNightCommissions;
+
+  // Check the new position against the account's available margin
+  const accountMargin = accountMargins?.[accountId];
+
+  // Risk-based sizing: lose risk_per_trade % of the account's equity if the stop is hit
+  const sizingEquity = accountMargin?.equity ?? selectedAccount?.startingBalance ?? 0;
+  const riskSize = riskSettings && stopLoss && openPrice
+    ? calculateRiskBasedSize({
+        equity: sizingEquity,
+        riskPercent: riskSettings.riskPerTrade,
+        tradeType,
+        entryPrice: parseFloat(openPrice),
+        stopPrice: parseFloat(stopLoss),
+        commissionPercent: parseFloat(openCommission || '0'),
+      })
+    : null;
+  const suggestedMargin = riskSize && riskSettings
+    ? (riskSize.quantity * parseFloat(openPrice || '0')) / riskSettings.defaultLeverage
+    : 0;
+
+  const acceptSuggestedSize = () => {
+    if (!riskSize || !riskSettings) return;
+    setQuantity(riskSize.quantity.toString());
+    setLeverage(riskSettings.defaultLeverage.toString());
+  };
+  const projectedMarginLevel = accountMargin ? projectMarginLevel(accountMargin, requiredMargin) : null;
+  const exceedsFreeMargin = !!accountMargin && requiredMargin > 0 && requiredMargin > accountMargin.freeMargin;
+  const triggersMarginCall = !!accountMargin && !exceedsFreeMargin && projectedMarginLevel !== null
+    && projectedMarginLevel <= accountMargin.marginCallLevel;
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (symbol && quantity && openPrice && accountId && leverage) {
@@ -64,14 +123,17 @@ export const OpenOperationModal: React.FC<OpenOperationModalProps> = ({ isOpen,
         quantity: parseFloat(quantity),
         openPrice: parseFloat(openPrice),
         accountId,
+        leverage: parseFloat(leverage),
+        stopLoss: riskSize ? parseFloat(stopLoss) : null,
       });
       onClose();
       // Reset form
       setSymbol('');
       setQuantity('');
       setOpenPrice('');
-      setLeverage('5');
+      setLeverage((riskSettings?.defaultLeverage ?? DEFAULT_LEVERAGE).toString());
       setEstimatedDays('7');
+      setStopLoss('');
       setOpenCommission(selectedAccount?.openCloseCommission.toString() || '0.25');
       setCloseCommission(selectedAccount?.openCloseCommission.toString() || '0.25');
       setNightCommission(selectedAccount?.nightCommission.toString() || '7.0');
@@ -114,6 +176,64 @@ export const OpenOperationModal: React.FC<OpenOperationModalProps> = ({ isOpen,
             </div>
           </div>
 
+          {/* Risk-Based Sizing */}
+          <div className="border-t border-gray-700 pt-4">
+            <h3 className="text-lg font-semibold text-gray-200 mb-3">Risk-Based Sizing</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label htmlFor="stopLoss" className="block text-sm font-medium text-gray-400 mb-1">Stop Loss ($)</label>
+                <input id="stopLoss" type="number" step="0.01" min="0.01" value={stopLoss} onChange={(e) => setStopLoss(e.target.value)} className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue" placeholder={tradeType === TradeType.LONG ? 'Below open price' : 'Above open price'} />
+              </div>
+              <div className="text-sm">
+                <p className="text-gray-400">Risk per Trade</p>
+                <p className="font-bold text-gray-200">
+                  {riskSettings ? `${riskSettings.riskPerTrade}% of $${sizingEquity.toFixed(2)}` : 'Loading...'}
+                </p>
+              </div>
+              <div className="text-sm">
+                <p className="text-gray-400">Default Leverage</p>
+                <p className="font-bold text-gray-200">{riskSettings ? `1:${riskSettings.defaultLeverage}` : '-'}</p>
+              </div>
+            </div>
+            {stopLoss && openPrice && !riskSize && riskSettings && (
+              <p className="mt-3 text-xs text-brand-red">
+                The stop loss must be {tradeType === TradeType.LONG ? 'below' : 'above'} the open price for a {tradeType} position.
+              </p>
+            )}
+            {riskSize && riskSettings && (
+              <div className="mt-3 bg-gray-700 rounded-lg p-4 border border-gray-600 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm flex-1">
+                  <div>
+                    <p className="text-gray-400">Amount at Risk</p>
+                    <p className="font-bold text-brand-red">${riskSize.riskAmount.toFixed(2)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">Risk per Unit</p>
+                    <p className="font-bold text-gray-200">${riskSize.riskPerUnit.toFixed(2)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">Suggested Quantity</p>
+                    <p className="font-bold text-brand-blue">{riskSize.quantity.toFixed(2)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">Margin (1:{riskSettings.defaultLeverage})</p>
+                    <p className={`font-bold ${accountMargin && suggestedMargin > accountMargin.freeMargin ? 'text-brand-red' : 'text-gray-200'}`}>
+                      ${suggestedMargin.toFixed(2)}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={acceptSuggestedSize}
+                  disabled={riskSize.quantity <= 0}
+                  className="px-4 py-2 rounded-lg bg-brand-blue text-white text-sm font-semibold hover:bg-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Use Suggested Size
+                </button>
+              </div>
+            )}
+          </div>
+
           {/* Commission Settings */}
           <div className="border-t border-gray-700 pt-4">
             <h3 className="text-lg font-semibold text-gray-200 mb-3">Commission Settings</h3>
@@ -187,7 +307,33 @@ export const OpenOperationModal: React.FC<OpenOperationModalProps> = ({ isOpen,
                     }
                   </p>
                 </div>
+                {accountMargin && (
+                  <>
+                    <div>
+                      <p className="text-gray-400">Free Margin</p>
+                      <p className={`font-bold ${accountMargin.freeMargin >= 0 ? 'text-gray-200' : 'text-brand-red'}`}>${accountMargin.freeMargin.toFixed(2)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400">Margin Level After</p>
+                      <p className={`font-bold ${exceedsFreeMargin || triggersMarginCall ? 'text-brand-red' : 'text-gray-200'}`}>
+                        {projectedMarginLevel !== null ? `${projectedMarginLevel.toFixed(1)}%` : '-'}
+                      </p>
+                    </div>
+                  </>
+                )}
               </div>
+              {exceedsFreeMargin && (
+                <div className="mt-3 p-2 bg-red-500/20 border border-red-500/50 rounded text-brand-red text-xs">
+                  <i className="ri-error-warning-line mr-1"></i>
+                  Required margin of ${requiredMargin.toFixed(2)} exceeds the ${accountMargin!.freeMargin.toFixed(2)} free margin available on this account.
+                </div>
+              )}
+              {triggersMarginCall && (
+                <div className="mt-3 p-2 bg-yellow-500/20 border border-yellow-500/50 rounded text-yellow-400 text-xs">
+                  <i className="ri-alert-line mr-1"></i>
+                  Opening this position would bring the margin level to or below the {accountMargin!.marginCallLevel}% margin call threshold.
+                </div>
+              )}
             </div>
           )}
 
@@ -206,13 +352,15 @@ export interface CloseOperationModalProps {
     isOpen: boolean;
     onClose: () => void;
     onConfirm: (tradeId: string, closePrice: number, closePercentage?: number) => void;
+    onReverse?: (tradeId: string, price: number, orderQuantity: number) => void;
 }
 
-export const CloseOperationModal: React.FC<CloseOperationModalProps> = ({ trade, isOpen, onClose, onConfirm }) => {
+export const CloseOperationModal: React.FC<CloseOperationModalProps> = ({ trade, isOpen, onClose, onConfirm, onReverse }) => {
     const [closePrice, setClosePrice] = useState('');
     const [closePercentage, setClosePercentage] = useState('100');
-    const [closeType, setCloseType] = useState<'percentage' | 'quantity'>('percentage');
+    const [closeType, setCloseType] = useState<'percentage' | 'quantity' | 'reverse'>('percentage');
     const [closeQuantity, setCloseQuantity] = useState('');
+    const [reverseQuantity, setReverseQuantity] = useState('');
 
     if (!isOpen) return null;
 
@@ -228,6 +376,17 @@ export const CloseOperationModal: React.FC<CloseOperationModalProps> = ({ trade,
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
+        if (closeType === 'reverse') {
+            const orderQuantity = parseFloat(reverseQuantity || '0');
+            if (!closePrice || orderQuantity <= trade.quantity) {
+                alert(`Reversal quantity must be greater than the open quantity (${trade.quantity})`);
+                return;
+            }
+            onReverse?.(trade.id, parseFloat(closePrice), orderQuantity);
+            onClose();
+            return;
+        }
+
         if (closePrice && (closePercentage || closeQuantity)) {
             const finalPercentage = closeType === 'percentage' 
                 ? parseFloat(closePercentage)
@@ -244,12 +403,17 @@ export const CloseOperationModal: React.FC<CloseOperationModalProps> = ({ trade,
         }
     };
 
-    const quantityToClose = closeType === 'percentage' 
-        ? calculateQuantityFromPercentage()
-        : parseFloat(closeQuantity || '0');
+    const isReverse = closeType === 'reverse';
+    const quantityToClose = isReverse
+        ? Math.min(parseFloat(reverseQuantity || '0'), trade.quantity)
+        : closeType === 'percentage'
+            ? calculateQuantityFromPercentage()
+            : parseFloat(closeQuantity || '0');
+    const reversedQuantity = isReverse ? Math.max(parseFloat(reverseQuantity || '0') - trade.quantity, 0) : 0;
+    const reversedType = trade.tradeType === TradeType.LONG ? TradeType.SHORT : TradeType.LONG;
 
     const remainingQuantity = trade.quantity - quantityToClose;
-    const isPartialClose = quantityToClose < trade.quantity && quantityToClose > 0;
+    const isPartialClose = !isReverse && quantityToClose < trade.quantity && quantityToClose > 0;
 
     return (
         <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-50" onClick={onClose}>
@@ -283,6 +447,18 @@ export const CloseOperationModal: React.FC<CloseOperationModalProps> = ({ trade,
                                 />
                                 <span className="text-gray-200">Quantity</span>
                             </label>
+                            {onReverse && (
+                                <label className="flex items-center">
+                                    <input
+                                        type="radio"
+                                        value="reverse"
+                                        checked={closeType === 'reverse'}
+                                        onChange={(e) => setCloseType(e.target.value as 'reverse')}
+                                        className="mr-2"
+                                    />
+                                    <span className="text-gray-200">Reverse</span>
+                                </label>
+                            )}
                         </div>
                     </div>
 
@@ -305,6 +481,23 @@ export const CloseOperationModal: React.FC<CloseOperationModalProps> = ({ trade,
                                 required
                             />
                         </div>
+                    ) : isReverse ? (
+                        <div>
+                            <label htmlFor="reverseQuantity" className="block text-sm font-medium text-gray-400 mb-1">
+                                Order Quantity (more than {trade.quantity})
+                            </label>
+                            <input
+                                id="reverseQuantity"
+                                type="number"
+                                step="0.01"
+                                min={trade.quantity}
+                                value={reverseQuantity}
+                                onChange={e => setReverseQuantity(e.target.value)}
+                                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-red"
+                                placeholder={(trade.quantity * 2).toString()}
+                                required
+                            />
+                        </div>
                     ) : (
                         <div>
                             <label htmlFor="closeQuantity" className="block text-sm font-medium text-gray-400 mb-1">
@@ -373,6 +566,12 @@ export const CloseOperationModal: React.FC<CloseOperationModalProps> = ({ trade,
                                     </p>
                                 </div>
                             </div>
+                            {isReverse && reversedQuantity > 0 && (
+                                <div className="mt-2 p-2 bg-purple-500/20 border border-purple-500/50 rounded text-purple-400 text-xs">
+                                    <i className="ri-arrow-left-right-line mr-1"></i>
+                                    This position will be closed and a new {reversedType.toUpperCase()} position of {reversedQuantity.toFixed(2)} units will be opened.
+                                </div>
+                            )}
                             {isPartialClose && (
                                 <div className="mt-2 p-2 bg-yellow-500/20 border border-yellow-500/50 rounded text-yellow-400 text-xs">
                                     <i className="ri-information-line mr-1"></i>
@@ -385,7 +584,7 @@ export const CloseOperationModal: React.FC<CloseOperationModalProps> = ({ trade,
                     <div className="flex justify-end space-x-4 pt-4">
                         <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg text-gray-300 hover:bg-gray-700">Cancel</button>
                         <button type="submit" className="px-6 py-2 rounded-lg bg-brand-red text-white font-bold hover:bg-red-500">
-                            {isPartialClose ? 'Partial Close' : 'Close Position'}
+                            {isReverse ? 'Reverse Position' : isPartialClose ? 'Partial Close' : 'Close Position'}
                         </button>
                     </div>
                 </form>
@@ -394,15 +593,177 @@ export const CloseOperationModal: React.FC<CloseOperationModalProps> = ({ trade,
     );
 };
 
+export interface ScaleInFillData {
+    quantity: number;
+    price: number;
+    openFee?: number;
+    fillTimestamp?: string;
+}
+
+interface ScaleInOperationModalProps {
+    trade: Trade;
+    account: Account | undefined;
+    isOpen: boolean;
+    onClose: () => void;
+    onConfirm: (tradeId: string, fill: ScaleInFillData) => void;
+}
+
+const ScaleInOperationModal: React.FC<ScaleInOperationModalProps> = ({ trade, account, isOpen, onClose, onConfirm }) => {
+    const [quantity, setQuantity] = useState('');
+    const [price, setPrice] = useState(trade.latestPrice ? trade.latestPrice.toString() : '');
+    const [openFee, setOpenFee] = useState('');
+    const [fillTimestamp, setFillTimestamp] = useState(() => {
+        const now = new Date();
+        return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+    });
+
+    if (!isOpen) return null;
+
+    const addQuantity = parseFloat(quantity || '0');
+    const addPrice = parseFloat(price || '0');
+    const commissionRate = account?.openCloseCommission ?? 0.25;
+    const estimatedFee = (addQuantity * addPrice * commissionRate) / 100;
+    const fee = openFee !== '' ? parseFloat(openFee) : estimatedFee;
+
+    const newQuantity = trade.quantity + addQuantity;
+    const newOpenPrice = newQuantity > 0
+        ? (trade.quantity * trade.openPrice + addQuantity * addPrice) / newQuantity
+        : trade.openPrice;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (addQuantity <= 0 || addPrice <= 0) {
+            alert('Quantity and price must be greater than zero');
+            return;
+        }
+
+        onConfirm(trade.id, {
+            quantity: addQuantity,
+            price: addPrice,
+            openFee: openFee !== '' ? parseFloat(openFee) : undefined,
+            fillTimestamp: new Date(fillTimestamp).toISOString()
+        });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-50" onClick={onClose}>
+            <div className="bg-gray-800 rounded-lg shadow-xl p-8 w-full max-w-lg" onClick={e => e.stopPropagation()}>
+                <h2 className="text-2xl font-bold mb-2 text-gray-200">Add to Position</h2>
+                <p className="text-gray-400 mb-6">
+                    {trade.tradeType.toUpperCase()} position for {trade.symbol} - Current: {trade.quantity} units @ ${trade.openPrice.toFixed(2)}
+                </p>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="scaleInQuantity" className="block text-sm font-medium text-gray-400 mb-1">Quantity</label>
+                            <input
+                                id="scaleInQuantity"
+                                type="number"
+                                step="any"
+                                min="0"
+                                value={quantity}
+                                onChange={e => setQuantity(e.target.value)}
+                                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+                                autoFocus
+                                required
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="scaleInPrice" className="block text-sm font-medium text-gray-400 mb-1">Price</label>
+                            <input
+                                id="scaleInPrice"
+                                type="number"
+                                step="any"
+                                min="0"
+                                value={price}
+                                onChange={e => setPrice(e.target.value)}
+                                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+                                required
+                            />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="scaleInFee" className="block text-sm font-medium text-gray-400 mb-1">Open Fee</label>
+                            <input
+                                id="scaleInFee"
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                value={openFee}
+                                onChange={e => setOpenFee(e.target.value)}
+                                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+                                placeholder={estimatedFee.toFixed(2)}
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="scaleInTimestamp" className="block text-sm font-medium text-gray-400 mb-1">Fill Time</label>
+                            <input
+                                id="scaleInTimestamp"
+                                type="datetime-local"
+                                value={fillTimestamp}
+                                onChange={e => setFillTimestamp(e.target.value)}
+                                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+                                required
+                            />
+                        </div>
+                    </div>
+
+                    {addQuantity > 0 && addPrice > 0 && (
+                        <div className="bg-gray-700 rounded-lg p-4 border border-gray-600">
+                            <h4 className="text-sm font-semibold text-gray-200 mb-2">Position After Scale-In</h4>
+                            <div className="grid grid-cols-2 gap-4 text-sm">
+                                <div>
+                                    <p className="text-gray-400">New Quantity</p>
+                                    <p className="font-bold text-gray-200">{newQuantity.toFixed(2)} units</p>
+                                </div>
+                                <div>
+                                    <p className="text-gray-400">New Avg. Open Price</p>
+                                    <p className="font-bold text-brand-blue">${newOpenPrice.toFixed(2)}</p>
+                                </div>
+                                <div>
+                                    <p className="text-gray-400">Added Value</p>
+                                    <p className="font-bold text-gray-200">${(addQuantity * addPrice).toFixed(2)}</p>
+                                </div>
+                                <div>
+                                    <p className="text-gray-400">Open Fee</p>
+                                    <p className="font-bold text-brand-red">${fee.toFixed(2)}</p>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="flex justify-end space-x-4 pt-4">
+                        <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg text-gray-300 hover:bg-gray-700">Cancel</button>
+                        <button type="submit" className="px-6 py-2 rounded-lg bg-brand-blue text-white font-bold hover:bg-blue-500">
+                            Add to Position
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const FILL_ACTION_STYLES: Record<FillAction, { label: string; className: string }> = {
+  'open': { label: 'Open', className: 'bg-blue-500/20 text-brand-blue' },
+  'scale-in': { label: 'Scale-in', className: 'bg-green-500/20 text-brand-green' },
+  'reduce': { label: 'Reduce', className: 'bg-yellow-500/20 text-yellow-400' },
+  'close': { label: 'Close', className: 'bg-red-500/20 text-brand-red' },
+  'reverse': { label: 'Reverse', className: 'bg-purple-500/20 text-purple-400' },
+};
+
 interface EditOperationModalProps {
   isOpen: boolean;
   onClose: () => void;
   onUpdate: (tradeId: string, updates: Partial<Trade>) => void;
+  onUpdateProtectiveLevels: (tradeId: string, levels: Pick<Trade, 'stopLoss' | 'takeProfit' | 'trailingStopDistance'>) => void;
   trade: Trade;
   accounts: Account[];
 }
 
-const EditOperationModal: React.FC<EditOperationModalProps> = ({ isOpen, onClose, onUpdate, trade, accounts }) => {
+const EditOperationModal: React.FC<EditOperationModalProps> = ({ isOpen, onClose, onUpdate, onUpdateProtectiveLevels, trade, accounts }) => {
   const [symbol, setSymbol] = useState(trade.symbol);
   const [tradeType, setTradeType] = useState<TradeType>(trade.tradeType);
   const [quantity, setQuantity] = useState(trade.quantity.toString());
@@ -413,7 +774,12 @@ const EditOperationModal: React.FC<EditOperationModalProps> = ({ isOpen, onClose
   const [closeDate, setCloseDate] = useState(trade.closedAt ? trade.closedAt.split('T')[0] : '');
   const [openFee, setOpenFee] = useState(trade.fees?.open?.toString() || '0');
   const [closeFee, setCloseFee] = useState(trade.fees?.close?.toString() || '0');
-  const [nightFee, setNightFee] = useState(trade.fees?.night?.toString() || '0');
+  // Only the night fees stored on the fills are editable, booked financing comes from the ledger
+  const bookedFinancing = trade.fees?.financing ?? 0;
+  const [nightFee, setNightFee] = useState(((trade.fees?.night ?? 0) - bookedFinancing).toString());
+  const [stopLoss, setStopLoss] = useState(trade.stopLoss?.toString() || '');
+  const [takeProfit, setTakeProfit] = useState(trade.takeProfit?.toString() || '');
+  const [trailingStopDistance, setTrailingStopDistance] = useState(trade.trailingStopDistance?.toString() || '');
 
   React.useEffect(() => {
     if (trade.status === TradeStatus.CLOSED && openDate && closeDate) {
@@ -432,6 +798,23 @@ const EditOperationModal: React.FC<EditOperationModalProps> = ({ isOpen, onClose
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
+    const referencePrice = trade.latestPrice || parseFloat(openPrice);
+    const isLong = tradeType === TradeType.LONG;
+    if (trade.status === TradeStatus.OPEN) {
+      if (stopLoss && (isLong ? parseFloat(stopLoss) >= referencePrice : parseFloat(stopLoss) <= referencePrice)) {
+        alert(`Stop loss must be ${isLong ? 'below' : 'above'} the current price ($${referencePrice.toFixed(2)})`);
+        return;
+      }
+      if (takeProfit && (isLong ? parseFloat(takeProfit) <= referencePrice : parseFloat(takeProfit) >= referencePrice)) {
+        alert(`Take profit must be ${isLong ? 'above' : 'below'} the current price ($${referencePrice.toFixed(2)})`);
+        return;
+      }
+      if (trailingStopDistance && parseFloat(trailingStopDistance) <= 0) {
+        alert('Trailing stop distance must be greater than zero');
+        return;
+      }
+    }
+
     let calculatedNightFee = parseFloat(nightFee);
 
     if (trade.status === TradeStatus.CLOSED && openDate && closeDate) {
@@ -444,29 +827,53 @@ const EditOperationModal: React.FC<EditOperationModalProps> = ({ isOpen, onClose
       }
     }
 
-    const updates: Partial<Trade> = {
-      symbol: symbol.toUpperCase(),
-      tradeType,
-      quantity: parseFloat(quantity),
-      openPrice: parseFloat(openPrice),
-      accountId,
-      openAt: openDate,
-      fees: {
-        open: parseFloat(openFee),
-        close: parseFloat(closeFee),
-        night: calculatedNightFee,
-        total: parseFloat(openFee) + parseFloat(closeFee) + calculatedNightFee,
-      },
+    // Only send what changed: position-wide values of a scaled position live on several fills
+    const updates: Partial<Trade> = {};
+    if (symbol.toUpperCase() !== trade.symbol) updates.symbol = symbol.toUpperCase();
+    if (tradeType !== trade.tradeType) updates.tradeType = tradeType;
+    if (parseFloat(quantity) !== trade.quantity) updates.quantity = parseFloat(quantity);
+    if (parseFloat(openPrice) !== trade.openPrice) updates.openPrice = parseFloat(openPrice);
+    if (accountId !== trade.accountId) updates.accountId = accountId;
+    if (openDate !== trade.openAt.split('T')[0]) updates.openAt = openDate;
+
+    const fees = {
+      open: parseFloat(openFee),
+      close: parseFloat(closeFee),
+      night: calculatedNightFee,
+      total: parseFloat(openFee) + parseFloat(closeFee) + calculatedNightFee,
     };
+    if (
+      fees.open !== (trade.fees?.open ?? 0) ||
+      fees.close !== (trade.fees?.close ?? 0) ||
+      fees.night !== (trade.fees?.night ?? 0) - bookedFinancing
+    ) {
+      updates.fees = fees;
+    }
 
     if (trade.status === TradeStatus.CLOSED && closePrice) {
-      updates.closePrice = parseFloat(closePrice);
-      if (closeDate) {
+      if (parseFloat(closePrice) !== trade.closePrice) updates.closePrice = parseFloat(closePrice);
+      if (closeDate && closeDate !== trade.closedAt?.split('T')[0]) {
         updates.closedAt = closeDate;
       }
     }
 
-    onUpdate(trade.id, updates);
+    if (Object.keys(updates).length > 0) {
+      onUpdate(trade.id, updates);
+    }
+
+    if (trade.status === TradeStatus.OPEN) {
+      const levels: Pick<Trade, 'stopLoss' | 'takeProfit' | 'trailingStopDistance'> = {};
+      const nextStopLoss = stopLoss ? parseFloat(stopLoss) : null;
+      const nextTakeProfit = takeProfit ? parseFloat(takeProfit) : null;
+      const nextTrailingStopDistance = trailingStopDistance ? parseFloat(trailingStopDistance) : null;
+      if (nextStopLoss !== (trade.stopLoss ?? null)) levels.stopLoss = nextStopLoss;
+      if (nextTakeProfit !== (trade.takeProfit ?? null)) levels.takeProfit = nextTakeProfit;
+      if (nextTrailingStopDistance !== (trade.trailingStopDistance ?? null)) levels.trailingStopDistance = nextTrailingStopDistance;
+      if (Object.keys(levels).length > 0) {
+        onUpdateProtectiveLevels(trade.id, levels);
+      }
+    }
+
     onClose();
   };
 
@@ -613,14 +1020,70 @@ const EditOperationModal: React.FC<EditOperationModalProps> = ({ isOpen, onClose
                   const isSameDay = new Date(openDate).toDateString() === new Date(closeDate).toDateString();
                   if (isSameDay) calculatedNightFee = 0;
                 }
-                return (parseFloat(openFee || '0') + parseFloat(closeFee || '0') + calculatedNightFee).toFixed(2);
+                return (parseFloat(openFee || '0') + parseFloat(closeFee || '0') + calculatedNightFee + bookedFinancing).toFixed(2);
               })()}
+              {bookedFinancing !== 0 && (
+                <span className="ml-2">(incl. ${bookedFinancing.toFixed(2)} booked financing)</span>
+              )}
               {trade.status === TradeStatus.CLOSED && openDate && closeDate && new Date(openDate).toDateString() === new Date(closeDate).toDateString() && (
                 <span className="text-yellow-400 ml-2">(Same-day trade: no night fee)</span>
               )}
             </p>
           </div>
 
+          {trade.status === TradeStatus.OPEN && (
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">Protective Orders</label>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="edit-stopLoss" className="block text-xs text-gray-500 mb-1">Stop Loss ($)</label>
+                  <input
+                    id="edit-stopLoss"
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={stopLoss}
+                    onChange={(e) => setStopLoss(e.target.value)}
+                    className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+                    placeholder="None"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="edit-takeProfit" className="block text-xs text-gray-500 mb-1">Take Profit ($)</label>
+                  <input
+                    id="edit-takeProfit"
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={takeProfit}
+                    onChange={(e) => setTakeProfit(e.target.value)}
+                    className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+                    placeholder="None"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="edit-trailingStop" className="block text-xs text-gray-500 mb-1">Trailing Distance ($)</label>
+                  <input
+                    id="edit-trailingStop"
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={trailingStopDistance}
+                    onChange={(e) => setTrailingStopDistance(e.target.value)}
+                    className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue"
+                    placeholder="None"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                The operation is closed automatically at the latest price when a level is crossed. Leave a field empty to remove it.
+                {trade.trailingStopPrice != null && (
+                  <span className="ml-1">Trailing stop currently at ${trade.trailingStopPrice.toFixed(2)}.</span>
+                )}
+              </p>
+            </div>
+          )}
+
           <div>
             <label htmlFor="edit-account" className="block text-sm font-medium text-gray-400 mb-1">Account</label>
             <select
@@ -648,6 +1111,10 @@ const EditOperationModal: React.FC<EditOperationModalProps> = ({ isOpen, onClose
   );
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Holding periods up to this long are charted with hourly bars
+const INTRADAY_CHART_MAX_MS = 5 * DAY_MS;
+
 const PositionDetailsModal: React.FC<{
   trade: Trade;
   account: Account | undefined;
@@ -672,6 +1139,46 @@ const PositionDetailsModal: React.FC<{
     loadFills();
   }, [isOpen, trade.id]);
 
+  const [priceBars, setPriceBars] = React.useState<PriceBar[] | null>(null);
+  const [barInterval, setBarInterval] = React.useState<PriceBarInterval>('1d');
+
+  // Bars covering the holding period with some context on both sides. Short holds use hourly
+  // bars, falling back to daily bars when no intraday history is stored.
+  React.useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setPriceBars(null);
+
+    const start = new Date(trade.openAt).getTime();
+    const end = trade.closedAt ? new Date(trade.closedAt).getTime() : Date.now();
+    const preferredInterval: PriceBarInterval = end - start <= INTRADAY_CHART_MAX_MS ? '1h' : '1d';
+    const padding = Math.max((end - start) * 0.2, preferredInterval === '1h' ? DAY_MS : 10 * DAY_MS);
+    const from = new Date(start - padding).toISOString();
+    const to = new Date(Math.min(end + padding, Date.now())).toISOString();
+
+    import('../services/databaseService').then(async ({ fetchPriceBars }) => {
+      try {
+        let interval = preferredInterval;
+        let bars = await fetchPriceBars(trade.symbol, interval, from, to);
+        if (bars.length === 0 && interval !== '1d') {
+          interval = '1d';
+          bars = await fetchPriceBars(trade.symbol, interval, from, to);
+        }
+        if (!cancelled) {
+          setBarInterval(interval);
+          setPriceBars(bars);
+        }
+      } catch (error) {
+        console.error('Error loading price history:', error);
+        if (!cancelled) setPriceBars([]);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, trade.id, trade.symbol, trade.openAt, trade.closedAt]);
+
   const handleEditFill = (fill: any) => {
     setEditingFillId(fill.id);
     setEditFormData({
@@ -709,10 +1216,14 @@ const PositionDetailsModal: React.FC<{
 
   if (!isOpen) return null;
 
+  const fillSteps = describeFills(fills, { method: account?.lotMatchingMethod });
+
   // Calculate position metrics
   const positionValue = trade.quantity * trade.openPrice;
-  const leverage = 5; // Default leverage - in real app this would come from trade data
-  const requiredMargin = positionValue / leverage;
+  const leverage = trade.leverage || DEFAULT_LEVERAGE;
+  const requiredMargin = trade.status === TradeStatus.OPEN && trade.marginUsed !== undefined
+    ? trade.marginUsed
+    : positionValue / leverage;
   
   // Use stored fee data from database
   const openFee = trade.fees?.open || 0;
@@ -730,15 +1241,25 @@ const PositionDetailsModal: React.FC<{
     ? (trade.closePrice || trade.openPrice)
     : (trade.latestPrice || trade.openPrice);
 
-  const grossPnl = trade.tradeType === TradeType.LONG
-    ? (currentPrice - trade.openPrice) * trade.quantity
-    : (trade.openPrice - currentPrice) * trade.quantity;
+  const grossPnl = calculateGrossPnl(trade.tradeType, trade.openPrice, currentPrice, trade.quantity);
   const netPnl = trade.pnl || (grossPnl - totalFees);
   
   // Breakeven price
-  const breakevenPrice = trade.tradeType === TradeType.LONG
-    ? trade.openPrice + (totalFees / trade.quantity)
-    : trade.openPrice - (totalFees / trade.quantity);
+  const breakevenPrice = calculateBreakevenPrice(trade.tradeType, trade.openPrice, totalFees, trade.quantity);
+
+  const chartFills: ChartFill[] = fills.map(fill => ({
+    side: fill.side,
+    quantity: fill.quantity,
+    price: fill.price,
+    time: fill.fill_timestamp || fill.created_at,
+  }));
+  const chartLevels: ChartLevel[] = [
+    { label: 'Avg Open', price: trade.openPrice, color: '#3B82F6' },
+    { label: 'Breakeven', price: breakevenPrice, color: '#FACC15' },
+    ...(trade.stopLoss != null ? [{ label: 'Stop', price: trade.stopLoss, color: '#EF4444' }] : []),
+    ...(trade.takeProfit != null ? [{ label: 'Target', price: trade.takeProfit, color: '#22C55E' }] : []),
+    ...(trade.trailingStopPrice != null ? [{ label: 'Trailing Stop', price: trade.trailingStopPrice, color: '#F97316' }] : []),
+  ];
 
   return (
     <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-50" onClick={onClose}>
@@ -790,6 +1311,31 @@ const PositionDetailsModal: React.FC<{
                 </div>
               </div>
             </div>
+
+            {/* Protective Orders */}
+            {trade.status === TradeStatus.OPEN && (
+              <div className="bg-gray-700 rounded-lg p-4">
+                <h3 className="text-lg font-semibold text-gray-200 mb-4">Protective Orders</h3>
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="text-gray-400">Stop Loss</p>
+                    <p className="font-bold text-brand-red">{trade.stopLoss != null ? `$${trade.stopLoss.toFixed(2)}` : '-'}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">Take Profit</p>
+                    <p className="font-bold text-brand-green">{trade.takeProfit != null ? `$${trade.takeProfit.toFixed(2)}` : '-'}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">Trailing Distance</p>
+                    <p className="font-bold text-gray-200">{trade.trailingStopDistance != null ? `$${trade.trailingStopDistance.toFixed(2)}` : '-'}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">Trailing Stop</p>
+                    <p className="font-bold text-yellow-400">{trade.trailingStopPrice != null ? `$${trade.trailingStopPrice.toFixed(2)}` : '-'}</p>
+                  </div>
+                </div>
+              </div>
+            )}
             
             {/* Timing Information */}
             <div className="bg-gray-700 rounded-lg p-4">
@@ -871,6 +1417,36 @@ const PositionDetailsModal: React.FC<{
           </div>
         </div>
 
+        <div className="mt-8 bg-gray-700 rounded-lg p-4">
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+            <h3 className="text-lg font-semibold text-gray-200">Price Chart</h3>
+            <div className="flex flex-wrap gap-3 text-xs text-gray-400">
+              <span><span className="text-brand-green">▲</span> Buy</span>
+              <span><span className="text-brand-red">▼</span> Sell</span>
+              {chartLevels.map(level => (
+                <span key={level.label}><span style={{ color: level.color }}>- -</span> {level.label}</span>
+              ))}
+            </div>
+          </div>
+          {priceBars === null ? (
+            <div className="text-center py-8 text-gray-500">
+              <i className="ri-loader-4-line animate-spin mr-2"></i>
+              Loading price history...
+            </div>
+          ) : priceBars.length > 0 ? (
+            <CandlestickChart
+              bars={priceBars}
+              fills={chartFills}
+              levels={chartLevels}
+              intraday={barInterval !== '1d'}
+            />
+          ) : (
+            <p className="text-center py-8 text-gray-500">
+              No price history stored for {trade.symbol}. Backfill it from Admin → Symbol Management.
+            </p>
+          )}
+        </div>
+
         {fills.length > 0 && (
           <div className="mt-8 bg-gray-700 rounded-lg p-4">
             <div className="flex justify-between items-center mb-4">
@@ -892,8 +1468,11 @@ const PositionDetailsModal: React.FC<{
                   <tr>
                     <th className="p-3 text-left">Date/Time</th>
                     <th className="p-3 text-left">Side</th>
+                    <th className="p-3 text-left">Action</th>
                     <th className="p-3 text-right">Quantity</th>
                     <th className="p-3 text-right">Price</th>
+                    <th className="p-3 text-right">Position</th>
+                    <th className="p-3 text-right">Avg Open</th>
                     <th className="p-3 text-right">Open Fee</th>
                     <th className="p-3 text-right">Close Fee</th>
                     <th className="p-3 text-right">Night Fee</th>
@@ -902,7 +1481,7 @@ const PositionDetailsModal: React.FC<{
                   </tr>
                 </thead>
                 <tbody>
-                  {fills.map((fill) => (
+                  {fillSteps.map(({ fill, step }) => (
                     <tr key={fill.id} className="border-t border-gray-600">
                       {editingFillId === fill.id ? (
                         <>
@@ -919,6 +1498,11 @@ const PositionDetailsModal: React.FC<{
                               {fill.side}
                             </span>
                           </td>
+                          <td className="p-3">
+                            <span className={`text-xs px-2 py-0.5 rounded ${FILL_ACTION_STYLES[step.action].className}`}>
+                              {FILL_ACTION_STYLES[step.action].label}
+                            </span>
+                          </td>
                           <td className="p-3">
                             <input
                               type="number"
@@ -937,6 +1521,8 @@ const PositionDetailsModal: React.FC<{
                               className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-gray-200 text-right font-mono text-xs"
                             />
                           </td>
+                          <td className="p-3 text-right text-gray-400 font-mono">{step.netQuantity.toFixed(2)}</td>
+                          <td className="p-3 text-right text-gray-400 font-mono">${step.openPrice.toFixed(2)}</td>
                           <td className="p-3">
                             <input
                               type="number"
@@ -994,8 +1580,15 @@ const PositionDetailsModal: React.FC<{
                               {fill.side}
                             </span>
                           </td>
+                          <td className="p-3">
+                            <span className={`text-xs px-2 py-0.5 rounded ${FILL_ACTION_STYLES[step.action].className}`}>
+                              {FILL_ACTION_STYLES[step.action].label}
+                            </span>
+                          </td>
                           <td className="p-3 text-right text-gray-200 font-mono">{fill.quantity}</td>
                           <td className="p-3 text-right text-gray-200 font-mono">${fill.price.toFixed(2)}</td>
+                          <td className="p-3 text-right text-gray-200 font-mono">{step.netQuantity.toFixed(2)}</td>
+                          <td className="p-3 text-right text-gray-200 font-mono">${step.openPrice.toFixed(2)}</td>
                           <td className="p-3 text-right text-gray-200 font-mono">${fill.open_fee.toFixed(2)}</td>
                           <td className="p-3 text-right text-gray-200 font-mono">${fill.close_fee.toFixed(2)}</td>
                           <td className="p-3 text-right text-gray-200 font-mono">${fill.night_fee.toFixed(2)}</td>
@@ -1020,7 +1613,8 @@ const PositionDetailsModal: React.FC<{
             <div className="mt-3 text-xs text-gray-400">
               Total fills: {fills.length} |
               {' '}Buy fills: {fills.filter(f => f.side === 'buy').length} |
-              {' '}Sell fills: {fills.filter(f => f.side === 'sell').length}
+              {' '}Sell fills: {fills.filter(f => f.side === 'sell').length} |
+              {' '}Scale-ins: {fillSteps.filter(({ step }) => step.action === 'scale-in').length}
             </div>
           </div>
         )}
@@ -1039,13 +1633,241 @@ const PositionDetailsModal: React.FC<{
 // MAIN PAGE COMPONENT
 // ============================
 
+interface ImportOperationsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  accounts: Account[];
+  onImport: (accountId: string, operations: ImportedOperation[]) => Promise<ImportResult>;
+}
+
+type ImportStatus = 'new' | 'update' | 'duplicate';
+
+const IMPORT_STATUS_BADGES: Record<ImportStatus, { label: string; className: string }> = {
+  'new': { label: 'New', className: 'bg-green-500/20 text-brand-green' },
+  'update': { label: 'Adds Fills', className: 'bg-yellow-500/20 text-yellow-400' },
+  'duplicate': { label: 'Already Imported', className: 'bg-gray-600 text-gray-300' },
+};
+
+const ImportOperationsModal: React.FC<ImportOperationsModalProps> = ({ isOpen, onClose, accounts, onImport }) => {
+  const [step, setStep] = useState<'upload' | 'preview' | 'done'>('upload');
+  const [accountId, setAccountId] = useState(accounts[0]?.id || '');
+  const [broker, setBroker] = useState<BrokerId | 'auto'>('auto');
+  const [file, setFile] = useState<File | null>(null);
+  const [statement, setStatement] = useState<BrokerStatement | null>(null);
+  const [operations, setOperations] = useState<ImportedOperation[]>([]);
+  const [importedIds, setImportedIds] = useState<Map<string, string>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setStep('upload');
+    setFile(null);
+    setStatement(null);
+    setOperations([]);
+    setError(null);
+    setResult(null);
+    onClose();
+  };
+
+  const handlePreview = async () => {
+    if (!file || !accountId) return;
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      const parsed = parseBrokerStatement(await file.text(), broker === 'auto' ? undefined : broker);
+      const { fetchImportedFillIds } = await import('../services/databaseService');
+      setImportedIds(await fetchImportedFillIds(accountId));
+      setStatement(parsed);
+      setOperations(groupFillsIntoOperations(parsed.fills));
+      setStep('preview');
+    } catch (err) {
+      console.error('Error reading broker statement:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read the statement');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const getImportStatus = (operation: ImportedOperation): ImportStatus => {
+    const alreadyImported = operation.fills.filter(fill => importedIds.has(fill.externalId)).length;
+    if (alreadyImported === 0) return 'new';
+    return alreadyImported === operation.fills.length ? 'duplicate' : 'update';
+  };
+
+  const pendingOperations = operations.filter(operation => getImportStatus(operation) !== 'duplicate');
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      setResult(await onImport(accountId, pendingOperations));
+      setStep('done');
+    } catch (err) {
+      console.error('Error importing operations:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import operations');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-50" onClick={handleClose}>
+      <div className="bg-gray-800 rounded-lg shadow-xl p-8 w-full max-w-4xl max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold text-gray-200">Import Broker Statement</h2>
+          <button onClick={handleClose} className="text-gray-400 hover:text-gray-200 text-2xl">×</button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 rounded-lg bg-red-500/20 text-brand-red text-sm">{error}</div>
+        )}
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="import-account" className="block text-sm font-medium text-gray-400 mb-1">Account</label>
+                <select id="import-account" value={accountId} onChange={(e) => setAccountId(e.target.value)} className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue">
+                  {accounts.map(account => (
+                    <option key={account.id} value={account.id}>{account.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="import-broker" className="block text-sm font-medium text-gray-400 mb-1">Broker</label>
+                <select id="import-broker" value={broker} onChange={(e) => setBroker(e.target.value as BrokerId | 'auto')} className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-blue">
+                  <option value="auto">Detect automatically</option>
+                  {(Object.keys(BROKER_LABELS) as BrokerId[]).map(id => (
+                    <option key={id} value={id}>{BROKER_LABELS[id]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="import-file" className="block text-sm font-medium text-gray-400 mb-1">Trade History (CSV)</label>
+              <input id="import-file" type="file" accept=".csv,text/csv" onChange={(e) => setFile(e.target.files?.[0] || null)} className="w-full text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600" />
+              <p className="text-xs text-gray-500 mt-2">
+                Revolut: trading account statement export. XTB: closed and open positions export. Fills already imported into the selected account are skipped.
+              </p>
+            </div>
+            <div className="flex justify-end space-x-4 pt-4">
+              <button type="button" onClick={handleClose} className="px-4 py-2 rounded-lg text-gray-300 hover:bg-gray-700">Cancel</button>
+              <button type="button" onClick={handlePreview} disabled={!file || !accountId || isWorking} className="px-6 py-2 rounded-lg bg-brand-blue text-white font-bold hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed">
+                {isWorking ? 'Reading...' : 'Preview'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && statement && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div className="bg-gray-700 rounded-lg p-3">
+                <p className="text-gray-400">Broker</p>
+                <p className="font-bold text-gray-200">{BROKER_LABELS[statement.broker]}</p>
+              </div>
+              <div className="bg-gray-700 rounded-lg p-3">
+                <p className="text-gray-400">Fills</p>
+                <p className="font-bold text-gray-200">{statement.fills.length}</p>
+              </div>
+              <div className="bg-gray-700 rounded-lg p-3">
+                <p className="text-gray-400">Operations to Import</p>
+                <p className="font-bold text-brand-green">{pendingOperations.length} of {operations.length}</p>
+              </div>
+              <div className="bg-gray-700 rounded-lg p-3">
+                <p className="text-gray-400">Skipped Rows</p>
+                <p className="font-bold text-gray-200">{statement.skippedRows}</p>
+              </div>
+            </div>
+
+            {statement.issues.length > 0 && (
+              <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30 text-sm">
+                <p className="font-semibold text-yellow-400 mb-1">{statement.issues.length} row(s) could not be read and will be ignored</p>
+                <ul className="text-xs text-gray-400 space-y-0.5">
+                  {statement.issues.slice(0, 10).map(issue => (
+                    <li key={issue.rowNumber}>Row {issue.rowNumber}: {issue.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="overflow-x-auto max-h-80">
+              <table className="w-full text-sm text-left text-gray-400">
+                <thead className="text-xs text-gray-400 uppercase bg-gray-700/50">
+                  <tr>
+                    <th className="p-3">Symbol</th>
+                    <th className="p-3">Type</th>
+                    <th className="p-3">Opened</th>
+                    <th className="p-3">Fills</th>
+                    <th className="p-3">Status</th>
+                    <th className="p-3">Import</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {operations.length > 0 ? operations.map(operation => {
+                    const badge = IMPORT_STATUS_BADGES[getImportStatus(operation)];
+                    return (
+                      <tr key={operation.key} className="border-b border-gray-700">
+                        <td className="p-3 font-bold text-gray-200">{operation.symbol}</td>
+                        <td className={`p-3 font-semibold capitalize ${operation.tradeType === TradeType.LONG ? 'text-brand-green' : 'text-brand-red'}`}>{operation.tradeType}</td>
+                        <td className="p-3 font-mono">{new Date(operation.openAt).toLocaleDateString()}</td>
+                        <td className="p-3">{operation.fills.length}</td>
+                        <td className="p-3 capitalize">{operation.status}</td>
+                        <td className="p-3">
+                          <span className={`px-2 py-0.5 text-xs font-semibold rounded ${badge.className}`}>{badge.label}</span>
+                        </td>
+                      </tr>
+                    );
+                  }) : (
+                    <tr><td colSpan={6} className="text-center p-6 text-gray-500">No trades found in this file.</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end space-x-4 pt-4">
+              <button type="button" onClick={() => setStep('upload')} className="px-4 py-2 rounded-lg text-gray-300 hover:bg-gray-700">Back</button>
+              <button type="button" onClick={handleImport} disabled={pendingOperations.length === 0 || isWorking} className="px-6 py-2 rounded-lg bg-brand-blue text-white font-bold hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed">
+                {isWorking ? 'Importing...' : `Import ${pendingOperations.length} Operation(s)`}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <div className="space-y-4">
+            <div className="p-4 rounded-lg bg-green-500/20 text-brand-green text-sm">
+              <i className="ri-checkbox-circle-line mr-2"></i>
+              Imported {result.fillsImported} fill(s): {result.operationsCreated} new operation(s), {result.operationsUpdated} updated.
+              {result.fillsSkipped > 0 && ` ${result.fillsSkipped} fill(s) were already imported.`}
+            </div>
+            <div className="flex justify-end pt-4">
+              <button type="button" onClick={handleClose} className="px-6 py-2 rounded-lg bg-brand-blue text-white font-bold hover:bg-blue-500">Done</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
 interface OperationsProps {
   trades: Trade[];
   accounts: Account[];
+  accountMargins: Record<string, AccountMargin>;
   addTrade: (tradeData: Omit<Trade, 'id' | 'status' | 'openAt' | 'pnl'>) => void;
   closeTrade: (tradeId: string, closePrice: number, closePercentage?: number) => void;
+  scaleInTrade: (tradeId: string, fill: ScaleInFillData) => void;
+  reverseTrade: (tradeId: string, price: number, orderQuantity: number) => void;
   deleteTrade: (tradeId: string) => void;
   updateTrade: (tradeId: string, updates: Partial<Trade>) => void;
+  updateProtectiveLevels: (tradeId: string, levels: Pick<Trade, 'stopLoss' | 'takeProfit' | 'trailingStopDistance'>) => void;
+  importOperations: (accountId: string, operations: ImportedOperation[]) => Promise<ImportResult>;
 }
 
 const DeleteOperationModal: React.FC<{
@@ -1071,16 +1893,20 @@ const DeleteOperationModal: React.FC<{
     </div>
   );
 };
-const Operations: React.FC<OperationsProps> = ({ trades, accounts, addTrade, closeTrade, deleteTrade, updateTrade }) => {
+const Operations: React.FC<OperationsProps> = ({ trades, accounts, accountMargins, addTrade, closeTrade, scaleInTrade, reverseTrade, deleteTrade, updateTrade, updateProtectiveLevels, importOperations }) => {
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [filters, setFilters] = useState<TradeFilters>(DEFAULT_TRADE_FILTERS);
   const [tradeToClose, setTradeToClose] = useState<Trade | null>(null);
+  const [tradeToScaleIn, setTradeToScaleIn] = useState<Trade | null>(null);
   const [tradeToDelete, setTradeToDelete] = useState<Trade | null>(null);
   const [tradeToView, setTradeToView] = useState<Trade | null>(null);
   const [tradeToEdit, setTradeToEdit] = useState<Trade | null>(null);
 
-  const openTrades = trades.filter(t => t.status === TradeStatus.OPEN);
-  const fullyClosedTrades = trades.filter(t => t.status === TradeStatus.CLOSED);
-  const partiallyClosedTrades = trades.filter(t => t.status === TradeStatus.OPEN && t.isPartiallyCloseD);
+  const filteredTrades = filterTrades(trades, filters);
+  const openTrades = filteredTrades.filter(t => t.status === TradeStatus.OPEN);
+  const fullyClosedTrades = filteredTrades.filter(t => t.status === TradeStatus.CLOSED);
+  const partiallyClosedTrades = filteredTrades.filter(t => t.status === TradeStatus.OPEN && t.isPartiallyCloseD);
 
   const closedTrades = [...fullyClosedTrades, ...partiallyClosedTrades].sort((a, b) => {
     const dateA = a.closedAt ? new Date(a.closedAt).getTime() : new Date(a.openAt).getTime();
@@ -1091,6 +1917,21 @@ const Operations: React.FC<OperationsProps> = ({ trades, accounts, addTrade, clo
   const getAccountName = (id: string) => accounts.find(acc => acc.id === id)?.name || 'Unknown';
   const getAccount = (id: string) => accounts.find(acc => acc.id === id);
 
+  const exportDatasets: ExportDataset[] = [
+    {
+      label: 'Trade History',
+      onExport: format => exportRows('trades', buildTradeRows(filteredTrades, accounts), filters, format),
+    },
+    {
+      label: 'Fills',
+      onExport: async format => {
+        const { fetchFillsForTrades } = await import('../services/databaseService');
+        const fills = await fetchFillsForTrades(filteredTrades.map(trade => trade.id));
+        exportRows('fills', buildFillRows(filteredTrades, accounts, fills), filters, format);
+      },
+    },
+  ];
+
   const handleDeleteOperation = (trade: Trade) => {
     setTradeToDelete(trade);
   };
@@ -1148,6 +1989,9 @@ const Operations: React.FC<OperationsProps> = ({ trades, accounts, addTrade, clo
                       {isPartiallyOpenInOpen && (
                         <span className="text-xs px-2 py-0.5 bg-blue-500/20 text-blue-400 rounded">Partially Open</span>
                       )}
+                      {trade.reversedFromId && (
+                        <span className="text-xs px-2 py-0.5 bg-purple-500/20 text-purple-400 rounded">Reversed</span>
+                      )}
                     </div>
                   </td>
                   <td className={`p-4 font-semibold capitalize ${trade.tradeType === TradeType.LONG ? 'text-brand-green' : 'text-brand-red'}`}>{trade.tradeType}</td>
@@ -1183,6 +2027,11 @@ const Operations: React.FC<OperationsProps> = ({ trades, accounts, addTrade, clo
                       <button onClick={() => setTradeToView(trade)} className="font-semibold py-1 px-3 rounded-lg transition-colors text-xs bg-blue-500/20 text-brand-blue hover:bg-blue-500/40">
                         Details
                       </button>
+                      {isOpenOnly && (
+                        <button onClick={() => setTradeToScaleIn(trade)} className="font-semibold py-1 px-3 rounded-lg transition-colors text-xs bg-green-500/20 text-brand-green hover:bg-green-500/40" title="Add to position">
+                          Add
+                        </button>
+                      )}
                     <button onClick={() => setTradeToClose(trade)} className="font-semibold py-1 px-3 rounded-lg transition-colors text-xs bg-red-500/20 text-brand-red hover:bg-red-500/40">
                       Close
                     </button>
@@ -1223,10 +2072,17 @@ const Operations: React.FC<OperationsProps> = ({ trades, accounts, addTrade, clo
       <div className="space-y-8">
         <div className="flex justify-between items-center">
           <h1 className="text-3xl font-bold text-gray-200">Operations</h1>
-          <button onClick={() => setIsAddModalOpen(true)} className="bg-brand-blue text-white font-bold py-2 px-6 rounded-lg hover:bg-blue-500 transition-colors">
-            Open New Operation
-          </button>
+          <div className="flex items-center gap-3">
+            <ExportMenu datasets={exportDatasets} />
+            <button onClick={() => setIsImportModalOpen(true)} className="bg-gray-700 text-gray-200 font-bold py-2 px-6 rounded-lg hover:bg-gray-600 transition-colors">
+              <i className="ri-upload-2-line mr-2"></i>Import
+            </button>
+            <button onClick={() => setIsAddModalOpen(true)} className="bg-brand-blue text-white font-bold py-2 px-6 rounded-lg hover:bg-blue-500 transition-colors">
+              Open New Operation
+            </button>
+          </div>
         </div>
+        <TradeFiltersBar accounts={accounts} filters={filters} onChange={setFilters} />
         <TradeTable title="Open Positions" trades={openTrades} />
         <TradeTable title="Trade History" trades={closedTrades} showDeleteButton={true} />
       </div>
@@ -1236,6 +2092,13 @@ const Operations: React.FC<OperationsProps> = ({ trades, accounts, addTrade, clo
         onClose={() => setIsAddModalOpen(false)}
         onAdd={addTrade}
         accounts={accounts}
+        accountMargins={accountMargins}
+      />
+      <ImportOperationsModal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        accounts={accounts}
+        onImport={importOperations}
       />
       {tradeToClose && (
         <CloseOperationModal
@@ -1243,6 +2106,16 @@ const Operations: React.FC<OperationsProps> = ({ trades, accounts, addTrade, clo
           isOpen={!!tradeToClose}
           onClose={() => setTradeToClose(null)}
           onConfirm={closeTrade}
+          onReverse={reverseTrade}
+        />
+      )}
+      {tradeToScaleIn && (
+        <ScaleInOperationModal
+          trade={tradeToScaleIn}
+          account={getAccount(tradeToScaleIn.accountId)}
+          isOpen={!!tradeToScaleIn}
+          onClose={() => setTradeToScaleIn(null)}
+          onConfirm={scaleInTrade}
         />
       )}
       {tradeToDelete && (
@@ -1258,6 +2131,7 @@ const Operations: React.FC<OperationsProps> = ({ trades, accounts, addTrade, clo
           isOpen={!!tradeToEdit}
           onClose={() => setTradeToEdit(null)}
           onUpdate={updateTrade}
+          onUpdateProtectiveLevels={updateProtectiveLevels}
           trade={tradeToEdit}
           accounts={accounts}
         />
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import type { PriceBar } from '../types';
+
+export interface ChartFill {
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  time: string;
+}
+
+export interface ChartLevel {
+  label: string;
+  price: number;
+  color: string;
+}
+
+interface CandlestickChartProps {
+  bars: PriceBar[]; // Oldest first
+  fills?: ChartFill[];
+  levels?: ChartLevel[];
+  currencySymbol?: string;
+  intraday?: boolean; // Label the axis with times as well as dates
+}
+
+const WIDTH = 800;
+const HEIGHT = 320;
+const PADDING = { top: 12, right: 72, bottom: 28, left: 8 };
+const X_LABEL_COUNT = 6;
+const Y_LABEL_COUNT = 5;
+
+const formatBarTime = (time: string, intraday: boolean) =>
+  intraday
+    ? new Date(time).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : new Date(time).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' });
+
+// Index of the bar a timestamp falls in: the last bar starting at or before it
+const barIndexAt = (bars: PriceBar[], time: string): number => {
+  const timestamp = new Date(time).getTime();
+  let index = 0;
+  for (let i = 0; i < bars.length; i++) {
+    if (new Date(bars[i].time).getTime() <= timestamp) index = i;
+    else break;
+  }
+  return index;
+};
+
+// Candlesticks drawn as plain SVG, with fills as buy/sell markers and price levels as
+// horizontal lines. Bars are evenly spaced, so gaps such as weekends are skipped.
+export const CandlestickChart: React.FC<CandlestickChartProps> = ({ bars, fills = [], levels = [], currencySymbol = '$', intraday = false }) => {
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+
+  if (bars.length === 0) return null;
+
+  const prices = [
+    ...bars.flatMap(bar => [bar.high, bar.low]),
+    ...fills.map(fill => fill.price),
+    ...levels.map(level => level.price),
+  ];
+  const rawMin = Math.min(...prices);
+  const rawMax = Math.max(...prices);
+  const margin = (rawMax - rawMin) * 0.05 || rawMax * 0.01 || 1;
+  const minPrice = rawMin - margin;
+  const maxPrice = rawMax + margin;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const slot = plotWidth / bars.length;
+  const bodyWidth = Math.max(1, Math.min(12, slot * 0.7));
+
+  const xOf = (index: number) => PADDING.left + slot * (index + 0.5);
+  const yOf = (price: number) => PADDING.top + ((maxPrice - price) / (maxPrice - minPrice)) * plotHeight;
+
+  const xLabelStep = Math.max(1, Math.ceil(bars.length / X_LABEL_COUNT));
+  const yLabels = Array.from({ length: Y_LABEL_COUNT }, (_, i) => minPrice + ((maxPrice - minPrice) * i) / (Y_LABEL_COUNT - 1));
+
+  const hovered = hoveredIndex !== null ? bars[hoveredIndex] : bars[bars.length - 1];
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-x-4 text-xs text-gray-400 mb-2 font-mono">
+        <span className="text-gray-300">{formatBarTime(hovered.time, intraday)}</span>
+        <span>O {hovered.open.toFixed(2)}</span>
+        <span>H {hovered.high.toFixed(2)}</span>
+        <span>L {hovered.low.toFixed(2)}</span>
+        <span className={hovered.close >= hovered.open ? 'text-brand-green' : 'text-brand-red'}>C {hovered.close.toFixed(2)}</span>
+        {hovered.volume !== undefined && <span>V {hovered.volume.toLocaleString()}</span>}
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" onMouseLeave={() => setHoveredIndex(null)}>
+        {yLabels.map(price => (
+          <g key={price}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={yOf(price)} y2={yOf(price)} stroke="#374151" strokeDasharray="3 3" />
+            <text x={WIDTH - PADDING.right + 6} y={yOf(price) + 4} fill="#9CA3AF" fontSize={11}>
+              {currencySymbol}{price.toFixed(2)}
+            </text>
+          </g>
+        ))}
+
+        {bars.map((bar, index) => index % xLabelStep === 0 && (
+          <text key={bar.time} x={xOf(index)} y={HEIGHT - 8} fill="#9CA3AF" fontSize={11} textAnchor="middle">
+            {formatBarTime(bar.time, intraday)}
+          </text>
+        ))}
+
+        {bars.map((bar, index) => {
+          const isUp = bar.close >= bar.open;
+          const color = isUp ? '#22C55E' : '#EF4444';
+          const bodyTop = yOf(Math.max(bar.open, bar.close));
+          const bodyHeight = Math.max(1, yOf(Math.min(bar.open, bar.close)) - bodyTop);
+          return (
+            <g key={bar.time} onMouseEnter={() => setHoveredIndex(index)}>
+              <rect x={xOf(index) - slot / 2} y={PADDING.top} width={slot} height={plotHeight} fill={hoveredIndex === index ? '#374151' : 'transparent'} opacity={0.5} />
+              <line x1={xOf(index)} x2={xOf(index)} y1={yOf(bar.high)} y2={yOf(bar.low)} stroke={color} />
+              <rect x={xOf(index) - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} />
+            </g>
+          );
+        })}
+
+        {levels.map(level => (
+          <g key={level.label} pointerEvents="none">
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={yOf(level.price)}
+              y2={yOf(level.price)}
+              stroke={level.color}
+              strokeDasharray="6 4"
+              strokeWidth={1.5}
+            />
+            <text x={PADDING.left + 4} y={yOf(level.price) - 4} fill={level.color} fontSize={11}>
+              {level.label} {level.price.toFixed(2)}
+            </text>
+          </g>
+        ))}
+
+        {fills.map((fill, i) => {
+          const x = xOf(barIndexAt(bars, fill.time));
+          const y = yOf(fill.price);
+          const isBuy = fill.side === 'buy';
+          // Buys point up from below the price, sells point down from above it
+          const points = isBuy
+            ? `${x},${y} ${x - 6},${y + 10} ${x + 6},${y + 10}`
+            : `${x},${y} ${x - 6},${y - 10} ${x + 6},${y - 10}`;
+          return (
+            <polygon key={i} points={points} fill={isBuy ? '#22C55E' : '#EF4444'} stroke="#111827" strokeWidth={1}>
+              <title>{`${isBuy ? 'Buy' : 'Sell'} ${fill.quantity} @ ${fill.price.toFixed(2)} · ${new Date(fill.time).toLocaleString()}`}</title>
+            </polygon>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 
-import type { Account, Trade, WatchlistItem } from './types';
+import type { Account, Trade, Watchlist } from './types';
 import { TradeStatus, TradeType } from './types';
 
 export const MOCK_ACCOUNTS: Account[] = [
@@ -11,6 +11,11 @@ export const MOCK_ACCOUNTS: Account[] = [
     status: 'active',
     openCloseCommission: 0.25,
     nightCommission: 7.0,
+    lotMatchingMethod: 'fifo',
+    financingTripleDay: 3,
+    financingWeekends: false,
+    marginCallLevel: 100,
+    currency: 'USD',
   },
   {
     id: 'acc_2',
@@ -20,6 +25,11 @@ export const MOCK_ACCOUNTS: Account[] = [
     status: 'active',
     openCloseCommission: 0.15,
     nightCommission: 5.0,
+    lotMatchingMethod: 'fifo',
+    financingTripleDay: 3,
+    financingWeekends: false,
+    marginCallLevel: 100,
+    currency: 'USD',
   },
 ];
 
@@ -39,9 +49,16 @@ export const MOCK_TRADES: Trade[] = [
   { id: 't_7', symbol: 'META', quantity: 10, openPrice: 490, status: TradeStatus.OPEN, pnl: 100, accountId: 'acc_2', tradeType: TradeType.SHORT, openAt: '2024-05-29T10:00:00Z' },
 ];
 
-export const MOCK_WATCHLIST: WatchlistItem[] = [
-  { symbol: 'AMD', companyName: 'Advanced Micro Devices, Inc.', currentPrice: 165.43 },
-  { symbol: 'PLTR', companyName: 'Palantir Technologies Inc.', currentPrice: 25.11 },
+export const MOCK_WATCHLISTS: Watchlist[] = [
+  {
+    id: 'wl_1',
+    name: 'Watchlist',
+    position: 0,
+    items: [
+      { id: 'wli_1', watchlistId: 'wl_1', symbol: 'AMD', companyName: 'Advanced Micro Devices, Inc.', currentPrice: 165.43, previousClose: 162.10, position: 0 },
+      { id: 'wli_2', watchlistId: 'wl_1', symbol: 'PLTR', companyName: 'Palantir Technologies Inc.', currentPrice: 25.11, previousClose: 25.48, position: 1 },
+    ],
+  },
 ];
 
 
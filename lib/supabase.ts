@@ -7,7 +7,14 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// The anon key only identifies the project, row access comes from the signed-in user's session
+export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+  auth: {
+    persistSession: true,
+    autoRefreshToken: true,
+    detectSessionInUrl: true, // Completes magic link and email confirmation redirects
+  },
+});
 
 // Database types
 export interface Database {
@@ -21,8 +28,12 @@ export interface Database {
           name: string | null;
           asset_type: string | null;
           currency: string;
-          last_price: number | null;
+          latest_price: number | null;
+          previous_close: number | null;
+          data_provider: string | null;
+          exchange_calendar: string | null;
           price_updated_at: string | null;
+          price_as_of: string | null;
           is_active: boolean | null;
           created_at: string | null;
           updated_at: string | null;
@@ -34,8 +45,12 @@ export interface Database {
           name?: string | null;
           asset_type?: string | null;
           currency?: string;
-          last_price?: number | null;
+          latest_price?: number | null;
+          previous_close?: number | null;
+          data_provider?: string | null;
+          exchange_calendar?: string | null;
           price_updated_at?: string | null;
+          price_as_of?: string | null;
           is_active?: boolean | null;
           created_at?: string | null;
           updated_at?: string | null;
@@ -47,8 +62,12 @@ export interface Database {
           name?: string | null;
           asset_type?: string | null;
           currency?: string;
-          last_price?: number | null;
+          latest_price?: number | null;
+          previous_close?: number | null;
+          data_provider?: string | null;
+          exchange_calendar?: string | null;
           price_updated_at?: string | null;
+          price_as_of?: string | null;
           is_active?: boolean | null;
           created_at?: string | null;
           updated_at?: string | null;
@@ -95,6 +114,13 @@ export interface Database {
           is_active: boolean | null;
           created_at: string | null;
           updated_at: string | null;
+          open_close_commission: number | null;
+          night_commission: number | null;
+          lot_matching_method: string;
+          financing_triple_day: number | null;
+          financing_weekends: boolean;
+          margin_call_level: number;
+          currency: string;
         };
         Insert: {
           id?: string;
@@ -109,6 +135,11 @@ export interface Database {
           updated_at?: string | null;
           open_close_commission?: number | null;
           night_commission?: number | null;
+          lot_matching_method?: string;
+          financing_triple_day?: number | null;
+          financing_weekends?: boolean;
+          margin_call_level?: number;
+          currency?: string;
         };
         Update: {
           id?: string;
@@ -123,6 +154,11 @@ export interface Database {
           updated_at?: string | null;
           open_close_commission?: number | null;
           night_commission?: number | null;
+          lot_matching_method?: string;
+          financing_triple_day?: number | null;
+          financing_weekends?: boolean;
+          margin_call_level?: number;
+          currency?: string;
         };
       };
       operation_groups: {
@@ -134,7 +170,13 @@ export interface Database {
           status: string;
           strategy: string | null;
           notes: string | null;
+          reversed_from_id: string | null;
+          stop_loss: number | null;
+          take_profit: number | null;
+          trailing_stop_distance: number | null;
+          trailing_stop_price: number | null;
           created_at: string | null;
+          open_at: string | null;
           closed_at: string | null;
           updated_at: string | null;
         };
@@ -146,7 +188,13 @@ export interface Database {
           status?: string;
           strategy?: string | null;
           notes?: string | null;
+          reversed_from_id?: string | null;
+          stop_loss?: number | null;
+          take_profit?: number | null;
+          trailing_stop_distance?: number | null;
+          trailing_stop_price?: number | null;
           created_at?: string | null;
+          open_at?: string | null;
           closed_at?: string | null;
           updated_at?: string | null;
         };
@@ -158,7 +206,13 @@ export interface Database {
           status?: string;
           strategy?: string | null;
           notes?: string | null;
+          reversed_from_id?: string | null;
+          stop_loss?: number | null;
+          take_profit?: number | null;
+          trailing_stop_distance?: number | null;
+          trailing_stop_price?: number | null;
           created_at?: string | null;
+          open_at?: string | null;
           closed_at?: string | null;
           updated_at?: string | null;
         };
@@ -179,6 +233,7 @@ export interface Database {
           close_fee: number | null;
           night_fee: number | null;
           fee_currency: string | null;
+          external_id: string | null;
         };
         Insert: {
           id?: string;
@@ -195,6 +250,7 @@ export interface Database {
           close_fee?: number | null;
           night_fee?: number | null;
           fee_currency?: string | null;
+          external_id?: string | null;
         };
         Update: {
           id?: string;
@@ -211,6 +267,112 @@ export interface Database {
           close_fee?: number | null;
           night_fee?: number | null;
           fee_currency?: string | null;
+          external_id?: string | null;
+        };
+      };
+      fill_lot_matches: {
+        Row: {
+          id: string;
+          close_fill_id: string;
+          open_fill_id: string;
+          quantity: number;
+          open_price: number;
+          close_price: number;
+          realized_pnl: number;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          close_fill_id: string;
+          open_fill_id: string;
+          quantity: number;
+          open_price: number;
+          close_price: number;
+          realized_pnl: number;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          close_fill_id?: string;
+          open_fill_id?: string;
+          quantity?: number;
+          open_price?: number;
+          close_price?: number;
+          realized_pnl?: number;
+          created_at?: string | null;
+        };
+      };
+      financing_ledger: {
+        Row: {
+          id: string;
+          group_id: string;
+          accrual_date: string;
+          quantity: number;
+          mark_price: number;
+          position_value: number;
+          rate: number;
+          day_multiplier: number;
+          amount: number;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          group_id: string;
+          accrual_date: string;
+          quantity: number;
+          mark_price: number;
+          position_value: number;
+          rate: number;
+          day_multiplier?: number;
+          amount: number;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          group_id?: string;
+          accrual_date?: string;
+          quantity?: number;
+          mark_price?: number;
+          position_value?: number;
+          rate?: number;
+          day_multiplier?: number;
+          amount?: number;
+          created_at?: string | null;
+        };
+      };
+      account_cash_transactions: {
+        Row: {
+          id: string;
+          account_id: string;
+          type: string;
+          amount: number;
+          transfer_id: string | null;
+          counterparty_account_id: string | null;
+          description: string | null;
+          occurred_at: string;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          account_id: string;
+          type: string;
+          amount: number;
+          transfer_id?: string | null;
+          counterparty_account_id?: string | null;
+          description?: string | null;
+          occurred_at?: string;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          account_id?: string;
+          type?: string;
+          amount?: number;
+          transfer_id?: string | null;
+          counterparty_account_id?: string | null;
+          description?: string | null;
+          occurred_at?: string;
+          created_at?: string | null;
         };
       };
       intelligence_data: {
@@ -283,6 +445,508 @@ export interface Database {
           created_at?: string | null;
         };
       };
+      watchlists: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          name: string;
+          position: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string | null;
+          name: string;
+          position?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          name?: string;
+          position?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      watchlist_items: {
+        Row: {
+          id: string;
+          watchlist_id: string;
+          symbol_id: string;
+          position: number;
+          notes: string | null;
+          target_price: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          watchlist_id: string;
+          symbol_id: string;
+          position?: number;
+          notes?: string | null;
+          target_price?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          watchlist_id?: string;
+          symbol_id?: string;
+          position?: number;
+          notes?: string | null;
+          target_price?: number | null;
+          created_at?: string;
+        };
+      };
+      price_alerts: {
+        Row: {
+          id: string;
+          user_id: string;
+          symbol_id: string;
+          operation_group_id: string | null;
+          alert_type: string;
+          threshold: number;
+          note: string | null;
+          is_active: boolean;
+          triggered_at: string | null;
+          triggered_price: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          symbol_id: string;
+          operation_group_id?: string | null;
+          alert_type: string;
+          threshold: number;
+          note?: string | null;
+          is_active?: boolean;
+          triggered_at?: string | null;
+          triggered_price?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          symbol_id?: string;
+          operation_group_id?: string | null;
+          alert_type?: string;
+          threshold?: number;
+          note?: string | null;
+          is_active?: boolean;
+          triggered_at?: string | null;
+          triggered_price?: number | null;
+          created_at?: string;
+        };
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          alert_id: string | null;
+          symbol_id: string | null;
+          title: string;
+          message: string;
+          price: number | null;
+          read_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          alert_id?: string | null;
+          symbol_id?: string | null;
+          title: string;
+          message: string;
+          price?: number | null;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          alert_id?: string | null;
+          symbol_id?: string | null;
+          title?: string;
+          message?: string;
+          price?: number | null;
+          read_at?: string | null;
+          created_at?: string;
+        };
+      };
+      price_bar_ingest_runs: {
+        Row: {
+          id: string;
+          triggered_by: string;
+          status: 'running' | 'completed' | 'failed';
+          interval: string;
+          days: number | null;
+          total_symbols: number;
+          processed: number;
+          succeeded: number;
+          failed: number;
+          bars: number;
+          cursor: string | null;
+          errors: { ticker: string; error: string }[];
+          lease_token: string | null;
+          started_at: string;
+          updated_at: string;
+          finished_at: string | null;
+          duration_ms: number | null;
+        };
+        Insert: {
+          id?: string;
+          triggered_by?: string;
+          status?: 'running' | 'completed' | 'failed';
+          interval?: string;
+          days?: number | null;
+          total_symbols?: number;
+          processed?: number;
+          succeeded?: number;
+          failed?: number;
+          bars?: number;
+          cursor?: string | null;
+          errors?: { ticker: string; error: string }[];
+          lease_token?: string | null;
+          started_at?: string;
+          updated_at?: string;
+          finished_at?: string | null;
+          duration_ms?: number | null;
+        };
+        Update: {
+          id?: string;
+          triggered_by?: string;
+          status?: 'running' | 'completed' | 'failed';
+          interval?: string;
+          days?: number | null;
+          total_symbols?: number;
+          processed?: number;
+          succeeded?: number;
+          failed?: number;
+          bars?: number;
+          cursor?: string | null;
+          errors?: { ticker: string; error: string }[];
+          lease_token?: string | null;
+          started_at?: string;
+          updated_at?: string;
+          finished_at?: string | null;
+          duration_ms?: number | null;
+        };
+      };
+      price_bars: {
+        Row: {
+          id: string;
+          symbol_id: string;
+          interval: string;
+          bar_time: string;
+          open: number;
+          high: number;
+          low: number;
+          close: number;
+          volume: number | null;
+          source: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          symbol_id: string;
+          interval: string;
+          bar_time: string;
+          open: number;
+          high: number;
+          low: number;
+          close: number;
+          volume?: number | null;
+          source?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          symbol_id?: string;
+          interval?: string;
+          bar_time?: string;
+          open?: number;
+          high?: number;
+          low?: number;
+          close?: number;
+          volume?: number | null;
+          source?: string;
+          created_at?: string;
+        };
+      };
+      fx_rates: {
+        Row: {
+          id: string;
+          currency: string;
+          rate: number;
+          rate_date: string;
+          source: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          currency: string;
+          rate: number;
+          rate_date: string;
+          source?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          currency?: string;
+          rate?: number;
+          rate_date?: string;
+          source?: string;
+          created_at?: string;
+        };
+      };
+      exchange_calendars: {
+        Row: {
+          code: string;
+          name: string;
+          timezone: string;
+          open_time: string;
+          close_time: string;
+          trading_days: number[];
+          created_at: string;
+        };
+        Insert: {
+          code: string;
+          name: string;
+          timezone: string;
+          open_time: string;
+          close_time: string;
+          trading_days?: number[];
+          created_at?: string;
+        };
+        Update: {
+          code?: string;
+          name?: string;
+          timezone?: string;
+          open_time?: string;
+          close_time?: string;
+          trading_days?: number[];
+          created_at?: string;
+        };
+      };
+      exchange_holidays: {
+        Row: {
+          id: string;
+          calendar_code: string;
+          holiday_date: string;
+          name: string;
+          close_time: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          calendar_code: string;
+          holiday_date: string;
+          name: string;
+          close_time?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          calendar_code?: string;
+          holiday_date?: string;
+          name?: string;
+          close_time?: string | null;
+          created_at?: string;
+        };
+      };
+      price_check_settings: {
+        Row: {
+          id: boolean;
+          max_jump_percent: number | null;
+          max_quote_age_minutes: number | null;
+          reject_zero_volume: boolean;
+          updated_at: string;
+        };
+        Insert: {
+          id?: boolean;
+          max_jump_percent?: number | null;
+          max_quote_age_minutes?: number | null;
+          reject_zero_volume?: boolean;
+          updated_at?: string;
+        };
+        Update: {
+          id?: boolean;
+          max_jump_percent?: number | null;
+          max_quote_age_minutes?: number | null;
+          reject_zero_volume?: boolean;
+          updated_at?: string;
+        };
+      };
+      price_update_log: {
+        Row: {
+          id: string;
+          symbol_id: string;
+          old_price: number | null;
+          new_price: number | null;
+          source: string;
+          triggered_by: string;
+          status: string;
+          error_message: string | null;
+          operation_group_id: string | null;
+          trigger_type: string | null;
+          run_id: string | null;
+          rejected_rules: string[] | null;
+          quote_time: string | null;
+          previous_close: number | null;
+          review_status: 'pending' | 'accepted' | 'discarded' | null;
+          reviewed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          symbol_id: string;
+          old_price?: number | null;
+          new_price?: number | null;
+          source?: string;
+          triggered_by: string;
+          status: string;
+          error_message?: string | null;
+          operation_group_id?: string | null;
+          trigger_type?: string | null;
+          run_id?: string | null;
+          rejected_rules?: string[] | null;
+          quote_time?: string | null;
+          previous_close?: number | null;
+          review_status?: 'pending' | 'accepted' | 'discarded' | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          symbol_id?: string;
+          old_price?: number | null;
+          new_price?: number | null;
+          source?: string;
+          triggered_by?: string;
+          status?: string;
+          error_message?: string | null;
+          operation_group_id?: string | null;
+          trigger_type?: string | null;
+          run_id?: string | null;
+          rejected_rules?: string[] | null;
+          quote_time?: string | null;
+          previous_close?: number | null;
+          review_status?: 'pending' | 'accepted' | 'discarded' | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+      };
+      price_update_runs: {
+        Row: {
+          id: string;
+          triggered_by: string;
+          status: 'running' | 'completed' | 'failed';
+          provider: string | null;
+          total_symbols: number;
+          processed: number;
+          succeeded: number;
+          failed: number;
+          skipped: number;
+          rejected: number;
+          retries: number;
+          triggered_orders: number;
+          alerts: number;
+          cursor: string | null;
+          errors: { ticker: string; error: string }[];
+          api_calls: Record<string, number>;
+          lease_token: string | null;
+          started_at: string;
+          updated_at: string;
+          finished_at: string | null;
+          duration_ms: number | null;
+        };
+        Insert: {
+          id?: string;
+          triggered_by?: string;
+          status?: 'running' | 'completed' | 'failed';
+          provider?: string | null;
+          total_symbols?: number;
+          processed?: number;
+          succeeded?: number;
+          failed?: number;
+          skipped?: number;
+          rejected?: number;
+          retries?: number;
+          triggered_orders?: number;
+          alerts?: number;
+          cursor?: string | null;
+          errors?: { ticker: string; error: string }[];
+          api_calls?: Record<string, number>;
+          lease_token?: string | null;
+          started_at?: string;
+          updated_at?: string;
+          finished_at?: string | null;
+          duration_ms?: number | null;
+        };
+        Update: {
+          id?: string;
+          triggered_by?: string;
+          status?: 'running' | 'completed' | 'failed';
+          provider?: string | null;
+          total_symbols?: number;
+          processed?: number;
+          succeeded?: number;
+          failed?: number;
+          skipped?: number;
+          rejected?: number;
+          retries?: number;
+          triggered_orders?: number;
+          alerts?: number;
+          cursor?: string | null;
+          errors?: { ticker: string; error: string }[];
+          api_calls?: Record<string, number>;
+          lease_token?: string | null;
+          started_at?: string;
+          updated_at?: string;
+          finished_at?: string | null;
+          duration_ms?: number | null;
+        };
+      };
+      scheduled_tasks: {
+        Row: {
+          task: string;
+          label: string;
+          description: string | null;
+          command: string;
+          created_at: string;
+        };
+        Insert: {
+          task: string;
+          label: string;
+          description?: string | null;
+          command: string;
+          created_at?: string;
+        };
+        Update: {
+          task?: string;
+          label?: string;
+          description?: string | null;
+          command?: string;
+          created_at?: string;
+        };
+      };
+      admin_users: {
+        Row: {
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          created_at?: string;
+        };
+      };
     };
   };
 }
\ No newline at end of file
@@ -0,0 +1,139 @@
+import type { Account, CashTransaction, Trade } from '../types';
+import { TradeStatus } from '../types';
+import { convertAmount, convertTrades, PIVOT_CURRENCY } from './currency';
+import type { FxRates } from './currency';
+
+export interface AccountBalance {
+  startingBalance: number;
+  netCashFlow: number; // Deposits, withdrawals, transfers, dividends and adjustments
+  realizedPnl: number; // Net of fees
+  unrealizedPnl: number; // Net of fees paid so far
+  balance: number; // Cash balance: starting balance + cash flow + realized P&L
+  equity: number; // Balance including open positions marked to market
+}
+
+// Realized P&L: from fully closed trades + closed portion of partially closed trades
+export const calculateRealizedPnl = (trades: Trade[]): number =>
+  trades.reduce((sum, trade) => {
+    if (trade.status === TradeStatus.CLOSED) {
+      return sum + (trade.pnl || 0);
+    } else if (trade.isPartiallyCloseD && trade.realizedPnl !== undefined) {
+      return sum + trade.realizedPnl;
+    }
+    return sum;
+  }, 0);
+
+// Unrealized P&L: from fully open trades + open portion of partially closed trades
+export const calculateUnrealizedPnl = (trades: Trade[]): number =>
+  trades.reduce((sum, trade) => {
+    if (trade.status === TradeStatus.OPEN && !trade.isPartiallyCloseD) {
+      return sum + (trade.pnl || 0);
+    } else if (trade.isPartiallyCloseD && trade.unrealizedPnl !== undefined) {
+      return sum + trade.unrealizedPnl;
+    }
+    return sum;
+  }, 0);
+
+export const calculateNetCashFlow = (transactions: CashTransaction[]): number =>
+  transactions.reduce((sum, transaction) => sum + transaction.amount, 0);
+
+// Expressed in the account currency, trade P&L is converted from the instrument currency
+export const calculateAccountBalance = (
+  account: Account,
+  trades: Trade[],
+  transactions: CashTransaction[],
+  rates: FxRates = {}
+): AccountBalance => {
+  const accountTrades = convertTrades(trades.filter(trade => trade.accountId === account.id), account.currency, rates);
+  const accountTransactions = transactions.filter(transaction => transaction.accountId === account.id);
+
+  const netCashFlow = calculateNetCashFlow(accountTransactions);
+  const realizedPnl = calculateRealizedPnl(accountTrades);
+  const unrealizedPnl = calculateUnrealizedPnl(accountTrades);
+  const balance = account.startingBalance + netCashFlow + realizedPnl;
+
+  return {
+    startingBalance: account.startingBalance,
+    netCashFlow,
+    realizedPnl,
+    unrealizedPnl,
+    balance,
+    equity: balance + unrealizedPnl,
+  };
+};
+
+// Combined balance of several accounts (e.g. the Dashboard totals) in the given currency
+export const calculateTotalBalance = (
+  accounts: Account[],
+  trades: Trade[],
+  transactions: CashTransaction[],
+  rates: FxRates = {},
+  currency = PIVOT_CURRENCY
+): AccountBalance =>
+  accounts
+    .map(account => {
+      const balance = calculateAccountBalance(account, trades, transactions, rates);
+      const convert = (amount: number) => convertAmount(amount, account.currency, currency, rates);
+      return {
+        startingBalance: convert(balance.startingBalance),
+        netCashFlow: convert(balance.netCashFlow),
+        realizedPnl: convert(balance.realizedPnl),
+        unrealizedPnl: convert(balance.unrealizedPnl),
+        balance: convert(balance.balance),
+        equity: convert(balance.equity),
+      };
+    })
+    .reduce<AccountBalance>((total, balance) => ({
+      startingBalance: total.startingBalance + balance.startingBalance,
+      netCashFlow: total.netCashFlow + balance.netCashFlow,
+      realizedPnl: total.realizedPnl + balance.realizedPnl,
+      unrealizedPnl: total.unrealizedPnl + balance.unrealizedPnl,
+      balance: total.balance + balance.balance,
+      equity: total.equity + balance.equity,
+    }), { startingBalance: 0, netCashFlow: 0, realizedPnl: 0, unrealizedPnl: 0, balance: 0, equity: 0 });
+
+export interface AccountMargin {
+  equity: number;
+  usedMargin: number; // Margin held by open positions at their fill leverage
+  freeMargin: number; // Equity not tied up as margin
+  marginLevel: number | null; // Equity / used margin in %, null without open positions
+  marginCallLevel: number;
+  isMarginCall: boolean;
+}
+
+// Expressed in the account currency
+export const calculateAccountMargin = (
+  account: Account,
+  trades: Trade[],
+  transactions: CashTransaction[],
+  rates: FxRates = {}
+): AccountMargin => {
+  const { equity } = calculateAccountBalance(account, trades, transactions, rates);
+  const openTrades = trades.filter(trade => trade.accountId === account.id && trade.status === TradeStatus.OPEN);
+  const usedMargin = convertTrades(openTrades, account.currency, rates)
+    .reduce((sum, trade) => sum + (trade.marginUsed || 0), 0);
+  const marginLevel = usedMargin > 0 ? (equity / usedMargin) * 100 : null;
+
+  return {
+    equity,
+    usedMargin,
+    freeMargin: equity - usedMargin,
+    marginLevel,
+    marginCallLevel: account.marginCallLevel,
+    isMarginCall: marginLevel !== null && marginLevel <= account.marginCallLevel,
+  };
+};
+
+export const calculateAccountMargins = (
+  accounts: Account[],
+  trades: Trade[],
+  transactions: CashTransaction[],
+  rates: FxRates = {}
+): Record<string, AccountMargin> =>
+  Object.fromEntries(accounts.map(account => [account.id, calculateAccountMargin(account, trades, transactions, rates)]));
+
+// Margin level after adding a position that needs `additionalMargin`
+export const projectMarginLevel = (margin: AccountMargin, additionalMargin: number): number | null => {
+  const usedMargin = margin.usedMargin + additionalMargin;
+  return usedMargin > 0 ? (margin.equity / usedMargin) * 100 : null;
+};
@@ -0,0 +1,70 @@
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+
+export const getSession = async (): Promise<Session | null> => {
+  const { data, error } = await supabase.auth.getSession();
+
+  if (error) {
+    console.error('Error fetching session:', error);
+    throw error;
+  }
+
+  return data.session;
+};
+
+export const getCurrentUser = async (): Promise<User | null> => {
+  const session = await getSession();
+  return session?.user ?? null;
+};
+
+// Returns the unsubscribe function, call it when the listener unmounts
+export const onSessionChange = (callback: (session: Session | null) => void): (() => void) => {
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => callback(session));
+  return () => data.subscription.unsubscribe();
+};
+
+export const signInWithPassword = async (email: string, password: string): Promise<void> => {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+
+  if (error) {
+    console.error('Error signing in:', error);
+    throw error;
+  }
+};
+
+// Resolves to true when the project requires the address to be confirmed before signing in
+export const signUpWithPassword = async (email: string, password: string): Promise<boolean> => {
+  const { data, error } = await supabase.auth.signUp({
+    email,
+    password,
+    options: { emailRedirectTo: window.location.origin },
+  });
+
+  if (error) {
+    console.error('Error signing up:', error);
+    throw error;
+  }
+
+  return !data.session;
+};
+
+export const sendMagicLink = async (email: string): Promise<void> => {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.origin },
+  });
+
+  if (error) {
+    console.error('Error sending magic link:', error);
+    throw error;
+  }
+};
+
+export const signOut = async (): Promise<void> => {
+  const { error } = await supabase.auth.signOut();
+
+  if (error) {
+    console.error('Error signing out:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,399 @@
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/supabase';
+
+type Tables = Database['public']['Tables'];
+
+export const BACKUP_FORMAT = 'cfd-tracker-backup';
+export const BACKUP_VERSION = 4;
+
+// Parents before children, so every restored foreign key points at an inserted row.
+// intelligence_data, news_items, fx_rates and price_bars are provider data and are not backed up,
+// nor is the price update history, which only the Edge Functions write. Archives up to version 2
+// carry price_update_log, it is ignored on restore.
+export const BACKUP_TABLES = [
+  'symbols',
+  'profiles',
+  'accounts',
+  'operation_groups',
+  'operation_fills',
+  'fill_lot_matches',
+  'financing_ledger',
+  'account_cash_transactions',
+  'watchlists',
+  'watchlist_items',
+  'price_alerts',
+  'notifications',
+] as const;
+
+export type BackupTable = typeof BACKUP_TABLES[number];
+
+export type BackupRows = { [T in BackupTable]: Tables[T]['Row'][] };
+
+// Shared by every signed-in user rather than owned by one, so they need not be empty before
+// a restore. Symbols already in the project are reused by ticker instead of inserted again.
+const SHARED_TABLES: BackupTable[] = ['symbols'];
+
+const SYMBOL_PRICE_COLUMNS = ['latest_price', 'previous_close', 'price_updated_at', 'price_as_of'] as const;
+
+// Archive version that first contained each table added after version 1
+const TABLE_SINCE_VERSION: Partial<Record<BackupTable, number>> = {
+  watchlists: 2,
+  watchlist_items: 2,
+  price_alerts: 4,
+  notifications: 4,
+};
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  tables: BackupRows;
+}
+
+export interface BackupValidationReport {
+  valid: boolean;
+  version: number | null;
+  createdAt: string | null;
+  rowCounts: Record<BackupTable, number>; // Rows that will be restored
+  errors: string[]; // Problems that prevent a restore
+  warnings: string[]; // Rows that will be skipped or links that will be cleared
+}
+
+export interface RestoreResult {
+  report: BackupValidationReport;
+  inserted: Record<BackupTable, number>;
+}
+
+interface ForeignKey<T extends BackupTable> {
+  column: keyof Tables[T]['Row'] & string;
+  table: BackupTable;
+  nullable: boolean; // Dangling nullable links are cleared, dangling required links skip the row
+}
+
+const FOREIGN_KEYS: { [T in BackupTable]: ForeignKey<T>[] } = {
+  symbols: [],
+  profiles: [],
+  accounts: [],
+  operation_groups: [
+    { column: 'account_id', table: 'accounts', nullable: false },
+    { column: 'symbol_id', table: 'symbols', nullable: false },
+    { column: 'reversed_from_id', table: 'operation_groups', nullable: true },
+  ],
+  operation_fills: [
+    { column: 'group_id', table: 'operation_groups', nullable: false },
+  ],
+  fill_lot_matches: [
+    { column: 'close_fill_id', table: 'operation_fills', nullable: false },
+    { column: 'open_fill_id', table: 'operation_fills', nullable: false },
+  ],
+  financing_ledger: [
+    { column: 'group_id', table: 'operation_groups', nullable: false },
+  ],
+  account_cash_transactions: [
+    { column: 'account_id', table: 'accounts', nullable: false },
+    { column: 'counterparty_account_id', table: 'accounts', nullable: true },
+  ],
+  watchlists: [],
+  watchlist_items: [
+    { column: 'watchlist_id', table: 'watchlists', nullable: false },
+    { column: 'symbol_id', table: 'symbols', nullable: false },
+  ],
+  price_alerts: [
+    { column: 'symbol_id', table: 'symbols', nullable: false },
+    { column: 'operation_group_id', table: 'operation_groups', nullable: true },
+  ],
+  notifications: [
+    { column: 'alert_id', table: 'price_alerts', nullable: true },
+    { column: 'symbol_id', table: 'symbols', nullable: true },
+  ],
+};
+
+const PAGE_SIZE = 1000;
+const INSERT_BATCH_SIZE = 500;
+
+const emptyCounts = (): Record<BackupTable, number> =>
+  BACKUP_TABLES.reduce((counts, table) => ({ ...counts, [table]: 0 }), {} as Record<BackupTable, number>);
+
+// ============================
+// EXPORT
+// ============================
+
+const fetchAllRows = async <T extends BackupTable>(table: T): Promise<BackupRows[T]> => {
+  const rows = [] as BackupRows[T];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error(`Error exporting ${table}:`, error);
+      throw error;
+    }
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+};
+
+const exportTable = async <T extends BackupTable>(tables: BackupRows, table: T): Promise<void> => {
+  tables[table] = await fetchAllRows(table);
+};
+
+export const createBackup = async (): Promise<BackupArchive> => {
+  const tables = {} as BackupRows;
+
+  for (const table of BACKUP_TABLES) {
+    await exportTable(tables, table);
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    tables,
+  };
+};
+
+// ============================
+// VALIDATION AND ID REMAPPING
+// ============================
+
+type RestoreRows = { [T in BackupTable]: Tables[T]['Insert'][] };
+
+interface RestorePlan {
+  report: BackupValidationReport;
+  rows: RestoreRows;
+  // Self references are inserted as null and linked once the whole table exists
+  deferredLinks: { table: BackupTable; id: string; column: string; value: string }[];
+}
+
+const addRow = <T extends BackupTable>(rows: RestoreRows, table: T, row: Tables[T]['Insert']) => {
+  rows[table].push(row);
+};
+
+// Every row gets a fresh ID. Foreign keys are rewritten through the old → new maps of the
+// tables restored before it, which is why BACKUP_TABLES is in dependency order.
+const planRestore = (archive: unknown, existingSymbolIds = new Map<string, string>()): RestorePlan => {
+  const report: BackupValidationReport = {
+    valid: false,
+    version: null,
+    createdAt: null,
+    rowCounts: emptyCounts(),
+    errors: [],
+    warnings: [],
+  };
+  const plan: RestorePlan = { report, rows: {} as RestoreRows, deferredLinks: [] };
+  BACKUP_TABLES.forEach(table => { plan.rows[table] = []; });
+
+  const candidate = archive as Partial<BackupArchive> | null;
+  if (!candidate || typeof candidate !== 'object' || candidate.format !== BACKUP_FORMAT) {
+    report.errors.push('Not a CFD Tracker backup archive');
+    return plan;
+  }
+
+  report.version = typeof candidate.version === 'number' ? candidate.version : null;
+  report.createdAt = candidate.createdAt || null;
+
+  if (report.version === null || report.version > BACKUP_VERSION) {
+    report.errors.push(`Unsupported backup version ${candidate.version} (this app reads up to version ${BACKUP_VERSION})`);
+    return plan;
+  }
+
+  const tables = (candidate.tables || {}) as Partial<Record<BackupTable, unknown>>;
+  const idMaps = {} as Record<BackupTable, Map<string, string>>;
+
+  for (const table of BACKUP_TABLES) {
+    const sourceRows = tables[table] ?? (report.version < (TABLE_SINCE_VERSION[table] ?? 1) ? [] : undefined);
+    idMaps[table] = new Map();
+
+    if (!Array.isArray(sourceRows)) {
+      report.errors.push(`Table ${table} is missing from the archive`);
+      continue;
+    }
+
+    // Assign new IDs up front so rows can reference earlier rows of the same table
+    const rows = sourceRows as BackupRows[typeof table];
+    for (const row of rows) {
+      if (!row || typeof row.id !== 'string') {
+        report.errors.push(`Table ${table} contains a row without an ID`);
+        break;
+      }
+      if (idMaps[table].has(row.id)) {
+        report.errors.push(`Table ${table} contains duplicate ID ${row.id}`);
+        break;
+      }
+      const existingId = table === 'symbols' && 'ticker' in row ? existingSymbolIds.get(row.ticker) : undefined;
+      idMaps[table].set(row.id, existingId || crypto.randomUUID());
+    }
+
+    let skipped = 0;
+    let cleared = 0;
+    let reused = 0;
+
+    for (const row of rows) {
+      const newId = idMaps[table].get(row.id);
+      if (!newId) continue;
+
+      if (table === 'symbols' && 'ticker' in row && existingSymbolIds.get(row.ticker) === newId) {
+        reused++;
+        continue;
+      }
+
+      // Restored rows belong to whoever runs the restore, user_id defaults to auth.uid().
+      // Only the price updater writes symbol prices, the next run fills them in.
+      const dropped: readonly string[] = table === 'symbols' ? ['user_id', ...SYMBOL_PRICE_COLUMNS] : ['user_id'];
+      const fields = Object.fromEntries(Object.entries(row).filter(([column]) => !dropped.includes(column)));
+      const links: Record<string, string | null> = {};
+      let keep = true;
+
+      for (const foreignKey of FOREIGN_KEYS[table]) {
+        const oldValue = (row as Record<string, unknown>)[foreignKey.column];
+        if (oldValue === null || oldValue === undefined) continue;
+
+        const newValue = typeof oldValue === 'string' ? idMaps[foreignKey.table].get(oldValue) : undefined;
+        if (!newValue) {
+          if (foreignKey.nullable) {
+            links[foreignKey.column] = null;
+            cleared++;
+          } else {
+            keep = false;
+          }
+        } else if (foreignKey.table === table) {
+          links[foreignKey.column] = null;
+          plan.deferredLinks.push({ table, id: newId, column: foreignKey.column, value: newValue });
+        } else {
+          links[foreignKey.column] = newValue;
+        }
+      }
+
+      if (keep) {
+        addRow(plan.rows, table, { ...fields, ...links, id: newId } as Tables[typeof table]['Insert']);
+      } else {
+        // Forget the ID so rows referencing this one are skipped too
+        idMaps[table].delete(row.id);
+        skipped++;
+      }
+    }
+
+    // A user has a single profile, the most recently updated one of the archive is restored
+    if (table === 'profiles' && plan.rows.profiles.length > 1) {
+      const extra = plan.rows.profiles.length - 1;
+      plan.rows.profiles = [...plan.rows.profiles]
+        .sort((a, b) => (b.updated_at || '').localeCompare(a.updated_at || ''))
+        .slice(0, 1);
+      report.warnings.push(`${extra} extra row(s) in profiles will be skipped, only the latest profile is restored`);
+    }
+
+    // Transfer legs share a transfer_id that is not a foreign key, give each pair a new one
+    if (table === 'account_cash_transactions') {
+      const transferIds = new Map<string, string>();
+      plan.rows.account_cash_transactions.forEach(row => {
+        if (!row.transfer_id) return;
+        if (!transferIds.has(row.transfer_id)) transferIds.set(row.transfer_id, crypto.randomUUID());
+        row.transfer_id = transferIds.get(row.transfer_id);
+      });
+    }
+
+    report.rowCounts[table] = plan.rows[table].length;
+    if (skipped > 0) {
+      report.warnings.push(`${skipped} row(s) in ${table} reference missing records and will be skipped`);
+    }
+    if (reused > 0) {
+      report.warnings.push(`${reused} row(s) in ${table} already exist and will be reused`);
+    }
+    if (cleared > 0) {
+      report.warnings.push(`${cleared} optional link(s) in ${table} point to missing records and will be cleared`);
+    }
+  }
+
+  report.valid = report.errors.length === 0;
+  return plan;
+};
+
+export const validateBackup = (archive: unknown): BackupValidationReport => planRestore(archive).report;
+
+// ============================
+// RESTORE
+// ============================
+
+const countRows = async (table: BackupTable): Promise<number> => {
+  const { count, error } = await supabase
+    .from(table)
+    .select('id', { count: 'exact', head: true });
+
+  if (error) {
+    console.error(`Error counting ${table}:`, error);
+    throw error;
+  }
+
+  return count || 0;
+};
+
+const fetchExistingSymbolIds = async (): Promise<Map<string, string>> => {
+  const symbols = await fetchAllRows('symbols');
+  return new Map(symbols.map(symbol => [symbol.ticker, symbol.id]));
+};
+
+const insertBatch = <T extends BackupTable>(table: T, batch: RestoreRows[T]) => {
+  // Nothing references a profile, so an existing one keeps its ID
+  if (table === 'profiles') {
+    const profiles = (batch as RestoreRows['profiles']).map(({ id: _id, ...profile }) => profile);
+    return supabase.from('profiles').upsert(profiles, { onConflict: 'user_id' });
+  }
+  return supabase.from(table).insert(batch);
+};
+
+// Restores into an empty book only, merging into existing data would duplicate it
+export const restoreBackup = async (archive: unknown): Promise<RestoreResult> => {
+  const plan = planRestore(archive, await fetchExistingSymbolIds());
+  if (!plan.report.valid) {
+    throw new Error(`Backup is not valid: ${plan.report.errors.join('; ')}`);
+  }
+
+  // Row-level security limits the counts to the signed-in user's own rows. The profile holds
+  // preferences only and is overwritten.
+  for (const table of BACKUP_TABLES) {
+    if (SHARED_TABLES.includes(table) || table === 'profiles') continue;
+    const existing = await countRows(table);
+    if (existing > 0) {
+      throw new Error(`Restore requires an empty book, but ${table} already has ${existing} row(s)`);
+    }
+  }
+
+  const inserted = emptyCounts();
+
+  for (const table of BACKUP_TABLES) {
+    const rows = plan.rows[table];
+
+    for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+      const batch = rows.slice(start, start + INSERT_BATCH_SIZE);
+      const { error } = await insertBatch(table, batch);
+
+      if (error) {
+        console.error(`Error restoring ${table}:`, error);
+        throw new Error(`Restore stopped at ${table} after ${inserted[table]} row(s): ${error.message}`);
+      }
+
+      inserted[table] += Math.min(INSERT_BATCH_SIZE, rows.length - start);
+    }
+  }
+
+  for (const link of plan.deferredLinks) {
+    const { error } = await supabase
+      .from(link.table)
+      .update({ [link.column]: link.value })
+      .eq('id', link.id);
+
+    if (error) {
+      console.error(`Error linking ${link.table}.${link.column}:`, error);
+      throw error;
+    }
+  }
+
+  return { report: plan.report, inserted };
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseBrokerStatement, parseNumber } from './brokerImport';
+
+describe('parseNumber', () => {
+  it('reads the last of two separators as the decimal point', () => {
+    expect(parseNumber('USD 1,234.50')).toBe(1234.5);
+    expect(parseNumber('1.234,50 €')).toBe(1234.5);
+    expect(parseNumber('1,234,567.89')).toBe(1234567.89);
+  });
+
+  it('reads a lone comma as a decimal point unless it groups thousands', () => {
+    expect(parseNumber('-12,5')).toBe(-12.5);
+    expect(parseNumber('0,125')).toBe(0.125);
+    expect(parseNumber('1,234')).toBe(1234);
+    expect(parseNumber('1.234.567')).toBe(1234567);
+    expect(parseNumber('$150.25')).toBe(150.25);
+  });
+
+  it('returns NaN without digits', () => {
+    expect(parseNumber('')).toBeNaN();
+    expect(parseNumber('-')).toBeNaN();
+  });
+});
+
+describe('parseBrokerStatement', () => {
+  it('keeps identical Revolut executions apart', () => {
+    const statement = parseBrokerStatement([
+      'Date,Ticker,Type,Quantity,Price per share,Total Amount',
+      '2025-01-02T10:00:00Z,AAPL,BUY - MARKET,5,100,500',
+      '2025-01-02T10:00:00Z,AAPL,BUY - MARKET,5,100,500',
+    ].join('\n'));
+
+    expect(statement.broker).toBe('revolut');
+    expect(statement.fills).toHaveLength(2);
+    expect(statement.fills[1].externalId).toBe(`${statement.fills[0].externalId}:2`);
+  });
+});
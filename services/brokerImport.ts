@@ -0,0 +1,411 @@
+import { TradeStatus, TradeType } from '../types';
+
+export type BrokerId = 'revolut' | 'xtb';
+
+export const BROKER_LABELS: Record<BrokerId, string> = {
+  revolut: 'Revolut',
+  xtb: 'XTB',
+};
+
+// A single execution parsed from a broker statement row
+export interface ImportedFill {
+  externalId: string; // Broker reference used to deduplicate re-imports
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  fee: number; // Commission charged on the execution
+  financing: number; // Overnight financing booked on the execution, positive is a cost
+  timestamp: string; // ISO timestamp
+  rowNumber: number;
+}
+
+export interface ImportIssue {
+  rowNumber: number;
+  message: string;
+}
+
+export interface BrokerStatement {
+  broker: BrokerId;
+  fills: ImportedFill[];
+  skippedRows: number; // Rows that are not trades (deposits, dividends, ...)
+  issues: ImportIssue[];
+}
+
+// A fill as it will be stored in operation_fills
+export interface ImportedOperationFill {
+  externalId: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  openFee: number;
+  closeFee: number;
+  nightFee: number;
+  timestamp: string;
+}
+
+// Fills of one symbol from flat to flat, stored as one operation_groups row
+export interface ImportedOperation {
+  key: string;
+  symbol: string;
+  tradeType: TradeType;
+  status: TradeStatus;
+  openAt: string;
+  closedAt?: string;
+  fills: ImportedOperationFill[];
+}
+
+type CsvRow = Record<string, string>;
+
+const QUANTITY_EPSILON = 1e-9;
+
+// ============================
+// CSV PARSING
+// ============================
+
+const detectDelimiter = (headerLine: string): string => {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+};
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and line breaks inside quotes
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const getField = (row: CsvRow, ...aliases: string[]): string => {
+  for (const alias of aliases) {
+    const value = row[alias];
+    if (value !== undefined && value.trim() !== '') return value.trim();
+  }
+  return '';
+};
+
+// Accepts "USD 1,234.50", "1.234,50 €", "$150.25", "-12,5", "1 234,5" and similar broker
+// formats. With both separators the last one is the decimal point; a lone separator that
+// repeats, or a comma followed by exactly three digits after a non-zero integer part, groups
+// thousands.
+export const parseNumber = (value: string): number => {
+  let cleaned = value.replace(/[^0-9,.\-]/g, '');
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    const thousands = lastComma > lastDot ? '.' : ',';
+    cleaned = cleaned.split(thousands).join('').replace(',', '.');
+  } else if (lastComma !== -1 || lastDot !== -1) {
+    const separator = lastComma !== -1 ? ',' : '.';
+    const parts = cleaned.split(separator);
+    const groupsThousands = parts.length > 2 || (
+      separator === ',' && parts[1].length === 3 && /[1-9]/.test(parts[0])
+    );
+    cleaned = groupsThousands ? parts.join('') : parts.join('.');
+  }
+
+  return cleaned === '' || cleaned === '-' ? NaN : parseFloat(cleaned);
+};
+
+// Accepts ISO timestamps and day-first dates ("03.11.2025 14:30:12", "03/11/2025 14:30")
+export const parseTimestamp = (value: string): string | null => {
+  const dayFirst = value.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  const date = dayFirst
+    ? new Date(
+        Number(dayFirst[3]),
+        Number(dayFirst[2]) - 1,
+        Number(dayFirst[1]),
+        Number(dayFirst[4] || 0),
+        Number(dayFirst[5] || 0),
+        Number(dayFirst[6] || 0)
+      )
+    : new Date(value);
+
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+// ============================
+// BROKER PROFILES
+// ============================
+
+interface BrokerProfile {
+  detect: (headers: string[]) => boolean;
+  // Returns null for rows that are not trades
+  parseRow: (row: CsvRow) => Omit<ImportedFill, 'rowNumber'>[] | null;
+}
+
+// Revolut trading account statement: one row per execution, no broker transaction ID
+const revolutProfile: BrokerProfile = {
+  detect: headers => headers.includes('ticker') && headers.includes('price per share'),
+  parseRow: row => {
+    const type = getField(row, 'type').toUpperCase();
+    const side = type.startsWith('BUY') ? 'buy' : type.startsWith('SELL') ? 'sell' : null;
+    if (!side) return null;
+
+    const symbol = getField(row, 'ticker').toUpperCase();
+    const quantity = Math.abs(parseNumber(getField(row, 'quantity')));
+    const price = parseNumber(getField(row, 'price per share'));
+    const timestamp = parseTimestamp(getField(row, 'date'));
+    const fee = parseNumber(getField(row, 'fee', 'fees', 'commission'));
+
+    if (!symbol) throw new Error('Missing ticker');
+    if (!(quantity > 0)) throw new Error('Invalid quantity');
+    if (!(price > 0)) throw new Error('Invalid price');
+    if (!timestamp) throw new Error('Invalid date');
+
+    // Identical executions of one statement are told apart by their order in parseBrokerStatement
+    return [{
+      externalId: `revolut:${timestamp}:${symbol}:${side}:${quantity}:${price}`,
+      symbol,
+      side,
+      quantity,
+      price,
+      fee: isNaN(fee) ? 0 : Math.abs(fee),
+      financing: 0,
+      timestamp,
+    }];
+  },
+};
+
+// XTB position history: one row per position with its open and (if closed) close leg.
+// Swap is only taken from closed positions, open positions accrue financing through the ledger.
+const xtbProfile: BrokerProfile = {
+  detect: headers => headers.includes('position') && headers.includes('open price'),
+  parseRow: row => {
+    const type = getField(row, 'type').toUpperCase();
+    const side = type.startsWith('BUY') ? 'buy' : type.startsWith('SELL') ? 'sell' : null;
+    if (!side) return null;
+
+    const position = getField(row, 'position');
+    const symbol = getField(row, 'symbol').toUpperCase().replace(/\.[A-Z]{2}(_\d+)?$/, '');
+    const quantity = Math.abs(parseNumber(getField(row, 'volume')));
+    const openPrice = parseNumber(getField(row, 'open price'));
+    const openTime = parseTimestamp(getField(row, 'open time'));
+    const commission = parseNumber(getField(row, 'commission'));
+    const swap = parseNumber(getField(row, 'swap', 'rollover'));
+
+    if (!position) throw new Error('Missing position number');
+    if (!symbol) throw new Error('Missing symbol');
+    if (!(quantity > 0)) throw new Error('Invalid volume');
+    if (!(openPrice > 0)) throw new Error('Invalid open price');
+    if (!openTime) throw new Error('Invalid open time');
+
+    const fills: Omit<ImportedFill, 'rowNumber'>[] = [{
+      externalId: `xtb:${position}:open`,
+      symbol,
+      side,
+      quantity,
+      price: openPrice,
+      fee: isNaN(commission) ? 0 : Math.abs(commission),
+      financing: 0,
+      timestamp: openTime,
+    }];
+
+    const closePriceField = getField(row, 'close price');
+    const closeTimeField = getField(row, 'close time');
+    if (closePriceField && closeTimeField) {
+      const closePrice = parseNumber(closePriceField);
+      const closeTime = parseTimestamp(closeTimeField);
+      if (!(closePrice > 0)) throw new Error('Invalid close price');
+      if (!closeTime) throw new Error('Invalid close time');
+
+      fills.push({
+        externalId: `xtb:${position}:close`,
+        symbol,
+        side: side === 'buy' ? 'sell' : 'buy',
+        quantity,
+        price: closePrice,
+        fee: 0,
+        financing: isNaN(swap) ? 0 : -swap,
+        timestamp: closeTime,
+      });
+    }
+
+    return fills;
+  },
+};
+
+const BROKER_PROFILES: Record<BrokerId, BrokerProfile> = {
+  revolut: revolutProfile,
+  xtb: xtbProfile,
+};
+
+export const detectBroker = (headers: string[]): BrokerId | null => {
+  const normalized = headers.map(normalizeHeader);
+  const match = (Object.keys(BROKER_PROFILES) as BrokerId[]).find(id => BROKER_PROFILES[id].detect(normalized));
+  return match || null;
+};
+
+export const parseBrokerStatement = (text: string, broker?: BrokerId): BrokerStatement => {
+  const [headerRow, ...dataRows] = parseCsv(text);
+  if (!headerRow) {
+    throw new Error('The file is empty');
+  }
+
+  const detected = broker || detectBroker(headerRow);
+  if (!detected) {
+    throw new Error('Unrecognized statement format. Export the trade history as CSV from Revolut or XTB.');
+  }
+
+  const headers = headerRow.map(normalizeHeader);
+  const profile = BROKER_PROFILES[detected];
+  const fills: ImportedFill[] = [];
+  const issues: ImportIssue[] = [];
+  let skippedRows = 0;
+
+  dataRows.forEach((cells, index) => {
+    const rowNumber = index + 2; // 1-based, after the header
+    const row: CsvRow = {};
+    headers.forEach((header, column) => {
+      row[header] = cells[column] ?? '';
+    });
+
+    try {
+      const parsed = profile.parseRow(row);
+      if (!parsed) {
+        skippedRows++;
+        return;
+      }
+      parsed.forEach(fill => fills.push({ ...fill, rowNumber }));
+    } catch (error) {
+      issues.push({ rowNumber, message: error instanceof Error ? error.message : 'Invalid row' });
+    }
+  });
+
+  // A statement without transaction IDs can hold identical executions, e.g. an order filled in
+  // equal lots. The repeats get their position among them, so a re-import of the same
+  // statement still matches every fill while none is taken for a duplicate of another.
+  const occurrences = new Map<string, number>();
+  fills.forEach(fill => {
+    const occurrence = (occurrences.get(fill.externalId) ?? 0) + 1;
+    occurrences.set(fill.externalId, occurrence);
+    if (occurrence > 1) fill.externalId = `${fill.externalId}:${occurrence}`;
+  });
+
+  return { broker: detected, fills, skippedRows, issues };
+};
+
+// ============================
+// GROUPING
+// ============================
+
+const toOperationFill = (fill: ImportedFill, quantity: number, opening: boolean, externalId = fill.externalId): ImportedOperationFill => {
+  const share = quantity / fill.quantity;
+  return {
+    externalId,
+    side: fill.side,
+    quantity,
+    price: fill.price,
+    openFee: opening ? fill.fee * share : 0,
+    closeFee: opening ? 0 : fill.fee * share,
+    nightFee: fill.financing * share,
+    timestamp: fill.timestamp,
+  };
+};
+
+// Walks each symbol's fills in time order and starts a new operation whenever the net
+// position returns to flat. A fill that crosses flat is split into a closing and an opening leg.
+export const groupFillsIntoOperations = (fills: ImportedFill[]): ImportedOperation[] => {
+  const bySymbol = new Map<string, ImportedFill[]>();
+  fills.forEach(fill => {
+    bySymbol.set(fill.symbol, [...(bySymbol.get(fill.symbol) || []), fill]);
+  });
+
+  const operations: ImportedOperation[] = [];
+
+  bySymbol.forEach((symbolFills, symbol) => {
+    const ordered = [...symbolFills].sort((a, b) =>
+      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime() || a.rowNumber - b.rowNumber
+    );
+
+    let current: ImportedOperation | null = null;
+    let net = 0;
+
+    const start = (fill: ImportedFill, quantity: number, externalId?: string) => {
+      current = {
+        key: externalId || fill.externalId,
+        symbol,
+        tradeType: fill.side === 'buy' ? TradeType.LONG : TradeType.SHORT,
+        status: TradeStatus.OPEN,
+        openAt: fill.timestamp,
+        fills: [toOperationFill(fill, quantity, true, externalId)],
+      };
+      operations.push(current);
+      net = fill.side === 'buy' ? quantity : -quantity;
+    };
+
+    ordered.forEach(fill => {
+      const signed = fill.side === 'buy' ? fill.quantity : -fill.quantity;
+
+      if (!current || Math.abs(net) < QUANTITY_EPSILON) {
+        start(fill, fill.quantity);
+        return;
+      }
+
+      const operation = current as ImportedOperation;
+      if (Math.sign(signed) === Math.sign(net)) {
+        operation.fills.push(toOperationFill(fill, fill.quantity, true));
+        net += signed;
+        return;
+      }
+
+      const closing = Math.min(fill.quantity, Math.abs(net));
+      operation.fills.push(toOperationFill(fill, closing, false));
+      net += Math.sign(signed) * closing;
+
+      if (Math.abs(net) < QUANTITY_EPSILON) {
+        operation.status = TradeStatus.CLOSED;
+        operation.closedAt = fill.timestamp;
+      }
+
+      const excess = fill.quantity - closing;
+      if (excess > QUANTITY_EPSILON) {
+        start(fill, excess, `${fill.externalId}:reverse`);
+      }
+    });
+  });
+
+  return operations.sort((a, b) => new Date(a.openAt).getTime() - new Date(b.openAt).getTime());
+};
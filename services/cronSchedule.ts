@@ -0,0 +1,149 @@
+// Five-field cron expressions as pg_cron reads them, evaluated in UTC like the database
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }, // 0 and 7 are Sunday
+];
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>; // 0 = Sunday
+  // A field that does not start with '*' restricts the days; when both do, either may match
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+}
+
+// Previews stop looking this far ahead, so a schedule like Feb 31 ends the search
+const SEARCH_YEARS = 5;
+
+const parseNumber = (text: string, field: CronField): number => {
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`Invalid ${field.name} "${text}"`);
+  }
+  const value = parseInt(text, 10);
+  if (value < field.min || value > field.max) {
+    throw new Error(`The ${field.name} must be between ${field.min} and ${field.max}`);
+  }
+  return value;
+};
+
+const parseField = (text: string, field: CronField): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [rangeText, stepText, ...rest] = part.split('/');
+    if (rest.length > 0) {
+      throw new Error(`Invalid ${field.name} "${part}"`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+    if (rangeText !== '*') {
+      const [startText, endText, ...extra] = rangeText.split('-');
+      if (extra.length > 0) {
+        throw new Error(`Invalid ${field.name} range "${rangeText}"`);
+      }
+      start = parseNumber(startText, field);
+      // A single value with a step runs to the end of the field, as in 5/15
+      end = endText !== undefined ? parseNumber(endText, field) : stepText !== undefined ? field.max : start;
+      if (start > end) {
+        throw new Error(`The ${field.name} range ${rangeText} runs backwards`);
+      }
+    }
+
+    const step = stepText !== undefined ? parseInt(stepText, 10) : 1;
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new Error(`Invalid ${field.name} step "${stepText}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+export const parseCronExpression = (expression: string): CronSchedule => {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error('Use five fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictsDayOfMonth: !parts[2].startsWith('*'),
+    restrictsDayOfWeek: !parts[4].startsWith('*'),
+  };
+};
+
+const matchesDay = (schedule: CronSchedule, at: Date): boolean => {
+  const dayOfMonth = schedule.daysOfMonth.has(at.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(at.getUTCDay());
+  if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) return dayOfMonth || dayOfWeek;
+  if (schedule.restrictsDayOfMonth) return dayOfMonth;
+  if (schedule.restrictsDayOfWeek) return dayOfWeek;
+  return true;
+};
+
+// Next times the schedule fires after `from`, fewer when it stops firing within SEARCH_YEARS
+export const nextCronRuns = (expression: string, count = 5, from: Date = new Date()): Date[] => {
+  const schedule = parseCronExpression(expression);
+  const limit = new Date(from);
+  limit.setUTCFullYear(limit.getUTCFullYear() + SEARCH_YEARS);
+
+  const next = new Date(from);
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  const runs: Date[] = [];
+  while (runs.length < count && next < limit) {
+    if (!schedule.months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1, 0, 0);
+    } else {
+      runs.push(new Date(next));
+      next.setUTCMinutes(next.getUTCMinutes() + 1);
+    }
+  }
+
+  return runs;
+};
+
+// Why the expression cannot be saved, null when it is valid and fires at least once
+export const validateCronExpression = (expression: string): string | null => {
+  try {
+    return nextCronRuns(expression, 1).length === 0 ? 'The schedule never runs' : null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression';
+  }
+};
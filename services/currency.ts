@@ -0,0 +1,60 @@
+import type { Trade } from '../types';
+
+// Units of each currency per 1 USD, as stored in fx_rates. USD itself is implied.
+export type FxRates = Record<string, number>;
+
+export const PIVOT_CURRENCY = 'USD';
+
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'CHF', 'PLN', 'JPY'];
+
+const rateOf = (currency: string, rates: FxRates): number | undefined =>
+  currency === PIVOT_CURRENCY ? 1 : rates[currency];
+
+export const hasFxRate = (from: string, to: string, rates: FxRates): boolean =>
+  from === to || (rateOf(from, rates) !== undefined && rateOf(to, rates) !== undefined);
+
+// Cross rate through USD. Without a rate the amount is returned unconverted, the UI
+// flags currencies with missing rates instead of showing zero.
+export const convertAmount = (amount: number, from: string, to: string, rates: FxRates): number => {
+  if (from === to) return amount;
+  const fromRate = rateOf(from, rates);
+  const toRate = rateOf(to, rates);
+  if (!fromRate || !toRate) return amount;
+  return (amount / fromRate) * toRate;
+};
+
+const convertOptional = (amount: number | undefined, factor: number) =>
+  amount === undefined ? undefined : amount * factor;
+
+// Money amounts of a trade (P&L, fees, margin) converted from the instrument currency.
+// Prices stay in the instrument currency.
+export const convertTrade = (trade: Trade, to: string, rates: FxRates): Trade => {
+  const from = trade.currency || PIVOT_CURRENCY;
+  if (from === to) return trade;
+
+  const factor = convertAmount(1, from, to, rates);
+  return {
+    ...trade,
+    pnl: convertOptional(trade.pnl, factor),
+    realizedPnl: convertOptional(trade.realizedPnl, factor),
+    unrealizedPnl: convertOptional(trade.unrealizedPnl, factor),
+    marginUsed: convertOptional(trade.marginUsed, factor),
+    fees: trade.fees && {
+      open: trade.fees.open * factor,
+      close: trade.fees.close * factor,
+      night: trade.fees.night * factor,
+      total: trade.fees.total * factor,
+      financing: convertOptional(trade.fees.financing, factor),
+    },
+  };
+};
+
+export const convertTrades = (trades: Trade[], to: string, rates: FxRates): Trade[] =>
+  trades.map(trade => convertTrade(trade, to, rates));
+
+export const currencySymbolOf = (currency: string): string => {
+  const part = new Intl.NumberFormat('en-US', { style: 'currency', currency })
+    .formatToParts(0)
+    .find(p => p.type === 'currency');
+  return part?.value || `${currency} `;
+};
@@ -1,9 +1,23 @@
 import { supabase } from '../lib/supabase';
-import type { Account, Trade, WatchlistItem } from '../types';
+import type { Database } from '../lib/supabase';
+import type { Account, AppNotification, CashTransaction, CashTransactionType, LotMatchingMethod, PriceAlert, PriceAlertType, PriceBar, PriceBarInterval, PriceCheckSettings, ScheduledJob, ScheduledTask, Trade, Watchlist, WatchlistItem } from '../types';
 import { TradeStatus, TradeType } from '../types';
+import { buildTradeFromFills, calculateFillFees, DEFAULT_LEVERAGE, describeFills, estimateNightFees, nightsBeforeLedger, summarizeFills } from './positionEngine';
+import type { LotMatchRecord } from './positionEngine';
+import type { ImportedOperation, ImportedOperationFill } from './brokerImport';
+import { convertAmount, hasFxRate, PIVOT_CURRENCY } from './currency';
+import type { FxRates } from './currency';
+import type { EquityFill, EquityHistory, FinancingCharge } from './equityCurve';
+import { DEFAULT_CALENDAR_BY_CURRENCY } from './marketHours';
+import type { MarketCalendar } from './marketHours';
+import { providerOfSource } from './priceUpdateHealth';
+import type { PriceFetchAttempt, PriceUpdateHealthData, PriceUpdateRun } from './priceUpdateHealth';
+
+type Tables = Database['public']['Tables'];
 
 export interface TradeFill {
   id: string;
+  group_id: string;
   side: 'buy' | 'sell';
   quantity: number;
   price: number;
@@ -37,7 +51,12 @@ export const fetchAccounts = async (): Promise<Account[]> => {
     createdAt: account.created_at,
     status: (account.is_active ? 'active' : 'inactive') as 'active' | 'inactive',
     openCloseCommission: account.open_close_commission ?? 0.25,
-    nightCommission: account.night_commission ?? 7.0
+    nightCommission: account.night_commission ?? 7.0,
+    lotMatchingMethod: (account.lot_matching_method ?? 'fifo') as LotMatchingMethod,
+    financingTripleDay: account.financing_triple_day ?? null,
+    financingWeekends: account.financing_weekends ?? false,
+    marginCallLevel: account.margin_call_level ?? 100,
+    currency: account.currency ?? 'USD'
   }));
 };
 
@@ -50,7 +69,12 @@ export const createAccount = async (account: Omit<Account, 'id' | 'createdAt' |
       current_balance: account.startingBalance,
       is_active: true,
       open_close_commission: account.openCloseCommission ?? 0.25,
-      night_commission: account.nightCommission ?? 7.0
+      night_commission: account.nightCommission ?? 7.0,
+      lot_matching_method: account.lotMatchingMethod ?? 'fifo',
+      financing_triple_day: account.financingTripleDay === undefined ? 3 : account.financingTripleDay,
+      financing_weekends: account.financingWeekends ?? false,
+      margin_call_level: account.marginCallLevel ?? 100,
+      currency: account.currency ?? 'USD'
     })
     .select()
     .single();
@@ -67,7 +91,12 @@ export const createAccount = async (account: Omit<Account, 'id' | 'createdAt' |
     createdAt: data.created_at,
     status: 'active',
     openCloseCommission: data.open_close_commission ?? 0.25,
-    nightCommission: data.night_commission ?? 7.0
+    nightCommission: data.night_commission ?? 7.0,
+    lotMatchingMethod: (data.lot_matching_method ?? 'fifo') as LotMatchingMethod,
+    financingTripleDay: data.financing_triple_day ?? null,
+    financingWeekends: data.financing_weekends ?? false,
+    marginCallLevel: data.margin_call_level ?? 100,
+    currency: data.currency ?? 'USD'
   };
 };
 
@@ -151,6 +180,300 @@ export const updateAccountCommissions = async (
   console.log('Account commissions updated successfully:', accountId);
 };
 
+// Update how closing fills are matched against opening lots for an account
+export const updateAccountLotMatchingMethod = async (
+  accountId: string,
+  method: LotMatchingMethod
+): Promise<void> => {
+  const { error } = await supabase
+    .from('accounts')
+    .update({
+      lot_matching_method: method,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', accountId);
+
+  if (error) {
+    console.error('Error updating lot matching method:', error);
+    throw new Error(`Failed to update lot matching method: ${error.message}`);
+  }
+
+  console.log('Account lot matching method updated successfully:', accountId);
+};
+
+// Update the overnight financing rules used by the daily accrual job
+export const updateAccountFinancingRules = async (
+  accountId: string,
+  rules: { financingTripleDay: number | null; financingWeekends: boolean }
+): Promise<void> => {
+  if (rules.financingTripleDay !== null && (rules.financingTripleDay < 1 || rules.financingTripleDay > 7)) {
+    throw new Error('Triple charge day must be a weekday between 1 (Monday) and 7 (Sunday)');
+  }
+
+  const { error } = await supabase
+    .from('accounts')
+    .update({
+      financing_triple_day: rules.financingTripleDay,
+      financing_weekends: rules.financingWeekends,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', accountId);
+
+  if (error) {
+    console.error('Error updating financing rules:', error);
+    throw new Error(`Failed to update financing rules: ${error.message}`);
+  }
+
+  console.log('Account financing rules updated successfully:', accountId);
+};
+
+// Update the margin level (%) at which the account is considered in margin call
+export const updateAccountMarginCallLevel = async (accountId: string, marginCallLevel: number): Promise<void> => {
+  if (marginCallLevel < 0 || marginCallLevel > 1000) {
+    throw new Error('Margin call level must be between 0% and 1000%');
+  }
+
+  const { error } = await supabase
+    .from('accounts')
+    .update({
+      margin_call_level: marginCallLevel,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', accountId);
+
+  if (error) {
+    console.error('Error updating margin call level:', error);
+    throw new Error(`Failed to update margin call level: ${error.message}`);
+  }
+
+  console.log('Account margin call level updated successfully:', accountId);
+};
+
+// Update the currency the account balance and cash ledger are kept in
+export const updateAccountCurrency = async (accountId: string, currency: string): Promise<void> => {
+  // Cash movements are booked in the account currency, relabelling them would misstate the balance
+  const { count, error: countError } = await supabase
+    .from('account_cash_transactions')
+    .select('id', { count: 'exact', head: true })
+    .eq('account_id', accountId);
+
+  if (countError) {
+    console.error('Error counting cash transactions:', countError);
+    throw new Error(`Failed to update account currency: ${countError.message}`);
+  }
+
+  if (count) {
+    throw new Error('The currency of an account with cash movements cannot be changed');
+  }
+
+  const { error } = await supabase
+    .from('accounts')
+    .update({
+      currency,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', accountId);
+
+  if (error) {
+    console.error('Error updating account currency:', error);
+    throw new Error(`Failed to update account currency: ${error.message}`);
+  }
+
+  console.log('Account currency updated successfully:', accountId);
+};
+
+// Latest rate per currency (units per 1 USD), refreshed daily by the refresh-fx-rates function
+export const fetchFxRates = async (): Promise<FxRates> => {
+  const { data, error } = await supabase
+    .from('fx_rates')
+    .select('currency, rate, rate_date')
+    .order('rate_date', { ascending: false })
+    .limit(500);
+
+  if (error) {
+    console.error('Error fetching FX rates:', error);
+    throw error;
+  }
+
+  const rates: FxRates = {};
+  (data || []).forEach(row => {
+    if (rates[row.currency] === undefined) {
+      rates[row.currency] = Number(row.rate);
+    }
+  });
+
+  return rates;
+};
+
+// Lot matches recorded for a closing fill, embedded in its operation_fills row. Embedding keeps
+// the request size and row count bounded by the groups fetched instead of every fill id.
+const LOT_MATCHES_EMBED = 'fill_lot_matches!close_fill_id (close_fill_id, open_fill_id, quantity)';
+
+const recordedMatchesOf = (fills: { fill_lot_matches?: LotMatchRecord[] }[]): LotMatchRecord[] =>
+  fills.flatMap(fill => fill.fill_lot_matches || []);
+
+type OperationFillRow = Tables['operation_fills']['Row'];
+
+// An operation_groups row with the fills (and their lot matches), ledger entries and account
+// settings the trade and close queries embed
+type OperationGroupWithFills = Tables['operation_groups']['Row'] & {
+  operation_fills: (OperationFillRow & { fill_lot_matches?: LotMatchRecord[] })[];
+  financing_ledger: Pick<Tables['financing_ledger']['Row'], 'accrual_date' | 'amount'>[] | null;
+  accounts: Pick<Tables['accounts']['Row'], 'open_close_commission' | 'night_commission' | 'lot_matching_method'> | null;
+};
+
+// Cash ledger operations
+const mapCashTransaction = (row: Tables['account_cash_transactions']['Row']): CashTransaction => ({
+  id: row.id,
+  accountId: row.account_id,
+  type: row.type as CashTransactionType,
+  amount: Number(row.amount),
+  transferId: row.transfer_id ?? undefined,
+  counterpartyAccountId: row.counterparty_account_id ?? undefined,
+  description: row.description ?? undefined,
+  occurredAt: row.occurred_at
+});
+
+export const fetchCashTransactions = async (): Promise<CashTransaction[]> => {
+  const { data, error } = await supabase
+    .from('account_cash_transactions')
+    .select('*')
+    .order('occurred_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching cash transactions:', error);
+    throw error;
+  }
+
+  return (data || []).map(mapCashTransaction);
+};
+
+export const createCashTransaction = async (transaction: {
+  accountId: string;
+  type: Exclude<CashTransactionType, 'transfer_in' | 'transfer_out'>;
+  amount: number;
+  description?: string;
+  occurredAt?: string;
+}): Promise<CashTransaction> => {
+  if (!transaction.amount) {
+    throw new Error('Amount must not be zero');
+  }
+
+  // Deposits and dividends credit the account, withdrawals debit it; adjustments keep their sign
+  const signedAmount = transaction.type === 'withdrawal'
+    ? -Math.abs(transaction.amount)
+    : transaction.type === 'adjustment' ? transaction.amount : Math.abs(transaction.amount);
+
+  const { data, error } = await supabase
+    .from('account_cash_transactions')
+    .insert({
+      account_id: transaction.accountId,
+      type: transaction.type,
+      amount: signedAmount,
+      description: transaction.description || null,
+      occurred_at: transaction.occurredAt || new Date().toISOString()
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating cash transaction:', error);
+    throw new Error(`Failed to record cash transaction: ${error.message}`);
+  }
+
+  return mapCashTransaction(data);
+};
+
+// A transfer is booked as two linked legs so each account's ledger balances on its own.
+// Between currencies the receiving leg books `receivedAmount`, or `amount` converted at the
+// latest fx_rates when it is not given.
+export const transferBetweenAccounts = async (transfer: {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number; // In the sending account's currency
+  receivedAmount?: number; // In the receiving account's currency
+  description?: string;
+  occurredAt?: string;
+}): Promise<CashTransaction[]> => {
+  if (transfer.fromAccountId === transfer.toAccountId) {
+    throw new Error('Cannot transfer to the same account');
+  }
+
+  if (transfer.amount <= 0 || (transfer.receivedAmount !== undefined && transfer.receivedAmount <= 0)) {
+    throw new Error('Transfer amount must be greater than zero');
+  }
+
+  const { data: accounts, error: accountsError } = await supabase
+    .from('accounts')
+    .select('id, currency')
+    .in('id', [transfer.fromAccountId, transfer.toAccountId]);
+
+  if (accountsError) {
+    console.error('Error fetching transfer accounts:', accountsError);
+    throw new Error(`Failed to record transfer: ${accountsError.message}`);
+  }
+
+  const currencyOf = (id: string) => accounts?.find(account => account.id === id)?.currency || PIVOT_CURRENCY;
+  const fromCurrency = currencyOf(transfer.fromAccountId);
+  const toCurrency = currencyOf(transfer.toAccountId);
+
+  let receivedAmount = transfer.receivedAmount ?? transfer.amount;
+  if (fromCurrency !== toCurrency && transfer.receivedAmount === undefined) {
+    const rates = await fetchFxRates();
+    if (!hasFxRate(fromCurrency, toCurrency, rates)) {
+      throw new Error(`No exchange rate from ${fromCurrency} to ${toCurrency}, enter the amount received`);
+    }
+    receivedAmount = convertAmount(transfer.amount, fromCurrency, toCurrency, rates);
+  }
+
+  const transferId = crypto.randomUUID();
+  const occurredAt = transfer.occurredAt || new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('account_cash_transactions')
+    .insert([
+      {
+        account_id: transfer.fromAccountId,
+        type: 'transfer_out',
+        amount: -transfer.amount,
+        transfer_id: transferId,
+        counterparty_account_id: transfer.toAccountId,
+        description: transfer.description || null,
+        occurred_at: occurredAt
+      },
+      {
+        account_id: transfer.toAccountId,
+        type: 'transfer_in',
+        amount: receivedAmount,
+        transfer_id: transferId,
+        counterparty_account_id: transfer.fromAccountId,
+        description: transfer.description || null,
+        occurred_at: occurredAt
+      }
+    ])
+    .select();
+
+  if (error) {
+    console.error('Error creating transfer:', error);
+    throw new Error(`Failed to record transfer: ${error.message}`);
+  }
+
+  return (data || []).map(mapCashTransaction);
+};
+
+// Deleting either leg of a transfer removes both
+export const deleteCashTransaction = async (transaction: CashTransaction): Promise<void> => {
+  const query = supabase.from('account_cash_transactions').delete();
+  const { error } = transaction.transferId
+    ? await query.eq('transfer_id', transaction.transferId)
+    : await query.eq('id', transaction.id);
+
+  if (error) {
+    console.error('Error deleting cash transaction:', error);
+    throw new Error(`Failed to delete cash transaction: ${error.message}`);
+  }
+};
+
 // Symbol operations
 export const fetchOrCreateSymbol = async (ticker: string): Promise<string> => {
   // First try to find existing symbol
@@ -170,7 +493,8 @@ export const fetchOrCreateSymbol = async (ticker: string): Promise<string> => {
     .insert({
       ticker: ticker.toUpperCase(),
       name: `${ticker.toUpperCase()} Corporation`, // Placeholder name
-      currency: 'USD'
+      currency: 'USD',
+      exchange_calendar: DEFAULT_CALENDAR_BY_CURRENCY.USD,
     })
     .select('id');
 
@@ -182,15 +506,33 @@ export const fetchOrCreateSymbol = async (ticker: string): Promise<string> => {
   return data[0].id;
 };
 
+// First night the daily accrual booked for the operation, undefined before it started
+const firstAccrualDateOf = (ledger: { accrual_date: string }[] | null): string | undefined =>
+  ledger?.length ? ledger.reduce((first, entry) => (entry.accrual_date < first ? entry.accrual_date : first), ledger[0].accrual_date) : undefined;
+
+// Booked financing of an operation. An open operation adds the estimate for the nights before
+// its first ledger entry, a closed one already carries it in its fills' night fees.
+const accruedFinancingOf = (group: OperationGroupWithFills): number | undefined => {
+  const firstAccrualDate = firstAccrualDateOf(group.financing_ledger);
+  if (!group.financing_ledger || !firstAccrualDate) return undefined;
+
+  const booked = group.financing_ledger.reduce((sum, entry) => sum + Number(entry.amount), 0);
+  if (group.status !== 'open') return booked;
+
+  const nights = nightsBeforeLedger(group.open_at || group.created_at, firstAccrualDate);
+  return booked + estimateNightFees(group.operation_fills || [], group.accounts?.night_commission || 7.0, nights);
+};
+
 // Trade operations (using operation_groups and operation_fills)
 export const fetchTrades = async (): Promise<Trade[]> => {
   const { data, error } = await supabase
     .from('operation_groups')
     .select(`
       *,
-      symbols (ticker, latest_price),
-      operation_fills (*),
-      accounts (open_close_commission, night_commission)
+      symbols (ticker, latest_price, currency, exchange_calendar, price_as_of),
+      operation_fills (*, ${LOT_MATCHES_EMBED}),
+      financing_ledger (accrual_date, amount),
+      accounts (open_close_commission, night_commission, lot_matching_method)
     `)
     .order('open_at', { ascending: false });
 
@@ -199,137 +541,31 @@ export const fetchTrades = async (): Promise<Trade[]> => {
     throw error;
   }
 
-  return data.map(group => {
-    const fills = group.operation_fills || [];
-    const buyFills = fills.filter(f => f.side === 'buy');
-    const sellFills = fills.filter(f => f.side === 'sell');
-    
-    const totalBuyQuantity = buyFills.reduce((sum, f) => sum + f.quantity, 0);
-    const totalSellQuantity = sellFills.reduce((sum, f) => sum + f.quantity, 0);
-    
-    // Determine trade type and net quantity
-    let tradeType: TradeType;
-    let netQuantity: number;
-    let openPrice: number;
-    
-    if (totalBuyQuantity > totalSellQuantity) {
-      // Long position (more buys than sells)
-      tradeType = TradeType.LONG;
-      netQuantity = totalBuyQuantity - totalSellQuantity;
-      openPrice = buyFills.length > 0 
-        ? buyFills.reduce((sum, f) => sum + (f.price * f.quantity), 0) / totalBuyQuantity
-        : 0;
-    } else if (totalSellQuantity > totalBuyQuantity) {
-      // Short position (more sells than buys)
-      tradeType = TradeType.SHORT;
-      netQuantity = totalSellQuantity - totalBuyQuantity;
-      openPrice = sellFills.length > 0
-        ? sellFills.reduce((sum, f) => sum + (f.price * f.quantity), 0) / totalSellQuantity
-        : 0;
-    } else {
-      // Flat position - determine by first fill
-      const firstFill = fills.sort((a, b) => new Date(a.fill_timestamp || a.created_at).getTime() - new Date(b.fill_timestamp || b.created_at).getTime())[0];
-      tradeType = firstFill?.side === 'buy' ? TradeType.LONG : TradeType.SHORT;
-      netQuantity = 0;
-      openPrice = firstFill?.price || 0;
-    }
-    
-    // Calculate original quantity (from opening fills only)
-    const openingFills = tradeType === TradeType.LONG ? buyFills : sellFills;
-    const closingFills = tradeType === TradeType.LONG ? sellFills : buyFills;
-    const originalQuantity = openingFills.reduce((sum, f) => sum + f.quantity, 0);
-
-    // Determine if position is partially closed
-    const isPartiallyCloseD = group.status === 'open' && netQuantity > 0 && netQuantity < originalQuantity;
-
-    // Calculate average close price (from closing fills)
-    const closedQuantity = closingFills.reduce((sum, f) => sum + f.quantity, 0);
-    const avgClosePrice = closedQuantity > 0
-      ? closingFills.reduce((sum, f) => sum + (f.price * f.quantity), 0) / closedQuantity
-      : 0;
-
-    // Calculate P&L including fees
-    const totalOpenFees = fills.reduce((sum, f) => sum + (f.open_fee || 0), 0);
-    const totalCloseFees = fills.reduce((sum, f) => sum + (f.close_fee || 0), 0);
-    const totalNightFees = fills.reduce((sum, f) => sum + (f.night_fee || 0), 0);
-    const totalFees = totalOpenFees + totalCloseFees + totalNightFees;
-
-    let pnl = 0;
-    let realizedPnl = 0;
-    let unrealizedPnl = 0;
-
-    if (group.status === 'closed') {
-      // For closed positions, calculate realized P&L minus fees
-      if (tradeType === TradeType.LONG) {
-        pnl = closingFills.reduce((sum, f) => sum + (f.price * f.quantity), 0) -
-              openingFills.reduce((sum, f) => sum + (f.price * f.quantity), 0) - totalFees;
-      } else {
-        pnl = openingFills.reduce((sum, f) => sum + (f.price * f.quantity), 0) -
-              closingFills.reduce((sum, f) => sum + (f.price * f.quantity), 0) - totalFees;
-      }
-    } else if (isPartiallyCloseD) {
-      // For partially closed positions, calculate both realized and unrealized P&L
-      const totalOpenValue = openingFills.reduce((sum, f) => sum + (f.price * f.quantity), 0);
-      const totalCloseValue = closingFills.reduce((sum, f) => sum + (f.price * f.quantity), 0);
-
-      // Realized P&L: closed portion
-      if (tradeType === TradeType.LONG) {
-        realizedPnl = totalCloseValue - (totalOpenValue * (closedQuantity / originalQuantity)) - totalFees;
-      } else {
-        realizedPnl = (totalOpenValue * (closedQuantity / originalQuantity)) - totalCloseValue - totalFees;
-      }
-
-      // Unrealized P&L: open portion using latest price
-      const latestPrice = group.symbols?.latest_price;
-      if (latestPrice && latestPrice > 0) {
-        if (tradeType === TradeType.LONG) {
-          unrealizedPnl = (latestPrice - openPrice) * netQuantity;
-        } else {
-          unrealizedPnl = (openPrice - latestPrice) * netQuantity;
-        }
-      }
-
-      pnl = unrealizedPnl; // Default pnl for open positions
-    } else {
-      // For open positions, calculate unrealized P&L using latest_price
-      const latestPrice = group.symbols?.latest_price;
-      if (latestPrice && latestPrice > 0) {
-        if (tradeType === TradeType.LONG) {
-          pnl = (latestPrice - openPrice) * netQuantity - totalFees;
-        } else {
-          pnl = (openPrice - latestPrice) * netQuantity - totalFees;
-        }
-      } else {
-        // If no latest price available, P&L is 0
-        pnl = -totalFees;
-      }
-    }
-
-    return {
+  return data.map(group => buildTradeFromFills(
+    {
       id: group.id,
       symbol: group.symbols?.ticker || 'UNKNOWN',
-      quantity: Math.abs(netQuantity) || Math.max(totalBuyQuantity, totalSellQuantity),
-      openPrice: openPrice,
-      closePrice: (group.status === 'closed' || isPartiallyCloseD) && avgClosePrice > 0 ? avgClosePrice : undefined,
-      status: group.status === 'closed' ? TradeStatus.CLOSED : TradeStatus.OPEN,
-      pnl,
-      realizedPnl: isPartiallyCloseD ? realizedPnl : undefined,
-      unrealizedPnl: isPartiallyCloseD ? unrealizedPnl : undefined,
+      currency: group.symbols?.currency || 'USD',
       accountId: group.account_id,
+      status: group.status,
       openAt: group.open_at || group.created_at,
       closedAt: group.closed_at,
-      tradeType: tradeType,
-      fees: {
-        open: totalOpenFees,
-        close: totalCloseFees,
-        night: totalNightFees,
-        total: totalFees
-      },
-      originalQuantity,
-      isPartiallyCloseD,
-      latestPrice: group.symbols?.latest_price
-    };
-  });
+      reversedFromId: group.reversed_from_id ?? undefined,
+      accruedFinancing: accruedFinancingOf(group),
+      stopLoss: group.stop_loss,
+      takeProfit: group.take_profit,
+      trailingStopDistance: group.trailing_stop_distance,
+      trailingStopPrice: group.trailing_stop_price,
+      exchangeCalendar: group.symbols?.exchange_calendar ?? undefined,
+      priceAsOf: group.symbols?.price_as_of ?? undefined,
+    },
+    group.operation_fills || [],
+    group.symbols?.latest_price,
+    {
+      method: group.accounts?.lot_matching_method ?? 'fifo',
+      recordedMatches: recordedMatchesOf(group.operation_fills || []),
+    }
+  ));
 };
 
 export const createTrade = async (tradeData: Omit<Trade, 'id' | 'status' | 'openAt' | 'pnl'>): Promise<Trade> => {
@@ -344,9 +580,12 @@ export const createTrade = async (tradeData: Omit<Trade, 'id' | 'status' | 'open
       account_id: tradeData.accountId,
       symbol_id: symbolId,
       status: 'open',
-      open_at: openTimestamp
+      open_at: openTimestamp,
+      stop_loss: tradeData.stopLoss ?? null,
+      take_profit: tradeData.takeProfit ?? null,
+      trailing_stop_distance: tradeData.trailingStopDistance ?? null
     })
-    .select()
+    .select('*, symbols (currency)')
     .single();
 
   if (groupError) {
@@ -379,8 +618,8 @@ export const createTrade = async (tradeData: Omit<Trade, 'id' | 'status' | 'open
       open_fee: openingFees,
       close_fee: 0,
       night_fee: 0,
-      fee_currency: 'USD',
-      leverage: 5, // Default leverage, should come from trade data in real implementation
+      fee_currency: group.symbols?.currency || 'USD',
+      leverage: tradeData.leverage ?? DEFAULT_LEVERAGE,
       fill_timestamp: openTimestamp
     });
 
@@ -398,13 +637,105 @@ export const createTrade = async (tradeData: Omit<Trade, 'id' | 'status' | 'open
     pnl: 0,
     accountId: tradeData.accountId,
     openAt: group.open_at || group.created_at,
-    tradeType: tradeData.tradeType
+    tradeType: tradeData.tradeType,
+    currency: group.symbols?.currency || 'USD',
+    leverage: tradeData.leverage ?? DEFAULT_LEVERAGE,
+    stopLoss: group.stop_loss,
+    takeProfit: group.take_profit,
+    trailingStopDistance: group.trailing_stop_distance,
+    trailingStopPrice: group.trailing_stop_price
   };
 };
 
+// Scale into an open operation by adding another opening fill on the same side
+export const scaleInTradeInDb = async (
+  tradeId: string,
+  fill: { quantity: number; price: number; openFee?: number; fillTimestamp?: string }
+): Promise<void> => {
+  if (fill.quantity <= 0) {
+    throw new Error('Quantity must be greater than zero');
+  }
+
+  if (fill.price <= 0) {
+    throw new Error('Price must be greater than zero');
+  }
+
+  const { data: group, error: groupError } = await supabase
+    .from('operation_groups')
+    .select(`
+      *,
+      operation_fills (*),
+      symbols (currency),
+      accounts (open_close_commission)
+    `)
+    .eq('id', tradeId)
+    .single();
+
+  if (groupError) {
+    console.error('Error fetching operation group:', groupError);
+    throw groupError;
+  }
+
+  if (group.status !== 'open') {
+    throw new Error('Cannot add to a closed operation');
+  }
+
+  const position = summarizeFills(group.operation_fills);
+  if (position.netQuantity <= 0) {
+    throw new Error('No open quantity to add to');
+  }
+
+  const side = position.tradeType === TradeType.LONG ? 'buy' : 'sell';
+
+  // Default to the account's opening commission unless the fee was entered explicitly
+  const openCommission = group.accounts?.open_close_commission || 0.25;
+  const openingFees = fill.openFee ?? (fill.quantity * fill.price * openCommission) / 100;
+
+  // Keep the leverage the position was opened with
+  const openingFill = group.operation_fills.find(f => f.side === side);
+
+  const { error: fillError } = await supabase
+    .from('operation_fills')
+    .insert({
+      group_id: tradeId,
+      side,
+      quantity: fill.quantity,
+      price: fill.price,
+      fees: openingFees, // Keep for backward compatibility
+      open_fee: openingFees,
+      close_fee: 0,
+      night_fee: 0,
+      fee_currency: group.symbols?.currency || 'USD',
+      leverage: openingFill?.leverage ?? DEFAULT_LEVERAGE,
+      fill_timestamp: fill.fillTimestamp || new Date().toISOString()
+    });
+
+  if (fillError) {
+    console.error('Error creating scale-in fill:', fillError);
+    throw fillError;
+  }
+};
+
 export const closeTrade = async (tradeId: string, closePrice: number): Promise<void> => {
 }
 
+// Sets fee columns of a fill and keeps its legacy `fees` total in step
+const fillFeeUpdates = (fill: OperationFillRow, fees: Partial<Pick<OperationFillRow, 'open_fee' | 'close_fee' | 'night_fee'>>) => {
+  const merged = { open_fee: fill.open_fee, close_fee: fill.close_fee, night_fee: fill.night_fee, ...fees };
+  return { ...fees, fees: Number(merged.open_fee || 0) + Number(merged.close_fee || 0) + Number(merged.night_fee || 0) };
+};
+
+// The one fill an edit of a position-wide value can go to. Values spread over several fills
+// are averages or totals, those fills are edited one by one in the position details.
+const singleFillFor = (fills: OperationFillRow[], field: string): OperationFillRow => {
+  if (fills.length !== 1) {
+    throw new Error(`The ${field} of this position is spread over ${fills.length} fills, edit the fills instead`);
+  }
+  return fills[0];
+};
+
+// Applies the fields the user changed in the edit form. Stop-loss and take-profit levels are
+// saved with updateProtectiveLevels.
 export const updateTrade = async (tradeId: string, updates: Partial<Trade>): Promise<void> => {
   const { data: group, error: fetchError } = await supabase
     .from('operation_groups')
@@ -420,11 +751,68 @@ export const updateTrade = async (tradeId: string, updates: Partial<Trade>): Pro
     throw fetchError;
   }
 
-  const groupUpdates: any = {};
+  const steps = describeFills<OperationFillRow>(group.operation_fills || []);
+  const openingFills = steps
+    .filter(({ step }) => step.action === 'open' || step.action === 'scale-in' || step.action === 'reverse')
+    .map(({ fill }) => fill);
+  const closingFills = steps
+    .filter(({ step }) => step.action === 'reduce' || step.action === 'close')
+    .map(({ fill }) => fill);
+  const current = calculateFillFees(group.operation_fills || []);
+
+  // Collect the changes per fill first so nothing is written when an edit is refused
+  const fillUpdates = new Map<OperationFillRow, Record<string, unknown>>();
+  const updateFill = (fill: OperationFillRow, changes: Record<string, unknown>) => {
+    fillUpdates.set(fill, { ...fillUpdates.get(fill), ...changes });
+  };
+
+  if (updates.quantity !== undefined) {
+    updateFill(singleFillFor(openingFills, 'quantity'), { quantity: updates.quantity });
+  }
+
+  if (updates.openPrice !== undefined) {
+    updateFill(singleFillFor(openingFills, 'open price'), { price: updates.openPrice });
+  }
+
+  if (updates.tradeType !== undefined) {
+    updateFill(singleFillFor(openingFills, 'side'), { side: updates.tradeType === 'long' ? 'buy' : 'sell' });
+  }
+
+  if (updates.openAt !== undefined && openingFills.length > 0) {
+    updateFill(openingFills[0], { fill_timestamp: new Date(updates.openAt).toISOString() });
+  }
+
+  if (updates.closePrice !== undefined) {
+    updateFill(singleFillFor(closingFills, 'close price'), { price: updates.closePrice });
+  }
+
+  if (updates.closedAt !== undefined && closingFills.length > 0) {
+    updateFill(closingFills[closingFills.length - 1], { fill_timestamp: new Date(updates.closedAt).toISOString() });
+  }
+
+  // `fees.night` is the fills' night fee, booked financing stays in the ledger
+  if (updates.fees !== undefined) {
+    const feeColumns = [
+      ['open_fee', updates.fees.open, current.open],
+      ['close_fee', updates.fees.close, current.close],
+      ['night_fee', updates.fees.night, current.night],
+    ] as const;
+
+    for (const [column, amount, previous] of feeColumns) {
+      if (amount === previous) continue;
+      const carriers = (group.operation_fills as OperationFillRow[]).filter(fill => Number(fill[column] || 0) !== 0);
+      const fill = carriers.length > 0
+        ? singleFillFor(carriers, column.replace('_', ' '))
+        : column === 'open_fee' ? openingFills[0] : closingFills[closingFills.length - 1] ?? openingFills[0];
+      if (!fill) continue;
+      updateFill(fill, fillFeeUpdates({ ...fill, ...fillUpdates.get(fill) }, { [column]: amount }));
+    }
+  }
+
+  const groupUpdates: Tables['operation_groups']['Update'] = {};
 
   if (updates.symbol !== undefined) {
-    const symbolId = await fetchOrCreateSymbol(updates.symbol);
-    groupUpdates.symbol_id = symbolId;
+    groupUpdates.symbol_id = await fetchOrCreateSymbol(updates.symbol);
   }
 
   if (updates.accountId !== undefined) {
@@ -451,127 +839,105 @@ export const updateTrade = async (tradeId: string, updates: Partial<Trade>): Pro
     }
   }
 
-  const fills = group.operation_fills || [];
-
-  if (fills.length > 0) {
-    const sortedFills = fills.sort((a, b) =>
-      new Date(a.fill_timestamp || a.created_at).getTime() -
-      new Date(b.fill_timestamp || b.created_at).getTime()
-    );
-
-    const openFill = sortedFills[0];
-    const closeFill = sortedFills.length > 1 ? sortedFills[sortedFills.length - 1] : null;
-
-    if (openFill && (updates.quantity !== undefined || updates.openPrice !== undefined || updates.tradeType !== undefined || updates.openAt !== undefined || updates.fees !== undefined)) {
-      const fillUpdates: any = {};
+  for (const [fill, changes] of fillUpdates) {
+    const { error: updateFillError } = await supabase
+      .from('operation_fills')
+      .update(changes)
+      .eq('id', fill.id);
 
-      if (updates.quantity !== undefined) {
-        fillUpdates.quantity = updates.quantity;
-      }
+    if (updateFillError) {
+      console.error('Error updating fill:', updateFillError);
+      throw updateFillError;
+    }
+  }
+};
 
-      if (updates.openPrice !== undefined) {
-        fillUpdates.price = updates.openPrice;
-      }
+// Saves the protective levels given, null clears a level. Only the operation group changes.
+export const updateProtectiveLevels = async (
+  tradeId: string,
+  levels: Pick<Trade, 'stopLoss' | 'takeProfit' | 'trailingStopDistance'>
+): Promise<void> => {
+  const groupUpdates: Tables['operation_groups']['Update'] = {};
 
-      if (updates.tradeType !== undefined) {
-        fillUpdates.side = updates.tradeType === 'long' ? 'buy' : 'sell';
-      }
+  if (levels.stopLoss !== undefined) {
+    groupUpdates.stop_loss = levels.stopLoss;
+  }
 
-      if (updates.openAt !== undefined) {
-        fillUpdates.fill_timestamp = new Date(updates.openAt).toISOString();
-      }
+  if (levels.takeProfit !== undefined) {
+    groupUpdates.take_profit = levels.takeProfit;
+  }
 
-      if (updates.fees !== undefined) {
-        fillUpdates.open_fee = updates.fees.open;
-        fillUpdates.night_fee = updates.fees.night;
-        fillUpdates.fees = updates.fees.open + updates.fees.night;
-      }
+  if (levels.trailingStopDistance !== undefined) {
+    groupUpdates.trailing_stop_distance = levels.trailingStopDistance;
+    groupUpdates.trailing_stop_price = null; // Restart trailing from the next quote
+  }
 
-      const { error: updateFillError } = await supabase
-        .from('operation_fills')
-        .update(fillUpdates)
-        .eq('id', openFill.id);
+  if (Object.keys(groupUpdates).length === 0) return;
 
-      if (updateFillError) {
-        console.error('Error updating open fill:', updateFillError);
-        throw updateFillError;
-      }
-    }
+  const { error } = await supabase
+    .from('operation_groups')
+    .update(groupUpdates)
+    .eq('id', tradeId);
 
-    if (closeFill && (updates.closePrice !== undefined || updates.closedAt !== undefined || updates.fees !== undefined)) {
-      const closeFillUpdates: any = {};
+  if (error) {
+    console.error('Error updating protective levels:', error);
+    throw error;
+  }
+};
 
-      if (updates.closePrice !== undefined) {
-        closeFillUpdates.price = updates.closePrice;
-      }
+const CLOSE_GROUP_SELECT = `
+  *,
+  operation_fills (*, ${LOT_MATCHES_EMBED}),
+  financing_ledger (accrual_date),
+  symbols (currency),
+  accounts (open_close_commission, night_commission, lot_matching_method)
+`;
+
+// Only the accrual dates of the ledger are embedded, the close needs no amounts
+type CloseGroupRow = Omit<OperationGroupWithFills, 'financing_ledger'> & {
+  financing_ledger: Pick<Tables['financing_ledger']['Row'], 'accrual_date'>[] | null;
+  symbols: Pick<Tables['symbols']['Row'], 'currency'> | null;
+};
 
-      if (updates.closedAt !== undefined) {
-        closeFillUpdates.fill_timestamp = new Date(updates.closedAt).toISOString();
-      }
+// Id the planned closing fill goes by until close_position inserts it
+const PENDING_CLOSE_FILL_ID = 'pending-close';
 
-      if (updates.fees !== undefined) {
-        closeFillUpdates.close_fee = updates.fees.close;
-        closeFillUpdates.fees = (closeFillUpdates.fees || 0) + updates.fees.close;
-      }
+const fetchGroupForClose = async (tradeId: string): Promise<CloseGroupRow> => {
+  const { data: group, error } = await supabase
+    .from('operation_groups')
+    .select(CLOSE_GROUP_SELECT)
+    .eq('id', tradeId)
+    .single();
 
-      const { error: updateCloseFillError } = await supabase
-        .from('operation_fills')
-        .update(closeFillUpdates)
-        .eq('id', closeFill.id);
+  if (error) {
+    console.error('Error fetching operation group:', error);
+    throw error;
+  }
 
-      if (updateCloseFillError) {
-        console.error('Error updating close fill:', updateCloseFillError);
-        throw updateCloseFillError;
-      }
-    }
+  if (group.status !== 'open') {
+    throw new Error('Operation is already closed');
   }
-};
 
-export const closeTradeInDb = async (tradeId: string, closePrice: number): Promise<void> => {
-  await partialCloseTradeInDb(tradeId, closePrice, 100); // Close 100% of position
+  return group;
 };
 
-export const partialCloseTradeInDb = async (
-  tradeId: string, 
-  closePrice: number, 
-  closePercentage: number
-): Promise<void> => {
-  // Validate input parameters
-  if (closePercentage <= 0 || closePercentage > 100) {
-    throw new Error('Close percentage must be between 0.01% and 100%');
-  }
-
-  // Get the operation group and its fills
-  const { data: group, error: groupError } = await supabase
-    .from('operation_groups')
-    .select(`
-      *,
-      operation_fills (*),
-      accounts (open_close_commission, night_commission)
-    `)
-    .eq('id', tradeId)
-    .single();
-
-  if (groupError) {
-    console.error('Error fetching operation group:', groupError);
-    throw groupError;
-  }
-
+// The closing fill, the lots it consumes and the night fee estimate of closing
+// `closePercentage` of the position at `closePrice`, as close_position expects them
+const planPositionClose = (group: CloseGroupRow, closePrice: number, closePercentage: number, closeDate: Date) => {
   // Calculate night fees for the position
   const openDate = new Date(group.open_at || group.created_at);
-  const closeDate = new Date();
   const daysHeld = Math.ceil((closeDate.getTime() - openDate.getTime()) / (1000 * 60 * 60 * 24));
-  
+
   // Calculate total quantity to close and determine closing side
-  const buyFills = group.operation_fills.filter(f => f.side === 'buy');
-  const sellFills = group.operation_fills.filter(f => f.side === 'sell');
-  const totalBuyQuantity = buyFills.reduce((sum, f) => sum + f.quantity, 0);
-  const totalSellQuantity = sellFills.reduce((sum, f) => sum + f.quantity, 0);
-  
-  const netQuantity = totalBuyQuantity - totalSellQuantity;
-  const totalOpenQuantity = Math.abs(netQuantity);
+  const method = (group.accounts?.lot_matching_method ?? 'fifo') as LotMatchingMethod;
+  const matchOptions = {
+    method,
+    recordedMatches: recordedMatchesOf(group.operation_fills),
+  };
+  const position = summarizeFills(group.operation_fills, matchOptions);
+  const totalOpenQuantity = position.netQuantity;
   const quantityToClose = (totalOpenQuantity * closePercentage) / 100;
-  const closingSide = netQuantity > 0 ? 'sell' : 'buy'; // If net long, sell to close; if net short, buy to close
+  const closingSide = position.tradeType === TradeType.LONG ? 'sell' : 'buy'; // If net long, sell to close; if net short, buy to close
 
   if (totalOpenQuantity <= 0) {
     throw new Error('No open quantity to close');
@@ -583,71 +949,121 @@ export const partialCloseTradeInDb = async (
   }
 
   // Calculate closing fees (using account commission settings)
-  const account = group.accounts;
   const positionValue = quantityToClose * closePrice;
-  const closeCommission = account?.open_close_commission || 0.25;
+  const closeCommission = group.accounts?.open_close_commission || 0.25;
   const closingFees = (positionValue * closeCommission) / 100;
 
-  // Calculate proportional night fees for the portion being closed
-  const totalPositionValue = group.operation_fills.reduce((sum, fill) => sum + (fill.quantity * fill.price), 0);
-  const nightCommissionRate = group.accounts?.night_commission || 7.0;
-  const nightCommissionPerDay = (totalPositionValue * nightCommissionRate) / 100 / 365;
-  const totalNightFees = nightCommissionPerDay * daysHeld;
-  const proportionalNightFees = (totalNightFees * closePercentage) / 100;
+  // Operations financed by the daily accrual job carry their night fees in
+  // financing_ledger, the estimate only covers the nights before its first entry
+  const firstAccrualDate = firstAccrualDateOf(group.financing_ledger);
+  const hasAccruedFinancing = firstAccrualDate !== undefined;
+  const nightsEstimated = hasAccruedFinancing
+    ? nightsBeforeLedger(group.open_at || group.created_at, firstAccrualDate)
+    : daysHeld;
+  const totalNightFees = estimateNightFees(group.operation_fills, group.accounts?.night_commission || 7.0, nightsEstimated);
+  const isFullClose = closePercentage >= 100;
+
+  const closingFill = {
+    side: closingSide,
+    quantity: quantityToClose,
+    price: closePrice,
+    close_fee: closingFees,
+    // A full close spreads the whole estimate over the existing fills instead, an
+    // operation with booked financing gets its pre-ledger estimate only then
+    night_fee: hasAccruedFinancing || isFullClose ? 0 : (totalNightFees * closePercentage) / 100,
+    fee_currency: group.symbols?.currency || 'USD',
+    leverage: position.leverage, // Closing fills release margin at the position's leverage
+    fill_timestamp: closeDate.toISOString(),
+  };
 
-  // Create closing fill with proper fees
-  const { error: fillError } = await supabase
-    .from('operation_fills')
-    .insert({
-      group_id: tradeId,
-      side: closingSide,
-      quantity: quantityToClose,
-      price: closePrice,
-      fees: closingFees, // Keep for backward compatibility
-      open_fee: 0,
-      close_fee: closingFees,
-      night_fee: proportionalNightFees,
-      fee_currency: 'USD',
-      leverage: 1 // Default leverage for closing
-    });
+  // Record which opening lots this fill consumes
+  const lotMatches = summarizeFills([...group.operation_fills, { ...closingFill, id: PENDING_CLOSE_FILL_ID }], matchOptions)
+    .lotMatches
+    .filter(match => match.closeFillId === PENDING_CLOSE_FILL_ID && match.openFillId)
+    .map(match => ({
+      open_fill_id: match.openFillId,
+      quantity: match.quantity,
+      open_price: match.openPrice,
+      close_price: match.closePrice,
+      realized_pnl: match.realizedPnl,
+    }));
 
-  if (fillError) {
-    console.error('Error creating closing fill:', fillError);
-    throw fillError;
+  return {
+    position,
+    params: {
+      p_group_id: group.id,
+      p_closing_fill: closingFill,
+      p_lot_matches: lotMatches,
+      p_close_group: isFullClose,
+      p_fill_night_fee: isFullClose ? totalNightFees / group.operation_fills.length : null,
+    },
+  };
+};
+
+// Reverse a position in one order: the open quantity is closed and the excess
+// opens a new operation in the opposite direction, in a single transaction
+export const reverseTradeInDb = async (
+  tradeId: string,
+  price: number,
+  orderQuantity: number
+): Promise<string> => {
+  const group = await fetchGroupForClose(tradeId);
+
+  // The closing fill carries the close commission for the open quantity only
+  const { position, params } = planPositionClose(group, price, 100, new Date());
+  const excessQuantity = orderQuantity - position.netQuantity;
+
+  if (excessQuantity < 0.01) {
+    throw new Error('Reversal quantity must exceed the open quantity by at least 0.01 units');
   }
 
-  // If this is a complete close (100%), update the operation group status
-  if (closePercentage >= 100) {
-    // Update night fees for all existing fills in this operation
-    const { error: updateNightFeesError } = await supabase
-      .from('operation_fills')
-      .update({
-        night_fee: totalNightFees / group.operation_fills.length // Distribute night fees across all fills
-      })
-      .eq('group_id', tradeId);
+  // The excess quantity pays the opening commission on the new position
+  const side = position.tradeType === TradeType.LONG ? 'sell' : 'buy';
+  const openCommission = group.accounts?.open_close_commission || 0.25;
+  const openingFill = group.operation_fills.find(f => f.side !== side);
+
+  const { data, error } = await supabase.rpc('close_position', {
+    ...params,
+    p_reversal: {
+      side,
+      quantity: excessQuantity,
+      price,
+      open_fee: (excessQuantity * price * openCommission) / 100,
+      fee_currency: group.symbols?.currency || 'USD',
+      leverage: openingFill?.leverage ?? DEFAULT_LEVERAGE,
+    },
+  });
 
-    if (updateNightFeesError) {
-      console.error('Error updating night fees:', updateNightFeesError);
-      throw updateNightFeesError;
-    }
+  if (error) {
+    console.error('Error reversing operation:', error);
+    throw new Error(`Failed to reverse operation: ${error.message}`);
+  }
 
-    // Update operation group status to closed
-    const { error: updateError } = await supabase
-      .from('operation_groups')
-      .update({
-        status: 'closed',
-        closed_at: new Date().toISOString()
-      })
-      .eq('id', tradeId);
+  return data.reversed_group_id;
+};
 
-    if (updateError) {
-      console.error('Error updating operation group:', updateError);
-      throw updateError;
-    }
-  } else {
-    // For partial closes, keep the operation group open
-    // The remaining quantity will be calculated dynamically when fetching trades
-    console.log(`Partially closed ${closePercentage}% of position ${tradeId}`);
+export const closeTradeInDb = async (tradeId: string, closePrice: number): Promise<void> => {
+  await partialCloseTradeInDb(tradeId, closePrice, 100); // Close 100% of position
+};
+
+export const partialCloseTradeInDb = async (
+  tradeId: string, 
+  closePrice: number, 
+  closePercentage: number
+): Promise<void> => {
+  // Validate input parameters
+  if (closePercentage <= 0 || closePercentage > 100) {
+    throw new Error('Close percentage must be between 0.01% and 100%');
+  }
+
+  const group = await fetchGroupForClose(tradeId);
+  const { params } = planPositionClose(group, closePrice, closePercentage, new Date());
+
+  const { error } = await supabase.rpc('close_position', params);
+
+  if (error) {
+    console.error('Error closing operation:', error);
+    throw new Error(`Failed to close operation: ${error.message}`);
   }
 };
 
@@ -666,6 +1082,24 @@ export const fetchTradeFills = async (tradeId: string): Promise<TradeFill[]> =>
   return data || [];
 };
 
+// Fills of several operations at once, in chronological order
+export const fetchFillsForTrades = async (tradeIds: string[]): Promise<TradeFill[]> => {
+  if (tradeIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('operation_fills')
+    .select('*')
+    .in('group_id', tradeIds)
+    .order('fill_timestamp', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching trade fills:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
 export const updateTradeFill = async (
   fillId: string,
   updates: {
@@ -711,28 +1145,784 @@ export const deleteOperation = async (operationId: string): Promise<void> => {
     throw groupError;
   }
 };
-// Watchlist operations (stored in user profile or separate table)
-export const fetchWatchlist = async (): Promise<WatchlistItem[]> => {
-  // For now, return the symbols that are commonly watched
-  // In a real app, you might have a separate watchlist table
+
+// Broker statement import
+export interface ImportResult {
+  operationsCreated: number;
+  operationsUpdated: number; // Existing operations that received new fills, e.g. a later close
+  fillsImported: number;
+  fillsSkipped: number; // Already imported on a previous run
+}
+
+// External IDs of fills already imported into an account, mapped to their operation
+const IMPORTED_FILLS_PAGE_SIZE = 1000; // PostgREST caps a response at 1000 rows
+
+export const fetchImportedFillIds = async (accountId: string): Promise<Map<string, string>> => {
+  const importedIds = new Map<string, string>();
+
+  for (let offset = 0; ; offset += IMPORTED_FILLS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('operation_fills')
+      .select('id, external_id, group_id, operation_groups!inner (account_id)')
+      .eq('operation_groups.account_id', accountId)
+      .not('external_id', 'is', null)
+      .order('id', { ascending: true })
+      .range(offset, offset + IMPORTED_FILLS_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching imported fills:', error);
+      throw error;
+    }
+
+    (data || []).forEach(fill => importedIds.set(fill.external_id as string, fill.group_id as string));
+    if (!data || data.length < IMPORTED_FILLS_PAGE_SIZE) break;
+  }
+
+  return importedIds;
+};
+
+const toImportedFillRow = (groupId: string, currency: string, fill: ImportedOperationFill) => ({
+  group_id: groupId,
+  side: fill.side,
+  quantity: fill.quantity,
+  price: fill.price,
+  fees: fill.openFee + fill.closeFee, // Keep for backward compatibility
+  open_fee: fill.openFee,
+  close_fee: fill.closeFee,
+  night_fee: fill.nightFee,
+  fee_currency: currency,
+  leverage: DEFAULT_LEVERAGE,
+  fill_timestamp: fill.timestamp,
+  external_id: fill.externalId,
+  note: 'Imported from broker statement'
+});
+
+// Store imported operations, skipping fills that were already imported. Fills that belong
+// to an operation imported earlier (e.g. the close of a position that was open last time)
+// are appended to that operation instead of creating a new one.
+export const importBrokerOperations = async (
+  accountId: string,
+  operations: ImportedOperation[]
+): Promise<ImportResult> => {
+  const existing = await fetchImportedFillIds(accountId);
+  const result: ImportResult = { operationsCreated: 0, operationsUpdated: 0, fillsImported: 0, fillsSkipped: 0 };
+
+  for (const operation of operations) {
+    const newFills = operation.fills.filter(fill => !existing.has(fill.externalId));
+    result.fillsSkipped += operation.fills.length - newFills.length;
+    if (newFills.length === 0) continue;
+
+    let groupId = operation.fills.map(fill => existing.get(fill.externalId)).find(id => !!id);
+    let currency = 'USD';
+
+    if (groupId) {
+      const { data: group, error: groupError } = await supabase
+        .from('operation_groups')
+        .select('*, symbols (currency)')
+        .eq('id', groupId)
+        .single();
+
+      if (groupError) {
+        console.error('Error fetching imported operation group:', groupError);
+        throw groupError;
+      }
+
+      currency = group.symbols?.currency || 'USD';
+      result.operationsUpdated++;
+    } else {
+      const symbolId = await fetchOrCreateSymbol(operation.symbol);
+      const { data: group, error: groupError } = await supabase
+        .from('operation_groups')
+        .insert({
+          account_id: accountId,
+          symbol_id: symbolId,
+          status: 'open',
+          open_at: operation.openAt
+        })
+        .select('*, symbols (currency)')
+        .single();
+
+      if (groupError) {
+        console.error('Error creating imported operation group:', groupError);
+        throw groupError;
+      }
+
+      groupId = group.id;
+      currency = group.symbols?.currency || 'USD';
+      result.operationsCreated++;
+    }
+
+    const { error: fillsError } = await supabase
+      .from('operation_fills')
+      .insert(newFills.map(fill => toImportedFillRow(groupId, currency, fill)));
+
+    if (fillsError) {
+      console.error('Error creating imported fills:', fillsError);
+      throw fillsError;
+    }
+
+    if (operation.status === TradeStatus.CLOSED) {
+      const { error: updateError } = await supabase
+        .from('operation_groups')
+        .update({ status: 'closed', closed_at: operation.closedAt })
+        .eq('id', groupId);
+
+      if (updateError) {
+        console.error('Error closing imported operation group:', updateError);
+        throw updateError;
+      }
+    }
+
+    newFills.forEach(fill => existing.set(fill.externalId, groupId));
+    result.fillsImported += newFills.length;
+  }
+
+  return result;
+};
+
+// Watchlist operations
+type WatchlistItemRow = Tables['watchlist_items']['Row'] & {
+  symbols: Pick<Tables['symbols']['Row'], 'ticker' | 'name' | 'latest_price' | 'previous_close' | 'currency'> | null;
+};
+
+const mapWatchlistItem = (row: WatchlistItemRow): WatchlistItem => ({
+  id: row.id,
+  watchlistId: row.watchlist_id,
+  symbol: row.symbols?.ticker || 'UNKNOWN',
+  companyName: row.symbols?.name || `${row.symbols?.ticker} Corporation`,
+  currentPrice: row.symbols?.latest_price || 0,
+  previousClose: row.symbols?.previous_close ?? undefined,
+  currency: row.symbols?.currency || 'USD',
+  position: row.position,
+  notes: row.notes ?? undefined,
+  targetPrice: row.target_price ?? undefined,
+});
+
+export const fetchWatchlists = async (): Promise<Watchlist[]> => {
   const { data, error } = await supabase
-    .from('symbols')
-    .select('*')
-    .in('ticker', ['AMD', 'PLTR']) // Mock watchlist items
-    .eq('is_active', true);
+    .from('watchlists')
+    .select(`
+      *,
+      watchlist_items (
+        *,
+        symbols (ticker, name, latest_price, previous_close, currency)
+      )
+    `)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching watchlists:', error);
+    throw error;
+  }
+
+  return data.map(list => ({
+    id: list.id,
+    name: list.name,
+    position: list.position,
+    items: (list.watchlist_items || [])
+      .map(mapWatchlistItem)
+      .sort((a: WatchlistItem, b: WatchlistItem) => a.position - b.position),
+  }));
+};
+
+export const createWatchlist = async (name: string, position: number): Promise<Watchlist> => {
+  const { data, error } = await supabase
+    .from('watchlists')
+    .insert({ name, position })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating watchlist:', error);
+    throw error;
+  }
+
+  return { id: data.id, name: data.name, position: data.position, items: [] };
+};
+
+export const renameWatchlist = async (watchlistId: string, name: string): Promise<void> => {
+  const { error } = await supabase
+    .from('watchlists')
+    .update({ name, updated_at: new Date().toISOString() })
+    .eq('id', watchlistId);
+
+  if (error) {
+    console.error('Error renaming watchlist:', error);
+    throw error;
+  }
+};
+
+// Items are removed with the list
+export const deleteWatchlist = async (watchlistId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('watchlists')
+    .delete()
+    .eq('id', watchlistId);
+
+  if (error) {
+    console.error('Error deleting watchlist:', error);
+    throw error;
+  }
+};
+
+// Appends the symbol to the end of the list, creating the symbol when it is new
+export const addWatchlistItem = async (watchlistId: string, ticker: string, position: number): Promise<WatchlistItem> => {
+  const symbolId = await fetchOrCreateSymbol(ticker);
+
+  const { data, error } = await supabase
+    .from('watchlist_items')
+    .insert({ watchlist_id: watchlistId, symbol_id: symbolId, position })
+    .select('*, symbols (ticker, name, latest_price, previous_close, currency)')
+    .single();
+
+  if (error) {
+    console.error('Error adding watchlist item:', error);
+    throw error;
+  }
+
+  return mapWatchlistItem(data);
+};
+
+export const updateWatchlistItem = async (
+  itemId: string,
+  updates: { notes?: string; targetPrice?: number | null }
+): Promise<void> => {
+  const { error } = await supabase
+    .from('watchlist_items')
+    .update({
+      notes: updates.notes === undefined ? undefined : updates.notes || null,
+      target_price: updates.targetPrice,
+    })
+    .eq('id', itemId);
+
+  if (error) {
+    console.error('Error updating watchlist item:', error);
+    throw error;
+  }
+};
+
+export const removeWatchlistItem = async (itemId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('watchlist_items')
+    .delete()
+    .eq('id', itemId);
+
+  if (error) {
+    console.error('Error removing watchlist item:', error);
+    throw error;
+  }
+};
+
+// Persist a new order, position is the index in `itemIds`
+export const reorderWatchlistItems = async (itemIds: string[]): Promise<void> => {
+  const results = await Promise.all(itemIds.map((id, position) =>
+    supabase.from('watchlist_items').update({ position }).eq('id', id)
+  ));
+
+  const failed = results.find(result => result.error);
+  if (failed?.error) {
+    console.error('Error reordering watchlist items:', failed.error);
+    throw failed.error;
+  }
+};
+
+// Price alert operations
+type PriceAlertRow = Tables['price_alerts']['Row'] & {
+  symbols: Pick<Tables['symbols']['Row'], 'ticker'> | null;
+};
+
+const mapPriceAlert = (row: PriceAlertRow): PriceAlert => ({
+  id: row.id,
+  symbol: row.symbols?.ticker || 'UNKNOWN',
+  alertType: row.alert_type as PriceAlertType,
+  threshold: row.threshold,
+  operationId: row.operation_group_id ?? undefined,
+  note: row.note ?? undefined,
+  isActive: row.is_active,
+  triggeredAt: row.triggered_at ?? undefined,
+  triggeredPrice: row.triggered_price ?? undefined,
+  createdAt: row.created_at,
+});
+
+export const fetchPriceAlerts = async (): Promise<PriceAlert[]> => {
+  const { data, error } = await supabase
+    .from('price_alerts')
+    .select('*, symbols (ticker)')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching price alerts:', error);
+    throw error;
+  }
+
+  return data.map(mapPriceAlert);
+};
+
+export const createPriceAlert = async (alert: {
+  symbol: string;
+  alertType: PriceAlertType;
+  threshold: number;
+  operationId?: string;
+  note?: string;
+}): Promise<PriceAlert> => {
+  const symbolId = await fetchOrCreateSymbol(alert.symbol);
+
+  const { data, error } = await supabase
+    .from('price_alerts')
+    .insert({
+      symbol_id: symbolId,
+      alert_type: alert.alertType,
+      threshold: alert.threshold,
+      operation_group_id: alert.operationId || null,
+      note: alert.note || null,
+    })
+    .select('*, symbols (ticker)')
+    .single();
+
+  if (error) {
+    console.error('Error creating price alert:', error);
+    throw error;
+  }
+
+  return mapPriceAlert(data);
+};
+
+// Re-arming clears the last trigger so the alert can fire again
+export const setPriceAlertActive = async (alertId: string, isActive: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('price_alerts')
+    .update(isActive ? { is_active: true, triggered_at: null, triggered_price: null } : { is_active: false })
+    .eq('id', alertId);
 
   if (error) {
-    console.error('Error fetching watchlist:', error);
+    console.error('Error updating price alert:', error);
+    throw error;
+  }
+};
+
+export const deletePriceAlert = async (alertId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('price_alerts')
+    .delete()
+    .eq('id', alertId);
+
+  if (error) {
+    console.error('Error deleting price alert:', error);
+    throw error;
+  }
+};
+
+// Notification operations
+export const fetchNotifications = async (limit = 50): Promise<AppNotification[]> => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*, symbols (ticker)')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching notifications:', error);
     throw error;
   }
 
-  return data.map(symbol => ({
-    symbol: symbol.ticker,
-    companyName: symbol.name || `${symbol.ticker} Corporation`,
-    currentPrice: symbol.latest_price || 0
+  return data.map(row => ({
+    id: row.id,
+    alertId: row.alert_id ?? undefined,
+    symbol: row.symbols?.ticker,
+    title: row.title,
+    message: row.message,
+    price: row.price ?? undefined,
+    readAt: row.read_at ?? undefined,
+    createdAt: row.created_at,
   }));
 };
 
+export const markNotificationsRead = async (notificationIds: string[]): Promise<void> => {
+  if (notificationIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', notificationIds);
+
+  if (error) {
+    console.error('Error marking notifications as read:', error);
+    throw error;
+  }
+};
+
+export const deleteNotification = async (notificationId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('notifications')
+    .delete()
+    .eq('id', notificationId);
+
+  if (error) {
+    console.error('Error deleting notification:', error);
+    throw error;
+  }
+};
+
+// Price history operations
+const PRICE_BARS_PAGE_SIZE = 1000; // PostgREST caps a response at 1000 rows
+
+export const fetchPriceBars = async (
+  ticker: string,
+  interval: PriceBarInterval = '1d',
+  from?: string,
+  to?: string
+): Promise<PriceBar[]> => {
+  const rows: Pick<Tables['price_bars']['Row'], 'bar_time' | 'open' | 'high' | 'low' | 'close' | 'volume'>[] = [];
+
+  for (let offset = 0; ; offset += PRICE_BARS_PAGE_SIZE) {
+    let query = supabase
+      .from('price_bars')
+      .select('bar_time, open, high, low, close, volume, symbols!inner (ticker)')
+      .eq('symbols.ticker', ticker.toUpperCase())
+      .eq('interval', interval);
+
+    if (from) query = query.gte('bar_time', from);
+    if (to) query = query.lte('bar_time', to);
+
+    const { data, error } = await query
+      .order('bar_time', { ascending: true })
+      .range(offset, offset + PRICE_BARS_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching price bars:', error);
+      throw error;
+    }
+
+    rows.push(...(data || []));
+    if (!data || data.length < PRICE_BARS_PAGE_SIZE) break;
+  }
+
+  return rows.map(row => ({
+    time: row.bar_time,
+    open: Number(row.open),
+    high: Number(row.high),
+    low: Number(row.low),
+    close: Number(row.close),
+    volume: row.volume !== null ? Number(row.volume) : undefined,
+  }));
+};
+
+// Fills and booked financing of every operation, with the daily bars of their symbols,
+// to replay the accounts day by day
+export const fetchEquityHistory = async (): Promise<EquityHistory> => {
+  const { data, error } = await supabase
+    .from('operation_groups')
+    .select(`
+      *,
+      symbols (ticker, currency),
+      operation_fills (*),
+      financing_ledger (accrual_date, amount)
+    `);
+
+  if (error) {
+    console.error('Error fetching equity history:', error);
+    throw error;
+  }
+
+  const fills: EquityFill[] = [];
+  const financing: FinancingCharge[] = [];
+
+  data.forEach(group => {
+    const symbol = group.symbols?.ticker || 'UNKNOWN';
+    const currency = group.symbols?.currency || 'USD';
+    (group.operation_fills || []).forEach(fill => {
+      fills.push({
+        operationId: group.id,
+        accountId: group.account_id,
+        symbol,
+        currency,
+        side: fill.side,
+        quantity: Number(fill.quantity),
+        price: Number(fill.price),
+        // Night fees on fills only estimate nights the ledger does not cover
+        fees: Number(fill.open_fee || 0) + Number(fill.close_fee || 0) + Number(fill.night_fee || 0),
+        timestamp: fill.fill_timestamp || fill.created_at,
+      });
+    });
+
+    (group.financing_ledger || []).forEach(entry => {
+      financing.push({
+        operationId: group.id,
+        accountId: group.account_id,
+        currency,
+        date: entry.accrual_date,
+        amount: Number(entry.amount),
+      });
+    });
+  });
+
+  const tickers = [...new Set<string>(fills.map(fill => fill.symbol))];
+  const firstFillAt = fills.reduce<string | undefined>(
+    (earliest, fill) => (!earliest || fill.timestamp < earliest ? fill.timestamp : earliest),
+    undefined
+  );
+
+  const dailyBars: Record<string, PriceBar[]> = {};
+  for (const ticker of tickers) {
+    dailyBars[ticker] = await fetchPriceBars(ticker, '1d', firstFillAt);
+  }
+
+  return { fills, financing, dailyBars };
+};
+
+// Exchange calendar operations
+const HOLIDAY_LOOKBACK_DAYS = 30; // Enough to find the latest session before today
+
+export const fetchMarketCalendars = async (): Promise<Map<string, MarketCalendar>> => {
+  const since = new Date(Date.now() - HOLIDAY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const [calendarsResult, holidaysResult] = await Promise.all([
+    supabase.from('exchange_calendars').select('*'),
+    supabase.from('exchange_holidays').select('calendar_code, holiday_date, name, close_time').gte('holiday_date', since),
+  ]);
+
+  if (calendarsResult.error) {
+    console.error('Error fetching exchange calendars:', calendarsResult.error);
+    throw calendarsResult.error;
+  }
+  if (holidaysResult.error) {
+    console.error('Error fetching exchange holidays:', holidaysResult.error);
+    throw holidaysResult.error;
+  }
+
+  const calendars = new Map<string, MarketCalendar>();
+  calendarsResult.data.forEach(row => {
+    calendars.set(row.code, {
+      code: row.code,
+      name: row.name,
+      timezone: row.timezone,
+      openTime: row.open_time,
+      closeTime: row.close_time,
+      tradingDays: row.trading_days,
+      holidays: new Map(),
+    });
+  });
+  holidaysResult.data.forEach(row => {
+    calendars.get(row.calendar_code)?.holidays.set(row.holiday_date, { name: row.name, closeTime: row.close_time });
+  });
+
+  return calendars;
+};
+
+// Price check settings (single row)
+export const fetchPriceCheckSettings = async (): Promise<PriceCheckSettings | null> => {
+  const { data, error } = await supabase
+    .from('price_check_settings')
+    .select('max_jump_percent, max_quote_age_minutes, reject_zero_volume')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching price check settings:', error);
+    throw error;
+  }
+
+  return data && {
+    maxJumpPercent: data.max_jump_percent !== null ? Number(data.max_jump_percent) : null,
+    maxQuoteAgeMinutes: data.max_quote_age_minutes,
+    rejectZeroVolume: data.reject_zero_volume,
+  };
+};
+
+export const updatePriceCheckSettings = async (settings: PriceCheckSettings): Promise<void> => {
+  const { data, error } = await supabase
+    .from('price_check_settings')
+    .update({
+      max_jump_percent: settings.maxJumpPercent,
+      max_quote_age_minutes: settings.maxQuoteAgeMinutes,
+      reject_zero_volume: settings.rejectZeroVolume,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', true)
+    .select('id');
+
+  if (error) {
+    console.error('Error updating price check settings:', error);
+    throw new Error(`Failed to update price check settings: ${error.message}`);
+  }
+
+  // Row-level security filters the update down to nothing for non-admins
+  if (!data?.length) {
+    throw new Error('Only admins can change the price checks');
+  }
+};
+
+// Accepts or discards a held quote. An accepted quote older than the symbol's current price
+// is discarded instead, the status the entry ended with is returned.
+export const reviewQuote = async (logId: string, action: 'accepted' | 'discarded'): Promise<'accepted' | 'discarded'> => {
+  const { data, error } = await supabase.rpc('review_quote', { p_log_id: logId, p_action: action });
+
+  if (error) {
+    console.error('Error reviewing quote:', error);
+    throw new Error(`Failed to review quote: ${error.message}`);
+  }
+
+  return data;
+};
+
+// Price update monitoring
+const PRICE_UPDATE_PAGE_SIZE = 1000; // PostgREST caps a response at 1000 rows
+
+type PriceFetchLogRow = Pick<Tables['price_update_log']['Row'], 'run_id' | 'source' | 'status' | 'error_message' | 'created_at'> & {
+  symbols: Pick<Tables['symbols']['Row'], 'ticker'> | null;
+};
+
+// Runs of the price updater and the fetches they logged since a date, for the Admin health view
+export const fetchPriceUpdateHealth = async (since: string): Promise<PriceUpdateHealthData> => {
+  const runRows: Tables['price_update_runs']['Row'][] = [];
+  for (let offset = 0; ; offset += PRICE_UPDATE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('price_update_runs')
+      .select('*')
+      .gte('started_at', since)
+      .order('started_at', { ascending: false })
+      .range(offset, offset + PRICE_UPDATE_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching price update runs:', error);
+      throw error;
+    }
+
+    runRows.push(...(data || []));
+    if (!data || data.length < PRICE_UPDATE_PAGE_SIZE) break;
+  }
+
+  // Protective order triggers share the log but are not fetches
+  const logRows: PriceFetchLogRow[] = [];
+  for (let offset = 0; ; offset += PRICE_UPDATE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('price_update_log')
+      .select('run_id, source, status, error_message, created_at, symbols (ticker)')
+      .in('status', ['success', 'failed', 'rejected'])
+      .neq('source', 'protective_order') // Failed closes are not fetch failures
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + PRICE_UPDATE_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching price update log:', error);
+      throw error;
+    }
+
+    // The client types embeds as arrays, a log entry has one symbol
+    logRows.push(...((data || []) as unknown as PriceFetchLogRow[]));
+    if (!data || data.length < PRICE_UPDATE_PAGE_SIZE) break;
+  }
+
+  const runs: PriceUpdateRun[] = runRows.map(row => ({
+    id: row.id,
+    triggeredBy: row.triggered_by,
+    status: row.status,
+    provider: row.provider || undefined,
+    totalSymbols: row.total_symbols,
+    processed: row.processed,
+    succeeded: row.succeeded,
+    failed: row.failed,
+    skipped: row.skipped,
+    rejected: row.rejected,
+    retries: row.retries,
+    triggeredOrders: row.triggered_orders,
+    alerts: row.alerts,
+    apiCalls: row.api_calls || {},
+    errors: row.errors || [],
+    startedAt: row.started_at,
+    finishedAt: row.finished_at || undefined,
+    durationMs: row.duration_ms ?? undefined,
+  }));
+
+  const attempts: PriceFetchAttempt[] = logRows.map(row => ({
+    runId: row.run_id || undefined,
+    symbol: row.symbols?.ticker || 'Unknown',
+    provider: providerOfSource(row.source),
+    status: row.status as PriceFetchAttempt['status'],
+    errorMessage: row.error_message || undefined,
+    createdAt: row.created_at,
+  }));
+
+  return { runs, attempts };
+};
+
+// Scheduled jobs, managed through RPCs that only schedule known tasks
+export const fetchScheduledTasks = async (): Promise<ScheduledTask[]> => {
+  const { data, error } = await supabase
+    .from('scheduled_tasks')
+    .select('task, label, description')
+    .order('label');
+
+  if (error) {
+    console.error('Error fetching scheduled tasks:', error);
+    throw error;
+  }
+
+  return data.map(row => ({
+    task: row.task,
+    label: row.label,
+    description: row.description || undefined,
+  }));
+};
+
+export const fetchScheduledJobs = async (): Promise<ScheduledJob[]> => {
+  const { data, error } = await supabase.rpc('list_scheduled_jobs');
+
+  if (error) {
+    console.error('Error fetching scheduled jobs:', error);
+    throw error;
+  }
+
+  return (data || []).map(row => ({
+    id: row.job_id,
+    name: row.job_name,
+    task: row.task,
+    schedule: row.schedule,
+    isActive: row.active,
+    lastRun: row.last_run_status
+      ? {
+          status: row.last_run_status,
+          startedAt: row.last_run_started_at || undefined,
+          finishedAt: row.last_run_finished_at || undefined,
+          message: row.last_run_message || undefined,
+        }
+      : undefined,
+  }));
+};
+
+// Creates the job, or replaces the schedule of the job with the same name
+export const saveScheduledJob = async (job: { name: string; task: string; schedule: string; isActive: boolean }): Promise<void> => {
+  const { error } = await supabase.rpc('save_scheduled_job', {
+    p_job_name: job.name,
+    p_task: job.task,
+    p_schedule: job.schedule,
+    p_active: job.isActive,
+  });
+
+  if (error) {
+    console.error('Error saving scheduled job:', error);
+    throw new Error(`Failed to save scheduled job: ${error.message}`);
+  }
+};
+
+export const setScheduledJobActive = async (name: string, isActive: boolean): Promise<void> => {
+  const { error } = await supabase.rpc('set_scheduled_job_active', { p_job_name: name, p_active: isActive });
+
+  if (error) {
+    console.error('Error updating scheduled job:', error);
+    throw new Error(`Failed to ${isActive ? 'resume' : 'pause'} scheduled job: ${error.message}`);
+  }
+};
+
+export const deleteScheduledJob = async (name: string): Promise<void> => {
+  const { error } = await supabase.rpc('delete_scheduled_job', { p_job_name: name });
+
+  if (error) {
+    console.error('Error deleting scheduled job:', error);
+    throw new Error(`Failed to delete scheduled job: ${error.message}`);
+  }
+};
+
 // Debug function to fetch and print profiles table
 export const debugFetchProfiles = async () => {
   console.log('🔍 Fetching profiles table data...');
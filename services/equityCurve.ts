@@ -0,0 +1,214 @@
+import type { Account, CashTransaction, PriceBar } from '../types';
+import { convertAmount, PIVOT_CURRENCY } from './currency';
+import type { FxRates } from './currency';
+
+// A fill with the operation context needed to replay it on the account
+export interface EquityFill {
+  operationId: string;
+  accountId: string;
+  symbol: string;
+  currency: string; // Instrument currency
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  fees: number; // Open and close fees, plus the night fee estimate when no financing was booked
+  timestamp: string;
+}
+
+// A booked financing_ledger entry
+export interface FinancingCharge {
+  operationId: string;
+  accountId: string;
+  currency: string; // Instrument currency
+  date: string; // YYYY-MM-DD
+  amount: number; // Positive is a charge
+}
+
+export interface EquityHistory {
+  fills: EquityFill[];
+  financing: FinancingCharge[];
+  dailyBars: Record<string, PriceBar[]>; // Daily bars per ticker, oldest first
+}
+
+export interface EquityPoint {
+  date: string; // YYYY-MM-DD
+  equity: number; // Cash balance plus open positions marked to market
+  netCashFlow: number; // Cumulative deposits, withdrawals, transfers and dividends
+  drawdown: number; // Distance below the previous performance peak
+  drawdownPercent: number; // Drawdown relative to the equity at that peak
+}
+
+export interface MaxDrawdown {
+  amount: number;
+  percent: number;
+  peakDate: string | null;
+  troughDate: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const QUANTITY_EPSILON = 1e-9;
+
+const toDateKey = (timestamp: string | number | Date): string => new Date(timestamp).toISOString().slice(0, 10);
+
+const nextDateKey = (date: string): string => toDateKey(new Date(`${date}T00:00:00Z`).getTime() + DAY_MS);
+
+const groupByDate = <T>(items: T[], dateOf: (item: T) => string): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const date = dateOf(item);
+    groups.set(date, [...(groups.get(date) || []), item]);
+  });
+  return groups;
+};
+
+// Fills out drawdown fields from the equity net of cash flow, so deposits and withdrawals
+// do not read as gains or losses
+const withDrawdowns = (points: Omit<EquityPoint, 'drawdown' | 'drawdownPercent'>[]): EquityPoint[] => {
+  let peakPerformance = -Infinity;
+  let peakEquity = 0;
+
+  return points.map(point => {
+    const performance = point.equity - point.netCashFlow;
+    if (performance >= peakPerformance) {
+      peakPerformance = performance;
+      peakEquity = point.equity;
+    }
+    const drawdown = peakPerformance - performance;
+    return {
+      ...point,
+      drawdown,
+      drawdownPercent: peakEquity > 0 ? (drawdown / peakEquity) * 100 : 0,
+    };
+  });
+};
+
+// Daily equity of one account in the account currency. Every fill moves its cash value and
+// fees through the balance, open quantities are valued at the daily close (or the last fill
+// price before any bar is stored), and the last day uses `latestPrices` when given so the
+// curve ends on the current equity.
+export const buildAccountEquitySeries = (
+  account: Account,
+  history: EquityHistory,
+  transactions: CashTransaction[],
+  rates: FxRates = {},
+  latestPrices: Record<string, number> = {},
+  until: string = toDateKey(Date.now())
+): EquityPoint[] => {
+  const fills = history.fills.filter(fill => fill.accountId === account.id);
+  const financing = history.financing.filter(charge => charge.accountId === account.id);
+  const accountTransactions = transactions.filter(transaction => transaction.accountId === account.id);
+
+  const eventDates = [
+    toDateKey(account.createdAt),
+    ...fills.map(fill => toDateKey(fill.timestamp)),
+    ...accountTransactions.map(transaction => toDateKey(transaction.occurredAt)),
+  ];
+  const start = eventDates.reduce((earliest, date) => (date < earliest ? date : earliest), until);
+
+  const fillsByDate = groupByDate(fills, fill => toDateKey(fill.timestamp));
+  const financingByDate = groupByDate(financing, charge => charge.date);
+  const transactionsByDate = groupByDate(accountTransactions, transaction => toDateKey(transaction.occurredAt));
+
+  const toAccount = (amount: number, currency: string) => convertAmount(amount, currency, account.currency, rates);
+  const positions = new Map<string, { quantity: number; currency: string; mark: number }>();
+  const barIndex: Record<string, number> = {};
+
+  let cash = account.startingBalance;
+  let netCashFlow = 0;
+  const points: Omit<EquityPoint, 'drawdown' | 'drawdownPercent'>[] = [];
+
+  for (let date = start; date <= until; date = nextDateKey(date)) {
+    (transactionsByDate.get(date) || []).forEach(transaction => {
+      cash += transaction.amount;
+      netCashFlow += transaction.amount;
+    });
+
+    (fillsByDate.get(date) || []).forEach(fill => {
+      const signedQuantity = fill.side === 'buy' ? fill.quantity : -fill.quantity;
+      cash -= toAccount(signedQuantity * fill.price + fill.fees, fill.currency);
+
+      const position = positions.get(fill.symbol) || { quantity: 0, currency: fill.currency, mark: fill.price };
+      position.quantity += signedQuantity;
+      position.mark = fill.price;
+      positions.set(fill.symbol, position);
+    });
+
+    (financingByDate.get(date) || []).forEach(charge => {
+      cash -= toAccount(charge.amount, charge.currency);
+    });
+
+    let marketValue = 0;
+    positions.forEach((position, symbol) => {
+      // Closes are end of day, so they supersede the day's fill prices
+      const bars = history.dailyBars[symbol] || [];
+      let index = barIndex[symbol] ?? 0;
+      while (index < bars.length && toDateKey(bars[index].time) <= date) {
+        position.mark = bars[index].close;
+        index++;
+      }
+      barIndex[symbol] = index;
+
+      if (Math.abs(position.quantity) < QUANTITY_EPSILON) return;
+      const mark = date === until && latestPrices[symbol] > 0 ? latestPrices[symbol] : position.mark;
+      marketValue += toAccount(position.quantity * mark, position.currency);
+    });
+
+    points.push({ date, equity: cash + marketValue, netCashFlow });
+  }
+
+  return withDrawdowns(points);
+};
+
+// Combined daily equity of several accounts in the given currency. Accounts contribute
+// their starting balance before their first day.
+export const buildEquitySeries = (
+  accounts: Account[],
+  history: EquityHistory,
+  transactions: CashTransaction[],
+  rates: FxRates = {},
+  currency = PIVOT_CURRENCY,
+  latestPrices: Record<string, number> = {}
+): EquityPoint[] => {
+  const until = toDateKey(Date.now());
+  const totals = new Map<string, { equity: number; netCashFlow: number }>();
+
+  const accountSeries = accounts.map(account => ({
+    account,
+    series: buildAccountEquitySeries(account, history, transactions, rates, latestPrices, until),
+  }));
+  const start = accountSeries.reduce((earliest, { series }) => (series.length > 0 && series[0].date < earliest ? series[0].date : earliest), until);
+
+  accountSeries.forEach(({ account, series }) => {
+    const convert = (amount: number) => convertAmount(amount, account.currency, currency, rates);
+    const byDate = new Map(series.map(point => [point.date, point]));
+    let equity = convert(account.startingBalance);
+    let netCashFlow = 0;
+
+    for (let date = start; date <= until; date = nextDateKey(date)) {
+      const point = byDate.get(date);
+      if (point) {
+        equity = convert(point.equity);
+        netCashFlow = convert(point.netCashFlow);
+      }
+      const total = totals.get(date) || { equity: 0, netCashFlow: 0 };
+      totals.set(date, { equity: total.equity + equity, netCashFlow: total.netCashFlow + netCashFlow });
+    }
+  });
+
+  return withDrawdowns([...totals.entries()].map(([date, total]) => ({ date, ...total })));
+};
+
+export const calculateMaxDrawdown = (series: EquityPoint[]): MaxDrawdown => {
+  let result: MaxDrawdown = { amount: 0, percent: 0, peakDate: null, troughDate: null };
+  let peakDate: string | null = series[0]?.date ?? null;
+
+  series.forEach(point => {
+    if (point.drawdown === 0) {
+      peakDate = point.date;
+    } else if (point.drawdown > result.amount) {
+      result = { amount: point.drawdown, percent: point.drawdownPercent, peakDate, troughDate: point.date };
+    }
+  });
+
+  return result;
+};
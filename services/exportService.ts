@@ -0,0 +1,145 @@
+import type { Account, Trade } from '../types';
+import type { TradeFill } from './databaseService';
+import type { PerformanceMetrics } from './analyticsService';
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface TradeFilters {
+  accountId: string; // 'all' for every account
+  from: string; // yyyy-mm-dd, empty for no lower bound
+  to: string; // yyyy-mm-dd, empty for no upper bound
+}
+
+export const DEFAULT_TRADE_FILTERS: TradeFilters = { accountId: 'all', from: '', to: '' };
+
+type ExportRow = Record<string, string | number | boolean | null | undefined>;
+
+// A trade is in range when its close date (or open date while still open) falls within the filter
+export const filterTrades = (trades: Trade[], filters: TradeFilters): Trade[] => {
+  const from = filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : -Infinity;
+  const to = filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : Infinity;
+
+  return trades.filter(trade => {
+    if (filters.accountId !== 'all' && trade.accountId !== filters.accountId) return false;
+    const date = new Date(trade.closedAt || trade.openAt).getTime();
+    return date >= from && date <= to;
+  });
+};
+
+export const hasActiveFilters = (filters: TradeFilters) =>
+  filters.accountId !== 'all' || !!filters.from || !!filters.to;
+
+// ============================
+// ROW BUILDERS
+// ============================
+
+export const buildTradeRows = (trades: Trade[], accounts: Account[]): ExportRow[] =>
+  trades.map(trade => ({
+    id: trade.id,
+    account: accounts.find(account => account.id === trade.accountId)?.name || trade.accountId,
+    symbol: trade.symbol,
+    type: trade.tradeType,
+    status: trade.status,
+    quantity: trade.quantity,
+    originalQuantity: trade.originalQuantity ?? trade.quantity,
+    openPrice: trade.openPrice,
+    closePrice: trade.closePrice,
+    latestPrice: trade.latestPrice,
+    leverage: trade.leverage,
+    openAt: trade.openAt,
+    closedAt: trade.closedAt,
+    openFee: trade.fees?.open ?? 0,
+    closeFee: trade.fees?.close ?? 0,
+    nightFee: trade.fees?.night ?? 0,
+    totalFees: trade.fees?.total ?? 0,
+    pnl: trade.pnl,
+    realizedPnl: trade.realizedPnl,
+    unrealizedPnl: trade.unrealizedPnl,
+  }));
+
+export const buildFillRows = (trades: Trade[], accounts: Account[], fills: TradeFill[]): ExportRow[] => {
+  const tradesById = new Map(trades.map(trade => [trade.id, trade]));
+
+  return fills
+    .filter(fill => tradesById.has(fill.group_id))
+    .map(fill => {
+      const trade = tradesById.get(fill.group_id)!;
+      return {
+        tradeId: trade.id,
+        account: accounts.find(account => account.id === trade.accountId)?.name || trade.accountId,
+        symbol: trade.symbol,
+        fillId: fill.id,
+        timestamp: fill.fill_timestamp || fill.created_at,
+        side: fill.side,
+        quantity: Number(fill.quantity),
+        price: Number(fill.price),
+        openFee: Number(fill.open_fee || 0),
+        closeFee: Number(fill.close_fee || 0),
+        nightFee: Number(fill.night_fee || 0),
+      };
+    });
+};
+
+export const buildMonthlyRows = (monthlyData: { month: string; pnl: number; tradeCount: number; winRate: number }[]): ExportRow[] =>
+  monthlyData.map(month => ({
+    month: month.month,
+    pnl: Number(month.pnl.toFixed(2)),
+    tradeCount: month.tradeCount,
+    winRate: Number(month.winRate.toFixed(2)),
+  }));
+
+// ============================
+// SERIALIZATION
+// ============================
+
+const escapeCsvValue = (value: ExportRow[string]): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: ExportRow[]): string => {
+  if (rows.length === 0) return '';
+  const columns = Object.keys(rows[0]);
+  const lines = rows.map(row => columns.map(column => escapeCsvValue(row[column])).join(','));
+  return [columns.join(','), ...lines].join('\r\n');
+};
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const exportFileName = (dataset: string, filters: TradeFilters, format: ExportFormat) => {
+  const range = [filters.from, filters.to].filter(Boolean).join('_to_');
+  return `cfd-${dataset}${range ? `-${range}` : ''}-${new Date().toISOString().split('T')[0]}.${format}`;
+};
+
+// JSON exports carry the filters they were produced with so a file can be traced back
+export const exportRows = (
+  dataset: string,
+  rows: ExportRow[],
+  filters: TradeFilters,
+  format: ExportFormat,
+  extra?: Record<string, unknown>
+) => {
+  const fileName = exportFileName(dataset, filters, format);
+
+  if (format === 'csv') {
+    downloadFile(toCsv(rows), fileName, 'text/csv;charset=utf-8');
+  } else {
+    const payload = { exportedAt: new Date().toISOString(), filters, ...extra, rows };
+    downloadFile(JSON.stringify(payload, null, 2), fileName, 'application/json');
+  }
+};
+
+export const exportMonthlySummary = (
+  monthlyData: { month: string; pnl: number; tradeCount: number; winRate: number }[],
+  performanceMetrics: PerformanceMetrics,
+  filters: TradeFilters,
+  format: ExportFormat
+) => exportRows('monthly-summary', buildMonthlyRows(monthlyData), filters, format, { performanceMetrics });
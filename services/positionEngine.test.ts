@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { buildTradeFromFills, summarizeFills } from './positionEngine';
+import type { PositionFill, PositionGroup } from './positionEngine';
+import { TradeStatus, TradeType } from '../types';
+
+const fill = (
+  id: string,
+  side: 'buy' | 'sell',
+  quantity: number,
+  price: number,
+  minute: number,
+  fees: Partial<PositionFill> = {}
+): PositionFill => ({
+  id,
+  side,
+  quantity,
+  price,
+  leverage: 5,
+  fill_timestamp: new Date(Date.UTC(2025, 0, 2, 10, minute)).toISOString(),
+  ...fees,
+});
+
+const group = (status: string): PositionGroup => ({
+  id: 'group-1',
+  symbol: 'AAPL',
+  accountId: 'account-1',
+  status,
+  openAt: '2025-01-02T10:00:00.000Z',
+});
+
+describe('summarizeFills', () => {
+  it('opens a long position and averages scale-ins', () => {
+    const summary = summarizeFills([fill('a', 'buy', 10, 100, 0), fill('b', 'buy', 10, 110, 1)]);
+
+    expect(summary.tradeType).toBe(TradeType.LONG);
+    expect(summary.netQuantity).toBe(20);
+    expect(summary.openPrice).toBe(105);
+    expect(summary.closedQuantity).toBe(0);
+    expect(summary.realizedGrossPnl).toBe(0);
+  });
+
+  it('opens a short position and realizes a gain when buying back lower', () => {
+    const summary = summarizeFills([fill('a', 'sell', 10, 50, 0), fill('b', 'buy', 10, 40, 1)]);
+
+    expect(summary.tradeType).toBe(TradeType.SHORT);
+    expect(summary.netQuantity).toBe(0);
+    expect(summary.closedQuantity).toBe(10);
+    expect(summary.avgClosePrice).toBe(40);
+    expect(summary.realizedGrossPnl).toBe(100);
+  });
+
+  it('partially closes a long against the first lots with FIFO', () => {
+    const summary = summarizeFills([
+      fill('a', 'buy', 10, 100, 0),
+      fill('b', 'buy', 10, 120, 1),
+      fill('c', 'sell', 15, 130, 2),
+    ]);
+
+    expect(summary.netQuantity).toBe(5);
+    expect(summary.openPrice).toBe(120);
+    expect(summary.originalQuantity).toBe(20);
+    expect(summary.realizedGrossPnl).toBe(10 * 30 + 5 * 10);
+    expect(summary.lotMatches.map(match => [match.openFillId, match.quantity])).toEqual([
+      ['a', 10],
+      ['b', 5],
+    ]);
+  });
+
+  it('flips a long into a short with the excess of the closing fill', () => {
+    const summary = summarizeFills([fill('a', 'buy', 10, 100, 0), fill('b', 'sell', 15, 90, 1)]);
+
+    expect(summary.tradeType).toBe(TradeType.SHORT);
+    expect(summary.netQuantity).toBe(5);
+    expect(summary.openPrice).toBe(90);
+    expect(summary.originalQuantity).toBe(5);
+    expect(summary.closedQuantity).toBe(10);
+    expect(summary.realizedGrossPnl).toBe(-100);
+  });
+
+  it('reports a zero quantity position without fills or after closing flat', () => {
+    const empty = summarizeFills([]);
+    expect(empty.netQuantity).toBe(0);
+    expect(empty.openPrice).toBe(0);
+    expect(empty.lotMatches).toEqual([]);
+
+    const flat = summarizeFills([fill('a', 'buy', 10, 100, 0), fill('b', 'sell', 10, 100, 1)]);
+    expect(flat.netQuantity).toBe(0);
+    // A flat position keeps the price its last leg was opened at
+    expect(flat.openPrice).toBe(100);
+    expect(flat.realizedGrossPnl).toBe(0);
+  });
+});
+
+describe('buildTradeFromFills', () => {
+  it('values an open long at the mark price net of fees', () => {
+    const trade = buildTradeFromFills(group('open'), [fill('a', 'buy', 10, 100, 0, { open_fee: 2 })], 110);
+
+    expect(trade.status).toBe(TradeStatus.OPEN);
+    expect(trade.quantity).toBe(10);
+    expect(trade.pnl).toBe(98);
+    expect(trade.marginUsed).toBe(220);
+  });
+
+  it('values an open short at the mark price', () => {
+    const trade = buildTradeFromFills(group('open'), [fill('a', 'sell', 10, 50, 0)], 45);
+
+    expect(trade.tradeType).toBe(TradeType.SHORT);
+    expect(trade.pnl).toBe(50);
+  });
+
+  it('splits a partial close into realized and unrealized P&L', () => {
+    const trade = buildTradeFromFills(
+      group('open'),
+      [fill('a', 'buy', 10, 100, 0, { open_fee: 1 }), fill('b', 'sell', 4, 110, 1, { close_fee: 1 })],
+      105
+    );
+
+    expect(trade.isPartiallyCloseD).toBe(true);
+    expect(trade.quantity).toBe(6);
+    expect(trade.realizedPnl).toBe(40 - 2);
+    expect(trade.unrealizedPnl).toBe(30);
+    expect(trade.closePrice).toBe(110);
+  });
+
+  it('books the flip of a reversed position as the new short leg', () => {
+    const trade = buildTradeFromFills(group('open'), [fill('a', 'buy', 10, 100, 0), fill('b', 'sell', 15, 90, 1)], 80);
+
+    expect(trade.tradeType).toBe(TradeType.SHORT);
+    expect(trade.quantity).toBe(5);
+    expect(trade.openPrice).toBe(90);
+  });
+
+  it('keeps booked financing apart from the night fees of the fills', () => {
+    const trade = buildTradeFromFills(
+      { ...group('open'), accruedFinancing: 3 },
+      [fill('a', 'buy', 10, 100, 0, { open_fee: 1, night_fee: 2 })],
+      100
+    );
+
+    expect(trade.fees).toEqual({ open: 1, close: 0, night: 5, total: 6, financing: 3 });
+    expect(trade.pnl).toBe(-6);
+  });
+
+  it('reports a closed position with zero open quantity by its original quantity', () => {
+    const trade = buildTradeFromFills(
+      group('closed'),
+      [fill('a', 'buy', 10, 100, 0, { open_fee: 1 }), fill('b', 'sell', 10, 120, 1, { close_fee: 1 })],
+      130
+    );
+
+    expect(trade.status).toBe(TradeStatus.CLOSED);
+    expect(trade.quantity).toBe(10);
+    expect(trade.pnl).toBe(200 - 2);
+    expect(trade.marginUsed).toBe(0);
+  });
+});
@@ -0,0 +1,434 @@
+import type { Trade, LotMatchingMethod } from '../types';
+import { TradeStatus, TradeType } from '../types';
+
+// A single execution as stored in operation_fills
+export interface PositionFill {
+  id?: string;
+  side: string;
+  quantity: number;
+  price: number;
+  open_fee?: number | null;
+  close_fee?: number | null;
+  night_fee?: number | null;
+  leverage?: number | null;
+  fill_timestamp?: string | null;
+  created_at?: string | null;
+}
+
+// The operation_group fields needed to build a Trade
+export interface PositionGroup {
+  id: string;
+  symbol: string;
+  currency?: string; // Instrument currency
+  accountId: string;
+  status: string;
+  openAt: string;
+  closedAt?: string;
+  reversedFromId?: string;
+  accruedFinancing?: number; // Booked financing ledger total, plus the estimate for nights before the first entry
+  stopLoss?: number | null;
+  takeProfit?: number | null;
+  trailingStopDistance?: number | null;
+  trailingStopPrice?: number | null;
+  exchangeCalendar?: string; // Calendar of the symbol's exchange
+  priceAsOf?: string; // Time of the last trade behind the mark price
+}
+
+export interface PositionFees {
+  open: number;
+  close: number;
+  night: number;
+  total: number;
+  financing?: number; // Part of `night` booked by the daily accrual, not stored on the fills
+}
+
+// A persisted link between a closing fill and an opening lot it consumed
+export interface LotMatchRecord {
+  close_fill_id: string;
+  open_fill_id: string;
+  quantity: number;
+}
+
+export interface LotMatch {
+  closeFillId?: string;
+  openFillId?: string;
+  quantity: number;
+  openPrice: number;
+  closePrice: number;
+  realizedPnl: number; // Gross, before fees
+}
+
+export interface SummarizeOptions {
+  method?: LotMatchingMethod;
+  recordedMatches?: LotMatchRecord[];
+}
+
+interface OpenLot {
+  fillId?: string;
+  quantity: number;
+  price: number;
+  leverage: number;
+}
+
+export interface PositionSummary {
+  tradeType: TradeType;
+  netQuantity: number; // Quantity still open (always >= 0)
+  openPrice: number; // Average cost of the current (or last) position leg
+  originalQuantity: number; // Quantity opened in the current (or last) position leg
+  closedQuantity: number; // Quantity closed across all legs
+  avgClosePrice: number;
+  realizedGrossPnl: number; // Realized P&L before fees
+  leverage: number; // Effective leverage of the open lots (or of the last leg when flat)
+  lotMatches: LotMatch[];
+  fees: PositionFees;
+}
+
+// Residual quantities below this are treated as flat (floating point noise)
+const QUANTITY_EPSILON = 1e-9;
+
+// Leverage assumed for fills recorded without one
+export const DEFAULT_LEVERAGE = 5;
+
+const getFillLeverage = (fill: PositionFill): number =>
+  fill.leverage && fill.leverage > 0 ? fill.leverage : DEFAULT_LEVERAGE;
+
+const getFillTime = (fill: PositionFill): number =>
+  new Date(fill.fill_timestamp || fill.created_at || 0).getTime();
+
+export const sortFillsChronologically = <T extends PositionFill>(fills: T[]): T[] =>
+  [...fills].sort((a, b) => getFillTime(a) - getFillTime(b));
+
+export const calculateFillFees = (fills: PositionFill[]): PositionFees => {
+  const open = fills.reduce((sum, f) => sum + (f.open_fee || 0), 0);
+  const close = fills.reduce((sum, f) => sum + (f.close_fee || 0), 0);
+  const night = fills.reduce((sum, f) => sum + (f.night_fee || 0), 0);
+
+  return { open, close, night, total: open + close + night };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Close-time night fee estimate: the value of the fills financed at the account's annual
+// night commission for `nights` nights
+export const estimateNightFees = (fills: PositionFill[], nightCommission: number, nights: number): number => {
+  const positionValue = fills.reduce((sum, fill) => sum + fill.quantity * fill.price, 0);
+  return (positionValue * nightCommission) / 100 / 365 * Math.max(nights, 0);
+};
+
+// Nights an operation was held before the daily accrual first booked it (YYYY-MM-DD)
+export const nightsBeforeLedger = (openAt: string, firstAccrualDate: string): number => {
+  const openDate = new Date(openAt).toISOString().slice(0, 10);
+  return Math.max(0, Math.round((Date.parse(`${firstAccrualDate}T00:00:00Z`) - Date.parse(`${openDate}T00:00:00Z`)) / DAY_MS));
+};
+
+export const calculateGrossPnl = (tradeType: TradeType, openPrice: number, exitPrice: number, quantity: number): number =>
+  tradeType === TradeType.LONG
+    ? (exitPrice - openPrice) * quantity
+    : (openPrice - exitPrice) * quantity;
+
+export const calculateBreakevenPrice = (tradeType: TradeType, openPrice: number, totalFees: number, quantity: number): number => {
+  if (quantity <= 0) return openPrice;
+  return tradeType === TradeType.LONG
+    ? openPrice + (totalFees / quantity)
+    : openPrice - (totalFees / quantity);
+};
+
+const sumLots = (lots: OpenLot[]) => lots.reduce((sum, lot) => sum + lot.quantity, 0);
+
+const averageLotPrice = (lots: OpenLot[]): number => {
+  const quantity = sumLots(lots);
+  return quantity > 0 ? lots.reduce((sum, lot) => sum + lot.quantity * lot.price, 0) / quantity : 0;
+};
+
+// The single leverage that gives the same margin as the lots valued at one price
+const effectiveLotLeverage = (lots: OpenLot[]): number => {
+  const quantity = sumLots(lots);
+  const leveragedQuantity = lots.reduce((sum, lot) => sum + lot.quantity / lot.leverage, 0);
+  return leveragedQuantity > 0 ? quantity / leveragedQuantity : DEFAULT_LEVERAGE;
+};
+
+// Takes `quantity` out of the open lots, honouring any matches already recorded
+// for this closing fill before falling back to the account's matching method.
+const consumeLots = (
+  lots: OpenLot[],
+  quantity: number,
+  method: LotMatchingMethod,
+  recorded: LotMatchRecord[]
+): { lot: OpenLot; quantity: number; price: number }[] => {
+  const consumed: { lot: OpenLot; quantity: number; price: number }[] = [];
+  let remaining = quantity;
+
+  recorded.forEach(record => {
+    const lot = lots.find(l => l.fillId === record.open_fill_id);
+    if (!lot || remaining <= QUANTITY_EPSILON) return;
+    const take = Math.min(record.quantity, lot.quantity, remaining);
+    if (take <= QUANTITY_EPSILON) return;
+    consumed.push({ lot, quantity: take, price: lot.price });
+    lot.quantity -= take;
+    remaining -= take;
+  });
+
+  if (remaining > QUANTITY_EPSILON) {
+    if (method === 'average') {
+      // Every lot gives up the same share and is booked at the average cost
+      const available = sumLots(lots);
+      const avgPrice = averageLotPrice(lots);
+      const ratio = Math.min(remaining / available, 1);
+      lots.forEach(lot => {
+        const take = lot.quantity * ratio;
+        if (take <= QUANTITY_EPSILON) return;
+        consumed.push({ lot, quantity: take, price: avgPrice });
+        lot.quantity -= take;
+      });
+    } else {
+      const ordered = method === 'lifo' ? [...lots].reverse() : lots;
+      for (const lot of ordered) {
+        if (remaining <= QUANTITY_EPSILON) break;
+        const take = Math.min(lot.quantity, remaining);
+        if (take <= QUANTITY_EPSILON) continue;
+        consumed.push({ lot, quantity: take, price: lot.price });
+        lot.quantity -= take;
+        remaining -= take;
+      }
+    }
+  }
+
+  // Drop exhausted lots in place
+  for (let i = lots.length - 1; i >= 0; i--) {
+    if (lots[i].quantity <= QUANTITY_EPSILON) lots.splice(i, 1);
+  }
+
+  return consumed;
+};
+
+// Walks the fills in chronological order keeping the open lots of the current
+// position leg. Closing fills consume lots using the account's matching method
+// (FIFO, LIFO or weighted average); a fill that crosses zero closes the current
+// leg and opens a new one in the opposite direction with the excess.
+// supabase/functions/_shared/positionLots.ts mirrors the lot walk, keep the two in step.
+export const summarizeFills = (fills: PositionFill[], options: SummarizeOptions = {}): PositionSummary => {
+  const { method = 'fifo', recordedMatches = [] } = options;
+  const sortedFills = sortFillsChronologically(fills);
+
+  let lots: OpenLot[] = [];
+  let legType: TradeType = sortedFills[0]?.side === 'sell' ? TradeType.SHORT : TradeType.LONG;
+  let legOpenedQuantity = 0;
+  let legOpenedValue = 0;
+  let legLots: OpenLot[] = [];
+  let closedQuantity = 0;
+  let closedValue = 0;
+  let realizedGrossPnl = 0;
+  const lotMatches: LotMatch[] = [];
+
+  sortedFills.forEach(fill => {
+    const fillType = fill.side === 'buy' ? TradeType.LONG : TradeType.SHORT;
+    const openQuantity = sumLots(lots);
+
+    if (openQuantity <= QUANTITY_EPSILON || fillType === legType) {
+      // Opening or adding to the current leg
+      if (openQuantity <= QUANTITY_EPSILON) {
+        legType = fillType;
+        legOpenedQuantity = 0;
+        legOpenedValue = 0;
+        legLots = [];
+        lots = [];
+      }
+      const lot = { fillId: fill.id, quantity: fill.quantity, price: fill.price, leverage: getFillLeverage(fill) };
+      lots.push(lot);
+      legLots.push({ ...lot });
+      legOpenedQuantity += fill.quantity;
+      legOpenedValue += fill.quantity * fill.price;
+      return;
+    }
+
+    // Reducing, closing or reversing the current leg
+    const quantityClosed = Math.min(fill.quantity, openQuantity);
+    const recorded = recordedMatches.filter(m => fill.id !== undefined && m.close_fill_id === fill.id);
+
+    consumeLots(lots, quantityClosed, method, recorded).forEach(({ lot, quantity, price }) => {
+      const realizedPnl = calculateGrossPnl(legType, price, fill.price, quantity);
+      realizedGrossPnl += realizedPnl;
+      lotMatches.push({
+        closeFillId: fill.id,
+        openFillId: lot.fillId,
+        quantity,
+        openPrice: price,
+        closePrice: fill.price,
+        realizedPnl,
+      });
+    });
+    closedQuantity += quantityClosed;
+    closedValue += quantityClosed * fill.price;
+
+    const excess = fill.quantity - quantityClosed;
+    if (excess > QUANTITY_EPSILON) {
+      legType = fillType;
+      lots = [{ fillId: fill.id, quantity: excess, price: fill.price, leverage: getFillLeverage(fill) }];
+      legLots = lots.map(lot => ({ ...lot }));
+      legOpenedQuantity = excess;
+      legOpenedValue = excess * fill.price;
+    }
+  });
+
+  const netQuantity = sumLots(lots);
+
+  return {
+    tradeType: legType,
+    netQuantity,
+    // A flat position keeps reporting the average price its last leg was opened at
+    openPrice: netQuantity > 0
+      ? averageLotPrice(lots)
+      : legOpenedQuantity > 0 ? legOpenedValue / legOpenedQuantity : 0,
+    originalQuantity: legOpenedQuantity,
+    closedQuantity,
+    avgClosePrice: closedQuantity > 0 ? closedValue / closedQuantity : 0,
+    realizedGrossPnl,
+    leverage: effectiveLotLeverage(netQuantity > 0 ? lots : legLots),
+    lotMatches,
+    fees: calculateFillFees(sortedFills),
+  };
+};
+
+export interface RiskBasedSize {
+  riskAmount: number; // Equity at risk if the stop is hit
+  riskPerUnit: number; // Loss per unit between entry and stop, including commissions
+  quantity: number; // Suggested quantity, rounded down to 0.01 units
+}
+
+// Sizes a position so that hitting the stop loses `riskPercent` of equity.
+// Returns null when the stop is on the wrong side of the entry price.
+export const calculateRiskBasedSize = (params: {
+  equity: number;
+  riskPercent: number;
+  tradeType: TradeType;
+  entryPrice: number;
+  stopPrice: number;
+  commissionPercent?: number; // Open/close commission charged on each side
+}): RiskBasedSize | null => {
+  const { equity, riskPercent, tradeType, entryPrice, stopPrice, commissionPercent = 0 } = params;
+  const priceRisk = tradeType === TradeType.LONG ? entryPrice - stopPrice : stopPrice - entryPrice;
+  if (equity <= 0 || riskPercent <= 0 || entryPrice <= 0 || priceRisk <= 0) return null;
+
+  const commissionPerUnit = ((entryPrice + stopPrice) * commissionPercent) / 100;
+  const riskPerUnit = priceRisk + commissionPerUnit;
+  const riskAmount = (equity * riskPercent) / 100;
+
+  return {
+    riskAmount,
+    riskPerUnit,
+    quantity: Math.floor((riskAmount / riskPerUnit) * 100) / 100,
+  };
+};
+
+export type FillAction = 'open' | 'scale-in' | 'reduce' | 'close' | 'reverse';
+
+export interface FillStep {
+  action: FillAction;
+  netQuantity: number; // Open quantity after this fill
+  openPrice: number; // Average open price after this fill
+}
+
+// Describes what each fill did to the position, in chronological order. Used by
+// the fill history to show the scale-in and scale-out path of an operation.
+export const describeFills = <T extends PositionFill>(
+  fills: T[],
+  options: SummarizeOptions = {}
+): { fill: T; step: FillStep }[] => {
+  const sortedFills = sortFillsChronologically(fills);
+  let previous: PositionSummary | null = null;
+
+  return sortedFills.map((fill, index) => {
+    const summary = summarizeFills(sortedFills.slice(0, index + 1), options);
+    let action: FillAction;
+
+    if (!previous || previous.netQuantity <= QUANTITY_EPSILON) {
+      action = 'open';
+    } else if (summary.tradeType !== previous.tradeType && summary.netQuantity > QUANTITY_EPSILON) {
+      action = 'reverse';
+    } else if (summary.netQuantity > previous.netQuantity) {
+      action = 'scale-in';
+    } else {
+      action = summary.netQuantity <= QUANTITY_EPSILON ? 'close' : 'reduce';
+    }
+
+    previous = summary;
+    return {
+      fill,
+      step: { action, netQuantity: summary.netQuantity, openPrice: summary.openPrice },
+    };
+  });
+};
+
+// Builds a fully computed Trade from an operation group, its fills and the
+// current mark price. Every screen should go through this so P&L is consistent.
+export const buildTradeFromFills = (
+  group: PositionGroup,
+  fills: PositionFill[],
+  markPrice?: number | null,
+  options: SummarizeOptions = {}
+): Trade => {
+  const summary = summarizeFills(fills, options);
+  const { tradeType, netQuantity, openPrice, originalQuantity, avgClosePrice, realizedGrossPnl, leverage } = summary;
+  // Fills only hold a night fee estimate for nights the ledger does not cover
+  const fees = group.accruedFinancing !== undefined
+    ? {
+        ...summary.fees,
+        night: summary.fees.night + group.accruedFinancing,
+        total: summary.fees.total + group.accruedFinancing,
+        financing: group.accruedFinancing,
+      }
+    : summary.fees;
+
+  const isClosed = group.status === 'closed';
+  const isPartiallyCloseD = !isClosed && netQuantity > 0 && summary.closedQuantity > 0;
+  const mark = markPrice && markPrice > 0 ? markPrice : null;
+
+  let pnl = 0;
+  let realizedPnl = 0;
+  let unrealizedPnl = 0;
+
+  if (isClosed) {
+    pnl = realizedGrossPnl - fees.total;
+  } else if (isPartiallyCloseD) {
+    realizedPnl = realizedGrossPnl - fees.total;
+    if (mark !== null) {
+      unrealizedPnl = calculateGrossPnl(tradeType, openPrice, mark, netQuantity);
+    }
+    pnl = unrealizedPnl;
+  } else {
+    pnl = mark !== null
+      ? calculateGrossPnl(tradeType, openPrice, mark, netQuantity) - fees.total
+      : -fees.total;
+  }
+
+  return {
+    id: group.id,
+    symbol: group.symbol,
+    quantity: netQuantity || originalQuantity,
+    openPrice,
+    closePrice: (isClosed || isPartiallyCloseD) && avgClosePrice > 0 ? avgClosePrice : undefined,
+    status: isClosed ? TradeStatus.CLOSED : TradeStatus.OPEN,
+    pnl,
+    realizedPnl: isPartiallyCloseD ? realizedPnl : undefined,
+    unrealizedPnl: isPartiallyCloseD ? unrealizedPnl : undefined,
+    accountId: group.accountId,
+    openAt: group.openAt,
+    closedAt: group.closedAt,
+    tradeType,
+    fees,
+    originalQuantity,
+    isPartiallyCloseD,
+    latestPrice: markPrice ?? undefined,
+    reversedFromId: group.reversedFromId,
+    leverage,
+    // Margin held by the open quantity, valued at the mark price when available
+    marginUsed: isClosed ? 0 : (netQuantity * (mark ?? openPrice)) / leverage,
+    currency: group.currency,
+    stopLoss: group.stopLoss ?? null,
+    takeProfit: group.takeProfit ?? null,
+    trailingStopDistance: group.trailingStopDistance ?? null,
+    trailingStopPrice: group.trailingStopPrice ?? null,
+    exchangeCalendar: group.exchangeCalendar,
+    priceAsOf: group.priceAsOf,
+  };
+};
@@ -0,0 +1,193 @@
+// A run of the update-stock-prices function, from price_update_runs
+export interface PriceUpdateRun {
+  id: string;
+  triggeredBy: string;
+  status: 'running' | 'completed' | 'failed';
+  provider?: string; // Global provider of the run, symbols may be pinned to another
+  totalSymbols: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  skipped: number; // Market closed, the price was already current
+  rejected: number; // Quotes held for review
+  retries: number;
+  triggeredOrders: number;
+  alerts: number;
+  apiCalls: Record<string, number>; // Provider requests, retries included
+  errors: { ticker: string; error: string }[];
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+}
+
+// A price fetch of a symbol, from price_update_log
+export interface PriceFetchAttempt {
+  runId?: string;
+  symbol: string;
+  provider: string;
+  status: 'success' | 'failed' | 'rejected';
+  errorMessage?: string;
+  createdAt: string;
+}
+
+export interface PriceUpdateHealthData {
+  runs: PriceUpdateRun[]; // Newest first
+  attempts: PriceFetchAttempt[]; // Newest first
+}
+
+export interface ProviderLimits {
+  perMinute?: number;
+  perDay?: number;
+}
+
+// Published free-tier limits; Yahoo has none and the mock provider makes no requests
+export const PROVIDER_LIMITS: Record<string, ProviderLimits> = {
+  finnhub: { perMinute: 60 },
+  alpha_vantage: { perMinute: 5, perDay: 25 },
+  yahoo: {},
+  mock: {},
+};
+
+export interface FailureStreak {
+  symbol: string;
+  provider: string;
+  count: number; // Consecutive failed fetches, at most the attempts in the loaded history
+  since: string; // First failure of the streak
+  lastError?: string;
+  lastAttemptAt: string;
+}
+
+export interface DailySuccessRate {
+  date: string; // YYYY-MM-DD (UTC)
+  attempts: number;
+  successRate: number | null; // Percentage, null on days without fetches
+  byProvider: Record<string, number>; // Percentage per provider that was used that day
+}
+
+export interface ProviderUsage {
+  provider: string;
+  today: number;
+  last7Days: number;
+  peakDay: { date: string; calls: number } | null;
+  limits: ProviderLimits;
+}
+
+// Provider of a log entry, sources are written as `${provider}_api`
+export const providerOfSource = (source: string): string => source.replace(/_api$/, '');
+
+const utcDate = (timestamp: string | Date): string => new Date(timestamp).toISOString().slice(0, 10);
+
+// A rejected quote still came back from the provider, so only failures count against it
+const isAnswered = (attempt: PriceFetchAttempt) => attempt.status !== 'failed';
+
+// Symbols whose latest fetches all failed, longest streak first. A delisted ticker or a symbol
+// the provider does not cover shows up here long before its price looks out of date.
+export const calculateFailureStreaks = (attempts: PriceFetchAttempt[], minCount = 2): FailureStreak[] => {
+  const bySymbol = new Map<string, PriceFetchAttempt[]>();
+  attempts.forEach(attempt => {
+    const history = bySymbol.get(attempt.symbol) ?? [];
+    history.push(attempt);
+    bySymbol.set(attempt.symbol, history);
+  });
+
+  const streaks: FailureStreak[] = [];
+  bySymbol.forEach((history, symbol) => {
+    const newestFirst = [...history].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    const firstAnswered = newestFirst.findIndex(isAnswered);
+    const failures = firstAnswered === -1 ? newestFirst : newestFirst.slice(0, firstAnswered);
+    if (failures.length < minCount) return;
+
+    streaks.push({
+      symbol,
+      provider: failures[0].provider,
+      count: failures.length,
+      since: failures[failures.length - 1].createdAt,
+      lastError: failures[0].errorMessage,
+      lastAttemptAt: failures[0].createdAt,
+    });
+  });
+
+  return streaks.sort((a, b) => b.count - a.count || a.symbol.localeCompare(b.symbol));
+};
+
+// Share of fetches the provider answered, per day from `since` to `until`. A provider whose
+// rate drops to zero across all its symbols usually has a revoked or exhausted API key.
+export const calculateDailySuccessRates = (
+  attempts: PriceFetchAttempt[],
+  since: Date,
+  until: Date = new Date()
+): DailySuccessRate[] => {
+  const byDay = new Map<string, PriceFetchAttempt[]>();
+  attempts.forEach(attempt => {
+    const date = utcDate(attempt.createdAt);
+    const day = byDay.get(date) ?? [];
+    day.push(attempt);
+    byDay.set(date, day);
+  });
+
+  const rateOf = (dayAttempts: PriceFetchAttempt[]) =>
+    (dayAttempts.filter(isAnswered).length / dayAttempts.length) * 100;
+
+  const rates: DailySuccessRate[] = [];
+  const last = utcDate(until);
+  for (let date = utcDate(since); date <= last; ) {
+    const dayAttempts = byDay.get(date) ?? [];
+
+    const byProvider: Record<string, number> = {};
+    const providers = new Set(dayAttempts.map(attempt => attempt.provider));
+    providers.forEach(provider => {
+      byProvider[provider] = rateOf(dayAttempts.filter(attempt => attempt.provider === provider));
+    });
+
+    rates.push({
+      date,
+      attempts: dayAttempts.length,
+      successRate: dayAttempts.length > 0 ? rateOf(dayAttempts) : null,
+      byProvider,
+    });
+
+    const next = new Date(`${date}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    date = next.toISOString().slice(0, 10);
+  }
+
+  return rates;
+};
+
+// Requests per provider, counted on the day each run started
+export const calculateProviderUsage = (runs: PriceUpdateRun[], at: Date = new Date()): ProviderUsage[] => {
+  const today = utcDate(at);
+  const weekAgo = new Date(at);
+  weekAgo.setUTCDate(weekAgo.getUTCDate() - 6);
+  const weekStart = utcDate(weekAgo);
+
+  const dailyCalls = new Map<string, Map<string, number>>();
+  runs.forEach(run => {
+    const date = utcDate(run.startedAt);
+    for (const provider in run.apiCalls) {
+      const days = dailyCalls.get(provider) ?? new Map<string, number>();
+      days.set(date, (days.get(date) ?? 0) + run.apiCalls[provider]);
+      dailyCalls.set(provider, days);
+    }
+  });
+
+  const usage: ProviderUsage[] = [];
+  dailyCalls.forEach((days, provider) => {
+    let last7Days = 0;
+    let peakDay: ProviderUsage['peakDay'] = null;
+    days.forEach((calls, date) => {
+      if (date >= weekStart && date <= today) last7Days += calls;
+      if (!peakDay || calls > peakDay.calls) peakDay = { date, calls };
+    });
+
+    usage.push({
+      provider,
+      today: days.get(today) ?? 0,
+      last7Days,
+      peakDay,
+      limits: PROVIDER_LIMITS[provider] ?? {},
+    });
+  });
+
+  return usage.sort((a, b) => b.last7Days - a.last7Days || a.provider.localeCompare(b.provider));
+};
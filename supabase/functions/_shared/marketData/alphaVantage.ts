@@ -0,0 +1,110 @@
+import { fetchJson, isValidCandle, MarketDataHttpError, ProviderConfigurationError } from './types.ts';
+import type { Candle, HistoryInterval, MarketDataProvider } from './types.ts';
+
+const BASE_URL = 'https://www.alphavantage.co/query';
+
+const INTRADAY_INTERVALS: Record<Exclude<HistoryInterval, '1d'>, string> = {
+  '1h': '60min',
+  '15m': '15min',
+  '5m': '5min',
+};
+
+// Intraday timestamps are US/Eastern wall-clock times without an offset
+const easternToUnix = (local: string): number => {
+  const asUtc = new Date(`${local.replace(' ', 'T')}Z`);
+  const eastern = new Date(asUtc.toLocaleString('en-US', { timeZone: 'America/New_York' }));
+  const utc = new Date(asUtc.toLocaleString('en-US', { timeZone: 'UTC' }));
+  return Math.floor((asUtc.getTime() + (utc.getTime() - eastern.getTime())) / 1000);
+};
+
+const toNumber = (value: string | undefined): number => (value ? parseFloat(value) : 0);
+
+export const createAlphaVantageProvider = (): MarketDataProvider => {
+  const apiKey = Deno.env.get('ALPHA_VANTAGE_API_KEY');
+  if (!apiKey) {
+    throw new ProviderConfigurationError(
+      'ALPHA_VANTAGE_API_KEY not configured. Please add your Alpha Vantage API key to the environment variables.',
+      'Get a free API key from https://www.alphavantage.co/support/#api-key and configure it in your Supabase project settings.'
+    );
+  }
+
+  const get = async (params: Record<string, string>) => {
+    const data = await fetchJson(`${BASE_URL}?${new URLSearchParams({ ...params, apikey: apiKey })}`, 'Alpha Vantage');
+    // Errors and rate limiting come back as 200 responses with a message
+    if (data['Error Message']) {
+      throw new Error(`Alpha Vantage API error: ${data['Error Message']}`);
+    }
+    const limitMessage = data['Note'] || data['Information'];
+    if (limitMessage) {
+      throw new MarketDataHttpError(`Alpha Vantage rate limit: ${limitMessage}`, 429);
+    }
+    return data;
+  };
+
+  return {
+    id: 'alpha_vantage',
+    callsPerMinute: 5, // Free tier limit
+    getQuote: async (ticker) => {
+      const data = await get({ function: 'GLOBAL_QUOTE', symbol: ticker });
+      const quote = data['Global Quote'] || {};
+      const price = toNumber(quote['05. price']);
+      if (price <= 0) {
+        throw new Error(`Invalid price data for ${ticker}: full response=${JSON.stringify(data)}`);
+      }
+      return {
+        price,
+        previousClose: toNumber(quote['08. previous close']) || null,
+        open: toNumber(quote['02. open']) || null,
+        high: toNumber(quote['03. high']) || null,
+        low: toNumber(quote['04. low']) || null,
+        volume: quote['06. volume'] !== undefined ? toNumber(quote['06. volume']) : null,
+        // Only the trading day is given: the quote is live on the current day, the close before
+        timestamp: quote['07. latest trading day']
+          ? new Date(Math.min(Date.now(), easternToUnix(`${quote['07. latest trading day']} 16:00:00`) * 1000)).toISOString()
+          : new Date().toISOString(),
+      };
+    },
+    getHistory: async (ticker, interval, from, to) => {
+      const isDaily = interval === '1d';
+      const data = await get(isDaily
+        ? { function: 'TIME_SERIES_DAILY', symbol: ticker, outputsize: 'full' }
+        : { function: 'TIME_SERIES_INTRADAY', symbol: ticker, interval: INTRADAY_INTERVALS[interval], outputsize: 'full' });
+
+      const seriesKey = Object.keys(data).find(key => key.startsWith('Time Series'));
+      const series: Record<string, Record<string, string>> = seriesKey ? data[seriesKey] : {};
+
+      return Object.entries(series)
+        .map(([time, bar]): Candle => ({
+          time: isDaily ? Math.floor(new Date(`${time}T00:00:00Z`).getTime() / 1000) : easternToUnix(time),
+          open: toNumber(bar['1. open']),
+          high: toNumber(bar['2. high']),
+          low: toNumber(bar['3. low']),
+          close: toNumber(bar['4. close']),
+          volume: bar['5. volume'] ? toNumber(bar['5. volume']) : null,
+        }))
+        .filter(candle => candle.time >= from && candle.time <= to && isValidCandle(candle))
+        .sort((a, b) => a.time - b.time);
+    },
+    getProfile: async (ticker) => {
+      const data = await get({ function: 'OVERVIEW', symbol: ticker });
+      if (!data.Name) return null;
+      return {
+        ticker: data.Symbol || ticker,
+        name: data.Name,
+        currency: data.Currency || null,
+        exchange: data.Exchange || null,
+        country: data.Country || null,
+        industry: data.Industry || null,
+      };
+    },
+    search: async (query) => {
+      const data = await get({ function: 'SYMBOL_SEARCH', keywords: query });
+      return (data.bestMatches || []).map((match: Record<string, string>) => ({
+        ticker: match['1. symbol'],
+        name: match['2. name'],
+        exchange: match['4. region'] || null,
+        type: match['3. type'] || null,
+      }));
+    },
+  };
+};
@@ -0,0 +1,104 @@
+import { fetchJson, isValidCandle, ProviderConfigurationError } from './types.ts';
+import type { Candle, HistoryInterval, MarketDataProvider } from './types.ts';
+
+const BASE_URL = 'https://finnhub.io/api/v1';
+
+const RESOLUTIONS: Record<HistoryInterval, string> = {
+  '1d': 'D',
+  '1h': '60',
+  '15m': '15',
+  '5m': '5',
+};
+
+interface FinnhubQuote {
+  c: number;
+  d: number;
+  dp: number;
+  h: number;
+  l: number;
+  o: number;
+  pc: number;
+  t: number;
+}
+
+interface FinnhubCandles {
+  s: 'ok' | 'no_data';
+  t?: number[];
+  o?: number[];
+  h?: number[];
+  l?: number[];
+  c?: number[];
+  v?: number[];
+}
+
+export const createFinnhubProvider = (): MarketDataProvider => {
+  const apiKey = Deno.env.get('FINNHUB_API_KEY');
+  if (!apiKey || apiKey === 'your_finnhub_api_key_here') {
+    throw new ProviderConfigurationError(
+      'FINNHUB_API_KEY not configured. Please add your Finnhub API key to the environment variables.',
+      'Get a free API key from https://finnhub.io/ and configure it in your Supabase project settings.'
+    );
+  }
+
+  const get = (path: string, params: Record<string, string | number>) => {
+    const query = new URLSearchParams({ token: apiKey });
+    Object.entries(params).forEach(([key, value]) => query.set(key, String(value)));
+    return fetchJson(`${BASE_URL}${path}?${query}`, 'Finnhub');
+  };
+
+  return {
+    id: 'finnhub',
+    callsPerMinute: 55, // Free tier allows 60
+    getQuote: async (ticker) => {
+      const quote: FinnhubQuote = await get('/quote', { symbol: ticker });
+      if (!quote.c || quote.c <= 0) {
+        throw new Error(`Invalid price data for ${ticker}: price=${quote.c}, full response=${JSON.stringify(quote)}`);
+      }
+      return {
+        price: quote.c,
+        previousClose: quote.pc > 0 ? quote.pc : null,
+        open: quote.o > 0 ? quote.o : null,
+        high: quote.h > 0 ? quote.h : null,
+        low: quote.l > 0 ? quote.l : null,
+        volume: null, // Not part of the quote endpoint
+        timestamp: new Date((quote.t || Date.now() / 1000) * 1000).toISOString(),
+      };
+    },
+    getHistory: async (ticker, interval, from, to) => {
+      const candles: FinnhubCandles = await get('/stock/candle', { symbol: ticker, resolution: RESOLUTIONS[interval], from, to });
+      if (candles.s !== 'ok' || !candles.t) return [];
+
+      return candles.t
+        .map((time, i): Candle => ({
+          time,
+          open: candles.o?.[i] ?? 0,
+          high: candles.h?.[i] ?? 0,
+          low: candles.l?.[i] ?? 0,
+          close: candles.c?.[i] ?? 0,
+          volume: candles.v?.[i] ?? null,
+        }))
+        .filter(isValidCandle);
+    },
+    getProfile: async (ticker) => {
+      const profile = await get('/stock/profile2', { symbol: ticker });
+      if (!profile || !profile.name) return null;
+      return {
+        ticker: profile.ticker || ticker,
+        name: profile.name,
+        currency: profile.currency || null,
+        exchange: profile.exchange || null,
+        country: profile.country || null,
+        industry: profile.finnhubIndustry || null,
+      };
+    },
+    search: async (query) => {
+      const response = await get('/search', { q: query });
+      return (response.result || []).map((match: any) => ({
+        ticker: match.symbol,
+        name: match.description,
+        exchange: null,
+        type: match.type || null,
+      }));
+    },
+  };
+};
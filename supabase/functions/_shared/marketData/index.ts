@@ -0,0 +1,106 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { createAlphaVantageProvider } from './alphaVantage.ts';
+import { createFinnhubProvider } from './finnhub.ts';
+import { createMockProvider } from './mock.ts';
+import { createYahooProvider } from './yahoo.ts';
+import { isRetryableError, MarketDataHttpError } from './types.ts';
+import type { MarketDataProvider, ProviderId } from './types.ts';
+import { createTokenBucket, withRetry } from '../rateLimit.ts';
+import type { RetryOptions, TokenBucket } from '../rateLimit.ts';
+
+export type { Candle, CompanyProfile, HistoryInterval, MarketDataProvider, ProviderId, Quote, SymbolMatch } from './types.ts';
+export { isRetryableError, isValidCandle, MarketDataHttpError, ProviderConfigurationError } from './types.ts';
+
+export const PROVIDER_IDS: ProviderId[] = ['finnhub', 'alpha_vantage', 'yahoo', 'mock'];
+
+// cron_config key holding the provider used by symbols without their own
+export const PROVIDER_CONFIG_KEY = 'market_data_provider';
+
+const DEFAULT_PROVIDER: ProviderId = 'finnhub';
+
+// Calls a provider may make back to back before the per-minute rate applies
+const MAX_BURST = 5;
+
+const RETRY_POLICY: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15_000,
+  isRetryable: isRetryableError,
+  retryAfterMs: error => (error instanceof MarketDataHttpError ? error.retryAfterMs : undefined),
+};
+
+const FACTORIES: Record<ProviderId, () => MarketDataProvider> = {
+  finnhub: createFinnhubProvider,
+  alpha_vantage: createAlphaVantageProvider,
+  yahoo: createYahooProvider,
+  mock: createMockProvider,
+};
+
+export const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && (PROVIDER_IDS as string[]).includes(value);
+
+// Global provider: cron_config, then the MARKET_DATA_PROVIDER secret, then Finnhub
+export const loadDefaultProviderId = async (supabase: SupabaseClient): Promise<ProviderId> => {
+  const { data, error } = await supabase
+    .from('cron_config')
+    .select('value')
+    .eq('key', PROVIDER_CONFIG_KEY)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to read market data provider from cron_config:', error.message);
+  }
+
+  const configured = data?.value ?? Deno.env.get('MARKET_DATA_PROVIDER');
+  if (configured && !isProviderId(configured)) {
+    console.error(`Unknown market data provider '${configured}', using ${DEFAULT_PROVIDER}`);
+  }
+  return isProviderId(configured) ? configured : DEFAULT_PROVIDER;
+};
+
+// Creates providers on first use, so a missing key only fails the symbols that need it.
+// Each provider gets one rate limiter shared by every caller of the registry.
+export const createProviderRegistry = (defaultProviderId: ProviderId) => {
+  const providers = new Map<ProviderId, MarketDataProvider>();
+  const buckets = new Map<ProviderId, TokenBucket>();
+  const callCounts = new Map<ProviderId, number>();
+
+  const get = (id: ProviderId): MarketDataProvider => {
+    let provider = providers.get(id);
+    if (!provider) {
+      provider = FACTORIES[id]();
+      providers.set(id, provider);
+      buckets.set(id, createTokenBucket(provider.callsPerMinute, Math.min(MAX_BURST, provider.callsPerMinute)));
+    }
+    return provider;
+  };
+
+  return {
+    defaultProviderId,
+    get,
+    // A symbol's own provider (symbols.data_provider) wins over the global one
+    forSymbol: (symbol: { data_provider?: string | null }): MarketDataProvider =>
+      get(isProviderId(symbol.data_provider) ? symbol.data_provider : defaultProviderId),
+    // Runs a provider call within its rate limit, retrying 429, 5xx and network errors with backoff
+    call: <T>(
+      provider: MarketDataProvider,
+      fn: (provider: MarketDataProvider) => Promise<T>,
+      onRetry?: RetryOptions['onRetry']
+    ): Promise<T> =>
+      withRetry(async () => {
+        await buckets.get(provider.id)!.take();
+        callCounts.set(provider.id, (callCounts.get(provider.id) ?? 0) + 1);
+        return fn(provider);
+      }, { ...RETRY_POLICY, onRetry }),
+    // Requests made through `call` so far, retries included
+    callCounts: (): Partial<Record<ProviderId, number>> => {
+      const counts: Partial<Record<ProviderId, number>> = {};
+      callCounts.forEach((count, id) => {
+        counts[id] = count;
+      });
+      return counts;
+    },
+  };
+};
+
+export type ProviderRegistry = ReturnType<typeof createProviderRegistry>;
@@ -0,0 +1,144 @@
+import type { Candle, HistoryInterval, MarketDataProvider } from './types.ts';
+
+interface MockSymbol {
+  name: string;
+  currency: string;
+  exchange: string;
+  country: string;
+  industry: string;
+  price: number;
+  previousClose: number;
+  volume?: number;
+}
+
+interface MockData {
+  symbols: Record<string, MockSymbol>;
+}
+
+const INTERVAL_SECONDS: Record<HistoryInterval, number> = {
+  '1d': 24 * 60 * 60,
+  '1h': 60 * 60,
+  '15m': 15 * 60,
+  '5m': 5 * 60,
+};
+
+// Bars are generated, not stored; cap a request so a wide intraday window stays cheap
+const MAX_BARS = 5000;
+
+// Stable 32-bit hash, the same ticker always gets the same series
+const hashOf = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Deterministic noise in [-1, 1] for a ticker at a point in time
+const noise = (seed: number, step: number): number => {
+  const x = Math.sin(seed * 0.0001 + step * 12.9898) * 43758.5453;
+  return (x - Math.floor(x)) * 2 - 1;
+};
+
+// Price of a ticker at a time, a pure function of both so every request agrees: two slow
+// waves around the reference price plus small per-hour noise
+const priceAt = (seed: number, reference: number, time: number): number => {
+  const days = time / INTERVAL_SECONDS['1d'];
+  const phase = (seed % 1000) / 100;
+  const wave = 0.08 * Math.sin(days / 23 + phase) + 0.03 * Math.sin(days / 4.3 + phase * 2);
+  return reference * (1 + wave + 0.004 * noise(seed, Math.floor(time / INTERVAL_SECONDS['1h'])));
+};
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+// Reads fixtures from MOCK_MARKET_DATA_FILE, or the bundled mock-data.json. Tickers missing
+// from the fixtures get a price derived from their hash, so any symbol works locally.
+export const createMockProvider = (): MarketDataProvider => {
+  let data: Promise<MockData> | null = null;
+  const loadData = () => {
+    if (!data) {
+      const path = Deno.env.get('MOCK_MARKET_DATA_FILE') || new URL('./mock-data.json', import.meta.url);
+      data = Deno.readTextFile(path).then(text => JSON.parse(text) as MockData);
+    }
+    return data;
+  };
+
+  const referenceOf = async (ticker: string) => {
+    const fixture = (await loadData()).symbols[ticker.toUpperCase()];
+    const seed = hashOf(ticker.toUpperCase());
+    return { fixture, seed, reference: fixture?.price ?? 10 + (seed % 49000) / 100 };
+  };
+
+  return {
+    id: 'mock',
+    callsPerMinute: Infinity,
+    getQuote: async (ticker) => {
+      const { fixture, seed, reference } = await referenceOf(ticker);
+      if (fixture) {
+        return {
+          price: fixture.price,
+          previousClose: fixture.previousClose,
+          open: fixture.previousClose,
+          high: Math.max(fixture.price, fixture.previousClose),
+          low: Math.min(fixture.price, fixture.previousClose),
+          volume: fixture.volume ?? null,
+          timestamp: new Date().toISOString(),
+        };
+      }
+
+      // Unknown tickers move with the generated series, the price changes once a day
+      const today = Math.floor(Date.now() / 1000 / INTERVAL_SECONDS['1d']) * INTERVAL_SECONDS['1d'];
+      const price = round(priceAt(seed, reference, today));
+      const previousClose = round(priceAt(seed, reference, today - INTERVAL_SECONDS['1d']));
+      return {
+        price,
+        previousClose,
+        open: previousClose,
+        high: Math.max(price, previousClose),
+        low: Math.min(price, previousClose),
+        volume: null,
+        timestamp: new Date().toISOString(),
+      };
+    },
+    getHistory: async (ticker, interval, from, to) => {
+      const { seed, reference } = await referenceOf(ticker);
+      const step = INTERVAL_SECONDS[interval];
+      const candles: Candle[] = [];
+
+      for (let time = Math.ceil(from / step) * step; time <= to && candles.length < MAX_BARS; time += step) {
+        const open = priceAt(seed, reference, time);
+        const close = priceAt(seed, reference, time + step);
+        const spread = Math.abs(noise(seed, time)) * 0.01 * reference;
+        candles.push({
+          time,
+          open: round(open),
+          high: round(Math.max(open, close) + spread),
+          low: round(Math.min(open, close) - spread),
+          close: round(close),
+          volume: Math.round(1_000_000 * (1 + Math.abs(noise(seed + 1, time)))),
+        });
+      }
+
+      return candles;
+    },
+    getProfile: async (ticker) => {
+      const { fixture } = await referenceOf(ticker);
+      if (!fixture) return null;
+      return {
+        ticker: ticker.toUpperCase(),
+        name: fixture.name,
+        currency: fixture.currency,
+        exchange: fixture.exchange,
+        country: fixture.country,
+        industry: fixture.industry,
+      };
+    },
+    search: async (query) => {
+      const needle = query.toUpperCase();
+      return Object.entries((await loadData()).symbols)
+        .filter(([ticker, symbol]) => ticker.includes(needle) || symbol.name.toUpperCase().includes(needle))
+        .map(([ticker, symbol]) => ({ ticker, name: symbol.name, exchange: symbol.exchange, type: 'Common Stock' }));
+    },
+  };
+};
@@ -0,0 +1,94 @@
+export type ProviderId = 'finnhub' | 'alpha_vantage' | 'yahoo' | 'mock';
+
+export type HistoryInterval = '1d' | '1h' | '15m' | '5m';
+
+export interface Quote {
+  price: number;
+  previousClose: number | null;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  volume: number | null; // Shares traded today, null when the provider does not report it
+  timestamp: string; // Time of the last trade, ISO
+}
+
+export interface Candle {
+  time: number; // Start of the bar, unix seconds
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number | null;
+}
+
+export interface CompanyProfile {
+  ticker: string;
+  name: string;
+  currency: string | null;
+  exchange: string | null;
+  country: string | null;
+  industry: string | null;
+}
+
+export interface SymbolMatch {
+  ticker: string;
+  name: string;
+  exchange: string | null;
+  type: string | null;
+}
+
+// A source of market data. Methods throw on provider errors; a quote without a valid price
+// is an error, an empty history is not.
+export interface MarketDataProvider {
+  id: ProviderId;
+  callsPerMinute: number; // Request budget, callers pace themselves with it
+  getQuote(ticker: string): Promise<Quote>;
+  getHistory(ticker: string, interval: HistoryInterval, from: number, to: number): Promise<Candle[]>; // Unix seconds
+  getProfile(ticker: string): Promise<CompanyProfile | null>;
+  search(query: string): Promise<SymbolMatch[]>;
+}
+
+// Thrown when a provider is selected but its credentials are missing
+export class ProviderConfigurationError extends Error {
+  constructor(message: string, public instruction?: string) {
+    super(message);
+    this.name = 'ProviderConfigurationError';
+  }
+}
+
+// Drops bars the providers occasionally return with missing or inverted prices
+export const isValidCandle = (candle: Candle): boolean =>
+  candle.open > 0 && candle.high > 0 && candle.low > 0 && candle.close > 0 && candle.high >= candle.low;
+
+// A failed provider call; 429 and 5xx responses are worth retrying
+export class MarketDataHttpError extends Error {
+  constructor(message: string, public status: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'MarketDataHttpError';
+  }
+}
+
+export const isRetryableError = (error: unknown): boolean =>
+  error instanceof MarketDataHttpError
+    ? error.status === 429 || error.status >= 500
+    : error instanceof TypeError; // Network failure
+
+export const fetchJson = async (url: string, label: string): Promise<any> => {
+  const response = await fetch(url);
+  const responseText = await response.text();
+
+  if (!response.ok) {
+    const retryAfter = parseFloat(response.headers.get('Retry-After') || '');
+    throw new MarketDataHttpError(
+      `${label} API error: ${response.status} ${response.statusText}. Response: ${responseText.slice(0, 500)}`,
+      response.status,
+      retryAfter > 0 ? retryAfter * 1000 : undefined
+    );
+  }
+
+  try {
+    return JSON.parse(responseText);
+  } catch (parseError) {
+    throw new Error(`Failed to parse ${label} response: ${responseText.slice(0, 500)}`);
+  }
+};
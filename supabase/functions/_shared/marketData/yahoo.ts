@@ -0,0 +1,107 @@
+import { fetchJson, isValidCandle } from './types.ts';
+import type { Candle, HistoryInterval, MarketDataProvider } from './types.ts';
+
+// Any host serving the Yahoo Finance chart and search API shapes can be used
+const DEFAULT_BASE_URL = 'https://query1.finance.yahoo.com';
+
+const INTERVALS: Record<HistoryInterval, string> = {
+  '1d': '1d',
+  '1h': '60m',
+  '15m': '15m',
+  '5m': '5m',
+};
+
+interface ChartResult {
+  meta: {
+    symbol: string;
+    currency?: string;
+    exchangeName?: string;
+    longName?: string;
+    shortName?: string;
+    regularMarketPrice?: number;
+    regularMarketTime?: number;
+    regularMarketDayHigh?: number;
+    regularMarketDayLow?: number;
+    regularMarketVolume?: number;
+    chartPreviousClose?: number;
+    previousClose?: number;
+  };
+  timestamp?: number[];
+  indicators: {
+    quote: {
+      open?: (number | null)[];
+      high?: (number | null)[];
+      low?: (number | null)[];
+      close?: (number | null)[];
+      volume?: (number | null)[];
+    }[];
+  };
+}
+
+export const createYahooProvider = (): MarketDataProvider => {
+  const baseUrl = Deno.env.get('YAHOO_FINANCE_BASE_URL') || DEFAULT_BASE_URL;
+
+  const fetchChart = async (ticker: string, params: Record<string, string>): Promise<ChartResult> => {
+    const data = await fetchJson(`${baseUrl}/v8/finance/chart/${encodeURIComponent(ticker)}?${new URLSearchParams(params)}`, 'Yahoo Finance');
+    const result = data.chart?.result?.[0];
+    if (!result) {
+      throw new Error(`Yahoo Finance returned no chart for ${ticker}: ${JSON.stringify(data.chart?.error ?? data)}`);
+    }
+    return result;
+  };
+
+  return {
+    id: 'yahoo',
+    callsPerMinute: 60,
+    getQuote: async (ticker) => {
+      const { meta } = await fetchChart(ticker, { interval: '1d', range: '5d' });
+      if (!meta.regularMarketPrice || meta.regularMarketPrice <= 0) {
+        throw new Error(`Invalid price data for ${ticker}: full response=${JSON.stringify(meta)}`);
+      }
+      return {
+        price: meta.regularMarketPrice,
+        previousClose: meta.previousClose ?? meta.chartPreviousClose ?? null,
+        open: null,
+        high: meta.regularMarketDayHigh ?? null,
+        low: meta.regularMarketDayLow ?? null,
+        volume: meta.regularMarketVolume ?? null,
+        timestamp: new Date((meta.regularMarketTime || Date.now() / 1000) * 1000).toISOString(),
+      };
+    },
+    getHistory: async (ticker, interval, from, to) => {
+      const chart = await fetchChart(ticker, { interval: INTERVALS[interval], period1: String(from), period2: String(to) });
+      const quote = chart.indicators.quote[0] || {};
+
+      return (chart.timestamp || [])
+        .map((time, i): Candle => ({
+          time,
+          open: quote.open?.[i] ?? 0,
+          high: quote.high?.[i] ?? 0,
+          low: quote.low?.[i] ?? 0,
+          close: quote.close?.[i] ?? 0,
+          volume: quote.volume?.[i] ?? null,
+        }))
+        .filter(isValidCandle);
+    },
+    getProfile: async (ticker) => {
+      const { meta } = await fetchChart(ticker, { interval: '1d', range: '1d' });
+      return {
+        ticker: meta.symbol || ticker,
+        name: meta.longName || meta.shortName || ticker,
+        currency: meta.currency || null,
+        exchange: meta.exchangeName || null,
+        country: null,
+        industry: null,
+      };
+    },
+    search: async (query) => {
+      const data = await fetchJson(`${baseUrl}/v1/finance/search?${new URLSearchParams({ q: query })}`, 'Yahoo Finance');
+      return (data.quotes || []).map((match: any) => ({
+        ticker: match.symbol,
+        name: match.longname || match.shortname || match.symbol,
+        exchange: match.exchange || null,
+        type: match.quoteType || null,
+      }));
+    },
+  };
+};
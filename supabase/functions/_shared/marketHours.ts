@@ -0,0 +1,170 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+
+// Mirrors services/marketHours.ts in the app, keep the two in step
+
+export interface ExchangeHoliday {
+  name: string;
+  closeTime: string | null; // Early close of a half-day (HH:MM), null when closed all day
+}
+
+export interface MarketCalendar {
+  code: string;
+  name: string;
+  timezone: string;
+  openTime: string; // HH:MM, local time
+  closeTime: string;
+  tradingDays: number[]; // ISO weekdays
+  holidays: Map<string, ExchangeHoliday>; // By local date (YYYY-MM-DD)
+}
+
+export interface MarketSession {
+  open: Date;
+  close: Date;
+  earlyClose: boolean;
+}
+
+export interface MarketStatus {
+  isOpen: boolean;
+  reason: 'open' | 'pre_market' | 'after_hours' | 'weekend' | 'holiday';
+  holiday: string | null;
+  session: MarketSession | null; // Today's session, local date of the exchange
+  lastClose: Date | null; // Close of the latest session that has ended
+  nextOpen: Date | null;
+}
+
+// Sessions are searched this many days back and ahead, more than any run of holidays
+const SEARCH_DAYS = 14;
+
+const DATE_TIME_FORMATS = new Map<string, Intl.DateTimeFormat>();
+
+const formatIn = (timeZone: string) => {
+  let format = DATE_TIME_FORMATS.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    DATE_TIME_FORMATS.set(timeZone, format);
+  }
+  return format;
+};
+
+// Wall-clock time in the zone at `at`, as if it were UTC
+const wallClockOf = (at: Date, timeZone: string): number => {
+  const parts = formatIn(timeZone).formatToParts(at);
+  const value = (type: string) => Number(parts.find(part => part.type === type)!.value);
+  return Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+};
+
+export const localDateOf = (at: Date, timeZone: string): string =>
+  new Date(wallClockOf(at, timeZone)).toISOString().slice(0, 10);
+
+// Instant of a local date and time in the zone; the second pass settles DST changes
+export const zonedTimeToUtc = (date: string, time: string, timeZone: string): Date => {
+  const wallClock = Date.parse(`${date}T${time.slice(0, 5)}:00Z`);
+  const guess = wallClock - (wallClockOf(new Date(wallClock), timeZone) - wallClock);
+  return new Date(wallClock - (wallClockOf(new Date(guess), timeZone) - guess));
+};
+
+const addDays = (date: string, days: number): string => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+const isoWeekday = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay() || 7;
+
+// Session on a local date, null on weekends and full-day holidays
+export const sessionOn = (calendar: MarketCalendar, date: string): MarketSession | null => {
+  if (!calendar.tradingDays.includes(isoWeekday(date))) return null;
+
+  const holiday = calendar.holidays.get(date);
+  if (holiday && !holiday.closeTime) return null;
+
+  return {
+    open: zonedTimeToUtc(date, calendar.openTime, calendar.timezone),
+    close: zonedTimeToUtc(date, holiday?.closeTime ?? calendar.closeTime, calendar.timezone),
+    earlyClose: !!holiday?.closeTime,
+  };
+};
+
+export const getMarketStatus = (calendar: MarketCalendar, at: Date = new Date()): MarketStatus => {
+  const today = localDateOf(at, calendar.timezone);
+  const session = sessionOn(calendar, today);
+  const isOpen = !!session && at >= session.open && at < session.close;
+
+  let lastClose: Date | null = session && at >= session.close ? session.close : null;
+  for (let day = 1; !lastClose && day <= SEARCH_DAYS; day++) {
+    lastClose = sessionOn(calendar, addDays(today, -day))?.close ?? null;
+  }
+
+  let nextOpen: Date | null = session && at < session.open ? session.open : null;
+  for (let day = 1; !nextOpen && day <= SEARCH_DAYS; day++) {
+    nextOpen = sessionOn(calendar, addDays(today, day))?.open ?? null;
+  }
+
+  const holiday = calendar.holidays.get(today);
+  let reason: MarketStatus['reason'];
+  if (session) {
+    reason = isOpen ? 'open' : at < session.open ? 'pre_market' : 'after_hours';
+  } else {
+    reason = holiday ? 'holiday' : 'weekend';
+  }
+
+  return { isOpen, reason, holiday: holiday?.name ?? null, session, lastClose, nextOpen };
+};
+
+// A quote is stale when it lags more than `maxAgeMs` behind the time it should reflect: now
+// while the market is open, the last close otherwise. Symbols without a calendar never close.
+export const isQuoteStale = (
+  quoteTime: Date,
+  calendar: MarketCalendar | undefined,
+  maxAgeMs: number,
+  at: Date = new Date()
+): boolean => {
+  let reference = at;
+  if (calendar) {
+    const status = getMarketStatus(calendar, at);
+    if (!status.isOpen && status.lastClose) reference = status.lastClose;
+  }
+  return quoteTime.getTime() < reference.getTime() - maxAgeMs;
+};
+
+// Calendars with their holidays from a month back, enough to find the latest session
+export const loadMarketCalendars = async (supabase: SupabaseClient): Promise<Map<string, MarketCalendar>> => {
+  const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const [calendarsResult, holidaysResult] = await Promise.all([
+    supabase.from('exchange_calendars').select('*'),
+    supabase.from('exchange_holidays').select('calendar_code, holiday_date, name, close_time').gte('holiday_date', since),
+  ]);
+
+  if (calendarsResult.error) {
+    throw new Error(`Failed to fetch exchange calendars: ${calendarsResult.error.message}`);
+  }
+  if (holidaysResult.error) {
+    throw new Error(`Failed to fetch exchange holidays: ${holidaysResult.error.message}`);
+  }
+
+  const calendars = new Map<string, MarketCalendar>();
+  for (const row of calendarsResult.data || []) {
+    calendars.set(row.code, {
+      code: row.code,
+      name: row.name,
+      timezone: row.timezone,
+      openTime: row.open_time,
+      closeTime: row.close_time,
+      tradingDays: row.trading_days,
+      holidays: new Map(),
+    });
+  }
+  for (const row of holidaysResult.data || []) {
+    calendars.get(row.calendar_code)?.holidays.set(row.holiday_date, { name: row.name, closeTime: row.close_time });
+  }
+  return calendars;
+};
@@ -0,0 +1,187 @@
+// Mirrors the lot walk of summarizeFills in services/positionEngine.ts, keep the two in step
+
+export type LotMatchingMethod = 'fifo' | 'lifo' | 'average';
+
+export interface LotFill {
+  id?: string;
+  side: string;
+  quantity: number;
+  price: number;
+  leverage?: number | null;
+  fill_timestamp?: string | null;
+  created_at?: string | null;
+}
+
+// A persisted link between a closing fill and an opening lot it consumed
+export interface LotMatchRecord {
+  close_fill_id: string;
+  open_fill_id: string;
+  quantity: number;
+}
+
+export interface LotMatch {
+  closeFillId?: string;
+  openFillId?: string;
+  quantity: number;
+  openPrice: number;
+  closePrice: number;
+  realizedPnl: number; // Gross, before fees
+}
+
+export interface LotPosition {
+  isLong: boolean;
+  netQuantity: number; // Quantity still open (always >= 0)
+  leverage: number; // Effective leverage of the open lots (or of the last leg when flat)
+  lotMatches: LotMatch[];
+}
+
+interface OpenLot {
+  fillId?: string;
+  quantity: number;
+  price: number;
+  leverage: number;
+}
+
+// Residual quantities below this are treated as flat (floating point noise)
+const QUANTITY_EPSILON = 1e-9;
+
+// Leverage assumed for fills recorded without one
+const DEFAULT_LEVERAGE = 5;
+
+const getFillLeverage = (fill: LotFill): number =>
+  fill.leverage && fill.leverage > 0 ? fill.leverage : DEFAULT_LEVERAGE;
+
+const getFillTime = (fill: LotFill): number =>
+  new Date(fill.fill_timestamp || fill.created_at || 0).getTime();
+
+const sumLots = (lots: OpenLot[]) => lots.reduce((sum, lot) => sum + lot.quantity, 0);
+
+const averageLotPrice = (lots: OpenLot[]): number => {
+  const quantity = sumLots(lots);
+  return quantity > 0 ? lots.reduce((sum, lot) => sum + lot.quantity * lot.price, 0) / quantity : 0;
+};
+
+// The single leverage that gives the same margin as the lots valued at one price
+const effectiveLotLeverage = (lots: OpenLot[]): number => {
+  const quantity = sumLots(lots);
+  const leveragedQuantity = lots.reduce((sum, lot) => sum + lot.quantity / lot.leverage, 0);
+  return leveragedQuantity > 0 ? quantity / leveragedQuantity : DEFAULT_LEVERAGE;
+};
+
+// Takes `quantity` out of the open lots, honouring any matches already recorded
+// for this closing fill before falling back to the account's matching method.
+const consumeLots = (
+  lots: OpenLot[],
+  quantity: number,
+  method: LotMatchingMethod,
+  recorded: LotMatchRecord[]
+): { lot: OpenLot; quantity: number; price: number }[] => {
+  const consumed: { lot: OpenLot; quantity: number; price: number }[] = [];
+  let remaining = quantity;
+
+  recorded.forEach(record => {
+    const lot = lots.find(l => l.fillId === record.open_fill_id);
+    if (!lot || remaining <= QUANTITY_EPSILON) return;
+    const take = Math.min(record.quantity, lot.quantity, remaining);
+    if (take <= QUANTITY_EPSILON) return;
+    consumed.push({ lot, quantity: take, price: lot.price });
+    lot.quantity -= take;
+    remaining -= take;
+  });
+
+  if (remaining > QUANTITY_EPSILON) {
+    if (method === 'average') {
+      // Every lot gives up the same share and is booked at the average cost
+      const available = sumLots(lots);
+      const avgPrice = averageLotPrice(lots);
+      const ratio = Math.min(remaining / available, 1);
+      lots.forEach(lot => {
+        const take = lot.quantity * ratio;
+        if (take <= QUANTITY_EPSILON) return;
+        consumed.push({ lot, quantity: take, price: avgPrice });
+        lot.quantity -= take;
+      });
+    } else {
+      const ordered = method === 'lifo' ? [...lots].reverse() : lots;
+      for (const lot of ordered) {
+        if (remaining <= QUANTITY_EPSILON) break;
+        const take = Math.min(lot.quantity, remaining);
+        if (take <= QUANTITY_EPSILON) continue;
+        consumed.push({ lot, quantity: take, price: lot.price });
+        lot.quantity -= take;
+        remaining -= take;
+      }
+    }
+  }
+
+  // Drop exhausted lots in place
+  for (let i = lots.length - 1; i >= 0; i--) {
+    if (lots[i].quantity <= QUANTITY_EPSILON) lots.splice(i, 1);
+  }
+
+  return consumed;
+};
+
+// Walks the fills in chronological order keeping the open lots of the current
+// position leg, matching closing fills against them like the app does
+export const walkLots = (
+  fills: LotFill[],
+  method: LotMatchingMethod = 'fifo',
+  recordedMatches: LotMatchRecord[] = []
+): LotPosition => {
+  const sortedFills = [...fills].sort((a, b) => getFillTime(a) - getFillTime(b));
+
+  let lots: OpenLot[] = [];
+  let legLots: OpenLot[] = [];
+  let isLong = sortedFills[0]?.side !== 'sell';
+  const lotMatches: LotMatch[] = [];
+
+  sortedFills.forEach(fill => {
+    const fillIsLong = fill.side === 'buy';
+    const openQuantity = sumLots(lots);
+
+    if (openQuantity <= QUANTITY_EPSILON || fillIsLong === isLong) {
+      // Opening or adding to the current leg
+      if (openQuantity <= QUANTITY_EPSILON) {
+        isLong = fillIsLong;
+        legLots = [];
+        lots = [];
+      }
+      const lot = { fillId: fill.id, quantity: fill.quantity, price: fill.price, leverage: getFillLeverage(fill) };
+      lots.push(lot);
+      legLots.push({ ...lot });
+      return;
+    }
+
+    // Reducing, closing or reversing the current leg
+    const quantityClosed = Math.min(fill.quantity, openQuantity);
+    const recorded = recordedMatches.filter(m => fill.id !== undefined && m.close_fill_id === fill.id);
+
+    consumeLots(lots, quantityClosed, method, recorded).forEach(({ lot, quantity, price }) => {
+      lotMatches.push({
+        closeFillId: fill.id,
+        openFillId: lot.fillId,
+        quantity,
+        openPrice: price,
+        closePrice: fill.price,
+        realizedPnl: (isLong ? fill.price - price : price - fill.price) * quantity,
+      });
+    });
+
+    const excess = fill.quantity - quantityClosed;
+    if (excess > QUANTITY_EPSILON) {
+      isLong = fillIsLong;
+      lots = [{ fillId: fill.id, quantity: excess, price: fill.price, leverage: getFillLeverage(fill) }];
+      legLots = lots.map(lot => ({ ...lot }));
+    }
+  });
+
+  const netQuantity = sumLots(lots);
+
+  return {
+    isLong,
+    netQuantity,
+    leverage: effectiveLotLeverage(netQuantity > 0 ? lots : legLots),
+    lotMatches,
+  };
+};
@@ -0,0 +1,81 @@
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface TokenBucket {
+  take(): Promise<void>;
+}
+
+// Allows `burst` calls at once, then refills at `callsPerMinute`. Waiters are served as
+// tokens come back, so concurrent workers share one budget.
+export const createTokenBucket = (callsPerMinute: number, burst = 1): TokenBucket => {
+  if (!Number.isFinite(callsPerMinute)) {
+    return { take: async () => {} };
+  }
+
+  const refillPerMs = callsPerMinute / 60_000;
+  let tokens = burst;
+  let refilledAt = Date.now();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(burst, tokens + (now - refilledAt) * refillPerMs);
+    refilledAt = now;
+  };
+
+  return {
+    take: async () => {
+      for (;;) {
+        refill();
+        if (tokens >= 1) {
+          tokens -= 1;
+          return;
+        }
+        await sleep(Math.ceil((1 - tokens) / refillPerMs));
+      }
+    },
+  };
+};
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  isRetryable: (error: unknown) => boolean;
+  retryAfterMs?: (error: unknown) => number | undefined; // Server-provided delay, e.g. Retry-After
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+// Exponential backoff with full jitter: attempt n waits up to baseDelayMs * 2^n
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.retries || !options.isRetryable(error)) throw error;
+
+      const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+      const delayMs = Math.max(options.retryAfterMs?.(error) ?? 0, Math.round(Math.random() * backoff));
+      options.onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs);
+    }
+  }
+};
+
+// Runs `fn` over the items with at most `concurrency` calls in flight, results keep the input order
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+};
@@ -0,0 +1,31 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+
+// The functions run with the service role, so not everyone holding the public anon key may
+// call them. Allowed are the scheduled jobs, which send the cron secret, a function's own
+// continuation requests, which send the service role key, and signed-in admins.
+export const isAuthorizedCaller = async (
+  req: Request,
+  supabase: SupabaseClient,
+  serviceKey: string
+): Promise<boolean> => {
+  const cronSecret = Deno.env.get('CRON_SECRET');
+  if (cronSecret && req.headers.get('X-Cron-Secret') === cronSecret) return true;
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return false;
+  if (token === serviceKey) return true;
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) return false;
+
+  const { data: admin, error: adminError } = await supabase
+    .from('admin_users')
+    .select('user_id')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (adminError) {
+    throw new Error(`Failed to check admin: ${adminError.message}`);
+  }
+  return !!admin;
+};
@@ -0,0 +1,252 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+
+// Supabase edge runtime global, keeps the worker alive for the continuation request
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+// Runs over the active symbols (price updates, price bar ingestion) work in batches in ticker
+// order and carry on across invocations. The run row holds the cursor and a lease token: an
+// invocation swaps in a new token before it works on the run and passes it to the continuation
+// it starts, so only one invocation works on a run at a time.
+
+export const STALE_RUN_MS = 5 * 60 * 1000; // A running run without progress for this long has died
+const ABANDONED_RUN_MS = 60 * 60 * 1000; // Stale runs older than this are failed, not resumed
+const TIME_BUDGET_MS = 110_000; // Stop starting batches before the edge function limit
+const UNIQUE_VIOLATION = '23505'; // Postgres error code
+
+export interface LeasedRun {
+  id: string;
+  triggered_by: string;
+  processed: number;
+  cursor: string | null; // Last ticker of the last finished batch
+  lease_token: string | null;
+  started_at: string;
+  updated_at: string;
+}
+
+export type RunStatus = 'running' | 'completed' | 'failed';
+
+export const isStaleRun = (run: LeasedRun, now = Date.now()): boolean =>
+  now - new Date(run.updated_at).getTime() >= STALE_RUN_MS;
+
+// Replaces the run's token if it still is the one read with the run. Returns the run with its
+// new token, or null when another invocation took the run in between.
+const takeLease = async <T extends LeasedRun>(
+  supabase: SupabaseClient,
+  table: string,
+  run: T
+): Promise<T | null> => {
+  let query = supabase
+    .from(table)
+    .update({ lease_token: crypto.randomUUID(), updated_at: new Date().toISOString() })
+    .eq('id', run.id)
+    .eq('status', 'running');
+  query = run.lease_token ? query.eq('lease_token', run.lease_token) : query.is('lease_token', null);
+
+  const { data, error } = await query.select('*').maybeSingle();
+  if (error) {
+    throw new Error(`Failed to take over run ${run.id}: ${error.message}`);
+  }
+  return data;
+};
+
+// Resumes the run a continuation request names. The request must carry the run's current
+// token, unless the run went stale.
+const resumeRun = async <T extends LeasedRun>(
+  supabase: SupabaseClient,
+  table: string,
+  runId: string,
+  leaseToken: string | undefined
+): Promise<T | null> => {
+  const { data, error } = await supabase
+    .from(table)
+    .select('*')
+    .eq('id', runId)
+    .eq('status', 'running')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load run ${runId}: ${error.message}`);
+  }
+  if (!data) return null;
+
+  const run = data as T;
+  const isHolder = !!leaseToken && leaseToken === run.lease_token;
+  if (!isHolder && !isStaleRun(run)) return null;
+  return takeLease(supabase, table, run);
+};
+
+export interface ClaimOptions<T extends LeasedRun> {
+  runId?: string; // Set by continuation requests, together with the lease token
+  leaseToken?: string;
+  resumable?: (run: T) => boolean; // Whether a crashed run can go on in place of the request
+  create: () => Promise<Record<string, unknown>>; // Columns of a new run
+}
+
+// Picks the run this invocation works on and takes its lease: the given one, a crashed one to
+// resume, or a new one. Returns null when another invocation holds the run, or a crashed run
+// the request cannot resume is still in the way.
+export const claimRun = async <T extends LeasedRun>(
+  supabase: SupabaseClient,
+  table: string,
+  options: ClaimOptions<T>
+): Promise<T | null> => {
+  if (options.runId) {
+    return resumeRun<T>(supabase, table, options.runId, options.leaseToken);
+  }
+
+  const { data: running, error: runningError } = await supabase
+    .from(table)
+    .select('*')
+    .eq('status', 'running')
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (runningError) {
+    throw new Error(`Failed to load the running run: ${runningError.message}`);
+  }
+
+  if (running) {
+    const now = Date.now();
+    if (!isStaleRun(running, now)) {
+      return null;
+    }
+    if (now - new Date(running.started_at).getTime() < ABANDONED_RUN_MS) {
+      return options.resumable && !options.resumable(running) ? null : takeLease<T>(supabase, table, running);
+    }
+    await supabase
+      .from(table)
+      .update({ status: 'failed', finished_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq('id', running.id);
+  }
+
+  const { data: created, error: createError } = await supabase
+    .from(table)
+    .insert({ ...await options.create(), lease_token: crypto.randomUUID() })
+    .select('*')
+    .single();
+
+  // Another trigger started a run since we looked, the unique index keeps it the only one
+  if (createError?.code === UNIQUE_VIOLATION) {
+    return null;
+  }
+  if (createError) {
+    throw new Error(`Failed to create run: ${createError.message}`);
+  }
+  return created;
+};
+
+export const countActiveSymbols = async (supabase: SupabaseClient): Promise<number> => {
+  const { count, error } = await supabase
+    .from('symbols')
+    .select('id', { count: 'exact', head: true })
+    .eq('is_active', true);
+
+  if (error) {
+    throw new Error(`Failed to count symbols: ${error.message}`);
+  }
+  return count ?? 0;
+};
+
+// Saves the run's cursor and counters, and its end with `finish`. Returns false when another
+// invocation took the run over, this one must stop working on it.
+export const saveRun = async (
+  supabase: SupabaseClient,
+  table: string,
+  run: LeasedRun,
+  progress: Record<string, unknown>,
+  finish?: Exclude<RunStatus, 'running'>
+): Promise<boolean> => {
+  const now = new Date();
+  const { data, error } = await supabase
+    .from(table)
+    .update({
+      ...progress,
+      processed: run.processed,
+      cursor: run.cursor,
+      updated_at: now.toISOString(),
+      ...(finish && {
+        status: finish,
+        finished_at: now.toISOString(),
+        duration_ms: now.getTime() - new Date(run.started_at).getTime(),
+      }),
+    })
+    .eq('id', run.id)
+    .eq('lease_token', run.lease_token)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Failed to save run ${run.id}:`, error.message);
+    return true;
+  }
+  return !!data;
+};
+
+export interface SymbolBatchOptions<S extends { ticker: string }> {
+  table: string;
+  columns: string; // Symbol columns the batch needs, including `ticker`
+  batchSize: number;
+  startedAt: number; // Start of this invocation
+  processBatch: (symbols: S[]) => Promise<unknown>;
+  progress: () => Record<string, unknown>; // Counters saved after each batch
+}
+
+// 'paused' when the time budget ran out with symbols left, 'lost' when another invocation took
+// the run, 'done' when every symbol after the cursor was processed
+export type BatchOutcome = 'done' | 'paused' | 'lost';
+
+// Works through the active symbols after the run's cursor, saving the progress after each batch
+export const processSymbolBatches = async <S extends { ticker: string }>(
+  supabase: SupabaseClient,
+  run: LeasedRun,
+  options: SymbolBatchOptions<S>
+): Promise<BatchOutcome> => {
+  while (Date.now() - options.startedAt < TIME_BUDGET_MS) {
+    // Symbols run in ticker order so the cursor marks everything already done
+    let query = supabase
+      .from('symbols')
+      .select(options.columns)
+      .eq('is_active', true)
+      .order('ticker')
+      .limit(options.batchSize);
+    if (run.cursor) {
+      query = query.gt('ticker', run.cursor);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to fetch symbols: ${error.message}`);
+    }
+
+    const batch = (data || []) as unknown as S[];
+    if (batch.length > 0) {
+      await options.processBatch(batch);
+      run.processed += batch.length;
+      run.cursor = batch[batch.length - 1].ticker;
+    }
+
+    if (batch.length < options.batchSize) {
+      return 'done';
+    }
+    if (!await saveRun(supabase, options.table, run, options.progress())) {
+      return 'lost';
+    }
+  }
+  return 'paused';
+};
+
+// Carries on in a fresh invocation of the function, the run's cursor tells it where to start
+export const continueRun = (supabaseUrl: string, serviceKey: string, functionName: string, run: LeasedRun) => {
+  const continuation = fetch(`${supabaseUrl}/functions/v1/${functionName}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${serviceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ triggered_by: run.triggered_by, run_id: run.id, lease_token: run.lease_token }),
+  }).catch(error => console.error(`Failed to continue run ${run.id}:`, error));
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(continuation);
+  }
+};
@@ -0,0 +1,236 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { isAuthorizedCaller } from '../_shared/requestAuth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Fill {
+  side: string;
+  quantity: number;
+  price: number;
+  fill_timestamp: string | null;
+  created_at: string | null;
+}
+
+interface FinancedGroup {
+  id: string;
+  symbol_id: string;
+  open_at: string | null;
+  created_at: string;
+  operation_fills: Fill[];
+  symbols: { ticker: string; latest_price: number | null } | null;
+  accounts: {
+    night_commission: number | null;
+    financing_triple_day: number | null;
+    financing_weekends: boolean | null;
+  } | null;
+}
+
+// ISO weekday: 1 = Monday ... 7 = Sunday
+const isoWeekday = (date: Date): number => date.getUTCDay() || 7;
+
+// How many nights are charged for the given day under the account's rules
+const dayMultiplier = (
+  date: Date,
+  tripleDay: number | null,
+  chargeWeekends: boolean
+): number => {
+  const weekday = isoWeekday(date);
+  if (chargeWeekends) return 1;
+  if (weekday >= 6) return 0;
+  return weekday === tripleDay ? 3 : 1;
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Close of the symbol's last daily bar up to the end of the accrual day, null without bars
+const closeOnOrBefore = async (supabase: SupabaseClient, symbolId: string, cutoff: number): Promise<number | null> => {
+  const { data, error } = await supabase
+    .from('price_bars')
+    .select('close')
+    .eq('symbol_id', symbolId)
+    .eq('interval', '1d')
+    .lte('bar_time', new Date(cutoff).toISOString())
+    .order('bar_time', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to read daily bar: ${error.message}`);
+  }
+  return data ? Number(data.close) : null;
+};
+
+// Signed net quantity of the fills executed up to the cutoff (positive = long)
+const netQuantityAt = (fills: Fill[], cutoff: number): number =>
+  fills
+    .filter(fill => new Date(fill.fill_timestamp || fill.created_at || 0).getTime() <= cutoff)
+    .reduce((sum, fill) => sum + (fill.side === 'buy' ? fill.quantity : -fill.quantity), 0);
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (!await isAuthorizedCaller(req, supabase, supabaseServiceKey)) {
+      return jsonResponse({ error: 'Only admins and the scheduled job can accrue financing' }, 403);
+    }
+
+    const { triggered_by = 'manual', date } = await req.json().catch(() => ({ triggered_by: 'manual' }));
+
+    // Accrue for the given night (YYYY-MM-DD), defaulting to today in UTC. Nights to come have
+    // no price yet.
+    const today = new Date().toISOString().slice(0, 10);
+    const accrualDate = typeof date === 'string' && date ? date : today;
+    const accrualDay = new Date(`${accrualDate}T00:00:00Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(accrualDate) || isNaN(accrualDay.getTime())) {
+      return jsonResponse({ error: `Invalid accrual date: ${date}` }, 400);
+    }
+    if (accrualDate > today) {
+      return jsonResponse({ error: `Cannot accrue financing for ${accrualDate}, it is after today` }, 400);
+    }
+    const cutoff = accrualDay.getTime() + DAY_MS - 1;
+    const closes = new Map<string, Promise<number | null>>();
+
+    console.log(`Accruing financing for ${accrualDate} (triggered by ${triggered_by})`);
+
+    // Operations open during the night, including those closed since, so a backfilled date
+    // books every position that was held then
+    const { data: groups, error: groupsError } = await supabase
+      .from('operation_groups')
+      .select(`
+        id,
+        symbol_id,
+        open_at,
+        created_at,
+        operation_fills (side, quantity, price, fill_timestamp, created_at),
+        symbols (ticker, latest_price),
+        accounts (night_commission, financing_triple_day, financing_weekends)
+      `)
+      .or(`status.eq.open,closed_at.gte.${accrualDay.toISOString()}`);
+
+    if (groupsError) {
+      throw new Error(`Failed to fetch operations: ${groupsError.message}`);
+    }
+
+    const results = [];
+    let bookedCount = 0;
+    let skippedCount = 0;
+    let failCount = 0;
+
+    for (const group of (groups || []) as FinancedGroup[]) {
+      const ticker = group.symbols?.ticker || 'UNKNOWN';
+      try {
+        const openedAt = new Date(group.open_at || group.created_at).getTime();
+        if (openedAt > cutoff) {
+          skippedCount++;
+          results.push({ groupId: group.id, ticker, status: 'skipped', reason: 'opened after accrual date' });
+          continue;
+        }
+
+        const multiplier = dayMultiplier(
+          accrualDay,
+          group.accounts?.financing_triple_day ?? null,
+          group.accounts?.financing_weekends ?? false
+        );
+        if (multiplier === 0) {
+          skippedCount++;
+          results.push({ groupId: group.id, ticker, status: 'skipped', reason: 'no charge on this day' });
+          continue;
+        }
+
+        const quantity = Math.abs(netQuantityAt(group.operation_fills || [], cutoff));
+        if (quantity <= 0) {
+          skippedCount++;
+          results.push({ groupId: group.id, ticker, status: 'skipped', reason: 'flat position' });
+          continue;
+        }
+
+        // Value the position at the night's close: the mark price tonight, the daily bar of a
+        // past night, falling back to the last fill price up to then
+        if (!closes.has(group.symbol_id)) {
+          closes.set(group.symbol_id, closeOnOrBefore(supabase, group.symbol_id, cutoff));
+        }
+        const barClose = await closes.get(group.symbol_id)!;
+        const lastFill = (group.operation_fills || [])
+          .filter(fill => new Date(fill.fill_timestamp || fill.created_at || 0).getTime() <= cutoff)
+          .sort((a, b) => new Date(b.fill_timestamp || b.created_at || 0).getTime() - new Date(a.fill_timestamp || a.created_at || 0).getTime())[0];
+        const latestPrice = accrualDate === today ? group.symbols?.latest_price ?? null : null;
+        const markPrice = latestPrice && latestPrice > 0
+          ? latestPrice
+          : barClose && barClose > 0 ? barClose : lastFill?.price || 0;
+
+        const rate = group.accounts?.night_commission ?? 7.0;
+        const positionValue = quantity * markPrice;
+        const amount = (positionValue * rate) / 100 / 365 * multiplier;
+
+        const { error: insertError } = await supabase
+          .from('financing_ledger')
+          .upsert({
+            group_id: group.id,
+            accrual_date: accrualDate,
+            quantity,
+            mark_price: markPrice,
+            position_value: positionValue,
+            rate,
+            day_multiplier: multiplier,
+            amount,
+          }, { onConflict: 'group_id,accrual_date', ignoreDuplicates: true });
+
+        if (insertError) {
+          throw new Error(`Failed to book financing: ${insertError.message}`);
+        }
+
+        bookedCount++;
+        results.push({ groupId: group.id, ticker, status: 'booked', quantity, markPrice, multiplier, amount });
+        console.log(`✓ ${ticker}: ${quantity} @ $${markPrice} x${multiplier} → $${amount.toFixed(4)}`);
+      } catch (error) {
+        failCount++;
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`✗ Failed to accrue financing for ${ticker}:`, errorMessage);
+        results.push({ groupId: group.id, ticker, status: 'failed', error: errorMessage });
+      }
+    }
+
+    console.log(`Financing accrual completed: ${bookedCount} booked, ${skippedCount} skipped, ${failCount} failed`);
+
+    return jsonResponse({
+      message: 'Financing accrual completed',
+      accrualDate,
+      summary: {
+        total: groups?.length || 0,
+        booked: bookedCount,
+        skipped: skippedCount,
+        failed: failCount,
+      },
+      results,
+    });
+  } catch (error) {
+    console.error('Error in accrue-financing function:', error);
+    return jsonResponse(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        details: error instanceof Error ? error.stack : undefined,
+      },
+      500
+    );
+  }
+});
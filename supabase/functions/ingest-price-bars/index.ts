@@ -0,0 +1,323 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { createProviderRegistry, loadDefaultProviderId, ProviderConfigurationError } from '../_shared/marketData/index.ts';
+import type { HistoryInterval, ProviderRegistry } from '../_shared/marketData/index.ts';
+import { mapWithConcurrency } from '../_shared/rateLimit.ts';
+import { claimRun, continueRun, countActiveSymbols, processSymbolBatches, saveRun } from '../_shared/runLease.ts';
+import type { LeasedRun, RunStatus } from '../_shared/runLease.ts';
+import { isAuthorizedCaller } from '../_shared/requestAuth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+const INTERVALS: HistoryInterval[] = ['1d', '1h', '15m', '5m'];
+
+// History fetched for a symbol without any stored bar; intraday history is short at the provider
+const DEFAULT_BACKFILL_DAYS: Record<HistoryInterval, number> = {
+  '1d': 365 * 5,
+  '1h': 60,
+  '15m': 30,
+  '5m': 30,
+};
+
+const DAY_SECONDS = 24 * 60 * 60;
+const UPSERT_CHUNK_SIZE = 500;
+const BATCH_SIZE = 10;
+const CONCURRENCY = 2; // Symbols in flight, each provider's rate limiter still applies
+const MAX_RUN_ERRORS = 20;
+
+interface Symbol {
+  id: string;
+  ticker: string;
+  data_provider: string | null;
+}
+
+interface IngestRequest {
+  triggered_by?: string;
+  symbol?: string; // Ticker, all active symbols when omitted
+  interval?: HistoryInterval;
+  days?: number; // Backfill window; forces a refetch of that window even when bars exist
+  run_id?: string; // Continuation of a run over all active symbols
+  lease_token?: string;
+}
+
+interface IngestRun extends LeasedRun {
+  status: RunStatus;
+  interval: HistoryInterval;
+  days: number | null;
+  total_symbols: number;
+  succeeded: number;
+  failed: number;
+  bars: number;
+  errors: { ticker: string; error: string }[];
+}
+
+interface SymbolResult {
+  ticker: string;
+  provider?: string;
+  from?: string;
+  bars?: number;
+  status: 'success' | 'failed';
+  error?: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Start of the window to fetch: the last stored bar (re-fetched, it may have been partial),
+// or the backfill window when the symbol has no bars yet or a backfill was requested
+const resolveFrom = async (
+  supabase: SupabaseClient,
+  symbolId: string,
+  interval: HistoryInterval,
+  days: number | undefined,
+  now: number
+): Promise<number> => {
+  if (days) return now - days * DAY_SECONDS;
+
+  const { data, error } = await supabase
+    .from('price_bars')
+    .select('bar_time')
+    .eq('symbol_id', symbolId)
+    .eq('interval', interval)
+    .order('bar_time', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to read last bar: ${error.message}`);
+  }
+
+  if (data) return Math.floor(new Date(data.bar_time).getTime() / 1000);
+  return now - DEFAULT_BACKFILL_DAYS[interval] * DAY_SECONDS;
+};
+
+const ingestSymbol = async (
+  supabase: SupabaseClient,
+  providers: ProviderRegistry,
+  row: Symbol,
+  interval: HistoryInterval,
+  days: number | undefined
+): Promise<SymbolResult> => {
+  try {
+    const now = Math.floor(Date.now() / 1000);
+    const provider = providers.forSymbol(row);
+    const from = await resolveFrom(supabase, row.id, interval, days, now);
+    const candles = await providers.call(provider, p => p.getHistory(row.ticker, interval, from, now));
+    const source = provider.id;
+
+    const bars = candles.map(candle => ({
+      symbol_id: row.id,
+      interval,
+      bar_time: new Date(candle.time * 1000).toISOString(),
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+      source,
+    }));
+
+    for (let i = 0; i < bars.length; i += UPSERT_CHUNK_SIZE) {
+      const { error: upsertError } = await supabase
+        .from('price_bars')
+        .upsert(bars.slice(i, i + UPSERT_CHUNK_SIZE), { onConflict: 'symbol_id,interval,bar_time' });
+
+      if (upsertError) {
+        throw new Error(`Failed to store bars: ${upsertError.message}`);
+      }
+    }
+
+    console.log(`✓ Stored ${bars.length} ${interval} bars for ${row.ticker}`);
+    return {
+      ticker: row.ticker,
+      provider: provider.id,
+      from: new Date(from * 1000).toISOString(),
+      bars: bars.length,
+      status: 'success',
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`✗ Failed to ingest bars for ${row.ticker}:`, errorMessage);
+    return { ticker: row.ticker, status: 'failed', error: errorMessage };
+  }
+};
+
+// Counters of the run saved with its cursor
+const progressOf = (run: IngestRun) => ({
+  succeeded: run.succeeded,
+  failed: run.failed,
+  bars: run.bars,
+  errors: run.errors,
+});
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const startedAt = Date.now();
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (!await isAuthorizedCaller(req, supabase, supabaseServiceKey)) {
+      return jsonResponse({ error: 'Only admins and the scheduled job can ingest price bars' }, 403);
+    }
+
+    const providers = createProviderRegistry(await loadDefaultProviderId(supabase));
+
+    try {
+      providers.get(providers.defaultProviderId);
+    } catch (error) {
+      if (error instanceof ProviderConfigurationError) {
+        return jsonResponse({ error: error.message, instruction: error.instruction }, 400);
+      }
+      throw error;
+    }
+
+    const request: IngestRequest = await req.json().catch(() => ({ triggered_by: 'manual' }));
+    const { triggered_by = 'manual', symbol, interval = '1d', days } = request;
+
+    if (!INTERVALS.includes(interval)) {
+      return jsonResponse({ error: `Unsupported interval '${interval}'. Use one of ${INTERVALS.join(', ')}.` }, 400);
+    }
+
+    // A single symbol fits in one invocation, no run to track
+    if (symbol) {
+      const { data: row, error: symbolError } = await supabase
+        .from('symbols')
+        .select('id, ticker, data_provider')
+        .eq('ticker', symbol.toUpperCase())
+        .maybeSingle();
+
+      if (symbolError) {
+        throw new Error(`Failed to fetch symbol: ${symbolError.message}`);
+      }
+
+      if (!row) {
+        return jsonResponse({
+          message: `Symbol ${symbol.toUpperCase()} not found`,
+          summary: { total: 0, success: 0, failed: 0, bars: 0 },
+          results: [],
+        });
+      }
+
+      console.log(`Ingesting ${interval} bars for ${row.ticker} (triggered by ${triggered_by})`);
+      const result = await ingestSymbol(supabase, providers, row, interval, days);
+
+      return jsonResponse({
+        message: 'Bar ingestion completed',
+        summary: {
+          total: 1,
+          success: result.status === 'success' ? 1 : 0,
+          failed: result.status === 'failed' ? 1 : 0,
+          bars: result.bars ?? 0,
+        },
+        results: [result],
+      });
+    }
+
+    // A crashed run only goes on for a request of the same bars, another request waits for it
+    const run = await claimRun<IngestRun>(supabase, 'price_bar_ingest_runs', {
+      runId: request.run_id,
+      leaseToken: request.lease_token,
+      resumable: running => running.interval === interval && running.days === (days ?? null),
+      create: async () => ({
+        triggered_by,
+        interval,
+        days: days ?? null,
+        total_symbols: await countActiveSymbols(supabase),
+      }),
+    });
+    if (!run) {
+      return jsonResponse(
+        {
+          error: request.run_id
+            ? 'Bar ingest run is not running'
+            : 'Another bar ingest is running or waits to be resumed, retry when it has finished',
+        },
+        409
+      );
+    }
+
+    console.log(`Ingesting ${run.interval} bars for run ${run.id} after ${run.cursor ?? 'the first symbol'} (triggered by ${run.triggered_by})`);
+
+    const results: SymbolResult[] = [];
+    const outcome = await processSymbolBatches<Symbol>(supabase, run, {
+      table: 'price_bar_ingest_runs',
+      columns: 'id, ticker, data_provider',
+      batchSize: BATCH_SIZE,
+      startedAt,
+      processBatch: async batch => {
+        const batchResults = await mapWithConcurrency(batch, CONCURRENCY, row =>
+          ingestSymbol(supabase, providers, row, run.interval, run.days ?? undefined)
+        );
+        for (const result of batchResults) {
+          if (result.status === 'success') {
+            run.succeeded++;
+            run.bars += result.bars ?? 0;
+          } else {
+            run.failed++;
+            if (run.errors.length < MAX_RUN_ERRORS) {
+              run.errors.push({ ticker: result.ticker, error: result.error ?? 'Unknown error' });
+            }
+          }
+        }
+        results.push(...batchResults);
+      },
+      progress: () => progressOf(run),
+    });
+
+    let status: RunStatus = 'running';
+    if (outcome === 'lost') {
+      console.error(`Bar ingest run ${run.id} was taken over by another invocation, stopping`);
+    } else if (outcome === 'paused') {
+      continueRun(supabaseUrl, supabaseServiceKey, 'ingest-price-bars', run);
+    } else {
+      status = run.succeeded === 0 && run.failed > 0 ? 'failed' : 'completed';
+      if (!await saveRun(supabase, 'price_bar_ingest_runs', run, progressOf(run), status)) {
+        console.error(`Bar ingest run ${run.id} was taken over by another invocation, not finishing it`);
+      }
+    }
+
+    console.log(
+      `Bar ingest run ${run.id} ${status}: ${run.processed}/${run.total_symbols} processed, ` +
+      `${run.succeeded} succeeded, ${run.failed} failed, ${run.bars} bars, ` +
+      `${results.length} symbols in ${Date.now() - startedAt}ms`
+    );
+
+    return jsonResponse({
+      message: status === 'running' ? 'Bar ingestion continues in the background' : 'Bar ingestion completed',
+      runId: run.id,
+      status,
+      summary: {
+        total: run.total_symbols,
+        processed: run.processed,
+        success: run.succeeded,
+        failed: run.failed,
+        bars: run.bars,
+      },
+      results,
+    });
+  } catch (error) {
+    console.error('Error in ingest-price-bars function:', error);
+    return jsonResponse(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        details: error instanceof Error ? error.stack : undefined,
+      },
+      500
+    );
+  }
+});
@@ -0,0 +1,127 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { isAuthorizedCaller } from '../_shared/requestAuth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+// Rates are stored against USD, conversions between other currencies go through it
+const PIVOT_CURRENCY = 'USD';
+
+// Always kept fresh so a currency can be picked in the UI before it is used anywhere
+const DEFAULT_CURRENCIES = ['EUR', 'GBP'];
+
+interface FrankfurterResponse {
+  amount: number;
+  base: string;
+  date: string;
+  rates: Record<string, number>;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (!await isAuthorizedCaller(req, supabase, supabaseServiceKey)) {
+      return new Response(
+        JSON.stringify({ error: 'Only admins and the scheduled job can refresh FX rates' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const { triggered_by = 'manual' } = await req.json().catch(() => ({ triggered_by: 'manual' }));
+
+    // Collect every currency in use: instruments, accounts and the profile base currency
+    const [symbolsResult, accountsResult, profilesResult] = await Promise.all([
+      supabase.from('symbols').select('currency'),
+      supabase.from('accounts').select('currency'),
+      supabase.from('profiles').select('base_currency'),
+    ]);
+
+    for (const result of [symbolsResult, accountsResult, profilesResult]) {
+      if (result.error) {
+        throw new Error(`Failed to collect currencies: ${result.error.message}`);
+      }
+    }
+
+    const currencies = new Set<string>(DEFAULT_CURRENCIES);
+    (symbolsResult.data || []).forEach((row: { currency: string | null }) => row.currency && currencies.add(row.currency.toUpperCase()));
+    (accountsResult.data || []).forEach((row: { currency: string | null }) => row.currency && currencies.add(row.currency.toUpperCase()));
+    (profilesResult.data || []).forEach((row: { base_currency: string | null }) => row.base_currency && currencies.add(row.base_currency.toUpperCase()));
+    currencies.delete(PIVOT_CURRENCY);
+
+    console.log(`Refreshing FX rates for ${[...currencies].join(', ')} (triggered by ${triggered_by})`);
+
+    const url = `https://api.frankfurter.app/latest?from=${PIVOT_CURRENCY}&to=${[...currencies].join(',')}`;
+    const response = await fetch(url);
+    const responseText = await response.text();
+
+    if (!response.ok) {
+      throw new Error(`FX provider error: ${response.status} ${response.statusText}. Response: ${responseText}`);
+    }
+
+    const quote: FrankfurterResponse = JSON.parse(responseText);
+    const rows = Object.entries(quote.rates || {}).map(([currency, rate]) => ({
+      currency,
+      rate,
+      rate_date: quote.date,
+      source: 'frankfurter',
+    }));
+
+    const missing = [...currencies].filter(currency => !(currency in (quote.rates || {})));
+    if (missing.length > 0) {
+      console.warn(`No rate published for: ${missing.join(', ')}`);
+    }
+
+    if (rows.length > 0) {
+      const { error: upsertError } = await supabase
+        .from('fx_rates')
+        .upsert(rows, { onConflict: 'currency,rate_date' });
+
+      if (upsertError) {
+        throw new Error(`Failed to store FX rates: ${upsertError.message}`);
+      }
+    }
+
+    console.log(`✓ Stored ${rows.length} FX rates for ${quote.date}`);
+
+    return new Response(
+      JSON.stringify({
+        message: 'FX rates refreshed',
+        rateDate: quote.date,
+        rates: quote.rates,
+        missing,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in refresh-fx-rates function:', error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        details: error instanceof Error ? error.stack : undefined,
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -1,4 +1,19 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { processProtectiveOrders } from './protectiveOrders.ts';
+import type { TriggerResult } from './protectiveOrders.ts';
+import { processPriceAlerts } from './priceAlerts.ts';
+import type { AlertResult } from './priceAlerts.ts';
+import { checkQuote, discardSupersededQuotes, loadPriceCheckSettings, quarantineQuote } from './priceChecks.ts';
+import type { PriceCheckSettings } from './priceChecks.ts';
+import { createProviderRegistry, loadDefaultProviderId, ProviderConfigurationError } from '../_shared/marketData/index.ts';
+import type { MarketDataProvider, ProviderRegistry } from '../_shared/marketData/index.ts';
+import { getMarketStatus, loadMarketCalendars } from '../_shared/marketHours.ts';
+import type { MarketCalendar } from '../_shared/marketHours.ts';
+import { mapWithConcurrency } from '../_shared/rateLimit.ts';
+import { claimRun, continueRun, countActiveSymbols, processSymbolBatches, saveRun } from '../_shared/runLease.ts';
+import type { LeasedRun, RunStatus } from '../_shared/runLease.ts';
+import { isAuthorizedCaller } from '../_shared/requestAuth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -6,23 +21,212 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
 };
 
+const BATCH_SIZE = 25;
+const CONCURRENCY = 4; // Symbols in flight, each provider's rate limiter still applies
+const MAX_RUN_ERRORS = 20;
+const CLOSE_GRACE_MS = 15 * 60 * 1000; // Delayed quotes may still change shortly after the close
+
 interface Symbol {
   id: string;
   ticker: string;
   latest_price: number | null;
+  previous_close: number | null;
+  data_provider: string | null;
+  exchange_calendar: string | null;
+  price_updated_at: string | null;
 }
 
-interface FinnhubQuote {
-  c: number;
-  d: number;
-  dp: number;
-  h: number;
-  l: number;
-  o: number;
-  pc: number;
-  t: number;
+interface PriceUpdateRun extends LeasedRun {
+  status: RunStatus;
+  total_symbols: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  rejected: number;
+  retries: number;
+  triggered_orders: number;
+  alerts: number;
+  errors: { ticker: string; error: string }[];
+  api_calls: Record<string, number>;
 }
 
+interface SymbolResult {
+  ticker: string;
+  oldPrice: number | null;
+  newPrice?: number;
+  change?: number;
+  status: 'success' | 'failed' | 'skipped' | 'rejected';
+  error?: string;
+  triggers?: TriggerResult[];
+  alerts?: AlertResult[];
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// A symbol needs a quote while its market is open, and once after each session to get the
+// closing price. Symbols without a calendar are always updated.
+const isPriceDue = (symbol: Symbol, calendar: MarketCalendar | undefined, at: Date): boolean => {
+  if (!calendar || !symbol.price_updated_at) return true;
+
+  const status = getMarketStatus(calendar, at);
+  if (status.isOpen || !status.lastClose) return true;
+  return new Date(symbol.price_updated_at).getTime() < status.lastClose.getTime() + CLOSE_GRACE_MS;
+};
+
+const updateSymbol = async (
+  supabase: SupabaseClient,
+  providers: ProviderRegistry,
+  run: PriceUpdateRun,
+  symbol: Symbol,
+  calendar: MarketCalendar | undefined,
+  checkSettings: PriceCheckSettings
+): Promise<SymbolResult> => {
+  let provider: MarketDataProvider | null = null;
+  try {
+    provider = providers.forSymbol(symbol);
+    const quote = await providers.call(provider, p => p.getQuote(symbol.ticker), () => {
+      run.retries++;
+    });
+
+    const oldPrice = symbol.latest_price;
+    const newPrice = quote.price;
+
+    // Suspicious quotes wait for review instead of moving P&L, stops and alerts
+    const failures = checkQuote(quote, symbol, calendar, checkSettings);
+    if (failures.length > 0) {
+      await quarantineQuote(supabase, {
+        symbolId: symbol.id,
+        oldPrice,
+        quote,
+        failures,
+        source: `${provider.id}_api`,
+        triggeredBy: run.triggered_by,
+        runId: run.id,
+      });
+      run.rejected++;
+      return {
+        ticker: symbol.ticker,
+        oldPrice,
+        newPrice,
+        status: 'rejected',
+        error: failures.map(failure => failure.message).join('; '),
+      };
+    }
+
+    const { error: updateError } = await supabase
+      .from('symbols')
+      .update({
+        latest_price: newPrice,
+        previous_close: quote.previousClose, // Daily change on the watchlists
+        price_updated_at: new Date().toISOString(),
+        price_as_of: quote.timestamp,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', symbol.id);
+
+    if (updateError) {
+      throw new Error(`Failed to update price in DB: ${updateError.message}`);
+    }
+
+    try {
+      await discardSupersededQuotes(supabase, symbol.id, quote.timestamp);
+    } catch (reviewError) {
+      console.error(`✗ Failed to resolve held quotes for ${symbol.ticker}:`, reviewError);
+    }
+
+    await supabase.from('price_update_log').insert({
+      symbol_id: symbol.id,
+      old_price: oldPrice,
+      new_price: newPrice,
+      source: `${provider.id}_api`,
+      triggered_by: run.triggered_by,
+      status: 'success',
+      run_id: run.id,
+    });
+
+    // Close operations whose stop-loss, take-profit or trailing stop was crossed
+    let triggers: TriggerResult[] = [];
+    try {
+      triggers = await processProtectiveOrders(supabase, symbol.id, newPrice, run.triggered_by, run.id);
+      run.triggered_orders += triggers.length;
+    } catch (triggerError) {
+      console.error(`✗ Failed to process protective orders for ${symbol.ticker}:`, triggerError);
+    }
+
+    // Alerts run after protective orders so a stop-distance alert skips operations just closed
+    let alerts: AlertResult[] = [];
+    try {
+      alerts = await processPriceAlerts(supabase, symbol.id, symbol.ticker, newPrice, quote.previousClose);
+      run.alerts += alerts.length;
+    } catch (alertError) {
+      console.error(`✗ Failed to process price alerts for ${symbol.ticker}:`, alertError);
+    }
+
+    run.succeeded++;
+    return {
+      ticker: symbol.ticker,
+      oldPrice,
+      newPrice,
+      change: newPrice - (oldPrice || 0),
+      status: 'success',
+      triggers,
+      alerts,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    run.failed++;
+    if (run.errors.length < MAX_RUN_ERRORS) {
+      run.errors.push({ ticker: symbol.ticker, error: errorMessage });
+    }
+
+    await supabase.from('price_update_log').insert({
+      symbol_id: symbol.id,
+      old_price: symbol.latest_price,
+      new_price: null,
+      source: `${provider?.id ?? symbol.data_provider ?? providers.defaultProviderId}_api`,
+      triggered_by: run.triggered_by,
+      status: 'failed',
+      error_message: errorMessage,
+      run_id: run.id,
+    });
+
+    return {
+      ticker: symbol.ticker,
+      oldPrice: symbol.latest_price,
+      status: 'failed',
+      error: errorMessage,
+    };
+  }
+};
+
+// Adds this invocation's provider requests to those of earlier invocations of the run
+const countApiCalls = (previous: Record<string, number>, providers: ProviderRegistry): Record<string, number> => {
+  const counts = { ...previous };
+  const current = providers.callCounts();
+  for (const id in current) {
+    counts[id] = (counts[id] ?? 0) + (current[id as keyof typeof current] ?? 0);
+  }
+  return counts;
+};
+
+// Counters of the run saved with its cursor
+const progressOf = (run: PriceUpdateRun) => ({
+  succeeded: run.succeeded,
+  failed: run.failed,
+  skipped: run.skipped,
+  rejected: run.rejected,
+  retries: run.retries,
+  triggered_orders: run.triggered_orders,
+  alerts: run.alerts,
+  errors: run.errors,
+  api_calls: run.api_calls,
+});
+
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, {
@@ -32,176 +236,119 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
+    const startedAt = Date.now();
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const finnhubApiKey = Deno.env.get('FINNHUB_API_KEY');
-
-    console.log('Edge Function Environment Check:', {
-      hasSupabaseUrl: !!supabaseUrl,
-      hasServiceKey: !!supabaseServiceKey,
-      hasFinnhubKey: !!finnhubApiKey,
-      finnhubKeyPreview: finnhubApiKey ? finnhubApiKey.substring(0, 4) + '...' : 'not set',
-    });
-
-    if (!finnhubApiKey || finnhubApiKey === 'your_finnhub_api_key_here') {
-      return new Response(
-        JSON.stringify({
-          error: 'FINNHUB_API_KEY not configured. Please add your Finnhub API key to the environment variables.',
-          instruction: 'Get a free API key from https://finnhub.io/ and configure it in your Supabase project settings.',
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
-
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const { triggered_by = 'manual' } = await req.json().catch(() => ({ triggered_by: 'manual' }));
+    if (!await isAuthorizedCaller(req, supabase, supabaseServiceKey)) {
+      return jsonResponse({ error: 'Only admins and the scheduled job can update prices' }, 403);
+    }
 
-    const { data: symbols, error: symbolsError } = await supabase
-      .from('symbols')
-      .select('id, ticker, latest_price')
-      .eq('is_active', true);
+    const providers = createProviderRegistry(await loadDefaultProviderId(supabase));
 
-    if (symbolsError) {
-      throw new Error(`Failed to fetch symbols: ${symbolsError.message}`);
+    // The global provider must be usable, per-symbol providers fail only their own symbols
+    try {
+      providers.get(providers.defaultProviderId);
+    } catch (error) {
+      if (error instanceof ProviderConfigurationError) {
+        return jsonResponse({ error: error.message, instruction: error.instruction }, 400);
+      }
+      throw error;
     }
 
-    if (!symbols || symbols.length === 0) {
-      return new Response(
-        JSON.stringify({ 
-          message: 'No active symbols found', 
-          summary: { total: 0, success: 0, failed: 0 },
-          results: [] 
-        }),
-        {
-          status: 200,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
+    const { triggered_by = 'manual', run_id, lease_token } = await req.json().catch(() => ({ triggered_by: 'manual' }));
+
+    const run = await claimRun<PriceUpdateRun>(supabase, 'price_update_runs', {
+      runId: run_id,
+      leaseToken: lease_token,
+      create: async () => ({
+        triggered_by,
+        provider: providers.defaultProviderId,
+        total_symbols: await countActiveSymbols(supabase),
+      }),
+    });
+    if (!run) {
+      return jsonResponse(
+        { error: run_id ? 'Price update run is not running' : 'A price update is already running' },
+        409
       );
     }
 
-    console.log(`Updating prices for ${symbols.length} symbols`);
-
-    const results = [];
-    let successCount = 0;
-    let failCount = 0;
-
-    for (const symbol of symbols as Symbol[]) {
-      try {
-        const finnhubUrl = `https://finnhub.io/api/v1/quote?symbol=${symbol.ticker}&token=${finnhubApiKey}`;
-        console.log(`Fetching price for ${symbol.ticker} from ${finnhubUrl.replace(finnhubApiKey, '***')}`);
-        
-        const response = await fetch(finnhubUrl);
-        const responseText = await response.text();
-        
-        console.log(`Response for ${symbol.ticker}: status=${response.status}, body=${responseText}`);
-        
-        if (!response.ok) {
-          throw new Error(`Finnhub API error: ${response.status} ${response.statusText}. Response: ${responseText}`);
-        }
-
-        let quote: FinnhubQuote;
-        try {
-          quote = JSON.parse(responseText);
-        } catch (parseError) {
-          throw new Error(`Failed to parse Finnhub response: ${responseText}`);
-        }
-        
-        console.log(`Quote for ${symbol.ticker}:`, quote);
-        
-        if (!quote.c || quote.c <= 0) {
-          throw new Error(`Invalid price data for ${symbol.ticker}: price=${quote.c}, full response=${JSON.stringify(quote)}`);
-        }
-
-        const oldPrice = symbol.latest_price;
-        const newPrice = quote.c;
-
-        const { error: updateError } = await supabase
-          .from('symbols')
-          .update({ latest_price: newPrice, updated_at: new Date().toISOString() })
-          .eq('id', symbol.id);
-
-        if (updateError) {
-          throw new Error(`Failed to update price in DB: ${updateError.message}`);
-        }
-
-        await supabase.from('price_update_log').insert({
-          symbol_id: symbol.id,
-          old_price: oldPrice,
-          new_price: newPrice,
-          source: 'finnhub_api',
-          triggered_by,
-          status: 'success',
-        });
-
-        successCount++;
-        results.push({
-          ticker: symbol.ticker,
-          oldPrice,
-          newPrice,
-          change: newPrice - (oldPrice || 0),
-          status: 'success',
-        });
-
-        console.log(`✓ Updated ${symbol.ticker}: $${oldPrice} → $${newPrice}`);
-      } catch (error) {
-        failCount++;
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        
-        console.error(`✗ Failed to update ${symbol.ticker}:`, errorMessage);
-        
-        await supabase.from('price_update_log').insert({
-          symbol_id: symbol.id,
-          old_price: symbol.latest_price,
-          new_price: null,
-          source: 'finnhub_api',
-          triggered_by,
-          status: 'failed',
-          error_message: errorMessage,
-        });
-
-        results.push({
-          ticker: symbol.ticker,
-          oldPrice: symbol.latest_price,
-          status: 'failed',
-          error: errorMessage,
-        });
-      }
+    // Without calendars every symbol is treated as trading
+    const calendars = await loadMarketCalendars(supabase).catch(error => {
+      console.error('Failed to load exchange calendars, updating all symbols:', error);
+      return new Map<string, MarketCalendar>();
+    });
+    const checkSettings = await loadPriceCheckSettings(supabase);
+    const previousApiCalls = run.api_calls ?? {};
 
-      await new Promise(resolve => setTimeout(resolve, 1100));
-    }
+    const results: SymbolResult[] = [];
+    const outcome = await processSymbolBatches<Symbol>(supabase, run, {
+      table: 'price_update_runs',
+      columns: 'id, ticker, latest_price, previous_close, data_provider, exchange_calendar, price_updated_at',
+      batchSize: BATCH_SIZE,
+      startedAt,
+      processBatch: async batch => {
+        results.push(...await mapWithConcurrency(batch, CONCURRENCY, async (symbol): Promise<SymbolResult> => {
+          const calendar = calendars.get(symbol.exchange_calendar ?? '');
+          if (!isPriceDue(symbol, calendar, new Date())) {
+            run.skipped++;
+            return { ticker: symbol.ticker, oldPrice: symbol.latest_price, status: 'skipped' };
+          }
+          return updateSymbol(supabase, providers, run, symbol, calendar, checkSettings);
+        }));
+      },
+      progress: () => {
+        run.api_calls = countApiCalls(previousApiCalls, providers);
+        return progressOf(run);
+      },
+    });
 
-    console.log(`Price update completed: ${successCount} succeeded, ${failCount} failed`);
-
-    return new Response(
-      JSON.stringify({
-        message: 'Price update completed',
-        summary: {
-          total: symbols.length,
-          success: successCount,
-          failed: failCount,
-        },
-        results,
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    let status: RunStatus = 'running';
+    if (outcome === 'lost') {
+      console.error(`Price update run ${run.id} was taken over by another invocation, stopping`);
+    } else if (outcome === 'paused') {
+      continueRun(supabaseUrl, supabaseServiceKey, 'update-stock-prices', run);
+    } else {
+      status = run.succeeded === 0 && run.failed > 0 ? 'failed' : 'completed';
+      run.api_calls = countApiCalls(previousApiCalls, providers);
+      if (!await saveRun(supabase, 'price_update_runs', run, progressOf(run), status)) {
+        console.error(`Price update run ${run.id} was taken over by another invocation, not finishing it`);
       }
+    }
+
+    console.log(
+      `Price update run ${run.id} ${status}: ${run.processed}/${run.total_symbols} processed, ` +
+      `${run.succeeded} succeeded, ${run.failed} failed, ${run.skipped} skipped (market closed), ${run.rejected} rejected, ` +
+      `${run.retries} retries, ${results.length} symbols in ${Date.now() - startedAt}ms`
     );
+
+    return jsonResponse({
+      message: status === 'running' ? 'Price update continues in the background' : 'Price update completed',
+      runId: run.id,
+      status,
+      summary: {
+        total: run.total_symbols,
+        processed: run.processed,
+        success: run.succeeded,
+        failed: run.failed,
+        skipped: run.skipped,
+        rejected: run.rejected,
+        retries: run.retries,
+        triggered: run.triggered_orders,
+        alerts: run.alerts,
+      },
+      results,
+    });
   } catch (error) {
     console.error('Error in update-stock-prices function:', error);
-    return new Response(
-      JSON.stringify({
+    return jsonResponse(
+      {
         error: error instanceof Error ? error.message : 'Unknown error occurred',
         details: error instanceof Error ? error.stack : undefined,
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
+      },
+      500
     );
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,144 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+
+export type AlertType = 'price_above' | 'price_below' | 'percent_move' | 'stop_distance';
+
+interface AlertOperation {
+  id: string;
+  status: string;
+  stop_loss: number | null;
+  trailing_stop_price: number | null;
+  operation_fills: { side: string; quantity: number }[];
+}
+
+export interface PriceAlert {
+  id: string;
+  user_id: string;
+  alert_type: AlertType;
+  threshold: number;
+  note: string | null;
+  operation_groups: AlertOperation | null;
+}
+
+export interface AlertResult {
+  alertId: string;
+  type: AlertType;
+  message: string;
+}
+
+// Stop closest to the price: the higher of the two for a long, the lower for a short
+const effectiveStop = (operation: AlertOperation): { level: number; isLong: boolean } | null => {
+  const net = operation.operation_fills.reduce((sum, fill) => sum + (fill.side === 'buy' ? fill.quantity : -fill.quantity), 0);
+  if (Math.abs(net) < 1e-9) return null;
+
+  const isLong = net > 0;
+  const levels = [operation.stop_loss, operation.trailing_stop_price].filter((level): level is number => level !== null);
+  if (levels.length === 0) return null;
+
+  return { level: isLong ? Math.max(...levels) : Math.min(...levels), isLong };
+};
+
+// Returns the notification message when the alert condition holds for `price`, otherwise null
+export const evaluateAlert = (
+  alert: PriceAlert,
+  ticker: string,
+  price: number,
+  previousClose: number | null
+): string | null => {
+  const threshold = Number(alert.threshold);
+
+  switch (alert.alert_type) {
+    case 'price_above':
+      return price >= threshold ? `${ticker} rose to ${price.toFixed(2)}, above ${threshold.toFixed(2)}` : null;
+    case 'price_below':
+      return price <= threshold ? `${ticker} fell to ${price.toFixed(2)}, below ${threshold.toFixed(2)}` : null;
+    case 'percent_move': {
+      if (!previousClose) return null;
+      const move = ((price - previousClose) / previousClose) * 100;
+      return Math.abs(move) >= threshold
+        ? `${ticker} moved ${move >= 0 ? '+' : ''}${move.toFixed(2)}% since the previous close (${price.toFixed(2)})`
+        : null;
+    }
+    case 'stop_distance': {
+      const operation = alert.operation_groups;
+      if (!operation || operation.status !== 'open') return null;
+      const stop = effectiveStop(operation);
+      if (!stop) return null;
+      const distance = ((stop.isLong ? price - stop.level : stop.level - price) / price) * 100;
+      return distance <= threshold
+        ? `${ticker} at ${price.toFixed(2)} is ${distance.toFixed(2)}% from the ${stop.isLong ? 'long' : 'short'} stop at ${stop.level.toFixed(2)}`
+        : null;
+    }
+    default:
+      return null;
+  }
+};
+
+const ALERT_TITLES: Record<AlertType, string> = {
+  price_above: 'Price above',
+  price_below: 'Price below',
+  percent_move: 'Large move',
+  stop_distance: 'Near stop',
+};
+
+// Checks the active alerts of a symbol against a fresh quote. Alerts that fire write a
+// notification for their owner and are deactivated until re-armed from the app.
+export const processPriceAlerts = async (
+  supabase: SupabaseClient,
+  symbolId: string,
+  ticker: string,
+  price: number,
+  previousClose: number | null
+): Promise<AlertResult[]> => {
+  const { data, error } = await supabase
+    .from('price_alerts')
+    .select(`
+      id,
+      user_id,
+      alert_type,
+      threshold,
+      note,
+      operation_groups (id, status, stop_loss, trailing_stop_price, operation_fills (side, quantity))
+    `)
+    .eq('symbol_id', symbolId)
+    .eq('is_active', true);
+
+  if (error) {
+    throw new Error(`Failed to fetch price alerts: ${error.message}`);
+  }
+
+  const fired: AlertResult[] = [];
+
+  for (const alert of (data || []) as PriceAlert[]) {
+    const message = evaluateAlert(alert, ticker, price, previousClose);
+    if (!message) continue;
+
+    const { error: notificationError } = await supabase
+      .from('notifications')
+      .insert({
+        user_id: alert.user_id,
+        alert_id: alert.id,
+        symbol_id: symbolId,
+        title: `${ALERT_TITLES[alert.alert_type]}: ${ticker}`,
+        message: alert.note ? `${message}. ${alert.note}` : message,
+        price,
+      });
+
+    if (notificationError) {
+      throw new Error(`Failed to create notification: ${notificationError.message}`);
+    }
+
+    const { error: alertError } = await supabase
+      .from('price_alerts')
+      .update({ is_active: false, triggered_at: new Date().toISOString(), triggered_price: price })
+      .eq('id', alert.id);
+
+    if (alertError) {
+      throw new Error(`Failed to deactivate alert: ${alertError.message}`);
+    }
+
+    console.log(`🔔 ${alert.alert_type} alert ${alert.id}: ${message}`);
+    fired.push({ alertId: alert.id, type: alert.alert_type, message });
+  }
+
+  return fired;
+};
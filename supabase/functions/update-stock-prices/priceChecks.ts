@@ -0,0 +1,149 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import type { Quote } from '../_shared/marketData/index.ts';
+import { isQuoteStale } from '../_shared/marketHours.ts';
+import type { MarketCalendar } from '../_shared/marketHours.ts';
+
+export type PriceCheckRule = 'max_jump' | 'stale_quote' | 'zero_volume';
+
+export interface PriceCheckSettings {
+  maxJumpPercent: number | null; // null disables the rule
+  maxQuoteAgeMinutes: number | null;
+  rejectZeroVolume: boolean;
+}
+
+export interface PriceCheckFailure {
+  rule: PriceCheckRule;
+  message: string;
+}
+
+// Used when the settings row is missing or unreadable
+const DEFAULT_SETTINGS: PriceCheckSettings = {
+  maxJumpPercent: 25,
+  maxQuoteAgeMinutes: 60,
+  rejectZeroVolume: true,
+};
+
+export const loadPriceCheckSettings = async (supabase: SupabaseClient): Promise<PriceCheckSettings> => {
+  const { data, error } = await supabase
+    .from('price_check_settings')
+    .select('max_jump_percent, max_quote_age_minutes, reject_zero_volume')
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) console.error('Failed to read price check settings, using defaults:', error.message);
+    return DEFAULT_SETTINGS;
+  }
+
+  return {
+    maxJumpPercent: data.max_jump_percent !== null ? Number(data.max_jump_percent) : null,
+    maxQuoteAgeMinutes: data.max_quote_age_minutes,
+    rejectZeroVolume: data.reject_zero_volume,
+  };
+};
+
+const percentFrom = (price: number, reference: number) => Math.abs(price / reference - 1) * 100;
+
+// Rules the quote breaks, empty when it can be applied. A jump has to be large against both the
+// previous close and the stored price, so once a large move is accepted the quotes that follow
+// it pass.
+export const checkQuote = (
+  quote: Quote,
+  symbol: { latest_price: number | null; previous_close: number | null },
+  calendar: MarketCalendar | undefined,
+  settings: PriceCheckSettings,
+  at: Date = new Date()
+): PriceCheckFailure[] => {
+  const failures: PriceCheckFailure[] = [];
+
+  const previousClose = quote.previousClose ?? symbol.previous_close;
+  if (settings.maxJumpPercent !== null && previousClose && previousClose > 0) {
+    const jump = percentFrom(quote.price, previousClose);
+    const fromStored = symbol.latest_price && symbol.latest_price > 0 ? percentFrom(quote.price, symbol.latest_price) : jump;
+    if (jump > settings.maxJumpPercent && fromStored > settings.maxJumpPercent) {
+      failures.push({
+        rule: 'max_jump',
+        message: `Price ${quote.price} is ${jump.toFixed(1)}% from the previous close ${previousClose} (limit ${settings.maxJumpPercent}%)`,
+      });
+    }
+  }
+
+  if (settings.maxQuoteAgeMinutes !== null) {
+    const quoteTime = new Date(quote.timestamp);
+    if (isQuoteStale(quoteTime, calendar, settings.maxQuoteAgeMinutes * 60 * 1000, at)) {
+      failures.push({
+        rule: 'stale_quote',
+        message: `Last trade at ${quoteTime.toISOString()} is more than ${settings.maxQuoteAgeMinutes} minutes old`,
+      });
+    }
+  }
+
+  if (settings.rejectZeroVolume && quote.volume === 0) {
+    failures.push({ rule: 'zero_volume', message: 'Quote reports no traded volume' });
+  }
+
+  return failures;
+};
+
+// Quarantines a quote for review in the price update log. A symbol keeps one pending entry,
+// a later rejected quote replaces it.
+export const quarantineQuote = async (
+  supabase: SupabaseClient,
+  entry: {
+    symbolId: string;
+    oldPrice: number | null;
+    quote: Quote;
+    failures: PriceCheckFailure[];
+    source: string;
+    triggeredBy: string;
+    runId: string;
+  }
+): Promise<void> => {
+  const fields = {
+    old_price: entry.oldPrice,
+    new_price: entry.quote.price,
+    previous_close: entry.quote.previousClose ?? null,
+    source: entry.source,
+    triggered_by: entry.triggeredBy,
+    status: 'rejected',
+    error_message: entry.failures.map(failure => failure.message).join('; '),
+    rejected_rules: entry.failures.map(failure => failure.rule),
+    quote_time: entry.quote.timestamp,
+    review_status: 'pending',
+    run_id: entry.runId,
+  };
+
+  const { data: pending, error: pendingError } = await supabase
+    .from('price_update_log')
+    .select('id')
+    .eq('symbol_id', entry.symbolId)
+    .eq('review_status', 'pending')
+    .limit(1)
+    .maybeSingle();
+
+  if (pendingError) {
+    throw new Error(`Failed to look up pending quote review: ${pendingError.message}`);
+  }
+
+  const { error } = pending
+    ? await supabase.from('price_update_log').update({ ...fields, created_at: new Date().toISOString() }).eq('id', pending.id)
+    : await supabase.from('price_update_log').insert({ ...fields, symbol_id: entry.symbolId });
+
+  if (error) {
+    throw new Error(`Failed to quarantine quote: ${error.message}`);
+  }
+};
+
+// Discards the pending quote of a symbol once a quote at least as recent has been applied,
+// accepting the held one later would roll the price back
+export const discardSupersededQuotes = async (supabase: SupabaseClient, symbolId: string, quoteTime: string): Promise<void> => {
+  const { error } = await supabase
+    .from('price_update_log')
+    .update({ review_status: 'discarded', reviewed_at: new Date().toISOString() })
+    .eq('symbol_id', symbolId)
+    .eq('review_status', 'pending')
+    .or(`quote_time.is.null,quote_time.lte.${quoteTime}`);
+
+  if (error) {
+    throw new Error(`Failed to discard superseded quotes: ${error.message}`);
+  }
+};
@@ -0,0 +1,244 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { walkLots } from '../_shared/positionLots.ts';
+import type { LotFill, LotMatchingMethod, LotMatchRecord, LotPosition } from '../_shared/positionLots.ts';
+
+export type TriggerType = 'stop_loss' | 'take_profit' | 'trailing_stop';
+
+interface Fill extends LotFill {
+  id: string;
+  fill_lot_matches: LotMatchRecord[] | null;
+}
+
+export interface ProtectedGroup {
+  id: string;
+  open_at: string | null;
+  created_at: string;
+  stop_loss: number | null;
+  take_profit: number | null;
+  trailing_stop_distance: number | null;
+  trailing_stop_price: number | null;
+  operation_fills: Fill[];
+  financing_ledger: { accrual_date: string }[] | null;
+  accounts: {
+    open_close_commission: number | null;
+    night_commission: number | null;
+    lot_matching_method: LotMatchingMethod | null;
+  } | null;
+  symbols: { currency: string | null } | null;
+}
+
+export interface TriggerResult {
+  groupId: string;
+  trigger: TriggerType;
+  level: number;
+  price: number;
+  quantity: number;
+}
+
+// Open lots of the operation, matched with the account's method and the recorded matches
+const positionOf = (group: ProtectedGroup): LotPosition => {
+  const fills = group.operation_fills || [];
+  return walkLots(fills, group.accounts?.lot_matching_method ?? 'fifo', fills.flatMap(fill => fill.fill_lot_matches || []));
+};
+
+// Open operations of the symbol that have at least one protective level set
+export const fetchProtectedGroups = async (supabase: SupabaseClient, symbolId: string): Promise<ProtectedGroup[]> => {
+  const { data, error } = await supabase
+    .from('operation_groups')
+    .select(`
+      id,
+      open_at,
+      created_at,
+      stop_loss,
+      take_profit,
+      trailing_stop_distance,
+      trailing_stop_price,
+      operation_fills (
+        id, side, quantity, price, leverage, fill_timestamp, created_at,
+        fill_lot_matches!close_fill_id (close_fill_id, open_fill_id, quantity)
+      ),
+      financing_ledger (accrual_date),
+      accounts (open_close_commission, night_commission, lot_matching_method),
+      symbols (currency)
+    `)
+    .eq('symbol_id', symbolId)
+    .eq('status', 'open')
+    .or('stop_loss.not.is.null,take_profit.not.is.null,trailing_stop_distance.not.is.null');
+
+  if (error) {
+    throw new Error(`Failed to fetch protected operations: ${error.message}`);
+  }
+
+  return (data || []) as ProtectedGroup[];
+};
+
+// Returns the level crossed by `price`, checking the stop before the target so a
+// gap through both is treated conservatively, and the ratcheted trailing stop
+export const evaluateLevels = (
+  group: ProtectedGroup,
+  isLong: boolean,
+  price: number
+): { trigger: { type: TriggerType; level: number } | null; trailingStopPrice: number | null } => {
+  const crossedAgainst = (level: number | null) =>
+    level !== null && (isLong ? price <= level : price >= level);
+  const crossedInFavour = (level: number | null) =>
+    level !== null && (isLong ? price >= level : price <= level);
+
+  if (crossedAgainst(group.stop_loss)) {
+    return { trigger: { type: 'stop_loss', level: group.stop_loss! }, trailingStopPrice: group.trailing_stop_price };
+  }
+  if (crossedAgainst(group.trailing_stop_price)) {
+    return { trigger: { type: 'trailing_stop', level: group.trailing_stop_price! }, trailingStopPrice: group.trailing_stop_price };
+  }
+  if (crossedInFavour(group.take_profit)) {
+    return { trigger: { type: 'take_profit', level: group.take_profit! }, trailingStopPrice: group.trailing_stop_price };
+  }
+
+  // Move the trailing stop only in the position's favour
+  let trailingStopPrice = group.trailing_stop_price;
+  if (group.trailing_stop_distance) {
+    const candidate = isLong ? price - group.trailing_stop_distance : price + group.trailing_stop_distance;
+    if (trailingStopPrice === null || (isLong ? candidate > trailingStopPrice : candidate < trailingStopPrice)) {
+      trailingStopPrice = candidate;
+    }
+  }
+
+  return { trigger: null, trailingStopPrice };
+};
+
+// Nights held before the daily accrual first booked the operation
+const nightsBeforeLedger = (openAt: string, firstAccrualDate: string): number => {
+  const openDate = new Date(openAt).toISOString().slice(0, 10);
+  return Math.max(0, Math.round((Date.parse(`${firstAccrualDate}T00:00:00Z`) - Date.parse(`${openDate}T00:00:00Z`)) / (24 * 60 * 60 * 1000)));
+};
+
+// Id the planned closing fill goes by until close_position inserts it
+const PENDING_CLOSE_FILL_ID = 'pending-close';
+
+// Fully closes an operation at `price`, mirroring planPositionClose in the app: close
+// commission from the account, close-time night fee estimate for the nights the
+// financing ledger does not cover, the lots the fill consumes and the position's
+// leverage, all written by close_position in one transaction.
+const closeOperation = async (supabase: SupabaseClient, group: ProtectedGroup, position: LotPosition, price: number) => {
+  const closeDate = new Date();
+  const openAt = group.open_at || group.created_at;
+  const daysHeld = Math.ceil((closeDate.getTime() - new Date(openAt).getTime()) / (1000 * 60 * 60 * 24));
+  const quantity = position.netQuantity;
+
+  const closeCommission = group.accounts?.open_close_commission || 0.25;
+  const closingFees = (quantity * price * closeCommission) / 100;
+
+  const firstAccrualDate = (group.financing_ledger || []).map(entry => entry.accrual_date).sort()[0];
+  const nightsEstimated = firstAccrualDate ? nightsBeforeLedger(openAt, firstAccrualDate) : daysHeld;
+  const totalPositionValue = group.operation_fills.reduce((sum, fill) => sum + fill.quantity * fill.price, 0);
+  const nightCommissionRate = group.accounts?.night_commission || 7.0;
+  const totalNightFees = (totalPositionValue * nightCommissionRate) / 100 / 365 * nightsEstimated;
+
+  const closingFill = {
+    side: position.isLong ? 'sell' : 'buy',
+    quantity,
+    price,
+    close_fee: closingFees,
+    night_fee: 0,
+    fee_currency: group.symbols?.currency || 'USD',
+    leverage: position.leverage,
+    fill_timestamp: closeDate.toISOString(),
+    note: 'Closed automatically by protective order',
+  };
+
+  const method = group.accounts?.lot_matching_method ?? 'fifo';
+  const recorded = group.operation_fills.flatMap(fill => fill.fill_lot_matches || []);
+  const lotMatches = walkLots([...group.operation_fills, { ...closingFill, id: PENDING_CLOSE_FILL_ID }], method, recorded)
+    .lotMatches
+    .filter(match => match.closeFillId === PENDING_CLOSE_FILL_ID && match.openFillId)
+    .map(match => ({
+      open_fill_id: match.openFillId,
+      quantity: match.quantity,
+      open_price: match.openPrice,
+      close_price: match.closePrice,
+      realized_pnl: match.realizedPnl,
+    }));
+
+  const { error } = await supabase.rpc('close_position', {
+    p_group_id: group.id,
+    p_closing_fill: closingFill,
+    p_lot_matches: lotMatches,
+    p_close_group: true,
+    p_fill_night_fee: group.operation_fills.length > 0 ? totalNightFees / group.operation_fills.length : null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to close operation: ${error.message}`);
+  }
+};
+
+// Checks every protected open operation of a symbol against a fresh quote, closing
+// the ones whose level was crossed and logging each trigger in price_update_log
+export const processProtectiveOrders = async (
+  supabase: SupabaseClient,
+  symbolId: string,
+  price: number,
+  triggeredBy: string,
+  runId: string
+): Promise<TriggerResult[]> => {
+  const groups = await fetchProtectedGroups(supabase, symbolId);
+  const triggered: TriggerResult[] = [];
+
+  // A group that fails, e.g. one closed by hand in the meantime, must not hold up the others
+  for (const group of groups) {
+    let trigger: { type: TriggerType; level: number } | null = null;
+    try {
+      const position = positionOf(group);
+      if (position.netQuantity < 1e-9) continue;
+
+      const evaluation = evaluateLevels(group, position.isLong, price);
+      trigger = evaluation.trigger;
+
+      if (!trigger) {
+        if (evaluation.trailingStopPrice !== group.trailing_stop_price) {
+          await supabase
+            .from('operation_groups')
+            .update({ trailing_stop_price: evaluation.trailingStopPrice })
+            .eq('id', group.id);
+        }
+        continue;
+      }
+
+      const quantity = position.netQuantity;
+      await closeOperation(supabase, group, position, price);
+
+      await supabase.from('price_update_log').insert({
+        symbol_id: symbolId,
+        old_price: trigger.level,
+        new_price: price,
+        source: 'protective_order',
+        triggered_by: triggeredBy,
+        status: 'triggered',
+        operation_group_id: group.id,
+        trigger_type: trigger.type,
+        run_id: runId,
+      });
+
+      console.log(`⚑ ${trigger.type} at ${trigger.level} closed operation ${group.id} (${quantity} @ $${price})`);
+      triggered.push({ groupId: group.id, trigger: trigger.type, level: trigger.level, price, quantity });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`✗ Failed to process protective orders of operation ${group.id}:`, errorMessage);
+
+      await supabase.from('price_update_log').insert({
+        symbol_id: symbolId,
+        old_price: trigger?.level ?? null,
+        new_price: price,
+        source: 'protective_order',
+        triggered_by: triggeredBy,
+        status: 'failed',
+        error_message: errorMessage,
+        operation_group_id: group.id,
+        trigger_type: trigger?.type ?? null,
+        run_id: runId,
+      });
+    }
+  }
+
+  return triggered;
+};
@@ -0,0 +1,73 @@
+/*
+  # Add lot matching for partial closes
+
+  1. Schema Changes
+    - Add `lot_matching_method` column to `accounts`
+      - Type: text, one of 'fifo', 'lifo', 'average' (default 'fifo')
+      - Purpose: How closing fills are matched against the opening lots of a position
+
+  2. New Tables
+    - `fill_lot_matches`
+      - `id` (uuid, primary key)
+      - `close_fill_id` (uuid, foreign key) - The closing fill in operation_fills
+      - `open_fill_id` (uuid, foreign key) - The opening fill (lot) it consumed
+      - `quantity` (numeric) - Quantity taken from the opening lot
+      - `open_price` (numeric) - Cost basis used for this match
+      - `close_price` (numeric) - Execution price of the closing fill
+      - `realized_pnl` (numeric) - Gross realized P&L for this match (before fees)
+      - `created_at` (timestamptz)
+
+  3. Security
+    - Enable RLS on `fill_lot_matches`
+    - Add policies for public access, matching the other trading tables
+
+  ## Notes
+
+  - Matches are written when a position is (partially) closed so that realized P&L
+    stays stable even if the account's matching method is changed later
+  - Existing closing fills have no recorded matches and are matched on the fly
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'accounts' AND column_name = 'lot_matching_method'
+  ) THEN
+    ALTER TABLE accounts ADD COLUMN lot_matching_method text DEFAULT 'fifo' NOT NULL
+      CHECK (lot_matching_method IN ('fifo', 'lifo', 'average'));
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS fill_lot_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  close_fill_id uuid NOT NULL REFERENCES operation_fills(id) ON DELETE CASCADE,
+  open_fill_id uuid NOT NULL REFERENCES operation_fills(id) ON DELETE CASCADE,
+  quantity numeric(15,4) NOT NULL CHECK (quantity > 0),
+  open_price numeric(15,4) NOT NULL,
+  close_price numeric(15,4) NOT NULL,
+  realized_pnl numeric(15,4) NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_fill_lot_matches_close_fill_id ON fill_lot_matches(close_fill_id);
+
+ALTER TABLE fill_lot_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to fill_lot_matches"
+  ON fill_lot_matches FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Allow public insert to fill_lot_matches"
+  ON fill_lot_matches FOR INSERT
+  TO public
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public delete to fill_lot_matches"
+  ON fill_lot_matches FOR DELETE
+  TO public
+  USING (true);
+
+COMMENT ON TABLE fill_lot_matches IS 'Links each closing fill to the opening lots it consumed';
+COMMENT ON COLUMN accounts.lot_matching_method IS 'Lot matching method for partial closes: fifo, lifo or average';
@@ -0,0 +1,31 @@
+/*
+  # Add position reversal link to operation groups
+
+  1. Schema Changes
+    - Add `reversed_from_id` column to `operation_groups`
+      - Type: uuid, nullable, references operation_groups(id)
+      - Purpose: Links a position opened by a reversing fill to the position it reversed
+
+  ## Notes
+
+  - A reversing order is recorded as a full close of the existing group plus a new
+    group in the opposite direction holding the excess quantity
+  - The closing fill pays the close commission on the quantity it closes, the new group's
+    opening fill pays the open commission on the excess quantity
+  - If the original group is deleted the link is cleared, the reversed position is kept
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'operation_groups' AND column_name = 'reversed_from_id'
+  ) THEN
+    ALTER TABLE operation_groups ADD COLUMN reversed_from_id uuid
+      REFERENCES operation_groups(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_operation_groups_reversed_from_id ON operation_groups(reversed_from_id);
+
+COMMENT ON COLUMN operation_groups.reversed_from_id IS 'The operation this position was opened by reversing';
@@ -0,0 +1,171 @@
+/*
+  # Create daily financing ledger for open operations
+
+  1. Schema Changes
+    - Add financing rule columns to `accounts`
+      - `financing_triple_day` (smallint, nullable, default 3) - ISO weekday (1 = Monday ... 7 = Sunday)
+        charged three nights to cover the weekend, NULL disables the triple charge
+      - `financing_weekends` (boolean, default false) - Charge Saturday and Sunday nights
+        individually instead of using a triple-charge day
+
+  2. New Tables
+    - `financing_ledger`
+      - `id` (uuid, primary key)
+      - `group_id` (uuid, foreign key) - The open operation being financed
+      - `accrual_date` (date) - The night being charged
+      - `quantity` (numeric) - Open quantity at accrual time
+      - `mark_price` (numeric) - Price used to value the position
+      - `position_value` (numeric) - quantity * mark_price
+      - `rate` (numeric) - Account night commission (annual %) at accrual time
+      - `day_multiplier` (integer) - 1 for a normal night, 3 on the triple-charge day
+      - `amount` (numeric) - Financing cost booked for the night
+      - `created_at` (timestamptz)
+
+  3. Functions
+    - Create `trigger_financing_accrual()` to call the `accrue-financing` Edge Function
+    - Schedule it daily at 23:30 UTC, after the price update has refreshed mark prices
+    - The function sends the `cron_secret` of `cron_config` in the `X-Cron-Secret` header, the
+      Edge Function compares it with its `CRON_SECRET` secret
+
+  4. Security
+    - Enable RLS on `financing_ledger`
+    - Add policies for public access, matching the other trading tables
+    - `trigger_financing_accrual()` runs with a fixed search_path, only postgres (pg_cron) can
+      execute it
+
+  ## Notes
+
+  - One entry per operation and night (unique on group_id, accrual_date), so re-running
+    the job for the same day is a no-op
+  - Operations with ledger entries use the ledger for night fees instead of the
+    close-time estimate
+  - Set the same random value in both places before the job runs:
+      supabase secrets set CRON_SECRET=<secret>
+      INSERT INTO cron_config (key, value) VALUES ('cron_secret', '<secret>');
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'accounts' AND column_name = 'financing_triple_day'
+  ) THEN
+    ALTER TABLE accounts ADD COLUMN financing_triple_day smallint DEFAULT 3
+      CHECK (financing_triple_day BETWEEN 1 AND 7);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'accounts' AND column_name = 'financing_weekends'
+  ) THEN
+    ALTER TABLE accounts ADD COLUMN financing_weekends boolean DEFAULT false NOT NULL;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS financing_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES operation_groups(id) ON DELETE CASCADE,
+  accrual_date date NOT NULL,
+  quantity numeric(15,4) NOT NULL,
+  mark_price numeric(15,4) NOT NULL,
+  position_value numeric(15,4) NOT NULL,
+  rate numeric(8,4) NOT NULL,
+  day_multiplier integer NOT NULL DEFAULT 1,
+  amount numeric(15,4) NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (group_id, accrual_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_financing_ledger_group_id ON financing_ledger(group_id);
+
+ALTER TABLE financing_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to financing_ledger"
+  ON financing_ledger FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Allow public insert to financing_ledger"
+  ON financing_ledger FOR INSERT
+  TO public
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public delete to financing_ledger"
+  ON financing_ledger FOR DELETE
+  TO public
+  USING (true);
+
+COMMENT ON TABLE financing_ledger IS 'Daily overnight financing accrued on open operations';
+COMMENT ON COLUMN accounts.financing_triple_day IS 'ISO weekday charged three nights (NULL = no triple charge)';
+COMMENT ON COLUMN accounts.financing_weekends IS 'Charge weekend nights individually instead of a triple-charge day';
+
+CREATE OR REPLACE FUNCTION trigger_financing_accrual()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  request_id bigint;
+  supabase_url text;
+  anon_key text;
+  cron_secret text;
+  function_url text;
+BEGIN
+  -- Retrieve configuration from config table
+  SELECT value INTO supabase_url
+  FROM cron_config
+  WHERE key = 'supabase_url';
+  
+  SELECT value INTO anon_key
+  FROM cron_config
+  WHERE key = 'anon_key';
+
+  SELECT value INTO cron_secret
+  FROM cron_config
+  WHERE key = 'cron_secret';
+  
+  -- Check if configuration is available
+  IF supabase_url IS NULL OR anon_key IS NULL OR cron_secret IS NULL THEN
+    RAISE NOTICE 'Configuration not found. Please check cron_config table.';
+    RETURN;
+  END IF;
+  
+  function_url := supabase_url || '/functions/v1/accrue-financing';
+  
+  RAISE NOTICE 'Triggering financing accrual to: %', function_url;
+  
+  SELECT net.http_post(
+    url := function_url,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || anon_key,
+      'X-Cron-Secret', cron_secret
+    ),
+    body := jsonb_build_object('triggered_by', 'cron')
+  ) INTO request_id;
+  
+  RAISE NOTICE 'Financing accrual triggered via cron, request_id: %', request_id;
+  
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Error in trigger_financing_accrual: % %', SQLERRM, SQLSTATE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION trigger_financing_accrual() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('daily-financing-accrual');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL; -- Job doesn't exist, continue
+END $$;
+
+-- Run after the 23:00 UTC price update so positions are valued at fresh prices
+SELECT cron.schedule(
+  'daily-financing-accrual',
+  '30 23 * * *',
+  'SELECT trigger_financing_accrual();'
+);
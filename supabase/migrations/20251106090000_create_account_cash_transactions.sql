@@ -0,0 +1,66 @@
+/*
+  # Create account cash ledger
+
+  1. New Tables
+    - `account_cash_transactions`
+      - `id` (uuid, primary key)
+      - `account_id` (uuid, foreign key) - Account the cash movement belongs to
+      - `type` (text) - One of 'deposit', 'withdrawal', 'transfer_in', 'transfer_out',
+        'dividend', 'adjustment'
+      - `amount` (numeric) - Signed amount: positive credits the account, negative debits it
+      - `transfer_id` (uuid, nullable) - Shared by both legs of an inter-account transfer
+      - `counterparty_account_id` (uuid, nullable) - The other account of a transfer
+      - `description` (text, nullable)
+      - `occurred_at` (timestamptz) - When the cash movement happened
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `account_cash_transactions`
+    - Add policies for public access, matching the other trading tables
+
+  ## Notes
+
+  - The running balance of an account is starting_balance + sum(amount) + realized P&L
+    (net of fees) from its operations; it is computed by the app rather than stored
+  - A transfer is written as two rows (transfer_out on the source, transfer_in on the
+    destination) sharing the same transfer_id
+*/
+
+CREATE TABLE IF NOT EXISTS account_cash_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id uuid NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('deposit', 'withdrawal', 'transfer_in', 'transfer_out', 'dividend', 'adjustment')),
+  amount numeric(15,2) NOT NULL,
+  transfer_id uuid,
+  counterparty_account_id uuid REFERENCES accounts(id) ON DELETE SET NULL,
+  description text,
+  occurred_at timestamptz DEFAULT now() NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CONSTRAINT account_cash_transactions_sign_check CHECK (
+    (type IN ('deposit', 'transfer_in', 'dividend') AND amount > 0) OR
+    (type IN ('withdrawal', 'transfer_out') AND amount < 0) OR
+    (type = 'adjustment' AND amount <> 0)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_cash_transactions_account_id ON account_cash_transactions(account_id);
+CREATE INDEX IF NOT EXISTS idx_account_cash_transactions_transfer_id ON account_cash_transactions(transfer_id);
+
+ALTER TABLE account_cash_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to account_cash_transactions"
+  ON account_cash_transactions FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Allow public insert to account_cash_transactions"
+  ON account_cash_transactions FOR INSERT
+  TO public
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public delete to account_cash_transactions"
+  ON account_cash_transactions FOR DELETE
+  TO public
+  USING (true);
+
+COMMENT ON TABLE account_cash_transactions IS 'Cash movements per account: deposits, withdrawals, transfers, dividends and adjustments';
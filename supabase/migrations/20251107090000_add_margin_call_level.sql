@@ -0,0 +1,27 @@
+/*
+  # Add margin call threshold to accounts
+
+  1. Schema Changes
+    - Add `margin_call_level` column to `accounts`
+      - Type: numeric, default 100
+      - Purpose: Margin level (equity / used margin, in %) at or below which the
+        account is flagged as being in margin call
+
+  ## Notes
+
+  - Used margin is derived from each open operation's fills: quantity * latest price / leverage,
+    where leverage is read from `operation_fills.leverage`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'accounts' AND column_name = 'margin_call_level'
+  ) THEN
+    ALTER TABLE accounts ADD COLUMN margin_call_level numeric(7,2) DEFAULT 100 NOT NULL
+      CHECK (margin_call_level >= 0);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN accounts.margin_call_level IS 'Margin level (%) at or below which the account is in margin call';
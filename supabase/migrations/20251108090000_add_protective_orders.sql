@@ -0,0 +1,78 @@
+/*
+  # Add stop-loss, take-profit and trailing-stop levels to operations
+
+  1. Schema Changes
+    - Add protective order columns to `operation_groups`
+      - `stop_loss` (numeric, nullable) - Close the position when the price crosses this level
+      - `take_profit` (numeric, nullable) - Close the position when the price reaches this level
+      - `trailing_stop_distance` (numeric, nullable) - Distance in price units the trailing stop follows the price
+      - `trailing_stop_price` (numeric, nullable) - Current trailing stop level, ratcheted by the price updater
+    - Add trigger columns to `price_update_log`
+      - `operation_group_id` (uuid, nullable) - Operation closed by a triggered level
+      - `trigger_type` (text, nullable) - One of 'stop_loss', 'take_profit', 'trailing_stop'
+    - Allow 'triggered' as a `price_update_log.status`
+
+  ## Notes
+
+  - The `update-stock-prices` Edge Function checks every open operation of a symbol after
+    fetching its quote and records a full closing fill when a level is crossed
+  - The trailing stop only moves in the position's favour; changing the distance resets it
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'operation_groups' AND column_name = 'stop_loss'
+  ) THEN
+    ALTER TABLE operation_groups ADD COLUMN stop_loss numeric(15,4) CHECK (stop_loss > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'operation_groups' AND column_name = 'take_profit'
+  ) THEN
+    ALTER TABLE operation_groups ADD COLUMN take_profit numeric(15,4) CHECK (take_profit > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'operation_groups' AND column_name = 'trailing_stop_distance'
+  ) THEN
+    ALTER TABLE operation_groups ADD COLUMN trailing_stop_distance numeric(15,4) CHECK (trailing_stop_distance > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'operation_groups' AND column_name = 'trailing_stop_price'
+  ) THEN
+    ALTER TABLE operation_groups ADD COLUMN trailing_stop_price numeric(15,4);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'price_update_log' AND column_name = 'operation_group_id'
+  ) THEN
+    ALTER TABLE price_update_log ADD COLUMN operation_group_id uuid
+      REFERENCES operation_groups(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'price_update_log' AND column_name = 'trigger_type'
+  ) THEN
+    ALTER TABLE price_update_log ADD COLUMN trigger_type text
+      CHECK (trigger_type IN ('stop_loss', 'take_profit', 'trailing_stop'));
+  END IF;
+END $$;
+
+ALTER TABLE price_update_log DROP CONSTRAINT IF EXISTS price_update_log_status_check;
+ALTER TABLE price_update_log ADD CONSTRAINT price_update_log_status_check
+  CHECK (status IN ('success', 'failed', 'triggered'));
+
+CREATE INDEX IF NOT EXISTS idx_price_update_log_operation_group_id ON price_update_log(operation_group_id);
+
+COMMENT ON COLUMN operation_groups.stop_loss IS 'Stop-loss level; the position is closed when the price crosses it';
+COMMENT ON COLUMN operation_groups.take_profit IS 'Take-profit level; the position is closed when the price reaches it';
+COMMENT ON COLUMN operation_groups.trailing_stop_distance IS 'Distance the trailing stop follows the price at';
+COMMENT ON COLUMN operation_groups.trailing_stop_price IS 'Current trailing stop level maintained by the price updater';
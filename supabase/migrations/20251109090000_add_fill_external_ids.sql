@@ -0,0 +1,31 @@
+/*
+  # Add broker import identifiers to operation fills
+
+  1. Schema Changes
+    - Add `external_id` column to `operation_fills`
+      - Type: text, nullable
+      - Purpose: Identifies a fill imported from a broker statement so re-imports can skip it
+      - Format: `<broker>:<broker reference>`, e.g. `xtb:123456:open`, or a fingerprint of the
+        row (timestamp, ticker, side, quantity, price) for brokers without a transaction ID
+
+  ## Notes
+
+  - Manually entered fills keep a null `external_id`
+  - IDs are unique per account, not globally, so deduplication happens against the fills of
+    the account being imported into
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'operation_fills' AND column_name = 'external_id'
+  ) THEN
+    ALTER TABLE operation_fills ADD COLUMN external_id text;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_operation_fills_external_id ON operation_fills(external_id)
+  WHERE external_id IS NOT NULL;
+
+COMMENT ON COLUMN operation_fills.external_id IS 'Broker reference of an imported fill, used to deduplicate re-imports';
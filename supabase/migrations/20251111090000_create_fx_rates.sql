@@ -0,0 +1,135 @@
+/*
+  # Add account currencies and FX rates
+
+  1. Schema Changes
+    - Add `currency` column to `accounts`
+      - Type: text, not null, default 'USD'
+      - Purpose: Currency the account balance, deposits and P&L are kept in
+
+  2. New Tables
+    - `fx_rates`
+      - `id` (uuid, primary key)
+      - `currency` (text) - ISO currency code
+      - `rate` (numeric) - Units of `currency` per 1 USD
+      - `rate_date` (date) - Date the rate was published for
+      - `source` (text) - Provider of the rate
+      - `created_at` (timestamptz)
+      - Unique on (`currency`, `rate_date`)
+
+  3. Security
+    - Enable RLS on `fx_rates`
+    - Public read access, rates are written by the refresh-fx-rates edge function with the service role
+    - `trigger_fx_rates_refresh()` runs with a fixed search_path, only postgres (pg_cron) can
+      execute it
+
+  4. Scheduling
+    - `trigger_fx_rates_refresh()` calls the refresh-fx-rates edge function using the URL, key
+      and cron secret stored in `cron_config` (see 20251105090000)
+    - Scheduled daily at 16:30 UTC, after the ECB reference rates are published
+
+  ## Notes
+
+  - All rates are quoted against USD; a conversion between two other currencies goes through USD
+  - Instrument P&L is in `symbols.currency`, account figures in `accounts.currency` and the
+    Dashboard/Analytics totals in `profiles.base_currency`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'accounts' AND column_name = 'currency'
+  ) THEN
+    ALTER TABLE accounts ADD COLUMN currency text NOT NULL DEFAULT 'USD';
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS fx_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  currency text NOT NULL,
+  rate numeric NOT NULL CHECK (rate > 0),
+  rate_date date NOT NULL,
+  source text NOT NULL DEFAULT 'frankfurter',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (currency, rate_date)
+);
+
+ALTER TABLE fx_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to fx_rates"
+  ON fx_rates
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_rate_date ON fx_rates(rate_date DESC);
+
+CREATE OR REPLACE FUNCTION trigger_fx_rates_refresh()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  request_id bigint;
+  supabase_url text;
+  anon_key text;
+  cron_secret text;
+  function_url text;
+BEGIN
+  -- Retrieve configuration from config table
+  SELECT value INTO supabase_url
+  FROM cron_config
+  WHERE key = 'supabase_url';
+
+  SELECT value INTO anon_key
+  FROM cron_config
+  WHERE key = 'anon_key';
+
+  SELECT value INTO cron_secret
+  FROM cron_config
+  WHERE key = 'cron_secret';
+
+  -- Check if configuration is available
+  IF supabase_url IS NULL OR anon_key IS NULL OR cron_secret IS NULL THEN
+    RAISE NOTICE 'Configuration not found. Please check cron_config table.';
+    RETURN;
+  END IF;
+
+  function_url := supabase_url || '/functions/v1/refresh-fx-rates';
+
+  RAISE NOTICE 'Triggering FX rates refresh to: %', function_url;
+
+  SELECT net.http_post(
+    url := function_url,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || anon_key,
+      'X-Cron-Secret', cron_secret
+    ),
+    body := jsonb_build_object('triggered_by', 'cron')
+  ) INTO request_id;
+
+  RAISE NOTICE 'FX rates refresh triggered via cron, request_id: %', request_id;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Error in trigger_fx_rates_refresh: % %', SQLERRM, SQLSTATE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION trigger_fx_rates_refresh() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('daily-fx-rates-refresh');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL; -- Job doesn't exist, continue
+END $$;
+
+SELECT cron.schedule(
+  'daily-fx-rates-refresh',
+  '30 16 * * *',
+  'SELECT trigger_fx_rates_refresh();'
+);
@@ -0,0 +1,272 @@
+/*
+  # Per-user ownership and row-level isolation
+
+  1. Schema Changes
+    - Add `user_id` to `profiles`, `accounts` and `operation_groups`
+      - Type: uuid, references auth.users, cascades on delete
+      - Default: auth.uid(), so rows inserted by the app are owned by the signed-in trader
+    - `profiles.user_id` is unique, every trader has a single profile
+
+  2. Security
+    - Replace the temporary public policies with policies for authenticated users
+    - `profiles`, `accounts` and `operation_groups` are visible to their owner only
+    - `operation_fills`, `fill_lot_matches`, `financing_ledger` and `account_cash_transactions`
+      follow the ownership of their operation group or account
+    - `symbols` and `price_update_log` are shared reference data, readable and writable by any
+      signed-in user but no longer by anonymous clients
+    - Edge functions use the service role and are not affected
+
+  ## Notes
+
+  - Rows created before this migration have no owner and are hidden from everyone. Assign them
+    to a trader once they have signed up, for example:
+      UPDATE accounts SET user_id = '<auth user id>' WHERE user_id IS NULL;
+      UPDATE operation_groups SET user_id = '<auth user id>' WHERE user_id IS NULL;
+      UPDATE profiles SET user_id = '<auth user id>' WHERE user_id IS NULL;
+*/
+
+-- Step 1: Ownership columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'user_id'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN user_id uuid UNIQUE DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'accounts' AND column_name = 'user_id'
+  ) THEN
+    ALTER TABLE accounts ADD COLUMN user_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'operation_groups' AND column_name = 'user_id'
+  ) THEN
+    ALTER TABLE operation_groups ADD COLUMN user_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_accounts_user_id ON accounts(user_id);
+CREATE INDEX IF NOT EXISTS idx_operation_groups_user_id ON operation_groups(user_id);
+
+-- Step 2: Drop the public policies
+DROP POLICY IF EXISTS "Allow public read access to profiles" ON profiles;
+DROP POLICY IF EXISTS "Allow public insert to profiles" ON profiles;
+DROP POLICY IF EXISTS "Allow public update to profiles" ON profiles;
+DROP POLICY IF EXISTS "Allow public delete to profiles" ON profiles;
+
+DROP POLICY IF EXISTS "Allow public read access to accounts" ON accounts;
+DROP POLICY IF EXISTS "Allow public insert to accounts" ON accounts;
+DROP POLICY IF EXISTS "Allow public update to accounts" ON accounts;
+DROP POLICY IF EXISTS "Allow public delete to accounts" ON accounts;
+
+DROP POLICY IF EXISTS "Allow public read access to symbols" ON symbols;
+DROP POLICY IF EXISTS "Allow public insert to symbols" ON symbols;
+DROP POLICY IF EXISTS "Allow public update to symbols" ON symbols;
+DROP POLICY IF EXISTS "Allow public delete to symbols" ON symbols;
+
+DROP POLICY IF EXISTS "Allow public read access to operation_groups" ON operation_groups;
+DROP POLICY IF EXISTS "Allow public insert to operation_groups" ON operation_groups;
+DROP POLICY IF EXISTS "Allow public update to operation_groups" ON operation_groups;
+DROP POLICY IF EXISTS "Allow public delete to operation_groups" ON operation_groups;
+
+DROP POLICY IF EXISTS "Allow public read access to operation_fills" ON operation_fills;
+DROP POLICY IF EXISTS "Allow public insert to operation_fills" ON operation_fills;
+DROP POLICY IF EXISTS "Allow public update to operation_fills" ON operation_fills;
+DROP POLICY IF EXISTS "Allow public delete to operation_fills" ON operation_fills;
+
+DROP POLICY IF EXISTS "Allow public read access to fill_lot_matches" ON fill_lot_matches;
+DROP POLICY IF EXISTS "Allow public insert to fill_lot_matches" ON fill_lot_matches;
+DROP POLICY IF EXISTS "Allow public delete to fill_lot_matches" ON fill_lot_matches;
+
+DROP POLICY IF EXISTS "Allow public read access to financing_ledger" ON financing_ledger;
+DROP POLICY IF EXISTS "Allow public insert to financing_ledger" ON financing_ledger;
+DROP POLICY IF EXISTS "Allow public delete to financing_ledger" ON financing_ledger;
+
+DROP POLICY IF EXISTS "Allow public read access to account_cash_transactions" ON account_cash_transactions;
+DROP POLICY IF EXISTS "Allow public insert to account_cash_transactions" ON account_cash_transactions;
+DROP POLICY IF EXISTS "Allow public delete to account_cash_transactions" ON account_cash_transactions;
+
+DROP POLICY IF EXISTS "Allow public read access to price update logs" ON price_update_log;
+DROP POLICY IF EXISTS "Allow public insert to price update logs" ON price_update_log;
+
+-- Step 3: Owner policies
+CREATE POLICY "Users can read own profile"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own profile"
+  ON profiles FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own profile"
+  ON profiles FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own profile"
+  ON profiles FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can read own accounts"
+  ON accounts FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own accounts"
+  ON accounts FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own accounts"
+  ON accounts FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own accounts"
+  ON accounts FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- An operation must also be booked on one of the trader's own accounts
+CREATE POLICY "Users can read own operation_groups"
+  ON operation_groups FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own operation_groups"
+  ON operation_groups FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM accounts WHERE accounts.id = account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update own operation_groups"
+  ON operation_groups FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM accounts WHERE accounts.id = account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete own operation_groups"
+  ON operation_groups FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Step 4: Child tables follow their operation group or account
+CREATE POLICY "Users can read own operation_fills"
+  ON operation_fills FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM operation_groups WHERE operation_groups.id = group_id AND operation_groups.user_id = auth.uid()));
+
+CREATE POLICY "Users can insert own operation_fills"
+  ON operation_fills FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM operation_groups WHERE operation_groups.id = group_id AND operation_groups.user_id = auth.uid()));
+
+CREATE POLICY "Users can update own operation_fills"
+  ON operation_fills FOR UPDATE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM operation_groups WHERE operation_groups.id = group_id AND operation_groups.user_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM operation_groups WHERE operation_groups.id = group_id AND operation_groups.user_id = auth.uid()));
+
+CREATE POLICY "Users can delete own operation_fills"
+  ON operation_fills FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM operation_groups WHERE operation_groups.id = group_id AND operation_groups.user_id = auth.uid()));
+
+CREATE POLICY "Users can read own fill_lot_matches"
+  ON fill_lot_matches FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM operation_fills
+    JOIN operation_groups ON operation_groups.id = operation_fills.group_id
+    WHERE operation_fills.id = close_fill_id AND operation_groups.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can insert own fill_lot_matches"
+  ON fill_lot_matches FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM operation_fills
+    JOIN operation_groups ON operation_groups.id = operation_fills.group_id
+    WHERE operation_fills.id = close_fill_id AND operation_groups.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete own fill_lot_matches"
+  ON fill_lot_matches FOR DELETE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM operation_fills
+    JOIN operation_groups ON operation_groups.id = operation_fills.group_id
+    WHERE operation_fills.id = close_fill_id AND operation_groups.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can read own financing_ledger"
+  ON financing_ledger FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM operation_groups WHERE operation_groups.id = group_id AND operation_groups.user_id = auth.uid()));
+
+CREATE POLICY "Users can insert own financing_ledger"
+  ON financing_ledger FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM operation_groups WHERE operation_groups.id = group_id AND operation_groups.user_id = auth.uid()));
+
+CREATE POLICY "Users can delete own financing_ledger"
+  ON financing_ledger FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM operation_groups WHERE operation_groups.id = group_id AND operation_groups.user_id = auth.uid()));
+
+CREATE POLICY "Users can read own account_cash_transactions"
+  ON account_cash_transactions FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM accounts WHERE accounts.id = account_id AND accounts.user_id = auth.uid()));
+
+CREATE POLICY "Users can insert own account_cash_transactions"
+  ON account_cash_transactions FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM accounts WHERE accounts.id = account_id AND accounts.user_id = auth.uid()));
+
+CREATE POLICY "Users can delete own account_cash_transactions"
+  ON account_cash_transactions FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM accounts WHERE accounts.id = account_id AND accounts.user_id = auth.uid()));
+
+-- Step 5: Shared reference data for signed-in users
+CREATE POLICY "Authenticated users can read symbols"
+  ON symbols FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can insert symbols"
+  ON symbols FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update symbols"
+  ON symbols FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can view price update logs"
+  ON price_update_log FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can insert price update logs"
+  ON price_update_log FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
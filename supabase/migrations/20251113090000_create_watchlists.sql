@@ -0,0 +1,109 @@
+/*
+  # Create persisted watchlists
+
+  1. Schema Changes
+    - Add `previous_close` column to `symbols`
+      - Type: numeric, nullable
+      - Purpose: Previous session close from the latest quote, used for the daily change
+
+  2. New Tables
+    - `watchlists`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid) - Owner, defaults to the signed-in user
+      - `name` (text) - Name of the list
+      - `position` (integer) - Display order of the lists
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+    - `watchlist_items`
+      - `id` (uuid, primary key)
+      - `watchlist_id` (uuid, foreign key) - References watchlists, deleted with the list
+      - `symbol_id` (uuid, foreign key) - References symbols
+      - `position` (integer) - Display order within the list
+      - `notes` (text) - Free-form notes
+      - `target_price` (numeric) - Price the trader is waiting for
+      - `created_at` (timestamptz)
+      - Unique on (`watchlist_id`, `symbol_id`)
+
+  3. Security
+    - Enable RLS on both tables
+    - Watchlists are visible to their owner only, items follow their watchlist
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'symbols' AND column_name = 'previous_close'
+  ) THEN
+    ALTER TABLE symbols ADD COLUMN previous_close numeric;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS watchlists (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS watchlist_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  watchlist_id uuid NOT NULL REFERENCES watchlists(id) ON DELETE CASCADE,
+  symbol_id uuid NOT NULL REFERENCES symbols(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  notes text,
+  target_price numeric CHECK (target_price IS NULL OR target_price > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (watchlist_id, symbol_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_watchlists_user_id ON watchlists(user_id);
+CREATE INDEX IF NOT EXISTS idx_watchlist_items_watchlist_id ON watchlist_items(watchlist_id);
+
+ALTER TABLE watchlists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE watchlist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own watchlists"
+  ON watchlists FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own watchlists"
+  ON watchlists FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own watchlists"
+  ON watchlists FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own watchlists"
+  ON watchlists FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can read own watchlist_items"
+  ON watchlist_items FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM watchlists WHERE watchlists.id = watchlist_id AND watchlists.user_id = auth.uid()));
+
+CREATE POLICY "Users can insert own watchlist_items"
+  ON watchlist_items FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM watchlists WHERE watchlists.id = watchlist_id AND watchlists.user_id = auth.uid()));
+
+CREATE POLICY "Users can update own watchlist_items"
+  ON watchlist_items FOR UPDATE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM watchlists WHERE watchlists.id = watchlist_id AND watchlists.user_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM watchlists WHERE watchlists.id = watchlist_id AND watchlists.user_id = auth.uid()));
+
+CREATE POLICY "Users can delete own watchlist_items"
+  ON watchlist_items FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM watchlists WHERE watchlists.id = watchlist_id AND watchlists.user_id = auth.uid()));
@@ -0,0 +1,116 @@
+/*
+  # Create price alerts and notifications
+
+  1. New Tables
+    - `price_alerts`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid) - Owner, defaults to the signed-in user
+      - `symbol_id` (uuid, foreign key) - References symbols
+      - `operation_group_id` (uuid, foreign key, nullable) - Operation watched by a 'stop_distance' alert
+      - `alert_type` (text) - One of 'price_above', 'price_below', 'percent_move', 'stop_distance'
+      - `threshold` (numeric) - Price level, or a percentage for 'percent_move' and 'stop_distance'
+      - `note` (text, nullable) - Shown in the notification
+      - `is_active` (boolean) - Alerts fire once and are then deactivated until re-armed
+      - `triggered_at` (timestamptz, nullable) - When the alert last fired
+      - `triggered_price` (numeric, nullable) - Quote that fired it
+      - `created_at` (timestamptz)
+
+    - `notifications`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid) - Recipient
+      - `alert_id` (uuid, foreign key, nullable) - Alert that produced it, cleared if the alert is deleted
+      - `symbol_id` (uuid, foreign key, nullable) - References symbols
+      - `title` (text)
+      - `message` (text)
+      - `price` (numeric, nullable) - Quote at the time of the notification
+      - `read_at` (timestamptz, nullable) - Null while unread
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on both tables
+    - Users manage their own alerts
+    - Users read, mark as read and delete their own notifications; notifications are written by
+      the update-stock-prices edge function with the service role
+
+  ## Notes
+
+  - 'percent_move' compares the quote with `symbols.previous_close`
+  - 'stop_distance' fires when the quote is within `threshold` percent of the operation's
+    stop-loss or trailing stop
+*/
+
+CREATE TABLE IF NOT EXISTS price_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  symbol_id uuid NOT NULL REFERENCES symbols(id) ON DELETE CASCADE,
+  operation_group_id uuid REFERENCES operation_groups(id) ON DELETE CASCADE,
+  alert_type text NOT NULL CHECK (alert_type IN ('price_above', 'price_below', 'percent_move', 'stop_distance')),
+  threshold numeric NOT NULL CHECK (threshold > 0),
+  note text,
+  is_active boolean NOT NULL DEFAULT true,
+  triggered_at timestamptz,
+  triggered_price numeric,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (alert_type <> 'stop_distance' OR operation_group_id IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  alert_id uuid REFERENCES price_alerts(id) ON DELETE SET NULL,
+  symbol_id uuid REFERENCES symbols(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  message text NOT NULL,
+  price numeric,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_alerts_symbol_id ON price_alerts(symbol_id) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
+
+ALTER TABLE price_alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own price_alerts"
+  ON price_alerts FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own price_alerts"
+  ON price_alerts FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (
+      operation_group_id IS NULL
+      OR EXISTS (SELECT 1 FROM operation_groups WHERE operation_groups.id = operation_group_id AND operation_groups.user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can update own price_alerts"
+  ON price_alerts FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own price_alerts"
+  ON price_alerts FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can read own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own notifications"
+  ON notifications FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,122 @@
+/*
+  # Create price bars (OHLCV history)
+
+  1. New Tables
+    - `price_bars`
+      - `id` (uuid, primary key)
+      - `symbol_id` (uuid, foreign key) - References symbols
+      - `interval` (text) - Bar size: '1d' for daily bars, '1h', '15m' or '5m' for intraday bars
+      - `bar_time` (timestamptz) - Start of the bar
+      - `open`, `high`, `low`, `close` (numeric) - Prices in the symbol currency
+      - `volume` (numeric, nullable)
+      - `source` (text) - Provider the bar was ingested from
+      - `created_at` (timestamptz)
+      - Unique on (`symbol_id`, `interval`, `bar_time`), re-ingesting a bar overwrites it
+
+  2. Security
+    - Enable RLS on `price_bars`
+    - Signed-in users can read bars, they are shared market data
+    - Bars are written by the ingest-price-bars edge function with the service role
+    - `trigger_price_bars_ingest()` runs with a fixed search_path, only postgres (pg_cron) can
+      execute it
+
+  3. Scheduling
+    - `trigger_price_bars_ingest()` calls the ingest-price-bars edge function using the URL, key
+      and cron secret stored in `cron_config` (see 20251105090000)
+    - Scheduled daily at 22:15 UTC, after the US close, to append the day's bars
+*/
+
+CREATE TABLE IF NOT EXISTS price_bars (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  symbol_id uuid NOT NULL REFERENCES symbols(id) ON DELETE CASCADE,
+  interval text NOT NULL CHECK (interval IN ('1d', '1h', '15m', '5m')),
+  bar_time timestamptz NOT NULL,
+  open numeric NOT NULL,
+  high numeric NOT NULL,
+  low numeric NOT NULL,
+  close numeric NOT NULL,
+  volume numeric,
+  source text NOT NULL DEFAULT 'finnhub',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (symbol_id, interval, bar_time),
+  CHECK (high >= low)
+);
+
+ALTER TABLE price_bars ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read price_bars"
+  ON price_bars FOR SELECT
+  TO authenticated
+  USING (true);
+
+COMMENT ON TABLE price_bars IS 'OHLCV bars per symbol, ingested by the ingest-price-bars edge function';
+
+CREATE OR REPLACE FUNCTION trigger_price_bars_ingest()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  request_id bigint;
+  supabase_url text;
+  anon_key text;
+  cron_secret text;
+  function_url text;
+BEGIN
+  -- Retrieve configuration from config table
+  SELECT value INTO supabase_url
+  FROM cron_config
+  WHERE key = 'supabase_url';
+
+  SELECT value INTO anon_key
+  FROM cron_config
+  WHERE key = 'anon_key';
+
+  SELECT value INTO cron_secret
+  FROM cron_config
+  WHERE key = 'cron_secret';
+
+  -- Check if configuration is available
+  IF supabase_url IS NULL OR anon_key IS NULL OR cron_secret IS NULL THEN
+    RAISE NOTICE 'Configuration not found. Please check cron_config table.';
+    RETURN;
+  END IF;
+
+  function_url := supabase_url || '/functions/v1/ingest-price-bars';
+
+  RAISE NOTICE 'Triggering price bars ingest to: %', function_url;
+
+  SELECT net.http_post(
+    url := function_url,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || anon_key,
+      'X-Cron-Secret', cron_secret
+    ),
+    body := jsonb_build_object('triggered_by', 'cron', 'interval', '1d')
+  ) INTO request_id;
+
+  RAISE NOTICE 'Price bars ingest triggered via cron, request_id: %', request_id;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Error in trigger_price_bars_ingest: % %', SQLERRM, SQLSTATE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION trigger_price_bars_ingest() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('daily-price-bars-ingest');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL; -- Job doesn't exist, continue
+END $$;
+
+SELECT cron.schedule(
+  'daily-price-bars-ingest',
+  '15 22 * * 1-5',
+  'SELECT trigger_price_bars_ingest();'
+);
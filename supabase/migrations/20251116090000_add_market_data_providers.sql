@@ -0,0 +1,36 @@
+/*
+  # Selectable market data providers
+
+  1. Schema Changes
+    - Add `data_provider` column to `symbols`
+      - Type: text, nullable
+      - Values: 'finnhub', 'alpha_vantage', 'yahoo', 'mock'
+      - Purpose: Provider used for this symbol's quotes and history, null uses the global provider
+
+  2. Configuration
+    - Add `market_data_provider` to `cron_config`: the global provider, 'finnhub' by default
+    - Switch it with:
+      UPDATE cron_config SET value = 'mock', updated_at = now() WHERE key = 'market_data_provider';
+
+  ## Notes
+
+  - 'alpha_vantage' needs the ALPHA_VANTAGE_API_KEY secret, 'finnhub' needs FINNHUB_API_KEY
+  - 'yahoo' calls a Yahoo Finance compatible API, YAHOO_FINANCE_BASE_URL overrides the host
+  - 'mock' serves deterministic data from supabase/functions/_shared/marketData/mock-data.json,
+    or from the file named by MOCK_MARKET_DATA_FILE, for local development
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'symbols' AND column_name = 'data_provider'
+  ) THEN
+    ALTER TABLE symbols ADD COLUMN data_provider text
+      CHECK (data_provider IN ('finnhub', 'alpha_vantage', 'yahoo', 'mock'));
+  END IF;
+END $$;
+
+INSERT INTO cron_config (key, value)
+VALUES ('market_data_provider', 'finnhub')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,76 @@
+/*
+  # Track price update runs
+
+  1. New Tables
+    - `price_update_runs`
+      - `id` (uuid, primary key)
+      - `triggered_by` (text) - 'cron' or 'manual'
+      - `status` (text) - 'running', 'completed' or 'failed'
+      - `provider` (text) - Global market data provider when the run started
+      - `total_symbols` (integer) - Active symbols when the run started
+      - `processed` (integer) - Symbols handled so far
+      - `succeeded`, `failed` (integer) - Outcome counts
+      - `retries` (integer) - Provider calls retried after a 429, 5xx or network error
+      - `triggered_orders` (integer) - Protective orders executed
+      - `alerts` (integer) - Price alerts fired
+      - `cursor` (text, nullable) - Last ticker of the last finished batch, symbols run in ticker order
+      - `errors` (jsonb) - First failures of the run as { ticker, error }
+      - `started_at`, `updated_at`, `finished_at` (timestamptz)
+      - `duration_ms` (integer, nullable) - Wall time from start to finish across invocations
+
+  2. Schema Changes
+    - Add `run_id` column to `price_update_log`
+      - Type: uuid, nullable, references price_update_runs
+      - Purpose: Run that wrote the entry
+
+  3. Security
+    - Enable RLS on `price_update_runs`
+    - Signed-in users can read runs, they are written by the update-stock-prices edge function
+      with the service role
+
+  ## Notes
+
+  - A run processes symbols in batches and saves its cursor after each batch. When an invocation
+    nears the edge function time limit it re-invokes the function with the run id, which resumes
+    after the cursor. A run left 'running' by a crashed invocation is resumed by the next trigger.
+*/
+
+CREATE TABLE IF NOT EXISTS price_update_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  triggered_by text NOT NULL DEFAULT 'manual',
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  provider text,
+  total_symbols integer NOT NULL DEFAULT 0,
+  processed integer NOT NULL DEFAULT 0,
+  succeeded integer NOT NULL DEFAULT 0,
+  failed integer NOT NULL DEFAULT 0,
+  retries integer NOT NULL DEFAULT 0,
+  triggered_orders integer NOT NULL DEFAULT 0,
+  alerts integer NOT NULL DEFAULT 0,
+  cursor text,
+  errors jsonb NOT NULL DEFAULT '[]'::jsonb,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  duration_ms integer
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_update_runs_started_at ON price_update_runs(started_at DESC);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'price_update_log' AND column_name = 'run_id'
+  ) THEN
+    ALTER TABLE price_update_log ADD COLUMN run_id uuid
+      REFERENCES price_update_runs(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+ALTER TABLE price_update_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view price update runs"
+  ON price_update_runs FOR SELECT
+  TO authenticated
+  USING (true);
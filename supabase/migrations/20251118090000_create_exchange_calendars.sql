@@ -0,0 +1,215 @@
+/*
+  # Exchange calendars
+
+  1. New Tables
+    - `exchange_calendars`
+      - `code` (text, primary key) - MIC of the calendar, e.g. XNYS
+      - `name` (text) - Display name
+      - `timezone` (text) - IANA time zone the session times are in
+      - `open_time`, `close_time` (time) - Regular session, local time
+      - `trading_days` (smallint[]) - ISO weekdays with a session (1 = Monday)
+    - `exchange_holidays`
+      - `id` (uuid, primary key)
+      - `calendar_code` (text) - References exchange_calendars
+      - `holiday_date` (date) - Local date
+      - `name` (text)
+      - `close_time` (time, nullable) - Early close of a half-day, null when closed all day
+
+  2. Schema Changes
+    - Add `exchange_calendar` column to `symbols`
+      - Type: text, nullable, references exchange_calendars
+      - Purpose: Calendar of the symbol's exchange, symbols without one are treated as always open
+      - Existing symbols are assigned by currency: USD to XNYS, GBP to XLON, EUR to XETR
+    - Add `price_updated_at` column to `symbols`
+      - Type: timestamptz, nullable
+      - Purpose: When the price updater last fetched the price
+    - Add `price_as_of` column to `symbols`
+      - Type: timestamptz, nullable
+      - Purpose: Time of the provider's last trade, shown as "price as of"
+    - Add `skipped` column to `price_update_runs`
+      - Type: integer, default 0
+      - Purpose: Symbols left alone because their market was closed
+
+  3. Security
+    - Enable RLS on both tables
+    - Signed-in users can read calendars and holidays, they are maintained with SQL
+
+  ## Notes
+
+  - The update-stock-prices function only fetches symbols whose market is open, or that have not
+    been updated since their last session closed, so cron runs on weekends and holidays use no
+    API quota.
+  - Holidays are seeded through 2027 and need to be added as exchanges publish them.
+*/
+
+CREATE TABLE IF NOT EXISTS exchange_calendars (
+  code text PRIMARY KEY,
+  name text NOT NULL,
+  timezone text NOT NULL,
+  open_time time NOT NULL,
+  close_time time NOT NULL,
+  trading_days smallint[] NOT NULL DEFAULT '{1,2,3,4,5}',
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (close_time > open_time)
+);
+
+CREATE TABLE IF NOT EXISTS exchange_holidays (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  calendar_code text NOT NULL REFERENCES exchange_calendars(code) ON DELETE CASCADE,
+  holiday_date date NOT NULL,
+  name text NOT NULL,
+  close_time time,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (calendar_code, holiday_date)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'symbols' AND column_name = 'exchange_calendar'
+  ) THEN
+    ALTER TABLE symbols ADD COLUMN exchange_calendar text
+      REFERENCES exchange_calendars(code) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'symbols' AND column_name = 'price_updated_at'
+  ) THEN
+    ALTER TABLE symbols ADD COLUMN price_updated_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'symbols' AND column_name = 'price_as_of'
+  ) THEN
+    ALTER TABLE symbols ADD COLUMN price_as_of timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'price_update_runs' AND column_name = 'skipped'
+  ) THEN
+    ALTER TABLE price_update_runs ADD COLUMN skipped integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+ALTER TABLE exchange_calendars ENABLE ROW LEVEL SECURITY;
+ALTER TABLE exchange_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read exchange calendars"
+  ON exchange_calendars FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can read exchange holidays"
+  ON exchange_holidays FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO exchange_calendars (code, name, timezone, open_time, close_time)
+VALUES
+  ('XNYS', 'US equities (NYSE, Nasdaq)', 'America/New_York', '09:30', '16:00'),
+  ('XLON', 'London Stock Exchange', 'Europe/London', '08:00', '16:30'),
+  ('XETR', 'Xetra', 'Europe/Berlin', '09:00', '17:30')
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO exchange_holidays (calendar_code, holiday_date, name, close_time)
+VALUES
+  ('XNYS', '2025-01-01', 'New Year''s Day', NULL),
+  ('XNYS', '2025-01-09', 'National Day of Mourning', NULL),
+  ('XNYS', '2025-01-20', 'Martin Luther King Jr. Day', NULL),
+  ('XNYS', '2025-02-17', 'Washington''s Birthday', NULL),
+  ('XNYS', '2025-04-18', 'Good Friday', NULL),
+  ('XNYS', '2025-05-26', 'Memorial Day', NULL),
+  ('XNYS', '2025-06-19', 'Juneteenth', NULL),
+  ('XNYS', '2025-07-03', 'Independence Day (early close)', '13:00'),
+  ('XNYS', '2025-07-04', 'Independence Day', NULL),
+  ('XNYS', '2025-09-01', 'Labor Day', NULL),
+  ('XNYS', '2025-11-27', 'Thanksgiving Day', NULL),
+  ('XNYS', '2025-11-28', 'Day after Thanksgiving (early close)', '13:00'),
+  ('XNYS', '2025-12-24', 'Christmas Eve (early close)', '13:00'),
+  ('XNYS', '2025-12-25', 'Christmas Day', NULL),
+  ('XNYS', '2026-01-01', 'New Year''s Day', NULL),
+  ('XNYS', '2026-01-19', 'Martin Luther King Jr. Day', NULL),
+  ('XNYS', '2026-02-16', 'Washington''s Birthday', NULL),
+  ('XNYS', '2026-04-03', 'Good Friday', NULL),
+  ('XNYS', '2026-05-25', 'Memorial Day', NULL),
+  ('XNYS', '2026-06-19', 'Juneteenth', NULL),
+  ('XNYS', '2026-07-03', 'Independence Day (observed)', NULL),
+  ('XNYS', '2026-09-07', 'Labor Day', NULL),
+  ('XNYS', '2026-11-26', 'Thanksgiving Day', NULL),
+  ('XNYS', '2026-11-27', 'Day after Thanksgiving (early close)', '13:00'),
+  ('XNYS', '2026-12-24', 'Christmas Eve (early close)', '13:00'),
+  ('XNYS', '2026-12-25', 'Christmas Day', NULL),
+  ('XNYS', '2027-01-01', 'New Year''s Day', NULL),
+  ('XNYS', '2027-01-18', 'Martin Luther King Jr. Day', NULL),
+  ('XNYS', '2027-02-15', 'Washington''s Birthday', NULL),
+  ('XNYS', '2027-03-26', 'Good Friday', NULL),
+  ('XNYS', '2027-05-31', 'Memorial Day', NULL),
+  ('XNYS', '2027-06-18', 'Juneteenth (observed)', NULL),
+  ('XNYS', '2027-07-05', 'Independence Day (observed)', NULL),
+  ('XNYS', '2027-09-06', 'Labor Day', NULL),
+  ('XNYS', '2027-11-25', 'Thanksgiving Day', NULL),
+  ('XNYS', '2027-11-26', 'Day after Thanksgiving (early close)', '13:00'),
+  ('XNYS', '2027-12-24', 'Christmas Day (observed)', NULL),
+  ('XLON', '2025-01-01', 'New Year''s Day', NULL),
+  ('XLON', '2025-04-18', 'Good Friday', NULL),
+  ('XLON', '2025-04-21', 'Easter Monday', NULL),
+  ('XLON', '2025-05-05', 'Early May Bank Holiday', NULL),
+  ('XLON', '2025-05-26', 'Spring Bank Holiday', NULL),
+  ('XLON', '2025-08-25', 'Summer Bank Holiday', NULL),
+  ('XLON', '2025-12-24', 'Christmas Eve (early close)', '12:30'),
+  ('XLON', '2025-12-25', 'Christmas Day', NULL),
+  ('XLON', '2025-12-26', 'Boxing Day', NULL),
+  ('XLON', '2025-12-31', 'New Year''s Eve (early close)', '12:30'),
+  ('XLON', '2026-01-01', 'New Year''s Day', NULL),
+  ('XLON', '2026-04-03', 'Good Friday', NULL),
+  ('XLON', '2026-04-06', 'Easter Monday', NULL),
+  ('XLON', '2026-05-04', 'Early May Bank Holiday', NULL),
+  ('XLON', '2026-05-25', 'Spring Bank Holiday', NULL),
+  ('XLON', '2026-08-31', 'Summer Bank Holiday', NULL),
+  ('XLON', '2026-12-24', 'Christmas Eve (early close)', '12:30'),
+  ('XLON', '2026-12-25', 'Christmas Day', NULL),
+  ('XLON', '2026-12-28', 'Boxing Day (observed)', NULL),
+  ('XLON', '2026-12-31', 'New Year''s Eve (early close)', '12:30'),
+  ('XLON', '2027-01-01', 'New Year''s Day', NULL),
+  ('XLON', '2027-03-26', 'Good Friday', NULL),
+  ('XLON', '2027-03-29', 'Easter Monday', NULL),
+  ('XLON', '2027-05-03', 'Early May Bank Holiday', NULL),
+  ('XLON', '2027-05-31', 'Spring Bank Holiday', NULL),
+  ('XLON', '2027-08-30', 'Summer Bank Holiday', NULL),
+  ('XLON', '2027-12-24', 'Christmas Eve (early close)', '12:30'),
+  ('XLON', '2027-12-27', 'Christmas Day (observed)', NULL),
+  ('XLON', '2027-12-28', 'Boxing Day (observed)', NULL),
+  ('XLON', '2027-12-31', 'New Year''s Eve (early close)', '12:30'),
+  ('XETR', '2025-01-01', 'New Year''s Day', NULL),
+  ('XETR', '2025-04-18', 'Good Friday', NULL),
+  ('XETR', '2025-04-21', 'Easter Monday', NULL),
+  ('XETR', '2025-05-01', 'Labour Day', NULL),
+  ('XETR', '2025-12-24', 'Christmas Eve', NULL),
+  ('XETR', '2025-12-25', 'Christmas Day', NULL),
+  ('XETR', '2025-12-26', 'Boxing Day', NULL),
+  ('XETR', '2025-12-31', 'New Year''s Eve', NULL),
+  ('XETR', '2026-01-01', 'New Year''s Day', NULL),
+  ('XETR', '2026-04-03', 'Good Friday', NULL),
+  ('XETR', '2026-04-06', 'Easter Monday', NULL),
+  ('XETR', '2026-05-01', 'Labour Day', NULL),
+  ('XETR', '2026-12-24', 'Christmas Eve', NULL),
+  ('XETR', '2026-12-25', 'Christmas Day', NULL),
+  ('XETR', '2026-12-31', 'New Year''s Eve', NULL),
+  ('XETR', '2027-01-01', 'New Year''s Day', NULL),
+  ('XETR', '2027-03-26', 'Good Friday', NULL),
+  ('XETR', '2027-03-29', 'Easter Monday', NULL),
+  ('XETR', '2027-12-24', 'Christmas Eve', NULL),
+  ('XETR', '2027-12-31', 'New Year''s Eve', NULL)
+ON CONFLICT (calendar_code, holiday_date) DO NOTHING;
+
+UPDATE symbols
+SET exchange_calendar = CASE
+  WHEN currency = 'USD' THEN 'XNYS'
+  WHEN currency IN ('GBP', 'GBX') THEN 'XLON'
+  WHEN currency = 'EUR' THEN 'XETR'
+END
+WHERE exchange_calendar IS NULL;
@@ -0,0 +1,111 @@
+/*
+  # Price sanity checks
+
+  1. New Tables
+    - `price_check_settings` (single row)
+      - `id` (boolean, primary key) - Always true
+      - `max_jump_percent` (numeric, nullable) - Largest move from the previous close accepted
+        without review, null disables the rule
+      - `max_quote_age_minutes` (integer, nullable) - Largest delay of a quote behind the market,
+        null disables the rule
+      - `reject_zero_volume` (boolean) - Quarantine quotes that report no traded volume
+      - `updated_at` (timestamptz)
+
+  2. Schema Changes
+    - Allow 'rejected' as a `price_update_log.status`
+    - Add review columns to `price_update_log`
+      - `rejected_rules` (text[], nullable) - Rules the quote broke: max_jump, stale_quote, zero_volume
+      - `quote_time` (timestamptz, nullable) - Time of the provider's last trade
+      - `review_status` (text, nullable) - 'pending', 'accepted' or 'discarded' for rejected quotes
+      - `reviewed_at` (timestamptz, nullable)
+    - Add `rejected` column to `price_update_runs`
+
+  3. Security
+    - Enable RLS on `price_check_settings`, signed-in users can read and update it
+    - Signed-in users can update rejected log entries to review them
+
+  ## Notes
+
+  - A rejected quote does not change the symbol's price, so protective orders and alerts do not
+    act on it. Each symbol keeps at most one pending entry, later rejected quotes replace it.
+  - Accepting applies the quoted price to the symbol; the next price update checks stops and
+    alerts against it.
+*/
+
+CREATE TABLE IF NOT EXISTS price_check_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  max_jump_percent numeric CHECK (max_jump_percent > 0),
+  max_quote_age_minutes integer CHECK (max_quote_age_minutes > 0),
+  reject_zero_volume boolean NOT NULL DEFAULT true,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO price_check_settings (id, max_jump_percent, max_quote_age_minutes, reject_zero_volume)
+VALUES (true, 25, 60, true)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE price_update_log DROP CONSTRAINT IF EXISTS price_update_log_status_check;
+ALTER TABLE price_update_log ADD CONSTRAINT price_update_log_status_check
+  CHECK (status IN ('success', 'failed', 'triggered', 'rejected'));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'price_update_log' AND column_name = 'rejected_rules'
+  ) THEN
+    ALTER TABLE price_update_log ADD COLUMN rejected_rules text[];
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'price_update_log' AND column_name = 'quote_time'
+  ) THEN
+    ALTER TABLE price_update_log ADD COLUMN quote_time timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'price_update_log' AND column_name = 'review_status'
+  ) THEN
+    ALTER TABLE price_update_log ADD COLUMN review_status text
+      CHECK (review_status IN ('pending', 'accepted', 'discarded'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'price_update_log' AND column_name = 'reviewed_at'
+  ) THEN
+    ALTER TABLE price_update_log ADD COLUMN reviewed_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'price_update_runs' AND column_name = 'rejected'
+  ) THEN
+    ALTER TABLE price_update_runs ADD COLUMN rejected integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_price_update_log_pending_review
+  ON price_update_log(symbol_id)
+  WHERE review_status = 'pending';
+
+ALTER TABLE price_check_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read price check settings"
+  ON price_check_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can update price check settings"
+  ON price_check_settings FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can review rejected quotes"
+  ON price_update_log FOR UPDATE
+  TO authenticated
+  USING (status = 'rejected')
+  WITH CHECK (status = 'rejected');
@@ -0,0 +1,28 @@
+/*
+  # Track market data API calls per price update run
+
+  1. Schema Changes
+    - Add `api_calls` column to `price_update_runs`
+      - Type: jsonb, default '{}'
+      - Purpose: Provider requests made by the run, retries included, as { provider: count }
+
+  2. Indexes
+    - `price_update_log(run_id)` for listing the entries of a run in Admin
+
+  ## Notes
+
+  - Admin sums `api_calls` by day to show each provider's quota usage. Backfills run by
+    ingest-price-bars are not counted.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'price_update_runs' AND column_name = 'api_calls'
+  ) THEN
+    ALTER TABLE price_update_runs ADD COLUMN api_calls jsonb NOT NULL DEFAULT '{}'::jsonb;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_price_update_log_run_id ON price_update_log(run_id);
@@ -0,0 +1,182 @@
+/*
+  # Manage cron schedules from the app
+
+  1. New Tables
+    - `scheduled_tasks`
+      - `task` (text, primary key) - Task key, e.g. 'price_update'
+      - `label` (text) - Name shown in Admin
+      - `description` (text, nullable)
+      - `command` (text, unique) - SQL the cron job runs, one of the trigger functions
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `list_scheduled_jobs()` - pg_cron jobs that run a scheduled task, with their latest run
+    - `save_scheduled_job(job_name, task, schedule, active)` - Creates or updates a job
+    - `set_scheduled_job_active(job_name, active)` - Pauses or resumes a job
+    - `delete_scheduled_job(job_name)` - Removes a job
+
+  3. Security
+    - Enable RLS on `scheduled_tasks`, signed-in users can read it; only postgres can change it
+    - The functions run as their owner and only ever schedule the command of a known task, so
+      signed-in users cannot run arbitrary SQL through pg_cron or read `cron_config`
+    - Execute is granted to authenticated only
+
+  ## Notes
+
+  - Schedules are five-field cron expressions in UTC; pg_cron validates them again when saving.
+  - The latest run is the outcome of the SQL command. Trigger functions hand the request to the
+    Edge Function with pg_net, so a failing function shows in its own logs, not here.
+  - Jobs created by earlier migrations are picked up because their commands match the tasks below.
+  - There is no snapshot task: nothing in the app takes portfolio snapshots yet, so there is no
+    trigger function for a job to run. A snapshot job adds its row here together with its function.
+*/
+
+CREATE TABLE IF NOT EXISTS scheduled_tasks (
+  task text PRIMARY KEY,
+  label text NOT NULL,
+  description text,
+  command text NOT NULL UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO scheduled_tasks (task, label, description, command)
+VALUES
+  ('price_update', 'Price refresh', 'Fetches latest prices, runs protective orders and price alerts', 'SELECT trigger_price_update();'),
+  ('price_bars_ingest', 'Price history ingest', 'Stores daily bars of the active symbols', 'SELECT trigger_price_bars_ingest();'),
+  ('fx_rates_refresh', 'FX rates refresh', 'Refreshes the exchange rates used to convert P&L', 'SELECT trigger_fx_rates_refresh();'),
+  ('financing_accrual', 'Financing accrual', 'Books overnight financing on open operations', 'SELECT trigger_financing_accrual();')
+ON CONFLICT (task) DO NOTHING;
+
+ALTER TABLE scheduled_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view scheduled tasks"
+  ON scheduled_tasks FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION list_scheduled_jobs()
+RETURNS TABLE (
+  job_id bigint,
+  job_name text,
+  task text,
+  schedule text,
+  active boolean,
+  last_run_status text,
+  last_run_started_at timestamptz,
+  last_run_finished_at timestamptz,
+  last_run_message text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT j.jobid, j.jobname, t.task, j.schedule, j.active,
+         r.status, r.start_time, r.end_time, r.return_message
+  FROM cron.job j
+  JOIN scheduled_tasks t ON t.command = j.command
+  LEFT JOIN LATERAL (
+    SELECT d.status, d.start_time, d.end_time, d.return_message
+    FROM cron.job_run_details d
+    WHERE d.jobid = j.jobid
+    ORDER BY d.start_time DESC NULLS LAST
+    LIMIT 1
+  ) r ON true
+  ORDER BY j.jobname;
+$$;
+
+CREATE OR REPLACE FUNCTION save_scheduled_job(
+  p_job_name text,
+  p_task text,
+  p_schedule text,
+  p_active boolean DEFAULT true
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_command text;
+  v_existing_command text;
+  v_job_id bigint;
+BEGIN
+  IF p_job_name IS NULL OR p_job_name !~ '^[a-z0-9][a-z0-9-]{2,62}$' THEN
+    RAISE EXCEPTION 'Job names use 3 to 63 lowercase letters, digits and dashes';
+  END IF;
+
+  IF p_schedule IS NULL OR p_schedule !~ '^\s*\S+(\s+\S+){4}\s*$' THEN
+    RAISE EXCEPTION 'Schedules are five-field cron expressions';
+  END IF;
+
+  SELECT command INTO v_command FROM scheduled_tasks WHERE task = p_task;
+  IF v_command IS NULL THEN
+    RAISE EXCEPTION 'Unknown scheduled task: %', p_task;
+  END IF;
+
+  -- Never take over a job that runs anything other than a scheduled task
+  SELECT command INTO v_existing_command FROM cron.job WHERE jobname = p_job_name;
+  IF v_existing_command IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM scheduled_tasks WHERE command = v_existing_command) THEN
+    RAISE EXCEPTION 'Job % is not managed from the app', p_job_name;
+  END IF;
+
+  -- Replaces the job of the same name, and rejects an invalid schedule
+  v_job_id := cron.schedule(p_job_name, trim(p_schedule), v_command);
+  PERFORM cron.alter_job(v_job_id, active := p_active);
+
+  RETURN v_job_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_scheduled_job_active(p_job_name text, p_active boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_job_id bigint;
+BEGIN
+  SELECT j.jobid INTO v_job_id
+  FROM cron.job j
+  JOIN scheduled_tasks t ON t.command = j.command
+  WHERE j.jobname = p_job_name;
+
+  IF v_job_id IS NULL THEN
+    RAISE EXCEPTION 'Scheduled job % not found', p_job_name;
+  END IF;
+
+  PERFORM cron.alter_job(v_job_id, active := p_active);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_scheduled_job(p_job_name text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM cron.job j
+    JOIN scheduled_tasks t ON t.command = j.command
+    WHERE j.jobname = p_job_name
+  ) THEN
+    RAISE EXCEPTION 'Scheduled job % not found', p_job_name;
+  END IF;
+
+  PERFORM cron.unschedule(p_job_name);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION list_scheduled_jobs() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION save_scheduled_job(text, text, text, boolean) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION set_scheduled_job_active(text, boolean) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION delete_scheduled_job(text) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION list_scheduled_jobs() TO authenticated;
+GRANT EXECUTE ON FUNCTION save_scheduled_job(text, text, text, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_scheduled_job_active(text, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_scheduled_job(text) TO authenticated;
@@ -0,0 +1,121 @@
+/*
+  # Close and reverse positions in one transaction
+
+  1. Functions
+    - `close_position(group_id, closing_fill, lot_matches, close_group, fill_night_fee, reversal)`
+      - Inserts the closing fill and the lot matches it consumed
+      - Spreads the close-time night fee estimate over the existing fills when `fill_night_fee`
+        is given
+      - Marks the operation closed when `close_group` is true
+      - With `reversal`, opens the operation in the opposite direction holding the excess
+        quantity, linked through `reversed_from_id`
+      - Returns { closing_fill_id, reversed_group_id }
+
+  2. Security
+    - Runs as the caller, so the ownership policies on operation_groups, operation_fills and
+      fill_lot_matches still apply
+    - Execute is granted to authenticated users and the service role
+
+  ## Notes
+
+  - The app and the protective order check in update-stock-prices compute the fill, fees and
+    matches with the position engine and hand them here, so a failed step leaves nothing
+    half written: a reversal either closes the old operation and opens the new one, or neither.
+  - The operation row is locked and must still be open, two concurrent closes cannot both apply.
+*/
+
+CREATE OR REPLACE FUNCTION close_position(
+  p_group_id uuid,
+  p_closing_fill jsonb,
+  p_lot_matches jsonb DEFAULT '[]'::jsonb,
+  p_close_group boolean DEFAULT false,
+  p_fill_night_fee numeric DEFAULT NULL,
+  p_reversal jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_group operation_groups%ROWTYPE;
+  v_closing_fill_id uuid;
+  v_closed_at timestamptz;
+  v_reversed_group_id uuid;
+BEGIN
+  SELECT * INTO v_group FROM operation_groups WHERE id = p_group_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Operation % not found', p_group_id;
+  END IF;
+
+  IF v_group.status <> 'open' THEN
+    RAISE EXCEPTION 'Operation % is already closed', p_group_id;
+  END IF;
+
+  v_closed_at := COALESCE((p_closing_fill->>'fill_timestamp')::timestamptz, now());
+
+  -- Existing fills only, the closing fill carries its own share
+  IF p_fill_night_fee IS NOT NULL THEN
+    UPDATE operation_fills SET night_fee = p_fill_night_fee WHERE group_id = p_group_id;
+  END IF;
+
+  INSERT INTO operation_fills (
+    group_id, side, quantity, price, fees, open_fee, close_fee, night_fee,
+    fee_currency, leverage, fill_timestamp, note
+  )
+  VALUES (
+    p_group_id,
+    p_closing_fill->>'side',
+    (p_closing_fill->>'quantity')::numeric,
+    (p_closing_fill->>'price')::numeric,
+    COALESCE((p_closing_fill->>'close_fee')::numeric, 0),
+    0,
+    COALESCE((p_closing_fill->>'close_fee')::numeric, 0),
+    COALESCE((p_closing_fill->>'night_fee')::numeric, 0),
+    COALESCE(p_closing_fill->>'fee_currency', 'USD'),
+    (p_closing_fill->>'leverage')::numeric,
+    v_closed_at,
+    p_closing_fill->>'note'
+  )
+  RETURNING id INTO v_closing_fill_id;
+
+  INSERT INTO fill_lot_matches (close_fill_id, open_fill_id, quantity, open_price, close_price, realized_pnl)
+  SELECT v_closing_fill_id, m.open_fill_id, m.quantity, m.open_price, m.close_price, m.realized_pnl
+  FROM jsonb_to_recordset(COALESCE(p_lot_matches, '[]'::jsonb))
+    AS m(open_fill_id uuid, quantity numeric, open_price numeric, close_price numeric, realized_pnl numeric);
+
+  IF p_close_group THEN
+    UPDATE operation_groups SET status = 'closed', closed_at = v_closed_at WHERE id = p_group_id;
+  END IF;
+
+  IF p_reversal IS NOT NULL THEN
+    INSERT INTO operation_groups (account_id, symbol_id, user_id, status, open_at, reversed_from_id)
+    VALUES (v_group.account_id, v_group.symbol_id, v_group.user_id, 'open', v_closed_at, p_group_id)
+    RETURNING id INTO v_reversed_group_id;
+
+    INSERT INTO operation_fills (
+      group_id, side, quantity, price, fees, open_fee, close_fee, night_fee,
+      fee_currency, leverage, fill_timestamp
+    )
+    VALUES (
+      v_reversed_group_id,
+      p_reversal->>'side',
+      (p_reversal->>'quantity')::numeric,
+      (p_reversal->>'price')::numeric,
+      COALESCE((p_reversal->>'open_fee')::numeric, 0),
+      COALESCE((p_reversal->>'open_fee')::numeric, 0),
+      0,
+      0,
+      COALESCE(p_reversal->>'fee_currency', 'USD'),
+      (p_reversal->>'leverage')::numeric,
+      v_closed_at
+    );
+  END IF;
+
+  RETURN jsonb_build_object('closing_fill_id', v_closing_fill_id, 'reversed_group_id', v_reversed_group_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION close_position(uuid, jsonb, jsonb, boolean, numeric, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION close_position(uuid, jsonb, jsonb, boolean, numeric, jsonb) TO authenticated, service_role;
@@ -0,0 +1,48 @@
+/*
+  # Keep symbol prices to the price updater and check both sides of lot matches
+
+  1. Security
+    - `symbols`: signed-in users can insert and update the descriptive columns only. The price
+      columns (`latest_price`, `previous_close`, `price_updated_at`, `price_as_of`) are written
+      by the Edge Functions with the service role, so a trader can no longer rewrite the marks
+      every other trader's P&L is valued at
+    - `fill_lot_matches`: inserting a match now also requires the opening fill to belong to the
+      signed-in user, a closing fill of one trader can no longer consume another trader's lot
+
+  ## Notes
+
+  - Column privileges replace the table-wide INSERT and UPDATE grants of `authenticated`, the
+    row policies of 20251112090000 still apply on top. A column added to `symbols` later is not
+    writable by signed-in users until it is granted here as well.
+  - Restoring a backup inserts new symbols without their prices, the next price update fills
+    them in.
+*/
+
+REVOKE INSERT, UPDATE ON symbols FROM anon, authenticated;
+
+GRANT INSERT (
+  id, ticker, exchange, name, asset_type, currency, data_provider, exchange_calendar,
+  is_active, created_at, updated_at
+) ON symbols TO authenticated;
+
+GRANT UPDATE (
+  exchange, name, asset_type, currency, data_provider, exchange_calendar, is_active, updated_at
+) ON symbols TO authenticated;
+
+DROP POLICY IF EXISTS "Users can insert own fill_lot_matches" ON fill_lot_matches;
+
+CREATE POLICY "Users can insert own fill_lot_matches"
+  ON fill_lot_matches FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM operation_fills
+      JOIN operation_groups ON operation_groups.id = operation_fills.group_id
+      WHERE operation_fills.id = close_fill_id AND operation_groups.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM operation_fills
+      JOIN operation_groups ON operation_groups.id = operation_fills.group_id
+      WHERE operation_fills.id = open_fill_id AND operation_groups.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,130 @@
+/*
+  # Admins review held quotes and change the price checks
+
+  1. New Tables
+    - `admin_users`
+      - `user_id` (uuid, primary key) - References auth.users, cascades on delete
+      - `created_at` (timestamptz)
+
+  2. Schema Changes
+    - Add `previous_close` column to `price_update_log`
+      - Type: numeric, nullable
+      - Purpose: Previous close the provider sent with a held quote, applied with it on accept
+
+  3. Functions
+    - `is_admin()` - Whether the signed-in user is listed in `admin_users`
+    - `review_quote(log_id, action)` - Accepts or discards a pending quote. Accepting applies the
+      quoted price and previous close, unless the symbol was priced from a newer quote since; that
+      quote is discarded instead. Returns the review status the entry ended with.
+
+  4. Security
+    - Enable RLS on `admin_users`, signed-in users can read their own row; only postgres and the
+      service role can add admins
+    - `price_check_settings` can be updated by admins only
+    - Rejected log entries are no longer updated directly, `review_quote` checks for an admin and
+      writes the symbol price, which signed-in users cannot
+    - Execute on the functions is granted to authenticated only
+
+  ## Notes
+
+  - Make the first admin from the SQL editor:
+      INSERT INTO admin_users (user_id) VALUES ('<auth user id>');
+  - The price updater discards pending quotes itself once it applies a newer quote of the symbol.
+*/
+
+CREATE TABLE IF NOT EXISTS admin_users (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE admin_users ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own admin_users"
+  ON admin_users FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'price_update_log' AND column_name = 'previous_close'
+  ) THEN
+    ALTER TABLE price_update_log ADD COLUMN previous_close numeric;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (SELECT 1 FROM admin_users WHERE user_id = auth.uid());
+$$;
+
+DROP POLICY IF EXISTS "Authenticated users can update price check settings" ON price_check_settings;
+
+CREATE POLICY "Admins can update price check settings"
+  ON price_check_settings FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Authenticated users can review rejected quotes" ON price_update_log;
+
+CREATE OR REPLACE FUNCTION review_quote(p_log_id uuid, p_action text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_entry price_update_log%ROWTYPE;
+  v_price_as_of timestamptz;
+  v_status text := p_action;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can review quotes';
+  END IF;
+
+  IF p_action NOT IN ('accepted', 'discarded') THEN
+    RAISE EXCEPTION 'Unknown review action: %', p_action;
+  END IF;
+
+  SELECT * INTO v_entry FROM price_update_log WHERE id = p_log_id FOR UPDATE;
+  IF NOT FOUND OR v_entry.review_status IS DISTINCT FROM 'pending' THEN
+    RAISE EXCEPTION 'Quote % is not waiting for review', p_log_id;
+  END IF;
+
+  IF p_action = 'accepted' THEN
+    SELECT price_as_of INTO v_price_as_of FROM symbols WHERE id = v_entry.symbol_id FOR UPDATE;
+
+    -- A quote applied since is newer than the held one, keep it
+    IF v_price_as_of IS NOT NULL AND (v_entry.quote_time IS NULL OR v_entry.quote_time <= v_price_as_of) THEN
+      v_status := 'discarded';
+    ELSE
+      UPDATE symbols
+      SET latest_price = v_entry.new_price,
+          previous_close = COALESCE(v_entry.previous_close, previous_close),
+          price_as_of = v_entry.quote_time,
+          price_updated_at = now(),
+          updated_at = now()
+      WHERE id = v_entry.symbol_id;
+    END IF;
+  END IF;
+
+  UPDATE price_update_log
+  SET review_status = v_status, reviewed_at = now()
+  WHERE id = p_log_id;
+
+  RETURN v_status;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION is_admin() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION review_quote(uuid, text) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION is_admin() TO authenticated;
+GRANT EXECUTE ON FUNCTION review_quote(uuid, text) TO authenticated;
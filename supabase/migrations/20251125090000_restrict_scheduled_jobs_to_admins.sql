@@ -0,0 +1,114 @@
+/*
+  # Only admins manage scheduled jobs
+
+  1. Functions
+    - `save_scheduled_job`, `set_scheduled_job_active` and `delete_scheduled_job` raise unless
+      the caller is an admin (`is_admin()`, see 20251124090000)
+
+  2. Security
+    - The functions run as their owner and change pg_cron jobs, a signed-in trader could pause
+      the price updates or the financing accrual of everyone. Listing the jobs stays open to
+      signed-in users.
+
+  ## Notes
+
+  - The function bodies are otherwise unchanged from 20251121090000.
+*/
+
+CREATE OR REPLACE FUNCTION save_scheduled_job(
+  p_job_name text,
+  p_task text,
+  p_schedule text,
+  p_active boolean DEFAULT true
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_command text;
+  v_existing_command text;
+  v_job_id bigint;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage scheduled jobs';
+  END IF;
+
+  IF p_job_name IS NULL OR p_job_name !~ '^[a-z0-9][a-z0-9-]{2,62}$' THEN
+    RAISE EXCEPTION 'Job names use 3 to 63 lowercase letters, digits and dashes';
+  END IF;
+
+  IF p_schedule IS NULL OR p_schedule !~ '^\s*\S+(\s+\S+){4}\s*$' THEN
+    RAISE EXCEPTION 'Schedules are five-field cron expressions';
+  END IF;
+
+  SELECT command INTO v_command FROM scheduled_tasks WHERE task = p_task;
+  IF v_command IS NULL THEN
+    RAISE EXCEPTION 'Unknown scheduled task: %', p_task;
+  END IF;
+
+  -- Never take over a job that runs anything other than a scheduled task
+  SELECT command INTO v_existing_command FROM cron.job WHERE jobname = p_job_name;
+  IF v_existing_command IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM scheduled_tasks WHERE command = v_existing_command) THEN
+    RAISE EXCEPTION 'Job % is not managed from the app', p_job_name;
+  END IF;
+
+  -- Replaces the job of the same name, and rejects an invalid schedule
+  v_job_id := cron.schedule(p_job_name, trim(p_schedule), v_command);
+  PERFORM cron.alter_job(v_job_id, active := p_active);
+
+  RETURN v_job_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_scheduled_job_active(p_job_name text, p_active boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_job_id bigint;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage scheduled jobs';
+  END IF;
+
+  SELECT j.jobid INTO v_job_id
+  FROM cron.job j
+  JOIN scheduled_tasks t ON t.command = j.command
+  WHERE j.jobname = p_job_name;
+
+  IF v_job_id IS NULL THEN
+    RAISE EXCEPTION 'Scheduled job % not found', p_job_name;
+  END IF;
+
+  PERFORM cron.alter_job(v_job_id, active := p_active);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_scheduled_job(p_job_name text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage scheduled jobs';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM cron.job j
+    JOIN scheduled_tasks t ON t.command = j.command
+    WHERE j.jobname = p_job_name
+  ) THEN
+    RAISE EXCEPTION 'Scheduled job % not found', p_job_name;
+  END IF;
+
+  PERFORM cron.unschedule(p_job_name);
+END;
+$$;
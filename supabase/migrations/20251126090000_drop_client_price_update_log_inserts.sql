@@ -0,0 +1,15 @@
+/*
+  # Only the Edge Functions write the price update log
+
+  1. Security
+    - Drop the insert policy of `price_update_log` for signed-in clients
+    - The backup restore does not write the log, the app only reads it; the Edge Functions
+      insert with the service role, which bypasses row-level security
+
+  ## Notes
+
+  - 20251112090000 let every signed-in user insert log entries, so a client could forge
+    fetches, protective order triggers or quotes waiting for review.
+*/
+
+DROP POLICY IF EXISTS "Authenticated users can insert price update logs" ON price_update_log;
@@ -0,0 +1,21 @@
+/*
+  # Let the backup restore bring back notifications
+
+  1. Schema Changes
+    - `notifications.user_id` defaults to auth.uid(), like the other owned tables
+
+  2. Security
+    - Signed-in users can insert notifications addressed to themselves
+
+  ## Notes
+
+  - The price updater still creates notifications with the service role and sets `user_id`
+    explicitly. A user can only add to their own inbox.
+*/
+
+ALTER TABLE notifications ALTER COLUMN user_id SET DEFAULT auth.uid();
+
+CREATE POLICY "Users can insert own notifications"
+  ON notifications FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,46 @@
+/*
+  # Lease price update runs to one invocation at a time
+
+  1. Schema Changes
+    - Add `lease_token` column to `price_update_runs`
+      - Type: uuid, nullable
+      - Purpose: Token of the invocation working on the run. An invocation swaps in a new token
+        before it starts and hands it to the continuation it triggers
+
+  2. Indexes
+    - Partial unique index on `price_update_runs` over the running runs, at most one run is
+      running. Two triggers that both find no running run cannot both start one, the second
+      insert fails and that trigger backs off as if the run were held.
+
+  ## Notes
+
+  - A continuation request that names a run must carry its current token. A replayed or
+    duplicated request cannot resume the run next to the invocation holding it, unless the run
+    went stale and the holder is gone.
+  - Saving progress checks the token, an invocation that lost the run stops after its batch.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'price_update_runs' AND column_name = 'lease_token'
+  ) THEN
+    ALTER TABLE price_update_runs ADD COLUMN lease_token uuid;
+  END IF;
+END $$;
+
+-- Older duplicates of the running run would block the index
+UPDATE price_update_runs
+SET status = 'failed', finished_at = now(), updated_at = now()
+WHERE status = 'running'
+  AND id <> (
+    SELECT id FROM price_update_runs
+    WHERE status = 'running'
+    ORDER BY started_at DESC
+    LIMIT 1
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_update_runs_one_running
+  ON price_update_runs ((true))
+  WHERE status = 'running';
@@ -0,0 +1,71 @@
+/*
+  # Track price bar ingest runs
+
+  1. New Tables
+    - `price_bar_ingest_runs`
+      - `id` (uuid, primary key)
+      - `triggered_by` (text) - 'cron' or 'manual'
+      - `status` (text) - 'running', 'completed' or 'failed'
+      - `interval` (text) - Bar interval the run ingests
+      - `days` (integer, nullable) - Backfill window requested, null to continue from the last bar
+      - `total_symbols` (integer) - Active symbols when the run started
+      - `processed` (integer) - Symbols handled so far
+      - `succeeded`, `failed` (integer) - Outcome counts
+      - `bars` (integer) - Bars stored
+      - `cursor` (text, nullable) - Last ticker of the last finished batch, symbols run in ticker order
+      - `errors` (jsonb) - First failures of the run as { ticker, error }
+      - `lease_token` (uuid, nullable) - Token of the invocation working on the run
+      - `started_at`, `updated_at`, `finished_at` (timestamptz)
+      - `duration_ms` (integer, nullable) - Wall time from start to finish across invocations
+
+  2. Indexes
+    - Partial unique index over the running runs, at most one run is running. Two triggers that
+      both find no running run cannot both start one, the second insert fails
+
+  3. Security
+    - Enable RLS on `price_bar_ingest_runs`
+    - Signed-in users can read runs, they are written by the ingest-price-bars edge function
+      with the service role
+
+  ## Notes
+
+  - Ingesting every active symbol works like the price update runs of 20251117090000 and
+    20251128090000: batches in ticker order, a cursor saved after each batch, and a
+    continuation request carrying the run's lease when the invocation nears the time limit.
+  - A run that died is resumed only by a request for the same interval and window, a request
+    for other bars is refused until the run finished or was abandoned.
+  - Backfilling a single symbol does not create a run.
+*/
+
+CREATE TABLE IF NOT EXISTS price_bar_ingest_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  triggered_by text NOT NULL DEFAULT 'manual',
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  interval text NOT NULL DEFAULT '1d',
+  days integer,
+  total_symbols integer NOT NULL DEFAULT 0,
+  processed integer NOT NULL DEFAULT 0,
+  succeeded integer NOT NULL DEFAULT 0,
+  failed integer NOT NULL DEFAULT 0,
+  bars integer NOT NULL DEFAULT 0,
+  cursor text,
+  errors jsonb NOT NULL DEFAULT '[]'::jsonb,
+  lease_token uuid,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  duration_ms integer
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_bar_ingest_runs_started_at ON price_bar_ingest_runs(started_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_bar_ingest_runs_one_running
+  ON price_bar_ingest_runs ((true))
+  WHERE status = 'running';
+
+ALTER TABLE price_bar_ingest_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view price bar ingest runs"
+  ON price_bar_ingest_runs FOR SELECT
+  TO authenticated
+  USING (true);
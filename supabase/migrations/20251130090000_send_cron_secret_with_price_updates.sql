@@ -0,0 +1,76 @@
+/*
+  # Send the cron secret with the scheduled price update
+
+  1. Functions
+    - `trigger_price_update()` sends the `cron_secret` of `cron_config` in the `X-Cron-Secret`
+      header, like the other scheduled jobs (see 20251105090000)
+
+  2. Security
+    - The Edge Functions run with the service role and now only accept the cron secret, their
+      own continuations or a signed-in admin. The anon key alone no longer runs them.
+    - `trigger_price_update()` runs with a fixed search_path again, 20251028062045 recreated it
+      without the one 20251027165956 added. Only postgres (pg_cron) can execute it.
+
+  ## Notes
+
+  - Set `CRON_SECRET` for the Edge Functions and the `cron_secret` row of `cron_config` to the
+    same value, otherwise the scheduled jobs are refused.
+*/
+
+CREATE OR REPLACE FUNCTION trigger_price_update()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  request_id bigint;
+  supabase_url text;
+  anon_key text;
+  cron_secret text;
+  function_url text;
+BEGIN
+  -- Retrieve configuration from config table
+  SELECT value INTO supabase_url
+  FROM cron_config
+  WHERE key = 'supabase_url';
+
+  SELECT value INTO anon_key
+  FROM cron_config
+  WHERE key = 'anon_key';
+
+  SELECT value INTO cron_secret
+  FROM cron_config
+  WHERE key = 'cron_secret';
+
+  -- Check if configuration is available
+  IF supabase_url IS NULL OR anon_key IS NULL OR cron_secret IS NULL THEN
+    RAISE NOTICE 'Configuration not found. Please check cron_config table.';
+    RETURN;
+  END IF;
+
+  -- Construct the Edge Function URL
+  function_url := supabase_url || '/functions/v1/update-stock-prices';
+
+  RAISE NOTICE 'Triggering price update to: %', function_url;
+
+  -- Make async HTTP POST request using pg_net
+  SELECT net.http_post(
+    url := function_url,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || anon_key,
+      'X-Cron-Secret', cron_secret
+    ),
+    body := jsonb_build_object('triggered_by', 'cron')
+  ) INTO request_id;
+
+  RAISE NOTICE 'Price update triggered via cron, request_id: %', request_id;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Error in trigger_price_update: % %', SQLERRM, SQLSTATE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION trigger_price_update() FROM PUBLIC, anon, authenticated;
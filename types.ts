@@ -11,6 +11,8 @@ export enum TradeType {
   SHORT = 'short',
 }
 
+export type LotMatchingMethod = 'fifo' | 'lifo' | 'average';
+
 export interface Trade {
   id: string;
   symbol: string;
@@ -30,10 +32,21 @@ export interface Trade {
     close: number;
     night: number;
     total: number;
+    financing?: number; // Part of `night` booked by the daily accrual, not stored on the fills
   };
   originalQuantity?: number; // Original opening quantity
   isPartiallyCloseD?: boolean; // Whether the position has been partially closed
   latestPrice?: number; // Latest price from symbols table
+  currency?: string; // Instrument currency, prices, P&L and fees are expressed in it (default USD)
+  reversedFromId?: string; // Operation this position was opened by reversing
+  leverage?: number; // Effective leverage of the open fills (1:X)
+  marginUsed?: number; // Margin held by the open quantity at the latest price
+  stopLoss?: number | null; // null clears the level on update
+  takeProfit?: number | null;
+  trailingStopDistance?: number | null; // Price distance the trailing stop follows
+  trailingStopPrice?: number | null; // Current trailing stop level (maintained by the price updater)
+  exchangeCalendar?: string; // Exchange calendar code of the symbol, e.g. XNYS
+  priceAsOf?: string; // Time of the last trade behind latestPrice
 }
 
 export interface Account {
@@ -44,12 +57,109 @@ export interface Account {
   status: 'active' | 'inactive';
   openCloseCommission: number; // Percentage (0-100)
   nightCommission: number; // Percentage (0-100)
+  lotMatchingMethod: LotMatchingMethod; // How closing fills are matched against opening lots
+  financingTripleDay: number | null; // ISO weekday charged three nights (null = no triple charge)
+  financingWeekends: boolean; // Charge weekend nights individually
+  marginCallLevel: number; // Margin level (%) at or below which the account is in margin call
+  currency: string; // Currency of the balance, cash ledger and reported P&L
+}
+
+export type CashTransactionType = 'deposit' | 'withdrawal' | 'transfer_in' | 'transfer_out' | 'dividend' | 'adjustment';
+
+export interface CashTransaction {
+  id: string;
+  accountId: string;
+  type: CashTransactionType;
+  amount: number; // Signed: positive credits the account, negative debits it
+  transferId?: string; // Shared by both legs of a transfer
+  counterpartyAccountId?: string;
+  description?: string;
+  occurredAt: string;
 }
 
 export interface WatchlistItem {
+  id: string;
+  watchlistId: string;
   symbol: string;
   companyName: string;
   currentPrice: number;
+  previousClose?: number; // Previous session close, for the daily change
+  currency?: string;
+  position: number;
+  notes?: string;
+  targetPrice?: number;
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  position: number;
+  items: WatchlistItem[]; // Sorted by position
+}
+
+export type PriceAlertType = 'price_above' | 'price_below' | 'percent_move' | 'stop_distance';
+
+export interface PriceAlert {
+  id: string;
+  symbol: string;
+  alertType: PriceAlertType;
+  threshold: number; // Price level, or a percentage for percent_move and stop_distance
+  operationId?: string; // Operation watched by a stop_distance alert
+  note?: string;
+  isActive: boolean;
+  triggeredAt?: string;
+  triggeredPrice?: number;
+  createdAt: string;
+}
+
+export interface AppNotification {
+  id: string;
+  alertId?: string;
+  symbol?: string;
+  title: string;
+  message: string;
+  price?: number;
+  readAt?: string;
+  createdAt: string;
+}
+
+export type PriceBarInterval = '1d' | '1h' | '15m' | '5m';
+
+export interface PriceBar {
+  time: string; // Start of the bar
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+// Anomaly rules the price updater applies before accepting a quote, null disables a rule
+export interface PriceCheckSettings {
+  maxJumpPercent: number | null; // Largest move from the previous close
+  maxQuoteAgeMinutes: number | null; // Largest delay of a quote behind the market
+  rejectZeroVolume: boolean;
+}
+
+// A job the app can schedule with pg_cron, one per trigger function
+export interface ScheduledTask {
+  task: string;
+  label: string;
+  description?: string;
+}
+
+export interface ScheduledJob {
+  id: number;
+  name: string; // pg_cron job name, unique
+  task: string;
+  schedule: string; // Five-field cron expression, UTC
+  isActive: boolean;
+  lastRun?: {
+    status: string; // pg_cron run status, e.g. succeeded or failed
+    startedAt?: string;
+    finishedAt?: string;
+    message?: string;
+  };
 }
 
 export enum AnalystRating {